@@ -10,12 +10,14 @@ import ContactPage from './pages/ContactPage';
 import PricingPage from './pages/PricingPage';
 import BookingPage from './pages/BookingPage';
 import ConfirmationPage from './pages/ConfirmationPage';
+import FakeCheckoutPage from './pages/FakeCheckoutPage';
 import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
 import AdminDashboard from './pages/AdminDashboard';
 import AdminClientsPage from './pages/AdminClientsPage';
 import AdminClientProfilePage from './pages/AdminClientProfilePage';
 import MyBookingsPage from './pages/MyBookingsPage';
+import InvoicePage from './pages/InvoicePage';
 import CMSPage from './pages/CMSPage';
 import { Toaster } from 'react-hot-toast';
 
@@ -34,9 +36,11 @@ function App() {
                 <Route path="/pricing" element={<PricingPage />} />
                 <Route path="/booking" element={<BookingPage />} />
                 <Route path="/confirmation" element={<ConfirmationPage />} />
+                <Route path="/payment/fake" element={<FakeCheckoutPage />} />
                 <Route path="/login" element={<LoginPage />} />
                 <Route path="/register" element={<RegisterPage />} />
                 <Route path="/my-bookings" element={<MyBookingsPage />} />
+                <Route path="/invoices/:invoiceId" element={<InvoicePage />} />
                 <Route path="/admin" element={<AdminDashboard />} />
                 <Route path="/admin/clients" element={<AdminClientsPage />} />
                 <Route path="/admin/clients/:userId" element={<AdminClientProfilePage />} />
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { Plus, Edit, Trash2, Save, Eye, EyeOff } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase, AddOnRow, AddOnPriceUnit } from '../lib/supabase';
+import { ADD_ON_PRICE_UNITS, formatAddOnPrice } from '../utils/addOnHelpers';
+import { useCurrency } from '../hooks/useCurrency';
+
+interface AddOnsEditorProps {
+  addOns: AddOnRow[];
+  onSaved: () => void;
+}
+
+interface AddOnForm {
+  name: string;
+  description: string;
+  price: string;
+  price_unit: AddOnPriceUnit;
+  display_order: string;
+}
+
+const EMPTY_FORM: AddOnForm = {
+  name: '',
+  description: '',
+  price: '',
+  price_unit: 'booking',
+  display_order: '0'
+};
+
+const toForm = (addOn: AddOnRow): AddOnForm => ({
+  name: addOn.name,
+  description: addOn.description,
+  price: addOn.price.toString(),
+  price_unit: addOn.price_unit,
+  display_order: addOn.display_order.toString()
+});
+
+// CMS editor for the add-on services customers can book; hidden add-ons stay on existing bookings
+const AddOnsEditor: React.FC<AddOnsEditorProps> = ({ addOns, onSaved }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AddOnForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const { currency } = useCurrency();
+
+  const startEditing = (addOn: AddOnRow | null) => {
+    setEditingId(addOn ? addOn.id : 'new');
+    setForm(addOn ? toForm(addOn) : EMPTY_FORM);
+  };
+
+  const saveAddOn = async () => {
+    if (!form.name.trim() || !(Number(form.price) >= 0) || form.price.trim() === '') {
+      toast.error('Enter a name and a price of zero or more');
+      return;
+    }
+
+    const values = {
+      name: form.name.trim(),
+      description: form.description.trim(),
+      price: Number(form.price),
+      price_unit: form.price_unit,
+      display_order: parseInt(form.display_order, 10) || 0
+    };
+
+    setSaving(true);
+    try {
+      const { error } = editingId === 'new'
+        ? await supabase.from('add_ons').insert(values)
+        : await supabase.from('add_ons').update(values).eq('id', editingId);
+
+      if (error) throw error;
+      toast.success('Add-on saved');
+      setEditingId(null);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving add-on:', error);
+      toast.error('Failed to save add-on');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (addOn: AddOnRow) => {
+    try {
+      const { error } = await supabase.from('add_ons').update({ is_active: !addOn.is_active }).eq('id', addOn.id);
+      if (error) throw error;
+      onSaved();
+    } catch (error) {
+      console.error('Error updating add-on:', error);
+      toast.error('Failed to update add-on');
+    }
+  };
+
+  const deleteAddOn = async (addOn: AddOnRow) => {
+    if (!confirm(`Delete ${addOn.name}? Bookings that include it keep their line item.`)) return;
+
+    try {
+      const { error } = await supabase.from('add_ons').delete().eq('id', addOn.id);
+      if (error) throw error;
+      toast.success('Add-on deleted');
+      onSaved();
+    } catch (error) {
+      console.error('Error deleting add-on:', error);
+      toast.error('Failed to delete add-on');
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+  const renderForm = () => (
+    <div className="space-y-4">
+      <input
+        type="text"
+        value={form.name}
+        onChange={(e) => setForm({ ...form, name: e.target.value })}
+        placeholder="Add-on Name"
+        className={inputClass}
+      />
+      <div className="grid grid-cols-3 gap-2">
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={form.price}
+          onChange={(e) => setForm({ ...form, price: e.target.value })}
+          placeholder="Price"
+          className={inputClass}
+        />
+        <select
+          value={form.price_unit}
+          onChange={(e) => setForm({ ...form, price_unit: e.target.value as AddOnPriceUnit })}
+          className={inputClass}
+        >
+          {ADD_ON_PRICE_UNITS.map(unit => (
+            <option key={unit.value} value={unit.value}>{unit.label}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          value={form.display_order}
+          onChange={(e) => setForm({ ...form, display_order: e.target.value })}
+          placeholder="Order"
+          title="Display order"
+          className={inputClass}
+        />
+      </div>
+      <textarea
+        value={form.description}
+        onChange={(e) => setForm({ ...form, description: e.target.value })}
+        placeholder="Description"
+        rows={2}
+        className={inputClass}
+      />
+      <div className="flex space-x-2">
+        <button
+          onClick={saveAddOn}
+          disabled={saving}
+          className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600 transition-colors flex items-center disabled:opacity-50"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          onClick={() => setEditingId(null)}
+          className="bg-gray-500 text-white px-4 py-2 rounded-md hover:bg-gray-600 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-lg font-medium text-gray-900">Add-On Services</h3>
+        <button
+          onClick={() => startEditing(null)}
+          className="bg-yellow-500 text-black px-4 py-2 rounded-md font-semibold hover:bg-yellow-600 transition-colors flex items-center"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Add-On
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {editingId === 'new' && (
+          <div className="bg-white rounded-lg shadow-sm p-6">{renderForm()}</div>
+        )}
+        {addOns.map(addOn => (
+          <div key={addOn.id} className={`bg-white rounded-lg shadow-sm p-6 ${addOn.is_active ? '' : 'opacity-60'}`}>
+            {editingId === addOn.id ? (
+              renderForm()
+            ) : (
+              <>
+                <div className="mb-4">
+                  <h4 className="font-semibold text-gray-900">{addOn.name}</h4>
+                  <p className="text-xl font-bold text-yellow-600">{formatAddOnPrice(addOn.price, addOn.price_unit, currency)}</p>
+                  <p className="text-gray-600 text-sm mt-1">{addOn.description}</p>
+                  {!addOn.is_active && (
+                    <span className="inline-block bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded mt-2">Hidden</span>
+                  )}
+                </div>
+                <div className="flex justify-center space-x-4">
+                  <button
+                    onClick={() => startEditing(addOn)}
+                    className="text-blue-600 hover:text-blue-900 flex items-center"
+                  >
+                    <Edit className="w-4 h-4 mr-1" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => toggleActive(addOn)}
+                    className="text-gray-600 hover:text-gray-900"
+                    title={addOn.is_active ? 'Hide from customers' : 'Offer to customers'}
+                  >
+                    {addOn.is_active ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => deleteAddOn(addOn)} className="text-red-600 hover:text-red-900" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AddOnsEditor;
@@ -3,26 +3,36 @@ import { Calendar, Clock, User, Phone, Mail, MessageCircle, X, Search, Plus } fr
 import { useBooking } from '../contexts/BookingContext';
 import toast from 'react-hot-toast';
 import { supabase } from '../lib/supabase'; // assuming supabase is configured like in the working code
-
-// Helper function to convert duration to hours
-const convertDurationToHours = (duration: string, totalSlots: number): number => {
-  switch (duration) {
-    case '1-hour':
-      return 1;
-    case '2-hours':
-      return 2;
-    case '4-hours':
-      return 4;
-    case '1-day':
-      return totalSlots; // Full day = all available hourly slots
-    case '1-week':
-      return totalSlots * 7;
-    case '1-month':
-      return totalSlots * 30;
-    default:
-      return 1;
-  }
-};
+import ScheduleDatePicker from './ScheduleDatePicker';
+import RecurrenceFields from './RecurrenceFields';
+import { useScheduleCalendar } from '../hooks/useScheduleCalendar';
+import { useSeriesConflicts } from '../hooks/useSeriesConflicts';
+import { useWorkspaceRates } from '../hooks/useWorkspaceRates';
+import { useCurrency } from '../hooks/useCurrency';
+import { useTaxRates } from '../hooks/useTaxRates';
+import { BOOKING_DURATIONS, getBookingPrice, getDurationLabel, getPricedDurations } from '../utils/pricingHelpers';
+import { RecurrenceRule, canRepeatDuration, getOccurrenceDates } from '../utils/recurrenceHelpers';
+import { getWorkspaceScheduleForDate } from '../utils/scheduleHelpers';
+import { applyTax, getApplicableTaxes } from '../utils/taxHelpers';
+import { notifyClientCreated } from '../utils/notificationHelpers';
+import {
+  WorkspaceScheduleSource,
+  getWorkspaceSchedule,
+  formatTimeLabel,
+  fetchActiveBookings,
+  getUnavailableTimeSlots,
+  getBookingEndDate,
+  isMultiDayDuration,
+  BookingConflictError
+} from '../utils/bookingHelpers';
+
+interface WorkspaceType extends WorkspaceScheduleSource {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  price_unit: string;
+}
 
 interface ClientUser {
   id: string;
@@ -32,13 +42,25 @@ interface ClientUser {
   role: 'admin' | 'staff' | 'customer';
 }
 
+// Starting values when the form is opened from a free cell of the occupancy grid
+export interface AdminBookingPrefill {
+  workspaceType: string;
+  date: string;
+  timeSlot: string;
+  deskNumber: number | null;
+}
+
 const AdminBookingForm: React.FC<{
   onClose: () => void;
   onSuccess: () => void;
-}> = ({ onClose, onSuccess }) => {
-  const { createAdminBooking } = useBooking();
-  const [workspaceTypes, setWorkspaceTypes] = useState([]);
-  const [hourlySlots, setHourlySlots] = useState<string[]>([]);
+  prefill?: AdminBookingPrefill | null;
+}> = ({ onClose, onSuccess, prefill = null }) => {
+  const { createAdminBooking, createAdminBookingSeries } = useBooking();
+  const { calendar } = useScheduleCalendar();
+  const { rates } = useWorkspaceRates();
+  const { formatPrice } = useCurrency();
+  const { taxRates } = useTaxRates();
+  const [workspaceTypes, setWorkspaceTypes] = useState<WorkspaceType[]>([]);
   const [bookedSlots, setBookedSlots] = useState<string[]>([]);
   const [checkingAvailability, setCheckingAvailability] = useState(false);
   const [clients, setClients] = useState<ClientUser[]>([]);
@@ -47,30 +69,40 @@ const AdminBookingForm: React.FC<{
   const [showClientSearch, setShowClientSearch] = useState(false);
   const [creatingNewClient, setCreatingNewClient] = useState(false);
   const [formData, setFormData] = useState({
-    workspaceType: '',
-    date: '',
-    timeSlot: '',
-    duration: '',
+    workspaceType: prefill?.workspaceType || '',
+    date: prefill?.date || '',
+    timeSlot: prefill?.timeSlot || '',
+    duration: prefill ? '1-hour' : '',
     customerName: '',
     customerEmail: '',
     customerPhone: '',
     customerWhatsapp: '',
   });
+  const [preferredDesk, setPreferredDesk] = useState<number | null>(prefill?.deskNumber ?? null);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
   const [newClientData, setNewClientData] = useState({ name: '', email: '', whatsapp: '', phone: '' });
 
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const totalDesks = 6; // Assuming this is fixed, like in the working example
-
-  const durations = [
-    { value: '1-hour', label: '1 Hour', multiplier: 1 },
-    { value: '2-hours', label: '2 Hours', multiplier: 2 },
-    { value: '4-hours', label: '4 Hours', multiplier: 4 },
-    { value: '1-day', label: '1 Day', multiplier: 1 },
-    { value: '1-week', label: '1 Week', multiplier: 7 },
-    { value: '1-month', label: '1 Month', multiplier: 30 },
-  ];
-
-  // Fetch workspace types and hourly slots
+
+  // Capacity and slot schedule of the selected workspace type, narrowed to each day's opening hours
+  const selectedWorkspace = workspaceTypes.find(w => w.name === formData.workspaceType);
+  const scheduleFor = (date: string) => getWorkspaceScheduleForDate(selectedWorkspace, date, calendar);
+  const timeSlots = formData.date ? scheduleFor(formData.date).timeSlots : getWorkspaceSchedule(selectedWorkspace).timeSlots;
+
+  // Repeating bookings: every date of the series, and those that are closed or full
+  const recurrenceRule = canRepeatDuration(formData.duration) ? recurrence : null;
+  const seriesDates = recurrenceRule ? getOccurrenceDates(formData.date, recurrenceRule) : [];
+  const { conflicts: seriesConflicts, checking: checkingSeries, refetch: recheckSeries } = useSeriesConflicts(
+    formData.workspaceType,
+    seriesDates,
+    formData.timeSlot,
+    formData.duration
+  );
+  const bookableSeriesDates = seriesDates.filter(date => !seriesConflicts.some(c => c.conflict_date === date));
+
+  const durations = formData.workspaceType ? getPricedDurations(rates, formData.workspaceType) : BOOKING_DURATIONS;
+
+  // Fetch workspace types and clients
   useEffect(() => {
     fetchWorkspaceTypes();
     fetchClients();
@@ -82,7 +114,7 @@ const AdminBookingForm: React.FC<{
     } else {
       setBookedSlots([]);
     }
-  }, [formData.workspaceType, formData.date, formData.duration]);
+  }, [formData.workspaceType, formData.date, formData.duration, calendar]);
 
   // Fetch clients for search
   const fetchClients = async () => {
@@ -174,29 +206,12 @@ const AdminBookingForm: React.FC<{
         throw new Error(`Failed to create user profile: ${userError.message}`);
       }
 
-      // Send notification with credentials
+      // Send the credentials through the webhooks; the account stands even if this fails
       try {
-        await fetch('https://aibackend.cp-devcode.com/webhook/1ef572d1-3263-4784-bc19-c38b3fbc09d0', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            action: 'new_client_created',
-            clientData: {
-              name: newClientData.name,
-              email: newClientData.email,
-              whatsapp: newClientData.whatsapp,
-              phone: newClientData.phone,
-              password: randomPassword
-            },
-            createdBy: 'Admin',
-            timestamp: new Date().toISOString()
-          })
-        });
-      } catch (webhookError) {
-        console.error('Webhook failed:', webhookError);
-        // Don't fail the entire operation if webhook fails
+        await notifyClientCreated(userData.id, randomPassword, newClientData.phone);
+      } catch (notificationError) {
+        console.error('Error queuing client notification:', notificationError);
+        toast.error('The client was created, but their login details could not be sent.');
       }
 
       // Update clients list and select the new client
@@ -227,7 +242,6 @@ const AdminBookingForm: React.FC<{
       if (error) throw error;
 
       setWorkspaceTypes(data || []);
-      setHourlySlots(['08:00 AM', '09:00 AM', '10:00 AM', '11:00 AM', '12:00 PM', '01:00 PM', '02:00 PM', '03:00 PM', '04:00 PM', '05:00 PM']); // Example slots, you can customize
     } catch (error) {
       console.error('Error fetching workspace types:', error);
     }
@@ -238,71 +252,9 @@ const AdminBookingForm: React.FC<{
     setCheckingAvailability(true);
 
     try {
-      const { data, error } = await supabase
-        .from('bookings')
-        .select('time_slot, duration, desk_number')
-        .eq('workspace_type', formData.workspaceType)
-        .eq('date', formData.date)
-        .in('status', ['pending', 'confirmed', 'code_sent']);
-
-      if (error) throw error;
-
-      const requestedDurationHours = convertDurationToHours(formData.duration, hourlySlots.length);
-      const deskAvailabilityMatrix = new Map<string, boolean[]>();
-
-      // Initialize availability matrix with all desks being available
-      hourlySlots.forEach((slot) => {
-        deskAvailabilityMatrix.set(slot, new Array(totalDesks).fill(true));
-      });
-
-      // Mark desks as unavailable based on existing bookings
-      data?.forEach((booking) => {
-        const bookingDurationHours = convertDurationToHours(booking.duration, hourlySlots.length);
-        const occupiedSlots = getHourlySlotsForBooking(booking.time_slot, bookingDurationHours, hourlySlots);
-
-        occupiedSlots.forEach((slot) => {
-          const availability = deskAvailabilityMatrix.get(slot);
-          if (availability) {
-            if (booking.desk_number !== null && booking.desk_number >= 1 && booking.desk_number <= totalDesks) {
-              availability[booking.desk_number - 1] = false;
-            } else {
-              availability.fill(false);
-            }
-          }
-        });
-      });
-
-      // Check for unavailable slots
-      const unavailableSlots: string[] = [];
-
-      hourlySlots.forEach((startSlot) => {
-        const requiredSlots = getHourlySlotsForBooking(startSlot, requestedDurationHours, hourlySlots);
-        if (requiredSlots.length < requestedDurationHours) {
-          unavailableSlots.push(startSlot);
-          return;
-        }
-
-        let hasAvailableDesk = false;
-        for (let deskIndex = 0; deskIndex < totalDesks; deskIndex++) {
-          let deskAvailableForAllSlots = true;
-          for (const slot of requiredSlots) {
-            const availability = deskAvailabilityMatrix.get(slot);
-            if (!availability || !availability[deskIndex]) {
-              deskAvailableForAllSlots = false;
-              break;
-            }
-          }
-          if (deskAvailableForAllSlots) {
-            hasAvailableDesk = true;
-            break;
-          }
-        }
-
-        if (!hasAvailableDesk) {
-          unavailableSlots.push(startSlot);
-        }
-      });
-
+      const endDate = getBookingEndDate(formData.date, formData.duration);
+      const bookings = await fetchActiveBookings(formData.workspaceType, formData.date, endDate);
+      const unavailableSlots = getUnavailableTimeSlots(formData.date, formData.duration, bookings, scheduleFor);
       setBookedSlots(unavailableSlots);
     } catch (error) {
       console.error('Error fetching booked slots:', error);
@@ -312,14 +264,11 @@ const AdminBookingForm: React.FC<{
     }
   };
 
-  const getHourlySlotsForBooking = (startSlot: string, durationHours: number, allSlots: string[]): string[] => {
-    const startIndex = allSlots.indexOf(startSlot);
-    if (startIndex === -1) return [];
-    return allSlots.slice(startIndex, startIndex + durationHours);
-  };
-
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
+    if (name === 'workspaceType') {
+      setPreferredDesk(null); // Desk numbers belong to one workspace type
+    }
     if ((name === 'workspaceType' || name === 'date' || name === 'duration') && formData.timeSlot) {
       setFormData((prev) => ({
         ...prev,
@@ -332,22 +281,51 @@ const AdminBookingForm: React.FC<{
         [name]: value,
       }));
     }
-  };
 
-  const calculatePrice = () => {
-    const workspace = workspaceTypes.find((w) => w.name === formData.workspaceType);
-    const duration = durations.find((d) => d.value === formData.duration);
-    if (!workspace || !duration) return 0;
-    return workspace.price * duration.multiplier;
+    // Not every workspace type offers every duration
+    if (name === 'workspaceType' && formData.duration && getBookingPrice(rates, value, formData.duration) === null) {
+      setFormData((prev) => ({ ...prev, duration: '' }));
+    }
   };
 
+  // Including taxes added on top of the rate
+  const calculatePrice = () =>
+    applyTax(
+      getBookingPrice(rates, formData.workspaceType, formData.duration) ?? 0,
+      getApplicableTaxes(taxRates, formData.workspaceType)
+    ).gross_amount;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
 
     try {
       const totalPrice = calculatePrice();
-      const bookingData = { ...formData, totalPrice };
+      const { timeSlot, ...details } = formData;
+      const bookingData = {
+        ...details,
+        startTime: timeSlot,
+        deskNumber: preferredDesk,
+        totalPrice,
+        userId: selectedClient?.id ?? null
+      };
+
+      if (recurrenceRule) {
+        if (bookableSeriesDates.length === 0) {
+          toast.error('None of the dates in this series can be booked');
+          return;
+        }
+        const created = await createAdminBookingSeries(bookingData, recurrenceRule, bookableSeriesDates);
+        toast.success(
+          seriesConflicts.length > 0
+            ? `${created.length} bookings created, ${seriesConflicts.length} conflicting dates skipped`
+            : `${created.length} bookings created successfully!`
+        );
+        onSuccess();
+        onClose();
+        return;
+      }
+
       await createAdminBooking(bookingData);
 
       toast.success('Booking created successfully!');
@@ -355,6 +333,16 @@ const AdminBookingForm: React.FC<{
       onClose();
     } catch (error) {
       console.error('Error creating admin booking:', error);
+      if (error instanceof BookingConflictError) {
+        toast.error(error.message);
+        if (recurrenceRule) {
+          recheckSeries();
+        } else {
+          setFormData(prev => ({ ...prev, timeSlot: '' }));
+        }
+        fetchBookedSlots();
+        return;
+      }
       toast.error(error instanceof Error ? error.message : 'Failed to create booking. Please try again.');
     } finally {
       setIsSubmitting(false);
@@ -405,7 +393,7 @@ const AdminBookingForm: React.FC<{
                       <div className="text-center space-y-2">
                         <h4 className="font-semibold text-black">{workspace.name}</h4>
                         <p className="text-gray-600 text-sm">{workspace.description}</p>
-                        <div className="text-yellow-600 font-bold">E£{workspace.price}/{workspace.price_unit}</div>
+                        <div className="text-yellow-600 font-bold">{formatPrice(workspace.price)}/{workspace.price_unit}</div>
                       </div>
                     </label>
                   ))
@@ -420,14 +408,12 @@ const AdminBookingForm: React.FC<{
                   <Calendar className="w-4 h-4 inline mr-2" />
                   Select Date
                 </label>
-                <input
-                  type="date"
-                  name="date"
+                <ScheduleDatePicker
                   value={formData.date}
-                  onChange={handleChange}
+                  onChange={(date) => setFormData(prev => ({ ...prev, date, timeSlot: '' }))}
+                  calendar={calendar}
                   required
                   min={new Date().toISOString().split('T')[0]}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
                 />
               </div>
 
@@ -446,6 +432,7 @@ const AdminBookingForm: React.FC<{
                   {durations.map((duration) => (
                     <option key={duration.value} value={duration.value}>
                       {duration.label}
+                      {formData.workspaceType && ` – ${formatPrice(getBookingPrice(rates, formData.workspaceType, duration.value) ?? 0)}`}
                     </option>
                   ))}
                 </select>
@@ -473,24 +460,50 @@ const AdminBookingForm: React.FC<{
                     ? 'Checking availability...'
                     : 'Choose available time slot'}
                 </option>
-                {hourlySlots
+                {timeSlots
                   .filter(slot => !bookedSlots.includes(slot))
                   .map((slot) => (
-                    <option key={slot} value={slot}>{slot}</option>
+                    <option key={slot} value={slot}>{formatTimeLabel(slot)}</option>
                   ))}
               </select>
+              {formData.date && isMultiDayDuration(formData.duration) && (
+                <p className="text-sm text-gray-500 mt-1">
+                  Reserves a desk for the whole day from {new Date(formData.date).toLocaleDateString()} to{' '}
+                  {new Date(getBookingEndDate(formData.date, formData.duration)).toLocaleDateString()}
+                </p>
+              )}
               {formData.workspaceType && formData.date && formData.duration && bookedSlots.length > 0 && (
                 <p className="text-sm text-gray-500 mt-1">
-                  Unavailable slots for {formData.duration}: {bookedSlots.join(', ')}
+                  Unavailable slots for {formData.duration}: {bookedSlots.map(formatTimeLabel).join(', ')}
                 </p>
               )}
-              {formData.workspaceType && formData.date && formData.duration && bookedSlots.length === hourlySlots.length && (
+              {preferredDesk !== null && (
+                <p className="text-sm text-gray-500 mt-1">
+                  Desk {preferredDesk} requested; the first free desk is assigned if it is taken.{' '}
+                  <button type="button" onClick={() => setPreferredDesk(null)} className="text-yellow-600 hover:text-yellow-700">
+                    Any desk
+                  </button>
+                </p>
+              )}
+              {formData.workspaceType && formData.date && formData.duration && bookedSlots.length === timeSlots.length && (
                 <p className="text-sm text-red-500 mt-1">
                   No available slots for this date and duration. Please choose a different date or shorter duration.
                 </p>
               )}
             </div>
 
+            {/* Repeat */}
+            {formData.timeSlot && canRepeatDuration(formData.duration) && (
+              <RecurrenceFields
+                startDate={formData.date}
+                rule={recurrenceRule}
+                onChange={setRecurrence}
+                dates={seriesDates}
+                conflicts={seriesConflicts}
+                checking={checkingSeries}
+              />
+            )}
+
             {/* Customer Information */}
             <div>
               <h3 className="text-lg font-semibold text-black mb-4">Customer Information</h3>
@@ -730,13 +743,20 @@ const AdminBookingForm: React.FC<{
                 <h3 className="text-lg font-semibold text-black mb-2">Price Summary</h3>
                 <div className="flex justify-between items-center">
                   <span className="text-gray-600">Total Cost:</span>
-                  <span className="text-2xl font-bold text-yellow-600">E£{calculatePrice()}</span>
+                  <span className="text-2xl font-bold text-yellow-600">
+                    {formatPrice(recurrenceRule ? calculatePrice() * bookableSeriesDates.length : calculatePrice())}
+                  </span>
                 </div>
+                {recurrenceRule && (
+                  <p className="text-sm text-gray-600">
+                    {formatPrice(calculatePrice())} × {bookableSeriesDates.length} bookings in this series
+                  </p>
+                )}
                 {formData.timeSlot && (
                   <div className="mt-2 text-sm text-gray-600">
                     <p>Workspace: {formData.workspaceType}</p>
-                    <p>Duration: {durations.find(d => d.value === formData.duration)?.label}</p>
-                    <p>Time: {formData.timeSlot}</p>
+                    <p>Duration: {getDurationLabel(formData.duration)}</p>
+                    <p>Time: {formatTimeLabel(formData.timeSlot)}</p>
                   </div>
                 )}
               </div>
@@ -753,7 +773,7 @@ const AdminBookingForm: React.FC<{
               </button>
               <button
                 type="submit"
-                disabled={isSubmitting || bookedSlots.length === hourlySlots.length}
+                disabled={isSubmitting || bookedSlots.length === timeSlots.length}
                 className="bg-yellow-500 text-black px-6 py-2 rounded-md font-semibold hover:bg-yellow-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isSubmitting ? (
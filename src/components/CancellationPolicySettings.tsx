@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { RotateCcw, Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase, CancellationPolicyTierRow } from '../lib/supabase';
+import { describeCancellationPolicy, fetchCancellationPolicyTiers, getWorkspacePolicy } from '../utils/cancellationHelpers';
+
+interface CancellationPolicySettingsProps {
+  workspaceTypes: { name: string }[];
+}
+
+const EMPTY_FORM = {
+  workspaceType: '',
+  hoursBefore: '',
+  refundPercent: ''
+};
+
+// Admin editor for the refund tiers customers get when they cancel a confirmed booking
+const CancellationPolicySettings: React.FC<CancellationPolicySettingsProps> = ({ workspaceTypes }) => {
+  const [tiers, setTiers] = useState<CancellationPolicyTierRow[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTiers();
+  }, []);
+
+  const loadTiers = async () => {
+    try {
+      setTiers(await fetchCancellationPolicyTiers());
+    } catch (error) {
+      console.error('Error fetching cancellation policies:', error);
+      toast.error('Failed to load cancellation policies');
+    }
+  };
+
+  const addTier = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const hoursBefore = Number(form.hoursBefore);
+    const refundPercent = Number(form.refundPercent);
+    if (!form.workspaceType || form.hoursBefore === '' || !(hoursBefore >= 0) || form.refundPercent === '' || !(refundPercent >= 0 && refundPercent <= 100)) {
+      toast.error('Pick a workspace, hours of 0 or more and a refund between 0 and 100%');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('cancellation_policy_tiers').upsert(
+        { workspace_type: form.workspaceType, hours_before: hoursBefore, refund_percent: refundPercent },
+        { onConflict: 'workspace_type,hours_before' }
+      );
+
+      if (error) throw error;
+      toast.success('Cancellation tier saved');
+      setForm(prev => ({ ...EMPTY_FORM, workspaceType: prev.workspaceType }));
+      loadTiers();
+    } catch (error) {
+      console.error('Error saving cancellation tier:', error);
+      toast.error('Failed to save cancellation tier');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteTier = async (tier: CancellationPolicyTierRow) => {
+    try {
+      const { error } = await supabase.from('cancellation_policy_tiers').delete().eq('id', tier.id);
+      if (error) throw error;
+      loadTiers();
+    } catch (error) {
+      console.error('Error deleting cancellation tier:', error);
+      toast.error('Failed to delete cancellation tier');
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg">
+      <h4 className="text-md font-semibold text-gray-900 mb-3 flex items-center">
+        <RotateCcw className="w-4 h-4 mr-2" />
+        Cancellation Policies
+      </h4>
+      <p className="text-sm text-gray-600 mb-4">
+        Customers can cancel confirmed bookings until they start. The refund is the percentage of the tier with the most
+        hours that are still left before the start; with no matching tier nothing is refunded. Saving a tier with the same
+        hours replaces it.
+      </p>
+
+      <form onSubmit={addTier} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6 text-sm text-gray-600">
+        <label>
+          Workspace
+          <select
+            value={form.workspaceType}
+            onChange={(e) => setForm(prev => ({ ...prev, workspaceType: e.target.value }))}
+            className={`${inputClass} w-full`}
+          >
+            <option value="">Select...</option>
+            {workspaceTypes.map(({ name }) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Hours or more before start
+          <input
+            type="number"
+            min={0}
+            step="0.5"
+            value={form.hoursBefore}
+            onChange={(e) => setForm(prev => ({ ...prev, hoursBefore: e.target.value }))}
+            className={`${inputClass} w-full`}
+          />
+        </label>
+        <label>
+          Refund (%)
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={form.refundPercent}
+            onChange={(e) => setForm(prev => ({ ...prev, refundPercent: e.target.value }))}
+            className={`${inputClass} w-full`}
+          />
+        </label>
+        <div className="flex items-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-yellow-500 text-black px-4 py-2 rounded-md font-semibold hover:bg-yellow-600 disabled:opacity-50 flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Tier'}
+          </button>
+        </div>
+      </form>
+
+      <div className="space-y-4">
+        {workspaceTypes.map(({ name }) => {
+          const policy = getWorkspacePolicy(tiers, name);
+          return (
+            <div key={name}>
+              <div className="text-sm font-medium text-gray-900">{name}</div>
+              <p className="text-xs text-gray-500 mb-2">{describeCancellationPolicy(policy)}</p>
+              {policy.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {policy.map(tier => (
+                    <span
+                      key={tier.id}
+                      className="inline-flex items-center bg-white border border-gray-200 rounded-md px-2 py-1 text-xs text-gray-700"
+                    >
+                      {tier.hours_before}h+ → {tier.refund_percent}%
+                      <button onClick={() => deleteTier(tier)} className="ml-2 text-red-600 hover:text-red-800" title="Delete">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CancellationPolicySettings;
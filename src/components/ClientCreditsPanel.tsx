@@ -0,0 +1,333 @@
+import React, { useState, useEffect } from 'react';
+import { CreditCard, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase, BillingPeriod, CreditUnit } from '../lib/supabase';
+import { useCredits } from '../hooks/useCredits';
+import CreditLedgerList from './CreditLedgerList';
+import { CREDIT_UNITS, describeCreditAllowance, formatCredits, isNextPeriodPaid } from '../utils/membershipHelpers';
+
+interface ClientCreditsPanelProps {
+  userId: string;
+  adminName: string;
+}
+
+interface CreditPlan {
+  id: string;
+  name: string;
+  credit_unit: CreditUnit;
+  credits_per_period: number;
+  billing_period: BillingPeriod;
+}
+
+// Admin tools for a client's membership and credits: activate, record payments or cancel, grant, adjust and expire
+const ClientCreditsPanel: React.FC<ClientCreditsPanelProps> = ({ userId, adminName }) => {
+  const { membership, entries, balances, refetch } = useCredits(userId);
+  const [plans, setPlans] = useState<CreditPlan[]>([]);
+  const [selectedPlanId, setSelectedPlanId] = useState('');
+  const [entryType, setEntryType] = useState<'grant' | 'adjustment'>('grant');
+  const [creditUnit, setCreditUnit] = useState<CreditUnit>('hour');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPlans();
+  }, []);
+
+  const fetchPlans = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('pricing_plans')
+        .select('id, name, credit_unit, credits_per_period, billing_period')
+        .not('credit_unit', 'is', null)
+        .eq('is_active', true)
+        .order('display_order', { ascending: true });
+
+      if (error) throw error;
+      setPlans(data || []);
+    } catch (error) {
+      console.error('Error fetching membership plans:', error);
+    }
+  };
+
+  const logActivity = async (action: string, details: Record<string, unknown>) => {
+    await supabase
+      .from('user_activity_log')
+      .insert({ user_id: userId, action, details: { ...details, admin_name: adminName } });
+  };
+
+  const startMembership = async () => {
+    const plan = plans.find(p => p.id === selectedPlanId);
+    if (!plan) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('memberships')
+        .insert({
+          user_id: userId,
+          plan_id: plan.id,
+          plan_name: plan.name,
+          credit_unit: plan.credit_unit,
+          credits_per_period: plan.credits_per_period,
+          billing_period: plan.billing_period
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const { error: activateError } = await supabase.rpc('activate_membership', { p_membership_id: data.id });
+      if (activateError) throw activateError;
+
+      await logActivity('membership_started_by_admin', { plan: plan.name });
+      toast.success(`${plan.name} membership started`);
+      setSelectedPlanId('');
+      refetch();
+    } catch (error) {
+      console.error('Error starting membership:', error);
+      toast.error('Failed to start membership');
+    }
+  };
+
+  const activateMembership = async () => {
+    if (!membership) return;
+
+    try {
+      const { error } = await supabase.rpc('activate_membership', { p_membership_id: membership.id });
+      if (error) throw error;
+
+      await logActivity('membership_activated_by_admin', { plan: membership.plan_name });
+      toast.success('Membership activated and credits granted');
+      refetch();
+    } catch (error) {
+      console.error('Error activating membership:', error);
+      toast.error('Failed to activate membership');
+    }
+  };
+
+  const recordPayment = async () => {
+    if (!membership || !confirm(`Record a payment for the next ${membership.billing_period} of ${membership.plan_name}?`)) return;
+
+    try {
+      const { error } = await supabase.rpc('record_membership_payment', { p_membership_id: membership.id });
+      if (error) throw error;
+
+      await logActivity('membership_payment_recorded_by_admin', { plan: membership.plan_name });
+      toast.success('Payment recorded; the membership renews for another period');
+      refetch();
+    } catch (error) {
+      console.error('Error recording membership payment:', error);
+      toast.error('Failed to record payment');
+    }
+  };
+
+  const cancelMembership = async () => {
+    if (!membership || !confirm(`Cancel the ${membership.plan_name} membership? Credits already granted are kept.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('memberships')
+        .update({ status: 'cancelled' })
+        .eq('id', membership.id);
+
+      if (error) throw error;
+
+      await logActivity('membership_cancelled_by_admin', { plan: membership.plan_name });
+      toast.success('Membership cancelled');
+      refetch();
+    } catch (error) {
+      console.error('Error cancelling membership:', error);
+      toast.error('Failed to cancel membership');
+    }
+  };
+
+  const addLedgerEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(amount);
+    if (!value || (entryType === 'grant' && value < 0)) {
+      toast.error(entryType === 'grant' ? 'Grant a positive number of credits' : 'Enter a non-zero adjustment');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('credit_ledger')
+        .insert({
+          user_id: userId,
+          credit_unit: creditUnit,
+          amount: value,
+          entry_type: entryType,
+          membership_id: membership?.id ?? null,
+          note: note.trim()
+        });
+
+      if (error) throw error;
+
+      await logActivity(`credits_${entryType === 'grant' ? 'granted' : 'adjusted'}_by_admin`, {
+        credits: formatCredits(value, creditUnit),
+        note: note.trim()
+      });
+      toast.success('Credits updated');
+      setAmount('');
+      setNote('');
+      refetch();
+    } catch (error) {
+      console.error('Error updating credits:', error);
+      toast.error('Failed to update credits');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const expireCredits = async (unit: CreditUnit) => {
+    if (!confirm(`Expire all ${formatCredits(balances[unit], unit)} of this client's credits?`)) return;
+
+    try {
+      const { error } = await supabase.rpc('expire_credits', {
+        p_user_id: userId,
+        p_credit_unit: unit,
+        p_note: `Expired by ${adminName}`
+      });
+
+      if (error) throw error;
+
+      await logActivity('credits_expired_by_admin', { credits: formatCredits(balances[unit], unit) });
+      toast.success('Credits expired');
+      refetch();
+    } catch (error) {
+      console.error('Error expiring credits:', error);
+      toast.error('Failed to expire credits');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <CreditCard className="w-5 h-5 mr-2" />
+        Membership &amp; Credits
+      </h3>
+
+      {/* Membership */}
+      {membership ? (
+        <div className="mb-4 text-sm">
+          <p className="font-medium text-gray-900">{membership.plan_name}</p>
+          <p className="text-gray-600">
+            {describeCreditAllowance(membership.credits_per_period, membership.credit_unit, membership.billing_period)}
+          </p>
+          <p className="text-gray-600">
+            {membership.status === 'pending'
+              ? 'Waiting for payment'
+              : membership.current_period_end && (isNextPeriodPaid(membership)
+                ? `Paid through ${new Date(membership.paid_through as string).toLocaleDateString()}`
+                : `Ends ${new Date(membership.current_period_end).toLocaleDateString()} unless the next period is paid`)}
+          </p>
+          <div className="mt-2 flex gap-3">
+            {membership.status === 'pending' && (
+              <button onClick={activateMembership} className="text-green-600 hover:text-green-800 font-medium">
+                Activate
+              </button>
+            )}
+            {membership.status === 'active' && (
+              <button onClick={recordPayment} className="text-green-600 hover:text-green-800 font-medium">
+                Record Payment
+              </button>
+            )}
+            <button onClick={cancelMembership} className="text-red-600 hover:text-red-800 font-medium">
+              Cancel Membership
+            </button>
+          </div>
+        </div>
+      ) : plans.length > 0 && (
+        <div className="mb-4 flex gap-2">
+          <select
+            value={selectedPlanId}
+            onChange={(e) => setSelectedPlanId(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500"
+          >
+            <option value="">No membership</option>
+            {plans.map(plan => (
+              <option key={plan.id} value={plan.id}>
+                {plan.name} ({describeCreditAllowance(plan.credits_per_period, plan.credit_unit, plan.billing_period)})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={startMembership}
+            disabled={!selectedPlanId}
+            className="bg-yellow-500 text-black px-3 py-2 rounded-md text-sm font-semibold hover:bg-yellow-600 disabled:opacity-50"
+          >
+            Start
+          </button>
+        </div>
+      )}
+
+      {/* Balances */}
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        {CREDIT_UNITS.map(unit => (
+          <div key={unit} className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-500 uppercase tracking-wider">{unit} credits</div>
+            <div className="text-lg font-bold text-gray-900">{formatCredits(balances[unit], unit)}</div>
+            {balances[unit] > 0 && (
+              <button onClick={() => expireCredits(unit)} className="text-xs text-red-600 hover:text-red-800">
+                Expire
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Grant or adjust */}
+      <form onSubmit={addLedgerEntry} className="space-y-2 mb-4">
+        <div className="grid grid-cols-3 gap-2">
+          <select
+            value={entryType}
+            onChange={(e) => setEntryType(e.target.value as 'grant' | 'adjustment')}
+            className="px-2 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500"
+          >
+            <option value="grant">Grant</option>
+            <option value="adjustment">Adjust</option>
+          </select>
+          <input
+            type="number"
+            step="0.5"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={entryType === 'grant' ? 'Amount' : '+/- amount'}
+            className="px-2 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500"
+          />
+          <select
+            value={creditUnit}
+            onChange={(e) => setCreditUnit(e.target.value as CreditUnit)}
+            className="px-2 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500"
+          >
+            {CREDIT_UNITS.map(unit => (
+              <option key={unit} value={unit}>{unit}s</option>
+            ))}
+          </select>
+        </div>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Reason (shown to the client)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+        <button
+          type="submit"
+          disabled={saving || !amount}
+          className="bg-yellow-500 text-black px-4 py-2 rounded-md text-sm font-semibold hover:bg-yellow-600 transition-colors disabled:opacity-50 flex items-center"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : entryType === 'grant' ? 'Grant Credits' : 'Adjust Credits'}
+        </button>
+      </form>
+
+      <div className="max-h-64 overflow-y-auto">
+        <CreditLedgerList entries={entries} limit={20} />
+      </div>
+    </div>
+  );
+};
+
+export default ClientCreditsPanel;
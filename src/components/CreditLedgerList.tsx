@@ -0,0 +1,34 @@
+import React from 'react';
+import { CreditLedgerRow } from '../lib/supabase';
+import { CREDIT_ENTRY_LABELS, formatCredits } from '../utils/membershipHelpers';
+
+interface CreditLedgerListProps {
+  entries: CreditLedgerRow[];
+  limit?: number;
+}
+
+// Latest credit ledger entries, newest first
+const CreditLedgerList: React.FC<CreditLedgerListProps> = ({ entries, limit = 10 }) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No credit activity yet.</p>;
+  }
+
+  return (
+    <div className="divide-y divide-gray-200">
+      {entries.slice(0, limit).map(entry => (
+        <div key={entry.id} className="py-2 flex justify-between text-sm">
+          <div>
+            <span className="font-medium text-gray-900">{CREDIT_ENTRY_LABELS[entry.entry_type]}</span>
+            {entry.note && <span className="text-gray-600"> · {entry.note}</span>}
+            <div className="text-xs text-gray-400">{new Date(entry.created_at).toLocaleString()}</div>
+          </div>
+          <span className={`font-semibold ${entry.amount > 0 ? 'text-green-700' : 'text-red-600'}`}>
+            {entry.amount > 0 ? '+' : ''}{formatCredits(Number(entry.amount), entry.credit_unit)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CreditLedgerList;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Monitor, Sun, PersonStanding, Plug, VolumeX, LucideIcon } from 'lucide-react';
+import { DeskAttribute } from '../lib/supabase';
+import { DeskInfo, DESK_ATTRIBUTES, groupDesksByZone } from '../utils/deskHelpers';
+
+interface DeskFloorPlanProps {
+  desks: DeskInfo[];
+  freeDesks: number[];
+  selectedDesk: number | null;
+  onSelect: (deskNumber: number | null) => void;
+  disabled?: boolean;
+}
+
+const ATTRIBUTE_ICONS: Record<DeskAttribute, LucideIcon> = {
+  window: Sun,
+  monitor: Monitor,
+  standing: PersonStanding,
+  power: Plug,
+  quiet: VolumeX
+};
+
+const attributeLabel = (attribute: DeskAttribute) =>
+  DESK_ATTRIBUTES.find(a => a.value === attribute)?.label || attribute;
+
+// Floor plan of a workspace type's desks, grouped by zone; free desks can be picked
+const DeskFloorPlan: React.FC<DeskFloorPlanProps> = ({ desks, freeDesks, selectedDesk, onSelect, disabled = false }) => {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {selectedDesk === null
+            ? 'We will assign the first free desk. Pick one below to choose your own.'
+            : `You picked ${desks.find(d => d.desk_number === selectedDesk)?.label || `Desk ${selectedDesk}`}.`}
+        </p>
+        {selectedDesk !== null && (
+          <button
+            type="button"
+            onClick={() => onSelect(null)}
+            className="text-sm text-yellow-600 hover:text-yellow-700 font-medium"
+          >
+            Any free desk
+          </button>
+        )}
+      </div>
+
+      {groupDesksByZone(desks).map(({ zone, desks: zoneDesks }) => (
+        <div key={zone} className="border border-gray-200 rounded-lg p-4">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-3">{zone}</h4>
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+            {zoneDesks.map(desk => {
+              const isFree = freeDesks.includes(desk.desk_number);
+              const isSelected = desk.desk_number === selectedDesk;
+
+              return (
+                <button
+                  key={desk.desk_number}
+                  type="button"
+                  disabled={disabled || !isFree}
+                  onClick={() => onSelect(isSelected ? null : desk.desk_number)}
+                  title={isFree ? desk.attributes.map(attributeLabel).join(', ') || undefined : 'Booked for this time'}
+                  className={`p-3 rounded-lg border-2 text-left transition-all duration-200 ${
+                    isSelected
+                      ? 'bg-yellow-500 border-yellow-600 text-black'
+                      : isFree
+                      ? 'bg-green-50 border-green-300 text-green-900 hover:border-yellow-500'
+                      : 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed'
+                  }`}
+                >
+                  <div className="text-sm font-semibold">{desk.label}</div>
+                  <div className="flex items-center space-x-1 mt-1 min-h-[1rem]">
+                    {desk.attributes.map(attribute => {
+                      const Icon = ATTRIBUTE_ICONS[attribute];
+                      return Icon ? <Icon key={attribute} className="w-3.5 h-3.5" aria-label={attributeLabel(attribute)} /> : null;
+                    })}
+                  </div>
+                  {!isFree && <div className="text-xs mt-1">Booked</div>}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-500">
+        <div className="flex items-center">
+          <div className="w-3 h-3 bg-green-50 border border-green-300 rounded mr-2"></div>
+          <span>Free</span>
+        </div>
+        <div className="flex items-center">
+          <div className="w-3 h-3 bg-gray-100 border border-gray-200 rounded mr-2"></div>
+          <span>Booked</span>
+        </div>
+        {DESK_ATTRIBUTES.map(({ value, label }) => {
+          const Icon = ATTRIBUTE_ICONS[value];
+          return (
+            <div key={value} className="flex items-center">
+              <Icon className="w-3 h-3 mr-1" />
+              <span>{label}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DeskFloorPlan;
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { LayoutGrid, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase, DeskAttribute } from '../lib/supabase';
+import { DeskInfo, DESK_ATTRIBUTES, fetchDesks, getDeskInventory } from '../utils/deskHelpers';
+
+interface DeskSettingsProps {
+  workspaceTypes: { name: string; capacity: number }[];
+}
+
+// Admin editor for desk labels, zones and attributes of each workspace type
+const DeskSettings: React.FC<DeskSettingsProps> = ({ workspaceTypes }) => {
+  const [workspaceType, setWorkspaceType] = useState('');
+  const [desks, setDesks] = useState<DeskInfo[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const capacity = workspaceTypes.find(w => w.name === workspaceType)?.capacity || 0;
+
+  useEffect(() => {
+    if (workspaceTypes.length > 0) {
+      setWorkspaceType(current => current || workspaceTypes[0].name);
+    }
+  }, [workspaceTypes]);
+
+  const loadDesks = useCallback(async () => {
+    try {
+      setDesks(getDeskInventory(await fetchDesks(), workspaceType, capacity));
+    } catch (error) {
+      console.error('Error fetching desks:', error);
+      toast.error('Failed to load desks');
+    }
+  }, [workspaceType, capacity]);
+
+  useEffect(() => {
+    if (workspaceType) {
+      loadDesks();
+    }
+  }, [workspaceType, loadDesks]);
+
+  const handleDeskChange = (deskNumber: number, changes: Partial<DeskInfo>) => {
+    setDesks(prev => prev.map(desk => (desk.desk_number === deskNumber ? { ...desk, ...changes } : desk)));
+  };
+
+  const toggleAttribute = (desk: DeskInfo, attribute: DeskAttribute) => {
+    handleDeskChange(desk.desk_number, {
+      attributes: desk.attributes.includes(attribute)
+        ? desk.attributes.filter(a => a !== attribute)
+        : [...desk.attributes, attribute]
+    });
+  };
+
+  const saveDesks = async () => {
+    if (desks.some(desk => !desk.label.trim() || !desk.zone.trim())) {
+      toast.error('Every desk needs a label and a zone');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('desks').upsert(
+        desks.map(desk => ({
+          workspace_type: workspaceType,
+          desk_number: desk.desk_number,
+          label: desk.label.trim(),
+          zone: desk.zone.trim(),
+          attributes: desk.attributes,
+          updated_at: new Date().toISOString()
+        })),
+        { onConflict: 'workspace_type,desk_number' }
+      );
+
+      if (error) throw error;
+      toast.success('Desks saved');
+    } catch (error) {
+      console.error('Error saving desks:', error);
+      toast.error('Failed to save desks');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg">
+      <h4 className="text-md font-semibold text-gray-900 mb-3 flex items-center">
+        <LayoutGrid className="w-4 h-4 mr-2" />
+        Desks
+      </h4>
+      <p className="text-sm text-gray-600 mb-3">
+        Name each desk and group it into a zone. Customers see these on the floor plan when they pick a desk. The number of
+        desks follows the workspace type's capacity.
+      </p>
+      <select value={workspaceType} onChange={(e) => setWorkspaceType(e.target.value)} className={`${inputClass} mb-4`}>
+        {workspaceTypes.map(w => (
+          <option key={w.name} value={w.name}>{w.name}</option>
+        ))}
+      </select>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <th className="py-2 pr-4">#</th>
+              <th className="py-2 pr-4">Label</th>
+              <th className="py-2 pr-4">Zone</th>
+              <th className="py-2">Attributes</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {desks.map(desk => (
+              <tr key={desk.desk_number}>
+                <td className="py-2 pr-4 font-medium text-gray-900">{desk.desk_number}</td>
+                <td className="py-2 pr-4">
+                  <input
+                    type="text"
+                    value={desk.label}
+                    onChange={(e) => handleDeskChange(desk.desk_number, { label: e.target.value })}
+                    className={inputClass}
+                  />
+                </td>
+                <td className="py-2 pr-4">
+                  <input
+                    type="text"
+                    value={desk.zone}
+                    onChange={(e) => handleDeskChange(desk.desk_number, { zone: e.target.value })}
+                    className={inputClass}
+                  />
+                </td>
+                <td className="py-2">
+                  <div className="flex flex-wrap gap-3">
+                    {DESK_ATTRIBUTES.map(({ value, label }) => (
+                      <label key={value} className="flex items-center text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={desk.attributes.includes(value)}
+                          onChange={() => toggleAttribute(desk, value)}
+                          className="mr-1"
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-end mt-4">
+        <button
+          onClick={saveDesks}
+          disabled={saving || desks.length === 0}
+          className="bg-yellow-500 text-black px-4 py-2 rounded-md font-semibold hover:bg-yellow-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Desks'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DeskSettings;
@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { Edit, Save, Mail } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { EmailTemplateRow } from '../lib/supabase';
+import { EMAIL_PLACEHOLDERS, EMAIL_TEMPLATE_LABELS, fetchEmailTemplates, saveEmailTemplate } from '../utils/emailHelpers';
+
+// CMS editor for the emails customers get about their bookings; disabled ones are not sent
+const EmailTemplatesEditor: React.FC = () => {
+  const [templates, setTemplates] = useState<EmailTemplateRow[]>([]);
+  const [editing, setEditing] = useState<EmailTemplateRow | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await fetchEmailTemplates());
+    } catch (error) {
+      console.error('Error fetching email templates:', error);
+      toast.error('Failed to load email templates');
+    }
+  };
+
+  const saveTemplate = async () => {
+    if (!editing) return;
+    if (!editing.subject.trim() || !editing.body.trim()) {
+      toast.error('Enter a subject and a message');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveEmailTemplate({ ...editing, subject: editing.subject.trim() });
+      toast.success('Email template saved');
+      setEditing(null);
+      loadTemplates();
+    } catch (error) {
+      console.error('Error saving email template:', error);
+      toast.error('Failed to save email template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-lg font-medium text-gray-900">Email Templates</h3>
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-4 mb-6 text-sm text-gray-600">
+        <p className="mb-2">
+          Emails go to the booking's email address unless the customer turned email off. Use these placeholders in the
+          subject or message:
+        </p>
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {EMAIL_PLACEHOLDERS.map(placeholder => (
+            <span key={placeholder.name} title={placeholder.description}>
+              <code className="text-gray-900">{`{{${placeholder.name}}}`}</code>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {templates.map(template => (
+          <div key={template.id} className={`bg-white rounded-lg shadow-sm p-6 ${template.is_enabled ? '' : 'opacity-60'}`}>
+            {editing?.id === template.id ? (
+              <div className="space-y-4">
+                <h4 className="font-semibold text-gray-900">{EMAIL_TEMPLATE_LABELS[template.event]}</h4>
+                <input
+                  type="text"
+                  value={editing.subject}
+                  onChange={(e) => setEditing({ ...editing, subject: e.target.value })}
+                  placeholder="Subject"
+                  className={inputClass}
+                />
+                <textarea
+                  value={editing.body}
+                  onChange={(e) => setEditing({ ...editing, body: e.target.value })}
+                  placeholder="Message"
+                  rows={8}
+                  className={`${inputClass} font-mono text-sm`}
+                />
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={editing.is_enabled}
+                    onChange={(e) => setEditing({ ...editing, is_enabled: e.target.checked })}
+                    className="mr-2"
+                  />
+                  Send this email
+                </label>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={saveTemplate}
+                    disabled={saving}
+                    className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600 transition-colors flex items-center disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4 mr-2" />
+                    {saving ? 'Saving...' : 'Save'}
+                  </button>
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="bg-gray-500 text-white px-4 py-2 rounded-md hover:bg-gray-600 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex justify-between items-start">
+                <div className="min-w-0">
+                  <h4 className="font-semibold text-gray-900 flex items-center">
+                    <Mail className="w-4 h-4 mr-2" />
+                    {EMAIL_TEMPLATE_LABELS[template.event]}
+                  </h4>
+                  <p className="text-gray-900 mt-2">{template.subject}</p>
+                  <p className="text-gray-600 text-sm mt-1 whitespace-pre-line line-clamp-4">{template.body}</p>
+                  {!template.is_enabled && (
+                    <span className="inline-block bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded mt-2">Not sent</span>
+                  )}
+                </div>
+                <button onClick={() => setEditing(template)} className="text-blue-600 hover:text-blue-900">
+                  <Edit className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EmailTemplatesEditor;
@@ -7,7 +7,7 @@ const Footer: React.FC = () => {
   const { getSetting, getContent } = useContent();
 
   return (
-    <footer className="bg-black text-white">
+    <footer className="bg-black text-white print:hidden">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
           {/* Company Info */}
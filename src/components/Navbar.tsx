@@ -31,7 +31,7 @@ const Navbar: React.FC = () => {
 
   return (
     <AnimatedSection animation="slideDown" duration={600}>
-      <nav className="bg-white shadow-lg relative z-50">
+      <nav className="bg-white shadow-lg relative z-50 print:hidden">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center h-16">
             <div className="flex items-center">
@@ -0,0 +1,304 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ChevronLeft, ChevronRight, Clock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase, BookingStatus } from '../lib/supabase';
+import { useDesks } from '../hooks/useDesks';
+import { getDeskInventory } from '../utils/deskHelpers';
+import { ScheduleCalendar, getDayHours, getWorkspaceScheduleForDate } from '../utils/scheduleHelpers';
+import {
+  AvailabilityBooking,
+  WorkspaceScheduleSource,
+  ACTIVE_BOOKING_STATUSES,
+  BOOKING_CONFLICT_CODE,
+  addDays,
+  buildDeskOccupancy,
+  formatTimeLabel,
+  formatTimeOfDay,
+  getBookingIntervalOnDate,
+  getDurationMinutes,
+  parseTimeOfDay,
+  toLocalTimestamp
+} from '../utils/bookingHelpers';
+import { AdminBookingPrefill } from './AdminBookingForm';
+
+interface GridBooking extends AvailabilityBooking {
+  id: string;
+  workspace_type: string;
+  duration: string;
+  customer_name: string;
+  status: BookingStatus;
+}
+
+interface OccupancyGridProps {
+  workspaceTypes: (WorkspaceScheduleSource & { name: string; is_active: boolean })[];
+  calendar: ScheduleCalendar;
+  onCreateBooking: (prefill: AdminBookingPrefill) => void;
+}
+
+// A run of consecutive slots on one desk, free or held by the same booking
+interface GridCell {
+  slot: string;
+  span: number;
+  booking: GridBooking | null;
+}
+
+// Booking being dragged, and how far into it (in minutes) it was grabbed
+interface DragState {
+  booking: GridBooking;
+  grabOffset: number;
+}
+
+const STATUS_COLORS: Partial<Record<BookingStatus, string>> = {
+  pending: 'bg-yellow-200 border-yellow-400 text-yellow-900',
+  code_sent: 'bg-blue-100 border-blue-300 text-blue-900',
+  confirmed: 'bg-green-200 border-green-400 text-green-900'
+};
+
+// Desks as rows and slots as columns for one workspace type on any date; bookings can be dragged to move them
+const OccupancyGrid: React.FC<OccupancyGridProps> = ({ workspaceTypes, calendar, onCreateBooking }) => {
+  const today = new Date().toISOString().split('T')[0];
+  const { desks } = useDesks();
+  const [date, setDate] = useState(today);
+  const [workspaceType, setWorkspaceType] = useState('');
+  const [bookings, setBookings] = useState<GridBooking[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dragging, setDragging] = useState<DragState | null>(null);
+
+  const activeTypes = workspaceTypes.filter(w => w.is_active);
+  const workspace = activeTypes.find(w => w.name === workspaceType);
+  const schedule = getWorkspaceScheduleForDate(workspace, date, calendar);
+  const dayHours = getDayHours(date, calendar);
+  const deskInventory = getDeskInventory(desks, workspaceType, schedule.totalDesks);
+  const occupancy = buildDeskOccupancy(date, bookings, schedule);
+
+  useEffect(() => {
+    const firstActive = workspaceTypes.find(w => w.is_active);
+    if (firstActive) {
+      setWorkspaceType(current => current || firstActive.name);
+    }
+  }, [workspaceTypes]);
+
+  const fetchBookings = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select('id, workspace_type, starts_at, ends_at, duration, desk_number, customer_name, status')
+        .eq('workspace_type', workspaceType)
+        .lt('starts_at', toLocalTimestamp(date, 24 * 60))
+        .gt('ends_at', toLocalTimestamp(date, 0))
+        .in('status', ACTIVE_BOOKING_STATUSES);
+
+      if (error) throw error;
+      setBookings(data || []);
+    } catch (error) {
+      console.error('Error fetching bookings for the grid:', error);
+      toast.error('Failed to load bookings');
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceType, date]);
+
+  useEffect(() => {
+    if (!workspaceType) return;
+    fetchBookings();
+
+    // Keep the grid current while other admins and customers book
+    const subscription = supabase
+      .channel(`occupancy_grid_${workspaceType}_${date}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'bookings' }, () => fetchBookings())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [workspaceType, date, fetchBookings]);
+
+  // Merge consecutive slots held by the same booking into one cell
+  const getRowCells = (deskIndex: number): GridCell[] => {
+    const cells: GridCell[] = [];
+    schedule.timeSlots.forEach(slot => {
+      const booking = occupancy[slot]?.[deskIndex] || null;
+      const previous = cells[cells.length - 1];
+      if (booking && previous?.booking?.id === booking.id) {
+        previous.span++;
+      } else {
+        cells.push({ slot, span: 1, booking });
+      }
+    });
+    return cells;
+  };
+
+  const handleDragStart = (booking: GridBooking, slot: string) => {
+    const held = getBookingIntervalOnDate(booking, date);
+    const slotStart = parseTimeOfDay(slot) ?? 0;
+    setDragging({ booking, grabOffset: held ? Math.max(0, slotStart - held.start) : 0 });
+  };
+
+  const handleDrop = async (deskNumber: number, slot: string) => {
+    if (!dragging) return;
+    const { booking, grabOffset } = dragging;
+    setDragging(null);
+
+    // Whole-day bookings keep their dates and only change desk; hour bookings move to the dropped slot
+    const isWholeDay = getDurationMinutes(booking.duration) === null;
+    const newDate = isWholeDay ? booking.starts_at.slice(0, 10) : date;
+    const newStartTime = isWholeDay
+      ? booking.starts_at.slice(11, 16)
+      : formatTimeOfDay(Math.max(0, (parseTimeOfDay(slot) ?? 0) - grabOffset));
+
+    if (
+      deskNumber === booking.desk_number &&
+      newDate === booking.starts_at.slice(0, 10) &&
+      newStartTime === booking.starts_at.slice(11, 16)
+    ) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('reschedule_booking', {
+        p_booking_id: booking.id,
+        p_date: newDate,
+        p_start_time: newStartTime,
+        p_duration: booking.duration,
+        p_desk_number: deskNumber
+      });
+
+      if (error) {
+        if (error.code === BOOKING_CONFLICT_CODE) {
+          toast.error(error.details || 'The booking cannot be moved there.');
+          return;
+        }
+        throw error;
+      }
+
+      toast.success(`Moved ${booking.customer_name} to desk ${deskNumber} at ${formatTimeLabel(newStartTime)}`);
+      fetchBookings();
+    } catch (error) {
+      console.error('Error moving booking:', error);
+      toast.error('Failed to move booking. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <Clock className="w-6 h-6 text-yellow-500" />
+        <h3 className="text-xl font-semibold text-gray-900">Desk Occupancy</h3>
+        <div className="flex items-center ml-auto gap-2">
+          <button onClick={() => setDate(addDays(date, -1))} className="p-1 rounded hover:bg-gray-100" title="Previous day">
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500"
+          />
+          <button onClick={() => setDate(addDays(date, 1))} className="p-1 rounded hover:bg-gray-100" title="Next day">
+            <ChevronRight className="w-5 h-5" />
+          </button>
+          {date !== today && (
+            <button onClick={() => setDate(today)} className="text-sm text-yellow-600 hover:text-yellow-700 font-medium">
+              Today
+            </button>
+          )}
+          <select
+            value={workspaceType}
+            onChange={(e) => setWorkspaceType(e.target.value)}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500"
+          >
+            {activeTypes.map(w => (
+              <option key={w.name} value={w.name}>{w.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {schedule.timeSlots.length === 0 ? (
+        <p className="text-sm text-red-500">
+          Closed on {new Date(`${date}T00:00:00`).toLocaleDateString()}{dayHours.reason ? ` (${dayHours.reason})` : ''}.
+        </p>
+      ) : (
+        <div className={`overflow-x-auto ${loading ? 'opacity-60' : ''}`}>
+          <table className="min-w-full border-separate" style={{ borderSpacing: '4px' }}>
+            <thead>
+              <tr>
+                <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider pr-2">Desk</th>
+                {schedule.timeSlots.map(slot => (
+                  <th key={slot} className="text-xs font-medium text-gray-500 whitespace-nowrap px-1">
+                    {formatTimeLabel(slot)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {deskInventory.map((desk, deskIndex) => (
+                <tr key={desk.desk_number}>
+                  <td className="text-sm font-medium text-gray-900 whitespace-nowrap pr-2">
+                    {desk.label}
+                    <div className="text-xs text-gray-400">{desk.zone}</div>
+                  </td>
+                  {getRowCells(deskIndex).map(cell => (
+                    <td
+                      key={cell.slot}
+                      colSpan={cell.span}
+                      onDragOver={(e) => dragging && e.preventDefault()}
+                      onDrop={() => handleDrop(desk.desk_number, cell.slot)}
+                      className="p-0 align-top"
+                    >
+                      {cell.booking ? (
+                        <div
+                          draggable
+                          onDragStart={() => handleDragStart(cell.booking as GridBooking, cell.slot)}
+                          onDragEnd={() => setDragging(null)}
+                          title={`${cell.booking.customer_name} · ${cell.booking.duration} · ${cell.booking.status}`}
+                          className={`h-12 px-2 py-1 rounded border-2 text-xs cursor-move overflow-hidden ${
+                            STATUS_COLORS[cell.booking.status] || 'bg-gray-200 border-gray-300 text-gray-800'
+                          } ${dragging?.booking.id === cell.booking.id ? 'opacity-50' : ''}`}
+                        >
+                          <div className="font-semibold truncate">{cell.booking.customer_name}</div>
+                          <div className="truncate">{cell.booking.duration}</div>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() =>
+                            onCreateBooking({ workspaceType, date, timeSlot: cell.slot, deskNumber: desk.desk_number })
+                          }
+                          title={`Book ${desk.label} at ${formatTimeLabel(cell.slot)}`}
+                          className="w-full h-12 rounded border-2 border-dashed border-gray-200 hover:border-yellow-500 hover:bg-yellow-50 transition-colors"
+                        />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center mt-4 gap-6 text-sm">
+        <div className="flex items-center">
+          <div className="w-4 h-4 border-2 border-dashed border-gray-200 rounded mr-2"></div>
+          <span>Free, click to book</span>
+        </div>
+        <div className="flex items-center">
+          <div className="w-4 h-4 bg-yellow-200 border border-yellow-400 rounded mr-2"></div>
+          <span>Pending</span>
+        </div>
+        <div className="flex items-center">
+          <div className="w-4 h-4 bg-blue-100 border border-blue-300 rounded mr-2"></div>
+          <span>Code Sent</span>
+        </div>
+        <div className="flex items-center">
+          <div className="w-4 h-4 bg-green-200 border border-green-400 rounded mr-2"></div>
+          <span>Confirmed</span>
+        </div>
+        <span className="text-gray-500">Drag a booking to move it to another desk or time</span>
+      </div>
+    </div>
+  );
+};
+
+export default OccupancyGrid;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { ExternalLink } from 'lucide-react';
+import { PaymentProofRow } from '../lib/supabase';
+import {
+  PAYMENT_PROOF_STATUS_LABELS,
+  getLatestPaymentProof,
+  getPaymentProofUrl,
+  verifyPaymentProof
+} from '../utils/paymentProofHelpers';
+import { formatMoney } from '../utils/moneyHelpers';
+
+interface PaymentProofReviewProps {
+  proofs: PaymentProofRow[];
+  expectedAmount: number;
+  currency: string;
+  onReviewed: (proof: PaymentProofRow) => void;
+}
+
+// The latest payment proof of a booking, with approve/reject controls while it awaits review
+const PaymentProofReview: React.FC<PaymentProofReviewProps> = ({ proofs, expectedAmount, currency, onReviewed }) => {
+  const [amountReceived, setAmountReceived] = useState(expectedAmount.toString());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const proof = getLatestPaymentProof(proofs);
+
+  if (!proof) {
+    return <div className="text-xs text-gray-400">No proof yet</div>;
+  }
+
+  const openProof = async () => {
+    try {
+      window.open(await getPaymentProofUrl(proof.file_path), '_blank', 'noopener');
+    } catch (error) {
+      console.error('Error opening payment proof:', error);
+      alert('Failed to open the payment proof.');
+    }
+  };
+
+  const review = async (approved: boolean) => {
+    const amount = amountReceived === '' ? null : Number(amountReceived);
+    let note = '';
+
+    if (approved && amount !== null && amount < expectedAmount) {
+      if (!confirm(`Only ${formatMoney(amount, currency)} of ${formatMoney(expectedAmount, currency)} was received. Approve anyway?`)) return;
+    }
+    if (!approved) {
+      const reason = prompt('Reason for rejecting the payment (shown to the customer):', '');
+      if (reason === null) return;
+      note = reason;
+    }
+
+    setIsSaving(true);
+    try {
+      onReviewed(await verifyPaymentProof(proof.id, approved, amount, note));
+    } catch (error) {
+      console.error('Error verifying payment proof:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record the payment review.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="text-xs space-y-1">
+      <button onClick={openProof} className="text-blue-600 hover:text-blue-900 flex items-center">
+        <ExternalLink className="w-3 h-3 mr-1" />
+        View proof
+      </button>
+      {proof.reference_number && <div className="text-gray-500">Ref: {proof.reference_number}</div>}
+      <div
+        className={
+          proof.status === 'approved'
+            ? 'text-green-700'
+            : proof.status === 'rejected'
+            ? 'text-red-600'
+            : 'text-yellow-700'
+        }
+      >
+        {PAYMENT_PROOF_STATUS_LABELS[proof.status]}
+        {proof.amount_received !== null && ` · ${formatMoney(proof.amount_received, currency)} received`}
+      </div>
+      {proof.verified_at && (
+        <div className="text-gray-400">{new Date(proof.verified_at).toLocaleString()}</div>
+      )}
+      {proof.status === 'submitted' && (
+        <div className="flex items-center space-x-2 pt-1">
+          <input
+            type="number"
+            min="0"
+            value={amountReceived}
+            onChange={(e) => setAmountReceived(e.target.value)}
+            title="Amount received"
+            className="w-20 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-yellow-500"
+          />
+          <button
+            onClick={() => review(true)}
+            disabled={isSaving || amountReceived === ''}
+            className="text-green-600 hover:text-green-900 font-medium disabled:opacity-50"
+          >
+            Approve
+          </button>
+          <button
+            onClick={() => review(false)}
+            disabled={isSaving}
+            className="text-red-600 hover:text-red-900 font-medium disabled:opacity-50"
+          >
+            Reject
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentProofReview;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Upload, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { PaymentProofRow } from '../lib/supabase';
+import {
+  PAYMENT_PROOF_ACCEPT,
+  PAYMENT_PROOF_STATUS_LABELS,
+  canSubmitPaymentProof,
+  getLatestPaymentProof,
+  submitPaymentProof
+} from '../utils/paymentProofHelpers';
+
+interface PaymentProofUploadProps {
+  bookingId: string;
+  userId: string;
+  proofs: PaymentProofRow[];
+  onSubmitted: (proof: PaymentProofRow) => void;
+}
+
+// Customers attach a transfer screenshot and reference number for the admin to check
+const PaymentProofUpload: React.FC<PaymentProofUploadProps> = ({ bookingId, userId, proofs, onSubmitted }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState('');
+
+  const latestProof = getLatestPaymentProof(proofs);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setIsUploading(true);
+    setError('');
+    try {
+      const proof = await submitPaymentProof(bookingId, userId, file, referenceNumber);
+      setFile(null);
+      setReferenceNumber('');
+      onSubmitted(proof);
+    } catch (err) {
+      console.error('Error uploading payment proof:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload the payment proof. Please try again.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div>
+      {latestProof && (
+        <div
+          className={`rounded-lg p-4 mb-4 flex items-start border ${
+            latestProof.status === 'approved'
+              ? 'bg-green-50 border-green-200'
+              : latestProof.status === 'rejected'
+              ? 'bg-red-50 border-red-200'
+              : 'bg-yellow-50 border-yellow-200'
+          }`}
+        >
+          {latestProof.status === 'approved' ? (
+            <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+          ) : latestProof.status === 'rejected' ? (
+            <XCircle className="w-5 h-5 text-red-500 mr-2 mt-0.5 flex-shrink-0" />
+          ) : (
+            <Clock className="w-5 h-5 text-yellow-600 mr-2 mt-0.5 flex-shrink-0" />
+          )}
+          <div className="text-sm">
+            <p className="font-medium text-gray-900">{PAYMENT_PROOF_STATUS_LABELS[latestProof.status]}</p>
+            {latestProof.reference_number && (
+              <p className="text-gray-600">Reference: {latestProof.reference_number}</p>
+            )}
+            {latestProof.status === 'rejected' && (
+              <p className="text-gray-600">
+                {latestProof.review_note || 'We could not match this transfer.'} Please upload a new proof.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {canSubmitPaymentProof(proofs) && (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Transfer Screenshot or Receipt
+            </label>
+            <input
+              type="file"
+              accept={PAYMENT_PROOF_ACCEPT}
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              required
+              className="w-full text-sm text-gray-700 file:mr-3 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Transfer Reference Number
+            </label>
+            <input
+              type="text"
+              value={referenceNumber}
+              onChange={(e) => setReferenceNumber(e.target.value)}
+              placeholder="e.g. the transaction ID from your wallet or bank"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isUploading || !file}
+            className="w-full bg-black text-white py-3 px-6 rounded-md font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+          >
+            <Upload className="w-5 h-5 mr-2" />
+            {isUploading ? 'Uploading...' : 'Send Payment Proof'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default PaymentProofUpload;
@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import { Tag, Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase, PromoCodeRow, PromoDiscountType } from '../lib/supabase';
+import { describePromoDiscount } from '../utils/promoHelpers';
+import { getCurrencySymbol } from '../utils/moneyHelpers';
+import { useCurrency } from '../hooks/useCurrency';
+
+interface PromoCodeSettingsProps {
+  workspaceTypes: { name: string }[];
+}
+
+const EMPTY_FORM = {
+  code: '',
+  description: '',
+  discountType: 'percent' as PromoDiscountType,
+  discountValue: '',
+  validFrom: '',
+  validUntil: '',
+  maxUses: '',
+  maxUsesPerUser: '',
+  workspaceTypes: [] as string[]
+};
+
+// Admin editor for promo codes: discount, validity window, usage limits and workspace restrictions
+const PromoCodeSettings: React.FC<PromoCodeSettingsProps> = ({ workspaceTypes }) => {
+  const [promoCodes, setPromoCodes] = useState<PromoCodeRow[]>([]);
+  const [redemptions, setRedemptions] = useState<Record<string, number>>({});
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const { currency } = useCurrency();
+
+  useEffect(() => {
+    loadPromoCodes();
+  }, []);
+
+  const loadPromoCodes = async () => {
+    try {
+      const [{ data: codes, error }, { data: redeemed, error: redeemedError }] = await Promise.all([
+        supabase.from('promo_codes').select('*').order('created_at', { ascending: false }),
+        supabase
+          .from('bookings')
+          .select('promo_code_id')
+          .not('promo_code_id', 'is', null)
+          .not('status', 'in', '(rejected,cancelled)')
+      ]);
+
+      if (error) throw error;
+      if (redeemedError) throw redeemedError;
+
+      setPromoCodes(codes || []);
+      setRedemptions(
+        (redeemed || []).reduce<Record<string, number>>((counts, b) => {
+          counts[b.promo_code_id] = (counts[b.promo_code_id] || 0) + 1;
+          return counts;
+        }, {})
+      );
+    } catch (error) {
+      console.error('Error fetching promo codes:', error);
+      toast.error('Failed to load promo codes');
+    }
+  };
+
+  const toggleWorkspaceType = (name: string) => {
+    setForm(prev => ({
+      ...prev,
+      workspaceTypes: prev.workspaceTypes.includes(name)
+        ? prev.workspaceTypes.filter(w => w !== name)
+        : [...prev.workspaceTypes, name]
+    }));
+  };
+
+  const createPromoCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const discountValue = Number(form.discountValue);
+    if (!form.code.trim() || !(discountValue > 0) || (form.discountType === 'percent' && discountValue > 100)) {
+      toast.error('Enter a code and a discount between 0 and 100%, or a positive amount');
+      return;
+    }
+    if (form.validFrom && form.validUntil && form.validUntil < form.validFrom) {
+      toast.error('The code must end after it starts');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('promo_codes').insert({
+        code: form.code.trim().toUpperCase(),
+        description: form.description.trim(),
+        discount_type: form.discountType,
+        discount_value: discountValue,
+        // Valid from the start of the first day to the end of the last day
+        valid_from: form.validFrom ? new Date(`${form.validFrom}T00:00:00`).toISOString() : null,
+        valid_until: form.validUntil ? new Date(`${form.validUntil}T23:59:59`).toISOString() : null,
+        max_uses: form.maxUses ? Number(form.maxUses) : null,
+        max_uses_per_user: form.maxUsesPerUser ? Number(form.maxUsesPerUser) : null,
+        workspace_types: form.workspaceTypes
+      });
+
+      if (error) throw error;
+      toast.success('Promo code created');
+      setForm(EMPTY_FORM);
+      loadPromoCodes();
+    } catch (error) {
+      console.error('Error creating promo code:', error);
+      toast.error('Failed to create promo code. Codes must be unique.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (promo: PromoCodeRow) => {
+    try {
+      const { error } = await supabase.from('promo_codes').update({ is_active: !promo.is_active }).eq('id', promo.id);
+      if (error) throw error;
+      loadPromoCodes();
+    } catch (error) {
+      console.error('Error updating promo code:', error);
+      toast.error('Failed to update promo code');
+    }
+  };
+
+  const deletePromoCode = async (promo: PromoCodeRow) => {
+    if (!confirm(`Delete promo code ${promo.code}? Bookings that used it keep their discount.`)) return;
+
+    try {
+      const { error } = await supabase.from('promo_codes').delete().eq('id', promo.id);
+      if (error) throw error;
+      loadPromoCodes();
+    } catch (error) {
+      console.error('Error deleting promo code:', error);
+      toast.error('Failed to delete promo code');
+    }
+  };
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : null);
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg">
+      <h4 className="text-md font-semibold text-gray-900 mb-3 flex items-center">
+        <Tag className="w-4 h-4 mr-2" />
+        Promo Codes
+      </h4>
+      <p className="text-sm text-gray-600 mb-4">
+        Customers enter these codes when they book. Usage limits count bookings that were not rejected or cancelled.
+      </p>
+
+      <form onSubmit={createPromoCode} className="space-y-3 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <input
+            type="text"
+            placeholder="CODE"
+            value={form.code}
+            onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+            className={`${inputClass} uppercase`}
+          />
+          <input
+            type="text"
+            placeholder="Description (optional)"
+            value={form.description}
+            onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+            className={`${inputClass} md:col-span-3`}
+          />
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm text-gray-600">
+          <label>
+            Discount
+            <div className="flex gap-2">
+              <select
+                value={form.discountType}
+                onChange={(e) => setForm(prev => ({ ...prev, discountType: e.target.value as PromoDiscountType }))}
+                className={inputClass}
+              >
+                <option value="percent">%</option>
+                <option value="fixed">{getCurrencySymbol(currency)}</option>
+              </select>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.discountValue}
+                onChange={(e) => setForm(prev => ({ ...prev, discountValue: e.target.value }))}
+                className={`${inputClass} w-full`}
+              />
+            </div>
+          </label>
+          <label>
+            Valid from
+            <input
+              type="date"
+              value={form.validFrom}
+              onChange={(e) => setForm(prev => ({ ...prev, validFrom: e.target.value }))}
+              className={`${inputClass} w-full`}
+            />
+          </label>
+          <label>
+            Valid until
+            <input
+              type="date"
+              value={form.validUntil}
+              onChange={(e) => setForm(prev => ({ ...prev, validUntil: e.target.value }))}
+              className={`${inputClass} w-full`}
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label>
+              Max uses
+              <input
+                type="number"
+                min={1}
+                placeholder="∞"
+                value={form.maxUses}
+                onChange={(e) => setForm(prev => ({ ...prev, maxUses: e.target.value }))}
+                className={`${inputClass} w-full`}
+              />
+            </label>
+            <label title="Only signed-in customers can use codes with a per-customer limit">
+              Per customer
+              <input
+                type="number"
+                min={1}
+                placeholder="∞"
+                value={form.maxUsesPerUser}
+                onChange={(e) => setForm(prev => ({ ...prev, maxUsesPerUser: e.target.value }))}
+                className={`${inputClass} w-full`}
+              />
+            </label>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+          <span className="text-gray-600">Workspaces (none selected = all):</span>
+          {workspaceTypes.map(({ name }) => (
+            <label key={name} className="flex items-center">
+              <input
+                type="checkbox"
+                checked={form.workspaceTypes.includes(name)}
+                onChange={() => toggleWorkspaceType(name)}
+                className="mr-1"
+              />
+              {name}
+            </label>
+          ))}
+          <button
+            type="submit"
+            disabled={saving}
+            className="ml-auto bg-yellow-500 text-black px-4 py-2 rounded-md font-semibold hover:bg-yellow-600 disabled:opacity-50 flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {saving ? 'Creating...' : 'Create Code'}
+          </button>
+        </div>
+      </form>
+
+      {promoCodes.length === 0 ? (
+        <p className="text-sm text-gray-500">No promo codes yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="py-2 pr-4">Code</th>
+                <th className="py-2 pr-4">Discount</th>
+                <th className="py-2 pr-4">Valid</th>
+                <th className="py-2 pr-4">Uses</th>
+                <th className="py-2 pr-4">Workspaces</th>
+                <th className="py-2 pr-4">Active</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {promoCodes.map(promo => (
+                <tr key={promo.id}>
+                  <td className="py-2 pr-4">
+                    <div className="font-mono font-semibold text-gray-900">{promo.code}</div>
+                    {promo.description && <div className="text-xs text-gray-500">{promo.description}</div>}
+                  </td>
+                  <td className="py-2 pr-4">{describePromoDiscount(promo, currency)}</td>
+                  <td className="py-2 pr-4 text-gray-600">
+                    {formatDate(promo.valid_from) || 'Now'} – {formatDate(promo.valid_until) || 'No end'}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-600">
+                    {redemptions[promo.id] || 0}
+                    {promo.max_uses !== null && ` / ${promo.max_uses}`}
+                    {promo.max_uses_per_user !== null && (
+                      <div className="text-xs text-gray-400">{promo.max_uses_per_user} per customer</div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-600">
+                    {promo.workspace_types.length > 0 ? promo.workspace_types.join(', ') : 'All'}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input type="checkbox" checked={promo.is_active} onChange={() => toggleActive(promo)} />
+                  </td>
+                  <td className="py-2 text-right">
+                    <button onClick={() => deletePromoCode(promo)} className="text-red-600 hover:text-red-800" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromoCodeSettings;
@@ -0,0 +1,162 @@
+import React from 'react';
+import { Repeat } from 'lucide-react';
+import { RecurrenceFrequency } from '../lib/supabase';
+import {
+  RecurrenceRule,
+  SeriesConflict,
+  MAX_SERIES_OCCURRENCES,
+  WEEKDAY_OPTIONS,
+  createRecurrenceRule,
+  describeRecurrence
+} from '../utils/recurrenceHelpers';
+
+interface RecurrenceFieldsProps {
+  startDate: string;
+  rule: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  dates: string[];
+  conflicts: SeriesConflict[];
+  checking?: boolean;
+}
+
+// Repeat options shared by the customer and admin booking forms, with a preview of every date
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ startDate, rule, onChange, dates, conflicts, checking = false }) => {
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (rule) onChange({ ...rule, ...changes });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (!rule) return;
+    update({
+      weekdays: rule.weekdays.includes(weekday)
+        ? rule.weekdays.filter(d => d !== weekday)
+        : [...rule.weekdays, weekday]
+    });
+  };
+
+  const getConflict = (date: string) => conflicts.find(c => c.conflict_date === date);
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={rule !== null}
+          onChange={(e) => onChange(e.target.checked ? createRecurrenceRule(startDate) : null)}
+          className="mr-2"
+        />
+        <Repeat className="w-4 h-4 mr-2" />
+        Repeat this booking
+      </label>
+
+      {rule && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={rule.frequency}
+              onChange={(e) => update({ frequency: e.target.value as RecurrenceFrequency })}
+              className={inputClass}
+            >
+              <option value="weekdays">Every weekday (Mon to Fri)</option>
+              <option value="weekly">Weekly on chosen days</option>
+            </select>
+
+            {rule.frequency === 'weekly' && (
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAY_OPTIONS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => toggleWeekday(value)}
+                    className={`px-3 py-1 rounded-md text-sm font-medium border ${
+                      rule.weekdays.includes(value)
+                        ? 'bg-yellow-500 border-yellow-600 text-black'
+                        : 'bg-white border-gray-300 text-gray-700 hover:border-yellow-500'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+            <label className="flex items-center">
+              <input
+                type="radio"
+                checked={rule.endType === 'count'}
+                onChange={() => update({ endType: 'count' })}
+                className="mr-2"
+              />
+              For
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_SERIES_OCCURRENCES}
+              value={rule.count}
+              onChange={(e) => update({ endType: 'count', count: Math.max(1, Math.min(MAX_SERIES_OCCURRENCES, Number(e.target.value) || 1)) })}
+              className={`${inputClass} w-20`}
+            />
+            <span>bookings</span>
+            <label className="flex items-center ml-4">
+              <input
+                type="radio"
+                checked={rule.endType === 'until'}
+                onChange={() => update({ endType: 'until' })}
+                className="mr-2"
+              />
+              Until
+            </label>
+            <input
+              type="date"
+              value={rule.untilDate}
+              min={startDate}
+              onChange={(e) => update({ endType: 'until', untilDate: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          {dates.length === 0 ? (
+            <p className="text-sm text-red-500">No dates match these options. Pick at least one day of the week.</p>
+          ) : (
+            <div>
+              <p className="text-sm text-gray-700 mb-2">
+                {describeRecurrence(rule)}: <span className="font-medium">{dates.length} bookings</span>
+                {checking && <span className="text-gray-500"> · checking availability...</span>}
+                {!checking && conflicts.length > 0 && (
+                  <span className="text-red-600"> · {conflicts.length} cannot be booked</span>
+                )}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {dates.map(date => {
+                  const conflict = getConflict(date);
+                  return (
+                    <span
+                      key={date}
+                      title={conflict?.reason}
+                      className={`px-2 py-1 rounded text-xs font-medium ${
+                        conflict ? 'bg-red-100 text-red-800 line-through' : 'bg-green-100 text-green-800'
+                      }`}
+                    >
+                      {new Date(`${date}T00:00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+                      {conflict && ` · ${conflict.reason}`}
+                    </span>
+                  );
+                })}
+              </div>
+              {conflicts.length > 0 && (
+                <p className="text-xs text-gray-500 mt-2">Dates in red are skipped when you book the rest of the series.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CheckCircle, XCircle, CreditCard } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase, PaymentRow, RefundRow } from '../lib/supabase';
+import { useBooking } from '../contexts/BookingContext';
+import { getPaymentProvider } from '../utils/paymentHelpers';
+import { formatMoney } from '../utils/moneyHelpers';
+import { REFUND_STATUS_LABELS, processRefund } from '../utils/cancellationHelpers';
+
+interface RefundRequestsProps {
+  adminName: string;
+  onProcessed?: () => void;
+}
+
+interface RefundWithBooking extends RefundRow {
+  bookings: {
+    customer_name: string;
+    customer_email: string;
+    workspace_type: string;
+    date: string;
+    time_slot: string;
+    total_price: number;
+    currency: string;
+    payments: PaymentRow[];
+  } | null;
+}
+
+// A successful provider payment the whole refund can still be paid back through
+const getRefundablePayment = (refund: RefundWithBooking): PaymentRow | null =>
+  refund.bookings?.payments.find(
+    payment =>
+      payment.status === 'succeeded' &&
+      payment.amount - payment.refunded_amount >= refund.amount &&
+      getPaymentProvider(payment.provider) !== null
+  ) ?? null;
+
+// Refunds owed for cancelled bookings. Admins pay them back through the payment
+// provider, mark them paid outside the app, or decline them
+const RefundRequests: React.FC<RefundRequestsProps> = ({ adminName, onProcessed }) => {
+  const { refundPayment } = useBooking();
+  const [refunds, setRefunds] = useState<RefundWithBooking[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const loadRefunds = useCallback(async () => {
+    try {
+      let query = supabase
+        .from('refunds')
+        .select('*, bookings(customer_name, customer_email, workspace_type, date, time_slot, total_price, currency, payments(*))')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (!showAll) {
+        query = query.eq('status', 'pending');
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setRefunds(data || []);
+    } catch (error) {
+      console.error('Error fetching refunds:', error);
+      toast.error('Failed to load refunds');
+    }
+  }, [showAll]);
+
+  useEffect(() => {
+    loadRefunds();
+  }, [loadRefunds]);
+
+  const handleProcess = async (refund: RefundWithBooking, processed: boolean, payment?: PaymentRow) => {
+    const note = prompt(processed ? 'Note for this refund (optional):' : 'Why is this refund declined?');
+    if (note === null) return;
+
+    setProcessingId(refund.id);
+    try {
+      if (payment) {
+        await refundPayment(payment, refund.amount);
+      }
+      await processRefund(refund.id, processed, note.trim(), payment?.id);
+
+      await supabase
+        .from('user_activity_log')
+        .insert({
+          user_id: refund.user_id,
+          action: processed ? 'refund_processed_by_admin' : 'refund_rejected_by_admin',
+          details: { booking_id: refund.booking_id, amount: refund.amount, provider: payment?.provider, admin_name: adminName }
+        });
+
+      toast.success(processed ? `Refund of ${formatMoney(refund.amount, refund.bookings?.currency)} processed` : 'Refund declined');
+      loadRefunds();
+      onProcessed?.();
+    } catch (error) {
+      console.error('Error processing refund:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to process refund');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Refunds</h3>
+        <label className="flex items-center text-sm text-gray-600">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} className="mr-2" />
+          Show processed refunds
+        </label>
+      </div>
+
+      {refunds.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-500">{showAll ? 'No refunds yet.' : 'No refunds waiting to be processed.'}</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Booking</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Refund</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cancelled</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {refunds.map(refund => {
+                const payment = getRefundablePayment(refund);
+                return (
+                  <tr key={refund.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="font-medium text-gray-900">{refund.bookings?.customer_name}</div>
+                      <div className="text-gray-500">{refund.bookings?.customer_email}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div>{refund.bookings?.workspace_type}</div>
+                      <div className="text-gray-500">
+                        {refund.bookings && `${new Date(refund.bookings.date).toLocaleDateString()} ${refund.bookings.time_slot}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div className="font-semibold">{formatMoney(refund.amount, refund.bookings?.currency)}</div>
+                      <div className="text-gray-500">
+                        {refund.refund_percent}% of {formatMoney(refund.bookings?.total_price ?? 0, refund.bookings?.currency)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div>{new Date(refund.created_at).toLocaleString()}</div>
+                      <div>{refund.hours_before_start}h before start</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      <div>{REFUND_STATUS_LABELS[refund.status]}</div>
+                      {refund.note && <div className="text-xs text-gray-500">{refund.note}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {refund.status === 'pending' && (
+                        <div className="flex space-x-2">
+                          {payment && (
+                            <button
+                              onClick={() => handleProcess(refund, true, payment)}
+                              disabled={processingId === refund.id}
+                              className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                              title={`Refund through ${payment.provider}`}
+                            >
+                              <CreditCard className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleProcess(refund, true)}
+                            disabled={processingId === refund.id}
+                            className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                            title="Mark as refunded"
+                          >
+                            <CheckCircle className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleProcess(refund, false)}
+                            disabled={processingId === refund.id}
+                            className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                            title="Decline"
+                          >
+                            <XCircle className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RefundRequests;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ScheduleCalendar, WEEKDAY_LABELS, getDayHours, getWeekday } from '../utils/scheduleHelpers';
+
+interface ScheduleDatePickerProps {
+  value: string;
+  onChange: (date: string) => void;
+  calendar: ScheduleCalendar;
+  min?: string;
+  required?: boolean;
+  className?: string;
+}
+
+const toDateKey = (year: number, month: number, day: number) =>
+  `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// Date picker that greys out days the space is closed, with the reason on hover
+const ScheduleDatePicker: React.FC<ScheduleDatePickerProps> = ({
+  value,
+  onChange,
+  calendar,
+  min,
+  required = false,
+  className = ''
+}) => {
+  const initial = value || min || new Date().toISOString().split('T')[0];
+  const [isOpen, setIsOpen] = useState(false);
+  const [visibleMonth, setVisibleMonth] = useState({
+    year: parseInt(initial.slice(0, 4), 10),
+    month: parseInt(initial.slice(5, 7), 10) - 1
+  });
+
+  const { year, month } = visibleMonth;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const leadingBlanks = getWeekday(toDateKey(year, month, 1));
+  const monthLabel = new Date(Date.UTC(year, month, 1)).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  const canGoBack = !min || toDateKey(year, month, 1) > min;
+
+  const changeMonth = (offset: number) => {
+    setVisibleMonth(prev => {
+      const next = new Date(Date.UTC(prev.year, prev.month + offset, 1));
+      return { year: next.getUTCFullYear(), month: next.getUTCMonth() };
+    });
+  };
+
+  const selectDate = (date: string) => {
+    onChange(date);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md text-left focus:outline-none focus:ring-2 focus:ring-yellow-500 transition-all duration-300 flex items-center justify-between"
+      >
+        <span className={value ? 'text-black' : 'text-gray-400'}>
+          {value ? new Date(`${value}T00:00:00`).toLocaleDateString() : 'Choose a date'}
+        </span>
+        <Calendar className="w-4 h-4 text-gray-400" />
+      </button>
+      {/* Keeps native required-field validation working for the custom picker */}
+      <input
+        tabIndex={-1}
+        aria-hidden="true"
+        value={value}
+        required={required}
+        onChange={() => undefined}
+        className="absolute bottom-0 left-1/2 w-px h-px opacity-0 pointer-events-none"
+      />
+
+      {isOpen && (
+        <div className="absolute z-20 mt-2 w-72 bg-white border border-gray-200 rounded-lg shadow-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <button
+              type="button"
+              onClick={() => changeMonth(-1)}
+              disabled={!canGoBack}
+              className="p-1 rounded hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm font-semibold text-gray-900">{monthLabel}</span>
+            <button type="button" onClick={() => changeMonth(1)} className="p-1 rounded hover:bg-gray-100">
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-7 gap-1 text-center text-xs text-gray-500 mb-1">
+            {WEEKDAY_LABELS.map(label => (
+              <div key={label}>{label.slice(0, 2)}</div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-7 gap-1 text-center text-sm">
+            {Array.from({ length: leadingBlanks }, (_, index) => (
+              <div key={`blank-${index}`} />
+            ))}
+            {Array.from({ length: daysInMonth }, (_, index) => {
+              const date = toDateKey(year, month, index + 1);
+              const dayHours = getDayHours(date, calendar);
+              const isPast = !!min && date < min;
+              const isDisabled = isPast || !dayHours.isOpen;
+
+              return (
+                <button
+                  key={date}
+                  type="button"
+                  disabled={isDisabled}
+                  onClick={() => selectDate(date)}
+                  title={!dayHours.isOpen ? `Closed${dayHours.reason ? `: ${dayHours.reason}` : ''}` : undefined}
+                  className={`py-1 rounded ${
+                    date === value
+                      ? 'bg-yellow-500 text-black font-semibold'
+                      : !dayHours.isOpen
+                      ? 'bg-gray-100 text-gray-300 line-through cursor-not-allowed'
+                      : isPast
+                      ? 'text-gray-300 cursor-not-allowed'
+                      : 'hover:bg-yellow-100 text-gray-900'
+                  }`}
+                >
+                  {index + 1}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center mt-3 text-xs text-gray-500">
+            <div className="w-3 h-3 bg-gray-100 border border-gray-200 rounded mr-2"></div>
+            <span>Closed</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleDatePicker;
@@ -0,0 +1,395 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CalendarOff, Clock, Plus, Save, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase, OpeningHoursRow, ScheduleOverrideRow, ClosureRow } from '../lib/supabase';
+import { parseTimeOfDay } from '../utils/bookingHelpers';
+import { WEEKDAY_LABELS } from '../utils/scheduleHelpers';
+
+interface ScheduleSettingsProps {
+  onScheduleChange?: () => void;
+}
+
+// Both times blank keeps each workspace type's own hours; otherwise closing must follow opening
+const validateHours = (opensAt: string | null, closesAt: string | null): string | null => {
+  if (!opensAt && !closesAt) return null;
+  if (!opensAt || !closesAt) return 'Enter both an opening and a closing time, or leave both blank';
+
+  const opening = parseTimeOfDay(opensAt);
+  const closing = parseTimeOfDay(closesAt);
+  if (opening === null || closing === null || closing <= opening) return 'Closing time must be after opening time';
+  return null;
+};
+
+const toTimeInput = (value: string | null) => (value ? value.slice(0, 5) : '');
+
+const ScheduleSettings: React.FC<ScheduleSettingsProps> = ({ onScheduleChange }) => {
+  const [openingHours, setOpeningHours] = useState<OpeningHoursRow[]>([]);
+  const [overrides, setOverrides] = useState<ScheduleOverrideRow[]>([]);
+  const [closures, setClosures] = useState<ClosureRow[]>([]);
+  const [savingHours, setSavingHours] = useState(false);
+  const [newOverride, setNewOverride] = useState({ date: '', isOpen: true, opensAt: '', closesAt: '', reason: '' });
+  const [newClosure, setNewClosure] = useState({ startDate: '', endDate: '', kind: 'holiday' as ClosureRow['kind'], reason: '' });
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const fetchSchedule = useCallback(async () => {
+    try {
+      const [hoursResult, overridesResult, closuresResult] = await Promise.all([
+        supabase.from('opening_hours').select('*').order('weekday', { ascending: true }),
+        supabase.from('schedule_overrides').select('*').gte('date', today).order('date', { ascending: true }),
+        supabase.from('closures').select('*').gte('end_date', today).order('start_date', { ascending: true })
+      ]);
+
+      if (hoursResult.error) throw hoursResult.error;
+      if (overridesResult.error) throw overridesResult.error;
+      if (closuresResult.error) throw closuresResult.error;
+
+      // Weekdays without a row are open with each workspace type's own hours
+      setOpeningHours(WEEKDAY_LABELS.map((_, weekday) => ({
+        weekday,
+        is_open: true,
+        opens_at: null,
+        closes_at: null,
+        updated_at: '',
+        ...(hoursResult.data || []).find((row: OpeningHoursRow) => row.weekday === weekday)
+      })));
+      setOverrides(overridesResult.data || []);
+      setClosures(closuresResult.data || []);
+    } catch (error) {
+      console.error('Error fetching opening hours:', error);
+      toast.error('Failed to load opening hours');
+    }
+  }, [today]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  const handleHoursChange = (weekday: number, changes: Partial<OpeningHoursRow>) => {
+    setOpeningHours(prev => prev.map(row => (row.weekday === weekday ? { ...row, ...changes } : row)));
+  };
+
+  const saveOpeningHours = async () => {
+    for (const row of openingHours) {
+      const error = row.is_open ? validateHours(row.opens_at, row.closes_at) : null;
+      if (error) {
+        toast.error(`${WEEKDAY_LABELS[row.weekday]}: ${error}`);
+        return;
+      }
+    }
+
+    setSavingHours(true);
+    try {
+      const { error } = await supabase.from('opening_hours').upsert(
+        openingHours.map(row => ({
+          weekday: row.weekday,
+          is_open: row.is_open,
+          opens_at: row.opens_at || null,
+          closes_at: row.closes_at || null,
+          updated_at: new Date().toISOString()
+        }))
+      );
+
+      if (error) throw error;
+      toast.success('Opening hours saved');
+      onScheduleChange?.();
+    } catch (error) {
+      console.error('Error saving opening hours:', error);
+      toast.error('Failed to save opening hours');
+    } finally {
+      setSavingHours(false);
+    }
+  };
+
+  const addOverride = async () => {
+    if (!newOverride.date) {
+      toast.error('Choose the date to override');
+      return;
+    }
+
+    const hoursError = newOverride.isOpen ? validateHours(newOverride.opensAt, newOverride.closesAt) : null;
+    if (hoursError) {
+      toast.error(hoursError);
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('schedule_overrides').upsert(
+        {
+          date: newOverride.date,
+          is_open: newOverride.isOpen,
+          opens_at: newOverride.isOpen ? newOverride.opensAt || null : null,
+          closes_at: newOverride.isOpen ? newOverride.closesAt || null : null,
+          reason: newOverride.reason.trim() || null
+        },
+        { onConflict: 'date' }
+      );
+
+      if (error) throw error;
+      setNewOverride({ date: '', isOpen: true, opensAt: '', closesAt: '', reason: '' });
+      await fetchSchedule();
+      onScheduleChange?.();
+    } catch (error) {
+      console.error('Error saving date override:', error);
+      toast.error('Failed to save date override');
+    }
+  };
+
+  const addClosure = async () => {
+    if (!newClosure.startDate || !newClosure.reason.trim()) {
+      toast.error('Enter a start date and a reason for the closure');
+      return;
+    }
+
+    const endDate = newClosure.endDate || newClosure.startDate;
+    if (endDate < newClosure.startDate) {
+      toast.error('The closure cannot end before it starts');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('closures').insert({
+        start_date: newClosure.startDate,
+        end_date: endDate,
+        kind: newClosure.kind,
+        reason: newClosure.reason.trim()
+      });
+
+      if (error) throw error;
+      setNewClosure({ startDate: '', endDate: '', kind: 'holiday', reason: '' });
+      await fetchSchedule();
+      onScheduleChange?.();
+    } catch (error) {
+      console.error('Error saving closure:', error);
+      toast.error('Failed to save closure');
+    }
+  };
+
+  const deleteRow = async (table: 'schedule_overrides' | 'closures', id: string) => {
+    if (!confirm('Remove this entry from the calendar?')) return;
+
+    try {
+      const { error } = await supabase.from(table).delete().eq('id', id);
+      if (error) throw error;
+      await fetchSchedule();
+      onScheduleChange?.();
+    } catch (error) {
+      console.error('Error deleting schedule entry:', error);
+      toast.error('Failed to delete entry');
+    }
+  };
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+  return (
+    <div className="space-y-6">
+      {/* Weekly opening hours */}
+      <div className="bg-gray-50 p-6 rounded-lg">
+        <h4 className="text-md font-semibold text-gray-900 mb-3 flex items-center">
+          <Clock className="w-4 h-4 mr-2" />
+          Weekly Opening Hours
+        </h4>
+        <p className="text-sm text-gray-600 mb-3">
+          Choose which days the space is open. Leave the times blank to use each workspace type's own hours, or set
+          them to shorten every workspace type on that day.
+        </p>
+        <div className="space-y-2">
+          {openingHours.map(row => (
+            <div key={row.weekday} className="flex flex-wrap items-center gap-3">
+              <span className="w-28 text-sm font-medium text-gray-900">{WEEKDAY_LABELS[row.weekday]}</span>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={row.is_open}
+                  onChange={(e) => handleHoursChange(row.weekday, { is_open: e.target.checked })}
+                  className="mr-2"
+                />
+                Open
+              </label>
+              <input
+                type="time"
+                value={toTimeInput(row.opens_at)}
+                disabled={!row.is_open}
+                onChange={(e) => handleHoursChange(row.weekday, { opens_at: e.target.value || null })}
+                className={`${inputClass} disabled:bg-gray-100`}
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="time"
+                value={toTimeInput(row.closes_at)}
+                disabled={!row.is_open}
+                onChange={(e) => handleHoursChange(row.weekday, { closes_at: e.target.value || null })}
+                className={`${inputClass} disabled:bg-gray-100`}
+              />
+              {!row.is_open && <span className="text-sm text-red-500">Closed</span>}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={saveOpeningHours}
+            disabled={savingHours}
+            className="bg-yellow-500 text-black px-4 py-2 rounded-md font-semibold hover:bg-yellow-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {savingHours ? 'Saving...' : 'Save Opening Hours'}
+          </button>
+        </div>
+      </div>
+
+      {/* Date overrides */}
+      <div className="bg-gray-50 p-6 rounded-lg">
+        <h4 className="text-md font-semibold text-gray-900 mb-3">Date Overrides</h4>
+        <p className="text-sm text-gray-600 mb-3">
+          Replace the weekly hours on a single date, for example to open on a usually closed day or close early.
+        </p>
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <input
+            type="date"
+            min={today}
+            value={newOverride.date}
+            onChange={(e) => setNewOverride(prev => ({ ...prev, date: e.target.value }))}
+            className={inputClass}
+          />
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={newOverride.isOpen}
+              onChange={(e) => setNewOverride(prev => ({ ...prev, isOpen: e.target.checked }))}
+              className="mr-2"
+            />
+            Open
+          </label>
+          <input
+            type="time"
+            value={newOverride.opensAt}
+            disabled={!newOverride.isOpen}
+            onChange={(e) => setNewOverride(prev => ({ ...prev, opensAt: e.target.value }))}
+            className={`${inputClass} disabled:bg-gray-100`}
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="time"
+            value={newOverride.closesAt}
+            disabled={!newOverride.isOpen}
+            onChange={(e) => setNewOverride(prev => ({ ...prev, closesAt: e.target.value }))}
+            className={`${inputClass} disabled:bg-gray-100`}
+          />
+          <input
+            type="text"
+            placeholder="Reason (optional)"
+            value={newOverride.reason}
+            onChange={(e) => setNewOverride(prev => ({ ...prev, reason: e.target.value }))}
+            className={`${inputClass} flex-1 min-w-[10rem]`}
+          />
+          <button
+            onClick={addOverride}
+            className="bg-black text-white px-3 py-1 rounded-md text-sm font-semibold hover:bg-gray-800 flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </button>
+        </div>
+        {overrides.length === 0 ? (
+          <p className="text-sm text-gray-500">No upcoming date overrides.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {overrides.map(override => (
+              <li key={override.id} className="flex items-center justify-between py-2 text-sm">
+                <span>
+                  <span className="font-medium text-gray-900">{new Date(`${override.date}T00:00:00`).toLocaleDateString()}</span>
+                  <span className="ml-3 text-gray-600">
+                    {!override.is_open
+                      ? 'Closed'
+                      : override.opens_at && override.closes_at
+                      ? `${toTimeInput(override.opens_at)} – ${toTimeInput(override.closes_at)}`
+                      : 'Open, workspace hours'}
+                  </span>
+                  {override.reason && <span className="ml-3 text-gray-500">{override.reason}</span>}
+                </span>
+                <button onClick={() => deleteRow('schedule_overrides', override.id)} className="text-red-600 hover:text-red-900">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Closures and holidays */}
+      <div className="bg-gray-50 p-6 rounded-lg">
+        <h4 className="text-md font-semibold text-gray-900 mb-3 flex items-center">
+          <CalendarOff className="w-4 h-4 mr-2" />
+          Holidays and Closures
+        </h4>
+        <p className="text-sm text-gray-600 mb-3">
+          Close the space for one or more days. Customers cannot pick these dates and new bookings on them are refused.
+        </p>
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <input
+            type="date"
+            min={today}
+            value={newClosure.startDate}
+            onChange={(e) => setNewClosure(prev => ({ ...prev, startDate: e.target.value }))}
+            className={inputClass}
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            min={newClosure.startDate || today}
+            value={newClosure.endDate}
+            onChange={(e) => setNewClosure(prev => ({ ...prev, endDate: e.target.value }))}
+            className={inputClass}
+          />
+          <select
+            value={newClosure.kind}
+            onChange={(e) => setNewClosure(prev => ({ ...prev, kind: e.target.value as ClosureRow['kind'] }))}
+            className={inputClass}
+          >
+            <option value="holiday">Holiday</option>
+            <option value="closure">Closure</option>
+          </select>
+          <input
+            type="text"
+            placeholder="Reason, e.g. Eid al-Adha"
+            value={newClosure.reason}
+            onChange={(e) => setNewClosure(prev => ({ ...prev, reason: e.target.value }))}
+            className={`${inputClass} flex-1 min-w-[10rem]`}
+          />
+          <button
+            onClick={addClosure}
+            className="bg-black text-white px-3 py-1 rounded-md text-sm font-semibold hover:bg-gray-800 flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </button>
+        </div>
+        {closures.length === 0 ? (
+          <p className="text-sm text-gray-500">No upcoming holidays or closures.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {closures.map(closure => (
+              <li key={closure.id} className="flex items-center justify-between py-2 text-sm">
+                <span>
+                  <span className="font-medium text-gray-900">
+                    {new Date(`${closure.start_date}T00:00:00`).toLocaleDateString()}
+                    {closure.end_date !== closure.start_date && ` – ${new Date(`${closure.end_date}T00:00:00`).toLocaleDateString()}`}
+                  </span>
+                  <span className={`ml-3 px-2 py-0.5 rounded-full text-xs ${closure.kind === 'holiday' ? 'bg-blue-100 text-blue-800' : 'bg-red-100 text-red-800'}`}>
+                    {closure.kind === 'holiday' ? 'Holiday' : 'Closure'}
+                  </span>
+                  <span className="ml-3 text-gray-600">{closure.reason}</span>
+                </span>
+                <button onClick={() => deleteRow('closures', closure.id)} className="text-red-600 hover:text-red-900">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleSettings;
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Percent, Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useTaxRates } from '../hooks/useTaxRates';
+import { TaxRate, describeTaxLine, saveTaxRates } from '../utils/taxHelpers';
+
+interface TaxRateSettingsProps {
+  workspaceTypes: { name: string }[];
+}
+
+const EMPTY_FORM = {
+  name: '',
+  rate: '',
+  inclusive: true,
+  workspaceTypes: [] as string[]
+};
+
+// Admin editor for the tax rates applied to new bookings
+const TaxRateSettings: React.FC<TaxRateSettingsProps> = ({ workspaceTypes }) => {
+  const { taxRates, refetch } = useTaxRates();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const save = async (rates: TaxRate[], message: string) => {
+    setSaving(true);
+    try {
+      await saveTaxRates(rates);
+      toast.success(message);
+      refetch();
+      return true;
+    } catch (error) {
+      console.error('Error saving tax rates:', error);
+      toast.error('Failed to save tax rates');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = Number(form.rate);
+    if (!form.name.trim() || form.rate === '' || !(rate > 0 && rate <= 100)) {
+      toast.error('Enter a name and a rate between 0 and 100%');
+      return;
+    }
+
+    const saved = await save(
+      [...taxRates, { name: form.name.trim(), rate, inclusive: form.inclusive, workspace_types: form.workspaceTypes }],
+      'Tax rate added'
+    );
+    if (saved) setForm(EMPTY_FORM);
+  };
+
+  const deleteRate = (index: number) => {
+    if (!confirm(`Remove ${taxRates[index].name}? Existing bookings keep the tax they were booked with.`)) return;
+    save(taxRates.filter((_, i) => i !== index), 'Tax rate removed');
+  };
+
+  const toggleWorkspaceType = (name: string) => {
+    setForm(prev => ({
+      ...prev,
+      workspaceTypes: prev.workspaceTypes.includes(name)
+        ? prev.workspaceTypes.filter(type => type !== name)
+        : [...prev.workspaceTypes, name]
+    }));
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-lg">
+      <h4 className="text-md font-semibold text-gray-900 mb-3 flex items-center">
+        <Percent className="w-4 h-4 mr-2" />
+        Tax Rates
+      </h4>
+      <p className="text-sm text-gray-600 mb-4">
+        Included rates are part of the listed prices; other rates are added on top at checkout. A rate with no workspaces
+        picked applies to all of them. Changes apply to new bookings only.
+      </p>
+
+      <form onSubmit={addRate} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6 text-sm text-gray-600">
+        <label>
+          Name
+          <input
+            type="text"
+            placeholder="e.g. VAT"
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            className={`${inputClass} w-full`}
+          />
+        </label>
+        <label>
+          Rate (%)
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step="0.01"
+            value={form.rate}
+            onChange={(e) => setForm(prev => ({ ...prev, rate: e.target.value }))}
+            className={`${inputClass} w-full`}
+          />
+        </label>
+        <label className="flex items-end pb-2">
+          <input
+            type="checkbox"
+            checked={form.inclusive}
+            onChange={(e) => setForm(prev => ({ ...prev, inclusive: e.target.checked }))}
+            className="mr-2"
+          />
+          Included in prices
+        </label>
+        <div className="flex items-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-yellow-500 text-black px-4 py-2 rounded-md font-semibold hover:bg-yellow-600 disabled:opacity-50 flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Add Rate'}
+          </button>
+        </div>
+        <div className="md:col-span-4 flex flex-wrap gap-3">
+          {workspaceTypes.map(({ name }) => (
+            <label key={name} className="flex items-center">
+              <input
+                type="checkbox"
+                checked={form.workspaceTypes.includes(name)}
+                onChange={() => toggleWorkspaceType(name)}
+                className="mr-1"
+              />
+              {name}
+            </label>
+          ))}
+        </div>
+      </form>
+
+      {taxRates.length === 0 ? (
+        <p className="text-sm text-gray-500">No tax rates. Prices are charged without tax.</p>
+      ) : (
+        <div className="space-y-2">
+          {taxRates.map((rate, index) => (
+            <div key={index} className="flex justify-between items-center bg-white border border-gray-200 rounded-md px-3 py-2 text-sm">
+              <div>
+                <span className="font-medium text-gray-900">{describeTaxLine(rate)}</span>
+                <span className="text-gray-500 ml-2">
+                  {rate.workspace_types.length > 0 ? rate.workspace_types.join(', ') : 'All workspaces'}
+                </span>
+              </div>
+              <button
+                onClick={() => deleteRate(index)}
+                disabled={saving}
+                className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaxRateSettings;
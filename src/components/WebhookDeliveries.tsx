@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { WebhookEndpointRow } from '../lib/supabase';
+import { NOTIFICATION_EVENT_LABELS, Notification } from '../utils/notificationHelpers';
+import {
+  WEBHOOK_DELIVERY_STATUS_LABELS,
+  WebhookDeliveryWithNotification,
+  fetchWebhookDeliveries,
+  resendWebhookDelivery
+} from '../utils/webhookHelpers';
+
+interface WebhookDeliveriesProps {
+  endpoint: WebhookEndpointRow;
+}
+
+// Who a notification is for: the booking's customer, or the new client
+const getRecipient = (delivery: WebhookDeliveryWithNotification) => {
+  if (!delivery.notification_outbox) return null;
+  const { data } = delivery.notification_outbox.payload as unknown as Notification;
+  return 'customer' in data ? data.customer : 'client' in data ? data.client : null;
+};
+
+// Notifications posted to one endpoint, with what it answered. Admins queue failed ones again
+const WebhookDeliveries: React.FC<WebhookDeliveriesProps> = ({ endpoint }) => {
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryWithNotification[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    try {
+      setDeliveries(await fetchWebhookDeliveries(endpoint.id, showAll));
+    } catch (error) {
+      console.error('Error fetching deliveries:', error);
+      toast.error('Failed to load deliveries');
+    }
+  }, [endpoint.id, showAll]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const handleResend = async (delivery: WebhookDeliveryWithNotification) => {
+    setResendingId(delivery.id);
+    try {
+      await resendWebhookDelivery(delivery.id);
+      toast.success('Delivery queued again');
+      loadDeliveries();
+    } catch (error) {
+      console.error('Error resending delivery:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to resend delivery');
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h4 className="text-md font-semibold text-gray-900">
+          Deliveries to <span className="font-mono text-sm">{endpoint.url}</span>
+        </h4>
+        <label className="flex items-center text-sm text-gray-600">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} className="mr-2" />
+          Show delivered notifications
+        </label>
+      </div>
+
+      {deliveries.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-500">{showAll ? 'No deliveries yet.' : 'Every notification has been delivered.'}</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Response</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {deliveries.map(delivery => {
+                const recipient = getRecipient(delivery);
+                const event = delivery.notification_outbox?.event;
+                return (
+                  <tr key={delivery.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="font-medium text-gray-900">{event ? NOTIFICATION_EVENT_LABELS[event] ?? event : '—'}</div>
+                      <div className="text-gray-500">{new Date(delivery.created_at).toLocaleString()}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="text-gray-900">{recipient?.name}</div>
+                      <div className="text-gray-500">{recipient?.email}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <div
+                        className={
+                          delivery.status === 'dead'
+                            ? 'text-red-700'
+                            : delivery.status === 'delivered'
+                              ? 'text-green-700'
+                              : 'text-gray-700'
+                        }
+                      >
+                        {WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status]}
+                      </div>
+                      {delivery.last_error && <div className="text-xs text-gray-500">{delivery.last_error}</div>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {delivery.response_status !== null ? (
+                        <div className={delivery.response_status < 300 ? 'text-green-700' : 'text-red-700'}>
+                          HTTP {delivery.response_status}
+                          {delivery.duration_ms !== null && <span className="text-gray-500"> · {delivery.duration_ms} ms</span>}
+                        </div>
+                      ) : (
+                        <div>{delivery.attempts > 0 ? 'No response' : '—'}</div>
+                      )}
+                      {delivery.response_body && (
+                        <div className="text-xs font-mono text-gray-500 max-w-xs truncate" title={delivery.response_body}>
+                          {delivery.response_body}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div>{delivery.attempts}</div>
+                      {delivery.status === 'pending' && delivery.attempts > 0 && (
+                        <div className="text-xs">Next try {new Date(delivery.next_attempt_at).toLocaleString()}</div>
+                      )}
+                      {delivery.delivered_at && (
+                        <div className="text-xs">Delivered {new Date(delivery.delivered_at).toLocaleString()}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {delivery.status !== 'pending' && (
+                        <button
+                          onClick={() => handleResend(delivery)}
+                          disabled={resendingId === delivery.id}
+                          className="text-blue-600 hover:text-blue-900 disabled:opacity-50 flex items-center"
+                        >
+                          <RefreshCw className="w-4 h-4 mr-1" />
+                          Resend
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebhookDeliveries;
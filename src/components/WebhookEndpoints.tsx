@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { Webhook, Plus, Trash2, Eye, EyeOff, Copy, KeyRound } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { NotificationEvent, WebhookEndpointRow } from '../lib/supabase';
+import { NOTIFICATION_EVENT_LABELS } from '../utils/notificationHelpers';
+import {
+  WebhookEndpointInput,
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  describeWebhookEvents,
+  fetchWebhookEndpoints,
+  isValidWebhookUrl,
+  rotateWebhookSecret,
+  updateWebhookEndpoint
+} from '../utils/webhookHelpers';
+import WebhookDeliveries from './WebhookDeliveries';
+
+const EMPTY_FORM: WebhookEndpointInput = { url: '', description: '', events: [] };
+
+const NOTIFICATION_EVENTS = Object.keys(NOTIFICATION_EVENT_LABELS) as NotificationEvent[];
+
+// Admin editor for the endpoints notifications are posted to, each with its own signing secret and
+// events, and the delivery log of the selected one
+const WebhookEndpoints: React.FC = () => {
+  const [endpoints, setEndpoints] = useState<WebhookEndpointRow[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadEndpoints();
+  }, []);
+
+  const loadEndpoints = async () => {
+    try {
+      const data = await fetchWebhookEndpoints();
+      setEndpoints(data);
+      setSelectedId(prev => (prev && data.some(e => e.id === prev) ? prev : data[0]?.id ?? null));
+    } catch (error) {
+      console.error('Error fetching webhook endpoints:', error);
+      toast.error('Failed to load webhook endpoints');
+    }
+  };
+
+  const toggleEvent = (event: NotificationEvent) => {
+    setForm(prev => ({
+      ...prev,
+      events: prev.events.includes(event) ? prev.events.filter(e => e !== event) : [...prev.events, event]
+    }));
+  };
+
+  const createEndpoint = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidWebhookUrl(form.url)) {
+      toast.error('Enter a URL starting with http:// or https://');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const endpoint = await createWebhookEndpoint(form);
+      toast.success('Endpoint added. Copy its secret to the receiver.');
+      setForm(EMPTY_FORM);
+      setSelectedId(endpoint.id);
+      setRevealedId(endpoint.id);
+      loadEndpoints();
+    } catch (error) {
+      console.error('Error creating webhook endpoint:', error);
+      toast.error('Failed to add endpoint');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (endpoint: WebhookEndpointRow) => {
+    try {
+      await updateWebhookEndpoint(endpoint.id, { is_active: !endpoint.is_active });
+      loadEndpoints();
+    } catch (error) {
+      console.error('Error updating webhook endpoint:', error);
+      toast.error('Failed to update endpoint');
+    }
+  };
+
+  const rotateSecret = async (endpoint: WebhookEndpointRow) => {
+    if (!confirm(`Replace the secret of ${endpoint.url}? Deliveries signed with the old one will be rejected by the receiver until it is updated.`)) return;
+
+    try {
+      await rotateWebhookSecret(endpoint.id);
+      toast.success('Secret replaced');
+      setRevealedId(endpoint.id);
+      loadEndpoints();
+    } catch (error) {
+      console.error('Error rotating webhook secret:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to replace secret');
+    }
+  };
+
+  const copySecret = async (endpoint: WebhookEndpointRow) => {
+    try {
+      await navigator.clipboard.writeText(endpoint.secret);
+      toast.success('Secret copied');
+    } catch {
+      toast.error('Could not copy the secret');
+    }
+  };
+
+  const deleteEndpoint = async (endpoint: WebhookEndpointRow) => {
+    if (!confirm(`Delete the endpoint ${endpoint.url}? Its delivery log is deleted with it.`)) return;
+
+    try {
+      await deleteWebhookEndpoint(endpoint.id);
+      loadEndpoints();
+    } catch (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      toast.error('Failed to delete endpoint');
+    }
+  };
+
+  const selectedEndpoint = endpoints.find(e => e.id === selectedId);
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 p-6 rounded-lg">
+        <h4 className="text-md font-semibold text-gray-900 mb-3 flex items-center">
+          <Webhook className="w-4 h-4 mr-2" />
+          Webhook Endpoints
+        </h4>
+        <p className="text-sm text-gray-600 mb-4">
+          Notifications are posted to every active endpoint subscribed to them. Each request carries an{' '}
+          <code>X-Webhook-Timestamp</code> header and an <code>X-Webhook-Signature</code> of{' '}
+          <code>v1=</code> followed by the hex HMAC-SHA256 of <code>timestamp.body</code>, keyed with the endpoint's
+          secret. Receivers should check the signature and reject old timestamps.
+        </p>
+
+        <form onSubmit={createEndpoint} className="space-y-3 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <input
+              type="url"
+              placeholder="https://example.com/webhooks"
+              value={form.url}
+              onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+              className={`${inputClass} md:col-span-2`}
+            />
+            <input
+              type="text"
+              placeholder="Description (optional)"
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              className={`${inputClass} md:col-span-2`}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+            <span className="text-gray-600">Events (none selected = all):</span>
+            {NOTIFICATION_EVENTS.map(event => (
+              <label key={event} className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={form.events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                  className="mr-1"
+                />
+                {NOTIFICATION_EVENT_LABELS[event]}
+              </label>
+            ))}
+            <button
+              type="submit"
+              disabled={saving}
+              className="ml-auto bg-yellow-500 text-black px-4 py-2 rounded-md font-semibold hover:bg-yellow-600 disabled:opacity-50 flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {saving ? 'Adding...' : 'Add Endpoint'}
+            </button>
+          </div>
+        </form>
+
+        {endpoints.length === 0 ? (
+          <p className="text-sm text-gray-500">No endpoints yet. Notifications are kept but not sent anywhere.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="py-2 pr-4">Endpoint</th>
+                  <th className="py-2 pr-4">Events</th>
+                  <th className="py-2 pr-4">Secret</th>
+                  <th className="py-2 pr-4">Active</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {endpoints.map(endpoint => (
+                  <tr key={endpoint.id} className={endpoint.id === selectedId ? 'bg-yellow-50' : undefined}>
+                    <td className="py-2 pr-4">
+                      <button
+                        onClick={() => setSelectedId(endpoint.id)}
+                        className="font-mono text-left text-gray-900 hover:text-yellow-700 break-all"
+                        title="Show deliveries"
+                      >
+                        {endpoint.url}
+                      </button>
+                      {endpoint.description && <div className="text-xs text-gray-500">{endpoint.description}</div>}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">{describeWebhookEvents(endpoint.events)}</td>
+                    <td className="py-2 pr-4">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-xs text-gray-700">
+                          {revealedId === endpoint.id ? endpoint.secret : '••••••••••••'}
+                        </span>
+                        <button
+                          onClick={() => setRevealedId(revealedId === endpoint.id ? null : endpoint.id)}
+                          className="text-gray-500 hover:text-gray-700"
+                          title={revealedId === endpoint.id ? 'Hide' : 'Show'}
+                        >
+                          {revealedId === endpoint.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                        </button>
+                        <button onClick={() => copySecret(endpoint)} className="text-gray-500 hover:text-gray-700" title="Copy">
+                          <Copy className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => rotateSecret(endpoint)} className="text-gray-500 hover:text-gray-700" title="Replace secret">
+                          <KeyRound className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4">
+                      <input type="checkbox" checked={endpoint.is_active} onChange={() => toggleActive(endpoint)} />
+                    </td>
+                    <td className="py-2 text-right">
+                      <button onClick={() => deleteEndpoint(endpoint)} className="text-red-600 hover:text-red-800" title="Delete">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selectedEndpoint && <WebhookDeliveries endpoint={selectedEndpoint} />}
+    </div>
+  );
+};
+
+export default WebhookEndpoints;
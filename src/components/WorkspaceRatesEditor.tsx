@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase, WorkspaceRateRow } from '../lib/supabase';
+import { BOOKING_DURATIONS, getBookingPrice } from '../utils/pricingHelpers';
+
+interface WorkspaceRatesEditorProps {
+  workspaceType: string;
+  rates: WorkspaceRateRow[];
+  onSaved: () => void;
+}
+
+// Admin editor for the price of each booking duration of one workspace type; a blank price stops the duration being offered
+const WorkspaceRatesEditor: React.FC<WorkspaceRatesEditorProps> = ({ workspaceType, rates, onSaved }) => {
+  const [prices, setPrices] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setPrices(
+      Object.fromEntries(
+        BOOKING_DURATIONS.map(({ value }) => [value, getBookingPrice(rates, workspaceType, value)?.toString() ?? ''])
+      )
+    );
+  }, [rates, workspaceType]);
+
+  const saveRates = async () => {
+    const priced = BOOKING_DURATIONS.filter(({ value }) => prices[value]?.trim());
+    if (priced.some(({ value }) => !(Number(prices[value]) >= 0))) {
+      toast.error('Prices must be zero or more');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (priced.length > 0) {
+        const { error } = await supabase.from('workspace_rates').upsert(
+          priced.map(({ value }) => ({
+            workspace_type: workspaceType,
+            duration: value,
+            price: Number(prices[value])
+          })),
+          { onConflict: 'workspace_type,duration' }
+        );
+        if (error) throw error;
+      }
+
+      const unpriced = BOOKING_DURATIONS.filter(({ value }) => !prices[value]?.trim()).map(({ value }) => value);
+      if (unpriced.length > 0) {
+        const { error } = await supabase
+          .from('workspace_rates')
+          .delete()
+          .eq('workspace_type', workspaceType)
+          .in('duration', unpriced);
+        if (error) throw error;
+      }
+
+      toast.success('Rates saved');
+      onSaved();
+    } catch (error) {
+      console.error('Error saving rates:', error);
+      toast.error('Failed to save rates');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-t pt-4">
+      <p className="text-sm font-medium text-gray-700 mb-2">Rates by duration</p>
+      <div className="grid grid-cols-2 gap-2">
+        {BOOKING_DURATIONS.map(({ value, label }) => (
+          <label key={value} className="text-sm text-gray-600">
+            {label}
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={prices[value] ?? ''}
+              onChange={(e) => setPrices(prev => ({ ...prev, [value]: e.target.value }))}
+              placeholder="Not offered"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={saveRates}
+        disabled={saving}
+        className="mt-3 bg-yellow-500 text-black px-4 py-2 rounded-md hover:bg-yellow-600 transition-colors flex items-center disabled:opacity-50"
+      >
+        <Save className="w-4 h-4 mr-2" />
+        {saving ? 'Saving...' : 'Save Rates'}
+      </button>
+    </div>
+  );
+};
+
+export default WorkspaceRatesEditor;
@@ -1,12 +1,43 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { supabase } from '../lib/supabase';
+import React, { createContext, useContext, ReactNode } from 'react';
+import { supabase, BookingRow, BookingStatus, PaymentRow, RefundRow, WaitlistEntryRow } from '../lib/supabase';
 import { useAuth } from './AuthContext';
-import { findAvailableDesk } from '../utils/bookingHelpers';
+import { BOOKING_CONFLICT_CODE, BookingConflictError } from '../utils/bookingHelpers';
+import { offerFreedDesk } from '../utils/waitlistHelpers';
+import { RecurrenceRule, getRecurrenceParams } from '../utils/recurrenceHelpers';
+import { PROMO_CODE_ERROR_CODE, PromoCodeError } from '../utils/promoHelpers';
+import { INSUFFICIENT_CREDITS_CODE, InsufficientCreditsError } from '../utils/membershipHelpers';
+import { PaymentCallbackParams, PaymentIntent, getPaymentProvider } from '../utils/paymentHelpers';
+
+export interface BookingRequest {
+  workspaceType: string;
+  date: string;
+  startTime: string; // HH:MM local time at the space
+  duration: string;
+  deskNumber?: number | null; // Preferred desk; any free desk is assigned when it is taken
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  customerWhatsapp: string;
+  totalPrice: number;
+  promoCode?: string; // Checked again and applied to the price on the server
+  addOnIds?: string[]; // Added to every booking as priced line items
+  useCredits?: boolean; // Pay the workspace with membership credits instead of money
+  userId?: string | null; // Customer an admin books for; otherwise the signed-in user
+}
 
 interface BookingContextType {
   confirmBooking: (bookingId: string, confirmationCode: string) => Promise<void>;
-  createAdminBooking: (bookingData: any) => Promise<void>;
-  cancelBooking: (bookingId: string) => Promise<void>;
+  createBooking: (bookingData: BookingRequest) => Promise<BookingRow>;
+  createAdminBooking: (bookingData: BookingRequest) => Promise<BookingRow>;
+  createBookingSeries: (bookingData: BookingRequest, rule: RecurrenceRule, dates: string[]) => Promise<BookingRow[]>;
+  createAdminBookingSeries: (bookingData: BookingRequest, rule: RecurrenceRule, dates: string[]) => Promise<BookingRow[]>;
+  cancelBooking: (bookingId: string) => Promise<RefundRow | null>;
+  cancelBookingSeries: (seriesId: string) => Promise<number>;
+  joinWaitlist: (bookingData: BookingRequest) => Promise<WaitlistEntryRow>;
+  claimWaitlistHold: (bookingId: string) => Promise<BookingRow>;
+  startPayment: (bookingId: string, providerName: string) => Promise<PaymentIntent>;
+  completePayment: (providerName: string, params: PaymentCallbackParams) => Promise<PaymentRow>;
+  refundPayment: (payment: PaymentRow, amount?: number) => Promise<PaymentRow>;
 }
 
 const BookingContext = createContext<BookingContextType | undefined>(undefined);
@@ -26,7 +57,7 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
     try {
       const { data: currentBooking, error: fetchError } = await supabase
         .from('bookings')
-        .select()
+        .select('*, booking_add_ons(*)')
         .eq('id', bookingId)
         .single();
 
@@ -54,33 +85,6 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
 
       if (error) throw error;
 
-      try {
-        await fetch('https://aibackend.cp-devcode.com/webhook/1ef572d1-3263-4784-bc19-c38b3fbc09d0', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            action: 'booking_confirmed_by_customer',
-            bookingId,
-            confirmationCode,
-            customerData: {
-              name: currentBooking.customer_name,
-              whatsapp: currentBooking.customer_whatsapp,
-              email: currentBooking.customer_email
-            },
-            bookingDetails: {
-              workspace_type: currentBooking.workspace_type,
-              date: currentBooking.date,
-              time_slot: currentBooking.time_slot,
-              duration: currentBooking.duration,
-              total_price: currentBooking.total_price
-            },
-            timestamp: new Date().toISOString()
-          })
-        });
-      } catch (webhookError) {
-        console.error('Webhook failed:', webhookError);
-      }
-
       console.log('Booking confirmed successfully:', data);
       return data;
 
@@ -90,103 +94,129 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
-  const createAdminBooking = async (bookingData: any) => {
-    try {
-      const { data: settingsData, error: settingsError } = await supabase
-        .from('site_settings')
-        .select('key, value')
-        .in('key', ['hourly_slots', 'total_desks']);
+  // Availability check, desk assignment and insert run in one transaction on the server
+  const insertBooking = async (bookingData: BookingRequest, status: BookingStatus): Promise<BookingRow> => {
+    const { data, error } = await supabase.rpc('create_booking', {
+      p_workspace_type: bookingData.workspaceType,
+      p_date: bookingData.date,
+      p_start_time: bookingData.startTime,
+      p_duration: bookingData.duration,
+      p_customer_name: bookingData.customerName,
+      p_customer_email: bookingData.customerEmail,
+      p_customer_phone: bookingData.customerPhone,
+      p_customer_whatsapp: bookingData.customerWhatsapp,
+      p_total_price: bookingData.totalPrice,
+      p_status: status,
+      p_desk_number: bookingData.deskNumber ?? null,
+      p_promo_code: bookingData.promoCode || null,
+      p_add_on_ids: bookingData.addOnIds?.length ? bookingData.addOnIds : null,
+      p_use_credits: !!bookingData.useCredits,
+      p_user_id: bookingData.userId ?? null
+    });
+
+    if (error) {
+      if (error.code === BOOKING_CONFLICT_CODE) {
+        throw new BookingConflictError(error.details || undefined);
+      }
+      if (error.code === PROMO_CODE_ERROR_CODE) {
+        throw new PromoCodeError(error.details || undefined);
+      }
+      if (error.code === INSUFFICIENT_CREDITS_CODE) {
+        throw new InsufficientCreditsError(error.details || undefined);
+      }
+      throw error;
+    }
 
-      if (settingsError) throw settingsError;
+    return data as BookingRow;
+  };
 
-      const settings = settingsData?.reduce((acc, setting) => {
-        acc[setting.key] = setting.value;
-        return acc;
-      }, {} as Record<string, string>) || {};
+  const createBooking = async (bookingData: BookingRequest) => {
+    try {
+      const data = await insertBooking(bookingData, 'pending');
 
-      const totalDesks = parseInt(settings['total_desks'] || '6');
-      const hourlySlots = (settings['hourly_slots'] || '')
-        .split(',')
-        .map(slot => slot.trim())
-        .filter(Boolean);
+      console.log('Booking created successfully:', data);
+      return data;
+    } catch (error) {
+      console.error('Booking creation failed:', error);
+      throw error;
+    }
+  };
 
-      const { data: existingBookings, error: fetchError } = await supabase
-        .from('bookings')
-        .select('time_slot, duration, desk_number')
-        .eq('workspace_type', bookingData.workspaceType)
-        .eq('date', bookingData.date)
-        .in('status', ['pending', 'confirmed', 'code_sent']);
+  const createAdminBooking = async (bookingData: BookingRequest) => {
+    try {
+      const data = await insertBooking(bookingData, 'confirmed');
 
-      if (fetchError) throw fetchError;
+      console.log('Admin booking created successfully:', data);
+      return data;
 
-      const assignedDeskNumber = findAvailableDesk(
-        bookingData.timeSlot,
-        bookingData.duration,
-        bookingData.date,
-        existingBookings || [],
-        hourlySlots,
-        totalDesks
-      );
-
-      if (!assignedDeskNumber) {
-        throw new Error('No available desk found for the selected time slot and duration.');
-      }
+    } catch (error) {
+      console.error('Admin booking creation failed:', error);
+      throw error;
+    }
+  };
 
-      const { data, error } = await supabase
-        .from('bookings')
-        .insert({
-          workspace_type: bookingData.workspaceType,
-          date: bookingData.date,
-          time_slot: bookingData.timeSlot,
-          duration: bookingData.duration,
-          customer_name: bookingData.customerName,
-          customer_email: bookingData.customerEmail,
-          customer_phone: bookingData.customerPhone,
-          customer_whatsapp: bookingData.customerWhatsapp,
-          total_price: bookingData.totalPrice,
-          status: 'confirmed',
-          user_id: user?.id || null,
-          desk_number: assignedDeskNumber
-        })
-        .select()
-        .single();
+  // Every occurrence is checked and booked in one transaction; nothing is booked when a date conflicts
+  const insertBookingSeries = async (
+    bookingData: BookingRequest,
+    rule: RecurrenceRule,
+    dates: string[],
+    status: BookingStatus
+  ): Promise<BookingRow[]> => {
+    const { data, error } = await supabase.rpc('create_booking_series', {
+      p_workspace_type: bookingData.workspaceType,
+      p_dates: dates,
+      p_start_time: bookingData.startTime,
+      p_duration: bookingData.duration,
+      p_customer_name: bookingData.customerName,
+      p_customer_email: bookingData.customerEmail,
+      p_customer_phone: bookingData.customerPhone,
+      p_customer_whatsapp: bookingData.customerWhatsapp,
+      p_total_price: bookingData.totalPrice,
+      ...getRecurrenceParams(rule),
+      p_status: status,
+      p_desk_number: bookingData.deskNumber ?? null,
+      p_promo_code: bookingData.promoCode || null,
+      p_add_on_ids: bookingData.addOnIds?.length ? bookingData.addOnIds : null,
+      p_use_credits: !!bookingData.useCredits,
+      p_user_id: bookingData.userId ?? null
+    });
+
+    if (error) {
+      if (error.code === BOOKING_CONFLICT_CODE) {
+        throw new BookingConflictError(error.details || undefined);
+      }
+      if (error.code === PROMO_CODE_ERROR_CODE) {
+        throw new PromoCodeError(error.details || undefined);
+      }
+      if (error.code === INSUFFICIENT_CREDITS_CODE) {
+        throw new InsufficientCreditsError(error.details || undefined);
+      }
+      throw error;
+    }
 
-      if (error) throw error;
+    return (data || []) as BookingRow[];
+  };
 
-      try {
-        await fetch('https://aibackend.cp-devcode.com/webhook/1ef572d1-3263-4784-bc19-c38b3fbc09d0', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            action: 'admin_booking_created',
-            bookingId: data.id,
-            adminUser: user?.name || 'Admin',
-            customerData: {
-              name: bookingData.customerName,
-              whatsapp: bookingData.customerWhatsapp,
-              email: bookingData.customerEmail,
-              phone: bookingData.customerPhone
-            },
-            bookingDetails: {
-              workspace_type: bookingData.workspaceType,
-              date: bookingData.date,
-              time_slot: bookingData.timeSlot,
-              duration: bookingData.duration,
-              total_price: bookingData.totalPrice,
-              desk_number: assignedDeskNumber
-            },
-            timestamp: new Date().toISOString()
-          })
-        });
-      } catch (webhookError) {
-        console.error('Webhook failed:', webhookError);
-      }
+  const createBookingSeries = async (bookingData: BookingRequest, rule: RecurrenceRule, dates: string[]) => {
+    try {
+      const data = await insertBookingSeries(bookingData, rule, dates, 'pending');
 
-      console.log('Admin booking created successfully:', data);
+      console.log('Booking series created successfully:', data);
       return data;
+    } catch (error) {
+      console.error('Booking series creation failed:', error);
+      throw error;
+    }
+  };
+
+  const createAdminBookingSeries = async (bookingData: BookingRequest, rule: RecurrenceRule, dates: string[]) => {
+    try {
+      const data = await insertBookingSeries(bookingData, rule, dates, 'confirmed');
 
+      console.log('Admin booking series created successfully:', data);
+      return data;
     } catch (error) {
-      console.error('Admin booking creation failed:', error);
+      console.error('Admin booking series creation failed:', error);
       throw error;
     }
   };
@@ -195,14 +225,14 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
     try {
       const { data: currentBooking, error: fetchError } = await supabase
         .from('bookings')
-        .select()
+        .select('*, booking_add_ons(*)')
         .eq('id', bookingId)
         .single();
 
       if (fetchError) throw fetchError;
       if (!currentBooking) throw new Error('Booking not found');
 
-      if (currentBooking.status !== 'pending') {
+      if (currentBooking.status !== 'pending' && currentBooking.status !== 'confirmed') {
         throw new Error(`Cannot cancel booking with status: ${currentBooking.status}`);
       }
 
@@ -210,51 +240,148 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
         throw new Error('You can only cancel your own bookings');
       }
 
-      const { error } = await supabase
-        .from('bookings')
-        .update({
-          status: 'cancelled',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', bookingId);
+      let refund: RefundRow | null = null;
+      if (currentBooking.status === 'confirmed') {
+        // The cancellation policy decides the refund, which admins then pay back
+        const { data, error } = await supabase.rpc('cancel_confirmed_booking', { p_booking_id: bookingId });
+        if (error) {
+          throw new Error(error.details || error.message);
+        }
+        refund = data as RefundRow;
+      } else {
+        const { error } = await supabase
+          .from('bookings')
+          .update({
+            status: 'cancelled',
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', bookingId);
 
-      if (error) throw error;
+        if (error) throw error;
+      }
 
+      // The freed desk goes to the first customer on the waitlist
       try {
-        await fetch('https://aibackend.cp-devcode.com/webhook/1ef572d1-3263-4784-bc19-c38b3fbc09d0', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            action: 'booking_cancelled_by_user',
-            bookingId,
-            customerData: {
-              name: currentBooking.customer_name,
-              whatsapp: currentBooking.customer_whatsapp,
-              email: currentBooking.customer_email
-            },
-            bookingDetails: {
-              workspace_type: currentBooking.workspace_type,
-              date: currentBooking.date,
-              time_slot: currentBooking.time_slot,
-              duration: currentBooking.duration,
-              total_price: currentBooking.total_price
-            },
-            timestamp: new Date().toISOString()
-          })
-        });
-      } catch (webhookError) {
-        console.error('Webhook failed:', webhookError);
+        await offerFreedDesk(bookingId);
+      } catch (waitlistError) {
+        console.error('Waitlist offer failed:', waitlistError);
       }
 
       console.log('Booking cancelled successfully');
+      return refund;
     } catch (error) {
       console.error('Booking cancellation failed:', error);
       throw error;
     }
   };
 
+  // Cancel the pending and confirmed occurrences of a series that have not started yet; confirmed ones
+  // are refunded by the cancellation policy. Returns how many were cancelled
+  const cancelBookingSeries = async (seriesId: string): Promise<number> => {
+    try {
+      const { data, error } = await supabase.rpc('cancel_booking_series', { p_series_id: seriesId });
+      if (error) {
+        throw new Error(error.details || error.message);
+      }
+
+      console.log('Booking series cancelled successfully');
+      return data as number;
+    } catch (error) {
+      console.error('Booking series cancellation failed:', error);
+      throw error;
+    }
+  };
+
+  const joinWaitlist = async (bookingData: BookingRequest): Promise<WaitlistEntryRow> => {
+    const { data, error } = await supabase.rpc('join_waitlist', {
+      p_workspace_type: bookingData.workspaceType,
+      p_date: bookingData.date,
+      p_start_time: bookingData.startTime,
+      p_duration: bookingData.duration,
+      p_customer_name: bookingData.customerName,
+      p_customer_email: bookingData.customerEmail,
+      p_customer_phone: bookingData.customerPhone,
+      p_customer_whatsapp: bookingData.customerWhatsapp
+    });
+
+    if (error) {
+      throw new Error(error.details || error.message);
+    }
+
+    return data as WaitlistEntryRow;
+  };
+
+  // Keep a desk held from the waitlist before the hold runs out
+  const claimWaitlistHold = async (bookingId: string): Promise<BookingRow> => {
+    const { data, error } = await supabase.rpc('claim_waitlist_hold', { p_booking_id: bookingId });
+
+    if (error) {
+      if (error.code === BOOKING_CONFLICT_CODE) {
+        throw new BookingConflictError(error.details || undefined);
+      }
+      throw error;
+    }
+
+    return data as BookingRow;
+  };
+
+  const requirePaymentProvider = (providerName: string) => {
+    const provider = getPaymentProvider(providerName);
+    if (!provider) {
+      throw new Error('Online payment is not available right now.');
+    }
+    return provider;
+  };
+
+  // Open a payment with the provider; the customer finishes it at the returned redirect URL
+  const startPayment = async (bookingId: string, providerName: string): Promise<PaymentIntent> => {
+    try {
+      return await requirePaymentProvider(providerName).createIntent(bookingId);
+    } catch (error) {
+      console.error('Payment start failed:', error);
+      throw error;
+    }
+  };
+
+  // Hand the provider's answer to the server; a successful payment confirms the booking there
+  const completePayment = async (providerName: string, params: PaymentCallbackParams): Promise<PaymentRow> => {
+    try {
+      const payment = await requirePaymentProvider(providerName).handleCallback(params);
+
+      console.log('Payment completed:', payment);
+      return payment;
+    } catch (error) {
+      console.error('Payment completion failed:', error);
+      throw error;
+    }
+  };
+
+  const refundPayment = async (payment: PaymentRow, amount?: number): Promise<PaymentRow> => {
+    try {
+      return await requirePaymentProvider(payment.provider).refund(payment, amount);
+    } catch (error) {
+      console.error('Payment refund failed:', error);
+      throw error;
+    }
+  };
+
   return (
-    <BookingContext.Provider value={{ confirmBooking, createAdminBooking, cancelBooking }}>
+    <BookingContext.Provider
+      value={{
+        confirmBooking,
+        createBooking,
+        createAdminBooking,
+        createBookingSeries,
+        createAdminBookingSeries,
+        cancelBooking,
+        cancelBookingSeries,
+        joinWaitlist,
+        claimWaitlistHold,
+        startPayment,
+        completePayment,
+        refundPayment
+      }}
+    >
       {children}
     </BookingContext.Provider>
   );
@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AddOnRow } from '../lib/supabase';
+import { fetchAddOns } from '../utils/addOnHelpers';
+
+// Active add-ons for customers; the CMS also needs the inactive ones
+export const useAddOns = (includeInactive = false) => {
+  const [addOns, setAddOns] = useState<AddOnRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadAddOns = useCallback(async () => {
+    try {
+      setAddOns(await fetchAddOns(includeInactive));
+    } catch (error) {
+      console.error('Error fetching add-ons:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => {
+    loadAddOns();
+  }, [loadAddOns]);
+
+  return {
+    addOns,
+    loading,
+    refetch: loadAddOns
+  };
+};
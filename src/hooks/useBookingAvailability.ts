@@ -1,9 +1,15 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { useContent } from './useContent';
-import { getUnavailableTimeSlots } from '../utils/bookingHelpers';
+import { useScheduleCalendar } from './useScheduleCalendar';
+import { getWorkspaceScheduleForDate } from '../utils/scheduleHelpers';
+import {
+  WorkspaceScheduleSource,
+  fetchActiveBookings,
+  getUnavailableTimeSlots,
+  getBookingEndDate
+} from '../utils/bookingHelpers';
 
-interface WorkspaceType {
+interface WorkspaceType extends WorkspaceScheduleSource {
   id: string;
   name: string;
   description: string;
@@ -15,18 +21,15 @@ interface WorkspaceType {
 }
 
 export const useBookingAvailability = () => {
-  const { getSetting } = useContent();
   const [workspaceTypes, setWorkspaceTypes] = useState<WorkspaceType[]>([]);
   const [bookedSlots, setBookedSlots] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [checkingAvailability, setCheckingAvailability] = useState(false);
+  const { calendar } = useScheduleCalendar();
 
-  // Get dynamic settings
-  const totalDesks = parseInt(getSetting('total_desks', '6'));
-  const hourlySlots = getSetting('hourly_slots', '9:00 AM,10:00 AM,11:00 AM,12:00 PM,1:00 PM,2:00 PM,3:00 PM,4:00 PM,5:00 PM')
-    .split(',')
-    .map(slot => slot.trim())
-    .filter(slot => slot.length > 0);
+  // Capacity and slot schedule of a workspace type on a date, by name
+  const getSchedule = (workspaceType: string, date: string) =>
+    getWorkspaceScheduleForDate(workspaceTypes.find(w => w.name === workspaceType), date, calendar);
 
   useEffect(() => {
     fetchWorkspaceTypes();
@@ -57,26 +60,8 @@ export const useBookingAvailability = () => {
 
     setCheckingAvailability(true);
     try {
-      const { data, error } = await supabase
-        .from('bookings')
-        .select('time_slot, duration, desk_number')
-        .eq('workspace_type', workspaceType)
-        .eq('date', date)
-        .in('status', ['pending', 'confirmed', 'code_sent']);
-
-      if (error) throw error;
-
-      const existingBookings = data || [];
-      
-      // Simple logic: if any booking exists for a time slot, mark it as unavailable
-      // This is much faster than the complex desk assignment logic
-      const bookedTimeSlots = new Set<string>();
-      
-      existingBookings.forEach(booking => {
-        bookedTimeSlots.add(booking.time_slot);
-      });
-
-      setBookedSlots(Array.from(bookedTimeSlots));
+      const existingBookings = await fetchActiveBookings(workspaceType, date, getBookingEndDate(date, duration));
+      setBookedSlots(getUnavailableTimeSlots(date, duration, existingBookings, day => getSchedule(workspaceType, day)));
     } catch (error) {
       console.error('Error checking availability:', error);
       setBookedSlots([]);
@@ -87,8 +72,8 @@ export const useBookingAvailability = () => {
 
   return {
     workspaceTypes,
-    hourlySlots,
-    totalDesks,
+    calendar,
+    getSchedule,
     bookedSlots,
     loading,
     checkingAvailability,
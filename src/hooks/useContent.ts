@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
+import { supabase, BillingPeriod, CreditUnit } from '../lib/supabase';
 import toast from 'react-hot-toast';
 
 interface ContentItem {
@@ -61,6 +61,9 @@ interface PricingPlan {
   features: string[];
   not_included: string[];
   is_popular: boolean;
+  credit_unit: CreditUnit | null;
+  credits_per_period: number | null;
+  billing_period: BillingPeriod;
   display_order: number;
   is_active: boolean;
   created_at: string;
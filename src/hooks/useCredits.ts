@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CreditLedgerRow, MembershipRow } from '../lib/supabase';
+import {
+  fetchCreditLedger,
+  fetchOpenMembership,
+  getCreditBalances
+} from '../utils/membershipHelpers';
+
+// A customer's membership, credit ledger and balances
+export const useCredits = (userId: string | undefined) => {
+  const [membership, setMembership] = useState<MembershipRow | null>(null);
+  const [entries, setEntries] = useState<CreditLedgerRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadCredits = useCallback(async () => {
+    if (!userId) {
+      setMembership(null);
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [openMembership, ledger] = await Promise.all([
+        fetchOpenMembership(userId),
+        fetchCreditLedger(userId)
+      ]);
+      setMembership(openMembership);
+      setEntries(ledger);
+    } catch (error) {
+      console.error('Error fetching credits:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadCredits();
+  }, [loadCredits]);
+
+  return {
+    membership,
+    entries,
+    balances: getCreditBalances(entries),
+    loading,
+    refetch: loadCredits
+  };
+};
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { CurrencySettings, DEFAULT_CURRENCY, fetchCurrencySettings, formatMoney } from '../utils/moneyHelpers';
+
+// The configured currencies, and a formatter defaulting to the one prices are charged in
+export const useCurrency = () => {
+  const [settings, setSettings] = useState<CurrencySettings>({ currency: DEFAULT_CURRENCY, secondaryCurrency: null });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setSettings(await fetchCurrencySettings());
+    } catch (error) {
+      console.error('Error fetching currency settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatPrice = (amount: number | string, currency: string = settings.currency) => formatMoney(amount, currency);
+
+  return {
+    ...settings,
+    formatPrice,
+    loading,
+    refetch: loadSettings
+  };
+};
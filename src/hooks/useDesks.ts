@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { DeskRow } from '../lib/supabase';
+import { fetchDesks } from '../utils/deskHelpers';
+
+export const useDesks = () => {
+  const [desks, setDesks] = useState<DeskRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadDesks();
+  }, []);
+
+  const loadDesks = async () => {
+    try {
+      setDesks(await fetchDesks());
+    } catch (error) {
+      console.error('Error fetching desks:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    desks,
+    loading,
+    refetch: loadDesks
+  };
+};
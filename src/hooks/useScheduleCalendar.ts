@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { addDays } from '../utils/bookingHelpers';
+import { ScheduleCalendar, EMPTY_SCHEDULE_CALENDAR, fetchScheduleCalendar } from '../utils/scheduleHelpers';
+
+// How far ahead overrides and closures are loaded; covers a month booking started a year out
+const CALENDAR_DAYS_AHEAD = 400;
+
+export const useScheduleCalendar = () => {
+  const [calendar, setCalendar] = useState<ScheduleCalendar>(EMPTY_SCHEDULE_CALENDAR);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, []);
+
+  const fetchCalendar = async () => {
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      setCalendar(await fetchScheduleCalendar(today, addDays(today, CALENDAR_DAYS_AHEAD)));
+    } catch (error) {
+      console.error('Error fetching opening hours:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    calendar,
+    loading,
+    refetch: fetchCalendar
+  };
+};
@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SeriesConflict, fetchSeriesConflicts } from '../utils/recurrenceHelpers';
+
+// Dates of a recurring booking that cannot be booked, rechecked whenever the series changes
+export const useSeriesConflicts = (workspaceType: string, dates: string[], startTime: string, duration: string) => {
+  const [conflicts, setConflicts] = useState<SeriesConflict[]>([]);
+  const [checking, setChecking] = useState(false);
+  const datesKey = dates.join(',');
+
+  const checkConflicts = useCallback(async () => {
+    const seriesDates = datesKey ? datesKey.split(',') : [];
+    if (!workspaceType || !startTime || !duration || seriesDates.length === 0) {
+      setConflicts([]);
+      return;
+    }
+
+    setChecking(true);
+    try {
+      setConflicts(await fetchSeriesConflicts(workspaceType, seriesDates, startTime, duration));
+    } catch (error) {
+      console.error('Error checking series availability:', error);
+      setConflicts([]);
+    } finally {
+      setChecking(false);
+    }
+  }, [workspaceType, datesKey, startTime, duration]);
+
+  useEffect(() => {
+    checkConflicts();
+  }, [checkConflicts]);
+
+  return {
+    conflicts,
+    checking,
+    refetch: checkConflicts
+  };
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { TaxRate, fetchTaxRates } from '../utils/taxHelpers';
+
+export const useTaxRates = () => {
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadTaxRates();
+  }, []);
+
+  const loadTaxRates = async () => {
+    try {
+      setTaxRates(await fetchTaxRates());
+    } catch (error) {
+      console.error('Error fetching tax rates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    taxRates,
+    loading,
+    refetch: loadTaxRates
+  };
+};
@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { WorkspaceRateRow } from '../lib/supabase';
+import { fetchWorkspaceRates } from '../utils/pricingHelpers';
+
+export const useWorkspaceRates = () => {
+  const [rates, setRates] = useState<WorkspaceRateRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const loadRates = async () => {
+    try {
+      setRates(await fetchWorkspaceRates());
+    } catch (error) {
+      console.error('Error fetching workspace rates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    rates,
+    loading,
+    refetch: loadRates
+  };
+};
@@ -5,6 +5,73 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
+export type BookingStatus = 'pending' | 'code_sent' | 'confirmed' | 'rejected' | 'cancelled'
+
+export type DeskAttribute = 'monitor' | 'window' | 'standing' | 'power' | 'quiet'
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired' | 'left'
+
+export type RecurrenceFrequency = 'weekdays' | 'weekly'
+
+export type PromoDiscountType = 'percent' | 'fixed'
+
+export type AddOnPriceUnit = 'booking' | 'day' | 'week' | 'month'
+
+export type CreditUnit = 'hour' | 'day'
+
+export type BillingPeriod = 'week' | 'month'
+
+export type MembershipStatus = 'pending' | 'active' | 'cancelled'
+
+export type CreditEntryType = 'grant' | 'use' | 'refund' | 'adjustment' | 'expiry'
+
+export type PaymentProofStatus = 'submitted' | 'approved' | 'rejected'
+
+export type PaymentStatus = 'requires_payment' | 'succeeded' | 'failed' | 'cancelled' | 'refunded'
+
+export type InvoiceKind = 'invoice' | 'credit_note'
+
+export type RefundStatus = 'pending' | 'processed' | 'rejected'
+
+export type NotificationEvent =
+  | 'booking_created'
+  | 'code_sent'
+  | 'confirmed'
+  | 'rejected'
+  | 'cancelled'
+  | 'client_created'
+  | 'waitlist_hold_offered'
+  | 'reminder'
+  | 'feedback_requested'
+  | 'no_show'
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead'
+
+export type NotificationChannel = 'whatsapp' | 'email'
+
+// Notification events with an email
+export type EmailTemplateEvent =
+  | 'booking_created'
+  | 'code_sent'
+  | 'confirmed'
+  | 'rejected'
+  | 'cancelled'
+  | 'reminder'
+  | 'feedback_requested'
+  | 'no_show'
+
+export type BookingReminderKind = 'reminder' | 'follow_up'
+
+export type EmailDeliveryStatus = 'pending' | 'sent' | 'dead'
+
+// One tax rate as applied to a booking or invoice
+export type TaxLine = {
+  name: string
+  rate: number
+  inclusive: boolean
+  amount: number
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -13,33 +80,66 @@ export type Database = {
           id: string
           workspace_type: string
           date: string
+          end_date: string
           time_slot: string
+          starts_at: string
+          ends_at: string
           duration: string
           customer_name: string
           customer_email: string
           customer_phone: string
           customer_whatsapp: string
           total_price: number
-          status: 'pending' | 'confirmed' | 'rejected' | 'cancelled'
+          currency: string
+          net_amount: number
+          tax_amount: number
+          gross_amount: number
+          tax_lines: TaxLine[]
+          status: BookingStatus
           confirmation_code: string | null
           user_id: string | null
+          desk_number: number | null
+          hold_expires_at: string | null
+          no_show_at: string | null
+          series_id: string | null
+          promo_code_id: string | null
+          discount_amount: number
+          add_ons_total: number
+          credit_unit: CreditUnit | null
+          credits_used: number
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
           workspace_type: string
-          date: string
-          time_slot: string
+          date?: string
+          end_date?: string
+          time_slot?: string
+          starts_at: string
+          ends_at: string
           duration: string
           customer_name: string
           customer_email: string
           customer_phone: string
           customer_whatsapp: string
           total_price: number
-          status?: 'pending' | 'confirmed' | 'rejected' | 'cancelled'
+          currency?: string
+          net_amount?: number
+          tax_amount?: number
+          tax_lines?: TaxLine[]
+          status?: BookingStatus
           confirmation_code?: string | null
           user_id?: string | null
+          desk_number?: number | null
+          hold_expires_at?: string | null
+          no_show_at?: string | null
+          series_id?: string | null
+          promo_code_id?: string | null
+          discount_amount?: number
+          add_ons_total?: number
+          credit_unit?: CreditUnit | null
+          credits_used?: number
           created_at?: string
           updated_at?: string
         }
@@ -47,16 +147,32 @@ export type Database = {
           id?: string
           workspace_type?: string
           date?: string
+          end_date?: string
           time_slot?: string
+          starts_at?: string
+          ends_at?: string
           duration?: string
           customer_name?: string
           customer_email?: string
           customer_phone?: string
           customer_whatsapp?: string
           total_price?: number
-          status?: 'pending' | 'confirmed' | 'rejected' | 'cancelled'
+          currency?: string
+          net_amount?: number
+          tax_amount?: number
+          tax_lines?: TaxLine[]
+          status?: BookingStatus
           confirmation_code?: string | null
           user_id?: string | null
+          desk_number?: number | null
+          hold_expires_at?: string | null
+          no_show_at?: string | null
+          series_id?: string | null
+          promo_code_id?: string | null
+          discount_amount?: number
+          add_ons_total?: number
+          credit_unit?: CreditUnit | null
+          credits_used?: number
           created_at?: string
           updated_at?: string
         }
@@ -114,9 +230,14 @@ export type Database = {
           description: string
           price: number
           price_unit: string
+          secondary_price: number | null
           image_url: string | null
           features: string[]
           is_active: boolean
+          capacity: number
+          opening_time: string
+          closing_time: string
+          slot_minutes: number
           created_at: string
           updated_at: string
           whatsapp?: string
@@ -127,10 +248,15 @@ export type Database = {
           description: string
           price: number
           price_unit: string
+          secondary_price?: number | null
           image_url?: string | null
           whatsapp?: string
           features?: string[]
           is_active?: boolean
+          capacity?: number
+          opening_time?: string
+          closing_time?: string
+          slot_minutes?: number
           created_at?: string
           updated_at?: string
         }
@@ -141,13 +267,906 @@ export type Database = {
           description?: string
           price?: number
           price_unit?: string
+          secondary_price?: number | null
           image_url?: string | null
           features?: string[]
           is_active?: boolean
+          capacity?: number
+          opening_time?: string
+          closing_time?: string
+          slot_minutes?: number
           created_at?: string
           updated_at?: string
         }
       }
+      opening_hours: {
+        Row: {
+          weekday: number
+          is_open: boolean
+          opens_at: string | null
+          closes_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          weekday: number
+          is_open?: boolean
+          opens_at?: string | null
+          closes_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          weekday?: number
+          is_open?: boolean
+          opens_at?: string | null
+          closes_at?: string | null
+          updated_at?: string
+        }
+      }
+      schedule_overrides: {
+        Row: {
+          id: string
+          date: string
+          is_open: boolean
+          opens_at: string | null
+          closes_at: string | null
+          reason: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          date: string
+          is_open?: boolean
+          opens_at?: string | null
+          closes_at?: string | null
+          reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          date?: string
+          is_open?: boolean
+          opens_at?: string | null
+          closes_at?: string | null
+          reason?: string | null
+          created_at?: string
+        }
+      }
+      closures: {
+        Row: {
+          id: string
+          start_date: string
+          end_date: string
+          reason: string
+          kind: 'closure' | 'holiday'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          start_date: string
+          end_date: string
+          reason: string
+          kind?: 'closure' | 'holiday'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          start_date?: string
+          end_date?: string
+          reason?: string
+          kind?: 'closure' | 'holiday'
+          created_at?: string
+        }
+      }
+      desks: {
+        Row: {
+          id: string
+          workspace_type: string
+          desk_number: number
+          label: string
+          zone: string
+          attributes: DeskAttribute[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          workspace_type: string
+          desk_number: number
+          label: string
+          zone?: string
+          attributes?: DeskAttribute[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          workspace_type?: string
+          desk_number?: number
+          label?: string
+          zone?: string
+          attributes?: DeskAttribute[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      waitlist_entries: {
+        Row: {
+          id: string
+          user_id: string
+          workspace_type: string
+          date: string
+          start_time: string
+          duration: string
+          starts_at: string
+          ends_at: string
+          customer_name: string
+          customer_email: string
+          customer_phone: string
+          customer_whatsapp: string
+          total_price: number
+          status: WaitlistStatus
+          hold_booking_id: string | null
+          offered_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace_type: string
+          date: string
+          start_time: string
+          duration: string
+          starts_at: string
+          ends_at: string
+          customer_name: string
+          customer_email: string
+          customer_phone?: string
+          customer_whatsapp: string
+          total_price: number
+          status?: WaitlistStatus
+          hold_booking_id?: string | null
+          offered_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace_type?: string
+          date?: string
+          start_time?: string
+          duration?: string
+          starts_at?: string
+          ends_at?: string
+          customer_name?: string
+          customer_email?: string
+          customer_phone?: string
+          customer_whatsapp?: string
+          total_price?: number
+          status?: WaitlistStatus
+          hold_booking_id?: string | null
+          offered_at?: string | null
+          created_at?: string
+        }
+      }
+      booking_series: {
+        Row: {
+          id: string
+          user_id: string | null
+          workspace_type: string
+          start_time: string
+          duration: string
+          frequency: RecurrenceFrequency
+          weekdays: number[]
+          until_date: string | null
+          occurrence_count: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          workspace_type: string
+          start_time: string
+          duration: string
+          frequency: RecurrenceFrequency
+          weekdays?: number[]
+          until_date?: string | null
+          occurrence_count?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          workspace_type?: string
+          start_time?: string
+          duration?: string
+          frequency?: RecurrenceFrequency
+          weekdays?: number[]
+          until_date?: string | null
+          occurrence_count?: number | null
+          created_at?: string
+        }
+      }
+      workspace_rates: {
+        Row: {
+          id: string
+          workspace_type: string
+          duration: string
+          price: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          workspace_type: string
+          duration: string
+          price: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          workspace_type?: string
+          duration?: string
+          price?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      promo_codes: {
+        Row: {
+          id: string
+          code: string
+          description: string
+          discount_type: PromoDiscountType
+          discount_value: number
+          valid_from: string | null
+          valid_until: string | null
+          max_uses: number | null
+          max_uses_per_user: number | null
+          workspace_types: string[]
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          description?: string
+          discount_type: PromoDiscountType
+          discount_value: number
+          valid_from?: string | null
+          valid_until?: string | null
+          max_uses?: number | null
+          max_uses_per_user?: number | null
+          workspace_types?: string[]
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          description?: string
+          discount_type?: PromoDiscountType
+          discount_value?: number
+          valid_from?: string | null
+          valid_until?: string | null
+          max_uses?: number | null
+          max_uses_per_user?: number | null
+          workspace_types?: string[]
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      add_ons: {
+        Row: {
+          id: string
+          name: string
+          description: string
+          price: number
+          price_unit: AddOnPriceUnit
+          is_active: boolean
+          display_order: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string
+          price: number
+          price_unit?: AddOnPriceUnit
+          is_active?: boolean
+          display_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string
+          price?: number
+          price_unit?: AddOnPriceUnit
+          is_active?: boolean
+          display_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      booking_add_ons: {
+        Row: {
+          id: string
+          booking_id: string
+          add_on_id: string | null
+          name: string
+          unit_price: number
+          price_unit: AddOnPriceUnit
+          quantity: number
+          line_total: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          booking_id: string
+          add_on_id?: string | null
+          name: string
+          unit_price: number
+          price_unit: AddOnPriceUnit
+          quantity: number
+          line_total: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          booking_id?: string
+          add_on_id?: string | null
+          name?: string
+          unit_price?: number
+          price_unit?: AddOnPriceUnit
+          quantity?: number
+          line_total?: number
+          created_at?: string
+        }
+      }
+      memberships: {
+        Row: {
+          id: string
+          user_id: string
+          plan_id: string | null
+          plan_name: string
+          credit_unit: CreditUnit
+          credits_per_period: number
+          billing_period: BillingPeriod
+          status: MembershipStatus
+          current_period_start: string | null
+          current_period_end: string | null
+          paid_through: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          plan_id?: string | null
+          plan_name: string
+          credit_unit: CreditUnit
+          credits_per_period: number
+          billing_period: BillingPeriod
+          status?: MembershipStatus
+          current_period_start?: string | null
+          current_period_end?: string | null
+          paid_through?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          plan_id?: string | null
+          plan_name?: string
+          credit_unit?: CreditUnit
+          credits_per_period?: number
+          billing_period?: BillingPeriod
+          status?: MembershipStatus
+          current_period_start?: string | null
+          current_period_end?: string | null
+          paid_through?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      credit_ledger: {
+        Row: {
+          id: string
+          user_id: string
+          credit_unit: CreditUnit
+          amount: number
+          entry_type: CreditEntryType
+          membership_id: string | null
+          booking_id: string | null
+          note: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          credit_unit: CreditUnit
+          amount: number
+          entry_type: CreditEntryType
+          membership_id?: string | null
+          booking_id?: string | null
+          note?: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          credit_unit?: CreditUnit
+          amount?: number
+          entry_type?: CreditEntryType
+          membership_id?: string | null
+          booking_id?: string | null
+          note?: string
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      payment_proofs: {
+        Row: {
+          id: string
+          booking_id: string
+          user_id: string
+          file_path: string
+          reference_number: string
+          status: PaymentProofStatus
+          amount_received: number | null
+          verified_by: string | null
+          verified_at: string | null
+          review_note: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          booking_id: string
+          user_id?: string
+          file_path: string
+          reference_number?: string
+          status?: PaymentProofStatus
+          amount_received?: number | null
+          verified_by?: string | null
+          verified_at?: string | null
+          review_note?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          booking_id?: string
+          user_id?: string
+          file_path?: string
+          reference_number?: string
+          status?: PaymentProofStatus
+          amount_received?: number | null
+          verified_by?: string | null
+          verified_at?: string | null
+          review_note?: string
+          created_at?: string
+        }
+      }
+      payments: {
+        Row: {
+          id: string
+          booking_id: string
+          provider: string
+          provider_ref: string | null
+          amount: number
+          currency: string
+          status: PaymentStatus
+          refunded_amount: number
+          failure_reason: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          booking_id: string
+          provider: string
+          provider_ref?: string | null
+          amount: number
+          currency?: string
+          status?: PaymentStatus
+          refunded_amount?: number
+          failure_reason?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          booking_id?: string
+          provider?: string
+          provider_ref?: string | null
+          amount?: number
+          currency?: string
+          status?: PaymentStatus
+          refunded_amount?: number
+          failure_reason?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      invoices: {
+        Row: {
+          id: string
+          kind: InvoiceKind
+          number: string
+          booking_id: string | null
+          invoice_id: string | null
+          user_id: string | null
+          customer_name: string
+          customer_email: string
+          company_name: string
+          tax_id: string
+          currency: string
+          subtotal: number
+          tax_rate: number
+          tax_amount: number
+          tax_lines: TaxLine[]
+          total: number
+          reason: string
+          issued_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          kind?: InvoiceKind
+          number: string
+          booking_id?: string | null
+          invoice_id?: string | null
+          user_id?: string | null
+          customer_name: string
+          customer_email: string
+          company_name?: string
+          tax_id?: string
+          currency?: string
+          subtotal: number
+          tax_rate?: number
+          tax_amount?: number
+          tax_lines?: TaxLine[]
+          total: number
+          reason?: string
+          issued_at?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          kind?: InvoiceKind
+          number?: string
+          booking_id?: string | null
+          invoice_id?: string | null
+          user_id?: string | null
+          customer_name?: string
+          customer_email?: string
+          company_name?: string
+          tax_id?: string
+          currency?: string
+          subtotal?: number
+          tax_rate?: number
+          tax_amount?: number
+          tax_lines?: TaxLine[]
+          total?: number
+          reason?: string
+          issued_at?: string
+          created_at?: string
+        }
+      }
+      invoice_lines: {
+        Row: {
+          id: string
+          invoice_id: string
+          position: number
+          description: string
+          quantity: number
+          unit_price: number
+          line_total: number
+        }
+        Insert: {
+          id?: string
+          invoice_id: string
+          position: number
+          description: string
+          quantity?: number
+          unit_price: number
+          line_total: number
+        }
+        Update: {
+          id?: string
+          invoice_id?: string
+          position?: number
+          description?: string
+          quantity?: number
+          unit_price?: number
+          line_total?: number
+        }
+      }
+      cancellation_policy_tiers: {
+        Row: {
+          id: string
+          workspace_type: string
+          hours_before: number
+          refund_percent: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          workspace_type: string
+          hours_before: number
+          refund_percent: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          workspace_type?: string
+          hours_before?: number
+          refund_percent?: number
+          created_at?: string
+        }
+      }
+      refunds: {
+        Row: {
+          id: string
+          booking_id: string
+          user_id: string | null
+          amount: number
+          refund_percent: number
+          hours_before_start: number
+          status: RefundStatus
+          payment_id: string | null
+          note: string
+          processed_by: string | null
+          processed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          booking_id: string
+          user_id?: string | null
+          amount: number
+          refund_percent: number
+          hours_before_start: number
+          status?: RefundStatus
+          payment_id?: string | null
+          note?: string
+          processed_by?: string | null
+          processed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          booking_id?: string
+          user_id?: string | null
+          amount?: number
+          refund_percent?: number
+          hours_before_start?: number
+          status?: RefundStatus
+          payment_id?: string | null
+          note?: string
+          processed_by?: string | null
+          processed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      notification_outbox: {
+        Row: {
+          id: string
+          event: NotificationEvent
+          booking_id: string | null
+          payload: Record<string, unknown>
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          event: NotificationEvent
+          booking_id?: string | null
+          payload: Record<string, unknown>
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          event?: NotificationEvent
+          booking_id?: string | null
+          payload?: Record<string, unknown>
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      webhook_endpoints: {
+        Row: {
+          id: string
+          url: string
+          description: string
+          secret: string
+          events: NotificationEvent[]
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          url: string
+          description?: string
+          secret?: string
+          events?: NotificationEvent[]
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          url?: string
+          description?: string
+          secret?: string
+          events?: NotificationEvent[]
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          endpoint_id: string
+          notification_id: string
+          status: WebhookDeliveryStatus
+          attempts: number
+          next_attempt_at: string
+          last_error: string | null
+          response_status: number | null
+          response_body: string | null
+          duration_ms: number | null
+          delivered_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          endpoint_id: string
+          notification_id: string
+          status?: WebhookDeliveryStatus
+          attempts?: number
+          next_attempt_at?: string
+          last_error?: string | null
+          response_status?: number | null
+          response_body?: string | null
+          duration_ms?: number | null
+          delivered_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          endpoint_id?: string
+          notification_id?: string
+          status?: WebhookDeliveryStatus
+          attempts?: number
+          next_attempt_at?: string
+          last_error?: string | null
+          response_status?: number | null
+          response_body?: string | null
+          duration_ms?: number | null
+          delivered_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      email_templates: {
+        Row: {
+          id: string
+          event: EmailTemplateEvent
+          subject: string
+          body: string
+          is_enabled: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          event: EmailTemplateEvent
+          subject: string
+          body: string
+          is_enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          event?: EmailTemplateEvent
+          subject?: string
+          body?: string
+          is_enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      email_deliveries: {
+        Row: {
+          id: string
+          notification_id: string | null
+          event: EmailTemplateEvent
+          recipient: string
+          subject: string
+          body: string
+          status: EmailDeliveryStatus
+          attempts: number
+          next_attempt_at: string
+          last_error: string | null
+          sent_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          notification_id?: string | null
+          event: EmailTemplateEvent
+          recipient: string
+          subject: string
+          body: string
+          status?: EmailDeliveryStatus
+          attempts?: number
+          next_attempt_at?: string
+          last_error?: string | null
+          sent_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          notification_id?: string | null
+          event?: EmailTemplateEvent
+          recipient?: string
+          subject?: string
+          body?: string
+          status?: EmailDeliveryStatus
+          attempts?: number
+          next_attempt_at?: string
+          last_error?: string | null
+          sent_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      booking_reminders: {
+        Row: {
+          id: string
+          booking_id: string
+          kind: BookingReminderKind
+          lead_hours: number | null
+          notification_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          booking_id: string
+          kind: BookingReminderKind
+          lead_hours?: number | null
+          notification_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          booking_id?: string
+          kind?: BookingReminderKind
+          lead_hours?: number | null
+          notification_id?: string | null
+          created_at?: string
+        }
+      }
       content_items: {
         Row: {
           id: string
@@ -182,4 +1201,30 @@ export type Database = {
       }
     }
   }
-}
\ No newline at end of file
+}
+
+export type BookingRow = Database['public']['Tables']['bookings']['Row']
+export type OpeningHoursRow = Database['public']['Tables']['opening_hours']['Row']
+export type ScheduleOverrideRow = Database['public']['Tables']['schedule_overrides']['Row']
+export type ClosureRow = Database['public']['Tables']['closures']['Row']
+export type DeskRow = Database['public']['Tables']['desks']['Row']
+export type WaitlistEntryRow = Database['public']['Tables']['waitlist_entries']['Row']
+export type BookingSeriesRow = Database['public']['Tables']['booking_series']['Row']
+export type WorkspaceRateRow = Database['public']['Tables']['workspace_rates']['Row']
+export type PromoCodeRow = Database['public']['Tables']['promo_codes']['Row']
+export type AddOnRow = Database['public']['Tables']['add_ons']['Row']
+export type BookingAddOnRow = Database['public']['Tables']['booking_add_ons']['Row']
+export type MembershipRow = Database['public']['Tables']['memberships']['Row']
+export type CreditLedgerRow = Database['public']['Tables']['credit_ledger']['Row']
+export type PaymentProofRow = Database['public']['Tables']['payment_proofs']['Row']
+export type PaymentRow = Database['public']['Tables']['payments']['Row']
+export type InvoiceRow = Database['public']['Tables']['invoices']['Row']
+export type InvoiceLineRow = Database['public']['Tables']['invoice_lines']['Row']
+export type CancellationPolicyTierRow = Database['public']['Tables']['cancellation_policy_tiers']['Row']
+export type RefundRow = Database['public']['Tables']['refunds']['Row']
+export type NotificationOutboxRow = Database['public']['Tables']['notification_outbox']['Row']
+export type WebhookEndpointRow = Database['public']['Tables']['webhook_endpoints']['Row']
+export type WebhookDeliveryRow = Database['public']['Tables']['webhook_deliveries']['Row']
+export type EmailTemplateRow = Database['public']['Tables']['email_templates']['Row']
+export type EmailDeliveryRow = Database['public']['Tables']['email_deliveries']['Row']
+export type BookingReminderRow = Database['public']['Tables']['booking_reminders']['Row']
\ No newline at end of file
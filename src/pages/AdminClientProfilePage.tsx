@@ -1,9 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import { supabase, InvoiceRow } from '../lib/supabase';
+import { BOOKING_CONFLICT_CODE } from '../utils/bookingHelpers';
+import { offerFreedDesk } from '../utils/waitlistHelpers';
+import { formatMoney } from '../utils/moneyHelpers';
 import { Navigate, Link, useParams } from 'react-router-dom';
 import AnimatedSection from '../components/AnimatedSection';
 import LoadingSpinner from '../components/LoadingSpinner';
+import ClientCreditsPanel from '../components/ClientCreditsPanel';
+import {
+  INVOICE_KIND_LABELS,
+  createCreditNote,
+  fetchBookingInvoices,
+  getCreditableAmount
+} from '../utils/invoiceHelpers';
 import { 
   User, 
   Mail, 
@@ -17,7 +27,8 @@ import {
   Clock,
   DollarSign,
   ArrowLeft,
-  Plus
+  Plus,
+  FileText
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -26,6 +37,8 @@ interface ClientUser {
   email: string;
   name: string;
   role: 'admin' | 'staff' | 'customer';
+  company_name: string;
+  tax_id: string;
   created_at: string;
   updated_at: string;
 }
@@ -35,12 +48,15 @@ interface Booking {
   workspace_type: string;
   date: string;
   time_slot: string;
+  starts_at: string;
+  ends_at: string;
   duration: string;
   customer_name: string;
   customer_email: string;
   customer_phone: string;
   customer_whatsapp: string;
   total_price: number;
+  currency: string;
   status: 'pending' | 'code_sent' | 'confirmed' | 'rejected' | 'cancelled';
   created_at: string;
   updated_at: string;
@@ -68,6 +84,7 @@ const AdminClientProfilePage: React.FC = () => {
   const { userId } = useParams<{ userId: string }>();
   const [client, setClient] = useState<ClientUser | null>(null);
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [invoices, setInvoices] = useState<InvoiceRow[]>([]);
   const [adminNotes, setAdminNotes] = useState<AdminNote[]>([]);
   const [activityLog, setActivityLog] = useState<ActivityLog[]>([]);
   const [loading, setLoading] = useState(true);
@@ -113,6 +130,7 @@ const AdminClientProfilePage: React.FC = () => {
 
       if (bookingsError) throw bookingsError;
       setBookings(bookingsData || []);
+      setInvoices(await fetchBookingInvoices((bookingsData || []).map(booking => booking.id)));
 
       // Fetch admin notes
       const { data: notesData, error: notesError } = await supabase
@@ -238,6 +256,15 @@ const AdminClientProfilePage: React.FC = () => {
           details: { booking_id: bookingId, new_status: newStatus, admin_name: user.name }
         });
 
+      // Offer the freed desk to the waitlist
+      if (newStatus === 'cancelled' || newStatus === 'rejected') {
+        try {
+          await offerFreedDesk(bookingId);
+        } catch (waitlistError) {
+          console.error('Error offering desk to waitlist:', waitlistError);
+        }
+      }
+
       toast.success(`Booking ${newStatus} successfully`);
       fetchClientData(); // Refresh data
     } catch (error) {
@@ -246,11 +273,60 @@ const AdminClientProfilePage: React.FC = () => {
     }
   };
 
+  // Credit an invoice for a refund paid back outside the payment provider
+  const issueCreditNote = async (invoice: InvoiceRow) => {
+    const creditable = getCreditableAmount(invoice, invoices);
+    const amountInput = prompt(`Amount to credit on ${invoice.number} (at most ${formatMoney(creditable, invoice.currency)}):`, creditable.toString());
+    if (amountInput === null) return;
+    const reason = prompt('Reason for the credit note:', 'Refund');
+    if (reason === null) return;
+
+    try {
+      const creditNote = await createCreditNote(invoice.id, Number(amountInput), reason);
+
+      await supabase
+        .from('user_activity_log')
+        .insert({
+          user_id: userId,
+          action: 'credit_note_issued_by_admin',
+          details: { invoice: invoice.number, credit_note: creditNote.number, amount: creditNote.total, admin_name: user.name }
+        });
+
+      toast.success(`Credit note ${creditNote.number} issued`);
+      setInvoices(prev => [...prev, creditNote]);
+    } catch (error) {
+      console.error('Error issuing credit note:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to issue credit note');
+    }
+  };
+
   const updateBooking = async (bookingId: string) => {
+    const original = bookings.find(b => b.id === bookingId);
+    const { date, starts_at, customer_name, total_price } = editBookingData;
+    const startTime = starts_at?.slice(11, 16);
+
     try {
+      // Moving a booking re-checks desk availability on the server
+      if (original && (date !== original.date || startTime !== original.starts_at.slice(11, 16))) {
+        const { error: rescheduleError } = await supabase.rpc('reschedule_booking', {
+          p_booking_id: bookingId,
+          p_date: date,
+          p_start_time: startTime,
+          p_duration: original.duration
+        });
+
+        if (rescheduleError) {
+          if (rescheduleError.code === BOOKING_CONFLICT_CODE) {
+            toast.error(rescheduleError.details || 'The booking cannot be moved to that time.');
+            return;
+          }
+          throw rescheduleError;
+        }
+      }
+
       const { error } = await supabase
         .from('bookings')
-        .update(editBookingData)
+        .update({ customer_name, total_price })
         .eq('id', bookingId);
 
       if (error) throw error;
@@ -418,6 +494,8 @@ const AdminClientProfilePage: React.FC = () => {
                     </div>
 
                     <div className="text-sm text-gray-600">
+                      {client.company_name && <p>Company: {client.company_name}</p>}
+                      {client.tax_id && <p>Tax ID: {client.tax_id}</p>}
                       <p>Joined: {new Date(client.created_at).toLocaleDateString()}</p>
                       <p>Last updated: {new Date(client.updated_at).toLocaleDateString()}</p>
                     </div>
@@ -426,6 +504,13 @@ const AdminClientProfilePage: React.FC = () => {
               </div>
             </AnimatedSection>
 
+            {/* Membership & Credits */}
+            {userId && (
+              <AnimatedSection animation="slideUp" delay={50} duration={600}>
+                <ClientCreditsPanel userId={userId} adminName={user.name} />
+              </AnimatedSection>
+            )}
+
             {/* Admin Notes */}
             <AnimatedSection animation="slideUp" delay={100} duration={600}>
               <div className="bg-white rounded-lg shadow-sm p-6">
@@ -574,13 +659,37 @@ const AdminClientProfilePage: React.FC = () => {
                           </div>
                           <div className="flex items-center">
                             <DollarSign className="w-4 h-4 mr-2" />
-                            E£{booking.total_price}
+                            {formatMoney(booking.total_price, booking.currency)}
                           </div>
                           <div className="text-xs text-gray-500">
                             {booking.duration}
                           </div>
                         </div>
 
+                        {invoices.some(invoice => invoice.booking_id === booking.id) && (
+                          <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                            {invoices.filter(invoice => invoice.booking_id === booking.id).map(invoice => (
+                              <div key={invoice.id} className="flex items-center space-x-2">
+                                <Link
+                                  to={`/invoices/${invoice.id}`}
+                                  className="text-yellow-700 hover:text-yellow-800 font-medium inline-flex items-center"
+                                >
+                                  <FileText className="w-4 h-4 mr-1" />
+                                  {INVOICE_KIND_LABELS[invoice.kind]} {invoice.number}
+                                </Link>
+                                {invoice.kind === 'invoice' && user.role === 'admin' && getCreditableAmount(invoice, invoices) > 0 && (
+                                  <button
+                                    onClick={() => issueCreditNote(invoice)}
+                                    className="text-xs text-red-600 hover:text-red-800"
+                                  >
+                                    Credit
+                                  </button>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
                         {/* Expanded Details */}
                         {expandedBooking === booking.id && (
                           <div className="mt-4 pt-4 border-t border-gray-200">
@@ -597,11 +706,11 @@ const AdminClientProfilePage: React.FC = () => {
                                     />
                                   </div>
                                   <div>
-                                    <label className="block text-sm font-medium text-gray-700 mb-1">Time Slot</label>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
                                     <input
-                                      type="text"
-                                      value={editBookingData.time_slot || ''}
-                                      onChange={(e) => setEditBookingData(prev => ({ ...prev, time_slot: e.target.value }))}
+                                      type="time"
+                                      value={editBookingData.starts_at?.slice(11, 16) || ''}
+                                      onChange={(e) => setEditBookingData(prev => ({ ...prev, starts_at: `${prev.date}T${e.target.value}:00` }))}
                                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
                                     />
                                   </div>
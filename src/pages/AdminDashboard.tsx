@@ -1,11 +1,31 @@
 import React, { useState } from 'react';
 import { useEffect } from 'react';
+import toast from 'react-hot-toast';
 import { useAuth } from '../contexts/AuthContext';
-import { useContent } from '../hooks/useContent';
-import { supabase } from '../lib/supabase';
-import { useBooking } from '../contexts/BookingContext';
+import { supabase, BookingAddOnRow, PaymentProofRow } from '../lib/supabase';
 import { Navigate, Link } from 'react-router-dom';
-import AdminBookingForm from '../components/AdminBookingForm';
+import AdminBookingForm, { AdminBookingPrefill } from '../components/AdminBookingForm';
+import OccupancyGrid from '../components/OccupancyGrid';
+import ScheduleSettings from '../components/ScheduleSettings';
+import DeskSettings from '../components/DeskSettings';
+import PromoCodeSettings from '../components/PromoCodeSettings';
+import CancellationPolicySettings from '../components/CancellationPolicySettings';
+import TaxRateSettings from '../components/TaxRateSettings';
+import RefundRequests from '../components/RefundRequests';
+import WebhookEndpoints from '../components/WebhookEndpoints';
+import PaymentProofReview from '../components/PaymentProofReview';
+import { useScheduleCalendar } from '../hooks/useScheduleCalendar';
+import { useCurrency } from '../hooks/useCurrency';
+import { offerFreedDesk } from '../utils/waitlistHelpers';
+import { describeAddOnLine } from '../utils/addOnHelpers';
+import { formatMoney } from '../utils/moneyHelpers';
+import {
+  WorkspaceScheduleSource,
+  BOOKING_CONFLICT_CODE,
+  generateTimeSlots,
+  markBookingNoShow,
+  parseTimeOfDay
+} from '../utils/bookingHelpers';
 import { 
   Calendar, 
   Users, 
@@ -20,13 +40,17 @@ import {
   Save,
   MessageCircle,
   Plus,
-  Clock
+  UserX
 } from 'lucide-react';
 
 interface Booking {
   id: string;
   workspace_type: string;
   date: string;
+  end_date: string;
+  desk_number: number | null;
+  starts_at: string;
+  ends_at: string;
   time_slot: string;
   duration: string;
   customer_name: string;
@@ -34,19 +58,31 @@ interface Booking {
   customer_phone: string;
   customer_whatsapp: string;
   total_price: number;
+  currency: string;
+  booking_add_ons?: BookingAddOnRow[];
+  payment_proofs?: PaymentProofRow[];
   status: 'pending' | 'confirmed' | 'rejected' | 'cancelled';
   confirmation_code: string | null;
+  no_show_at: string | null;
   user_id: string | null;
   created_at: string;
   updated_at: string;
 }
 
+interface WorkspaceScheduleRow extends WorkspaceScheduleSource {
+  id: string;
+  name: string;
+  is_active: boolean;
+  capacity: number;
+  opening_time: string;
+  closing_time: string;
+  slot_minutes: number;
+}
+
 const AdminDashboard: React.FC = () => {
   const { user } = useAuth();
   const [editingBooking, setEditingBooking] = useState<string | null>(null);
   const [editBookingData, setEditBookingData] = useState<Partial<Booking>>({});
-  const { sendWebhook } = useBooking();
-  const { getSetting, updateSetting, settings, loading: contentLoading } = useContent();
   const [activeTab, setActiveTab] = useState('bookings');
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
@@ -54,20 +90,18 @@ const AdminDashboard: React.FC = () => {
   const [stats, setStats] = useState({
     totalBookings: 0,
     activeMembers: 0,
-    monthlyRevenue: 0,
+    revenueByCurrency: {} as Record<string, number>,
+    taxByCurrency: {} as Record<string, number>,
     pendingBookings: 0
   });
 
-  // Settings state
-  const [settingsData, setSettingsData] = useState({
-    totalDesks: '',
-    hourlySlots: ''
-  });
+  // Settings state: capacity and opening hours per workspace type
+  const [workspaceSchedules, setWorkspaceSchedules] = useState<WorkspaceScheduleRow[]>([]);
   const [settingsSaving, setSettingsSaving] = useState(false);
 
-  // Today's bookings visualization state
-  const [todaysBookings, setTodaysBookings] = useState<Booking[]>([]);
-  const [hourlySlots, setHourlySlots] = useState<string[]>([]);
+  const [bookingPrefill, setBookingPrefill] = useState<AdminBookingPrefill | null>(null);
+  const { calendar, refetch: refetchCalendar } = useScheduleCalendar();
+  const { formatPrice } = useCurrency();
 
   if (!user || (user.role !== 'admin' && user.role !== 'staff')) {
     return <Navigate to="/login" replace />;
@@ -76,16 +110,10 @@ const AdminDashboard: React.FC = () => {
   useEffect(() => {
     fetchBookings();
     fetchStats();
-    fetchTodaysBookings();
-    fetchHourlySlots();
+    fetchWorkspaceSchedules();
   }, []);
 
-  // Load settings when content is loaded and settings are available
   useEffect(() => {
-    if (!contentLoading && settings && Object.keys(settings).length > 0) {
-      loadSettings();
-    }
-    
     // Set up real-time subscription for bookings
     const bookingsSubscription = supabase
       .channel('bookings_changes')
@@ -111,74 +139,72 @@ const AdminDashboard: React.FC = () => {
           console.log('Booking updated:', payload.new);
           setBookings(prev => 
             prev.map(booking => 
-              booking.id === payload.new.id ? payload.new as Booking : booking
+              // Keep the add-on lines, which are not part of the change payload
+              booking.id === payload.new.id ? { ...booking, ...(payload.new as Booking) } : booking
             )
           );
           fetchStats(); // Refresh stats when booking is updated
         }
       )
+      .on('postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'payment_proofs'
+        },
+        (payload) => {
+          const proof = payload.new as PaymentProofRow;
+          setBookings(prev =>
+            prev.map(booking =>
+              booking.id === proof.booking_id
+                ? { ...booking, payment_proofs: [...(booking.payment_proofs || []), proof] }
+                : booking
+            )
+          );
+        }
+      )
       .subscribe();
 
     // Cleanup subscription on unmount
     return () => {
       supabase.removeChannel(bookingsSubscription);
     };
-  }, [contentLoading, settings]);
+  }, []);
 
-  const fetchTodaysBookings = async () => {
+  const fetchWorkspaceSchedules = async () => {
     try {
-      const today = new Date().toISOString().split('T')[0];
       const { data, error } = await supabase
-        .from('bookings')
-        .select('*')
-        .eq('date', today)
-        .in('status', ['pending', 'confirmed', 'code_sent']);
+        .from('workspace_types')
+        .select('id, name, is_active, capacity, opening_time, closing_time, slot_minutes')
+        .order('price', { ascending: true });
 
       if (error) throw error;
-      setTodaysBookings(data || []);
-    } catch (error) {
-      console.error('Error fetching today\'s bookings:', error);
-    }
-  };
 
-  const fetchHourlySlots = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('site_settings')
-        .select('value')
-        .eq('key', 'hourly_slots')
-        .single();
-
-      if (error) throw error;
-      
-      const slots = data?.value ? 
-        data.value.split(',').map(slot => slot.trim()).filter(Boolean) :
-        ['9:00 AM', '10:00 AM', '11:00 AM', '12:00 PM', '1:00 PM', '2:00 PM', '3:00 PM', '4:00 PM', '5:00 PM'];
-      
-      setHourlySlots(slots);
+      const rows = (data || []).map(row => ({
+        ...row,
+        opening_time: row.opening_time.slice(0, 5),
+        closing_time: row.closing_time.slice(0, 5)
+      }));
+      setWorkspaceSchedules(rows);
     } catch (error) {
-      console.error('Error fetching hourly slots:', error);
-      setHourlySlots(['9:00 AM', '10:00 AM', '11:00 AM', '12:00 PM', '1:00 PM', '2:00 PM', '3:00 PM', '4:00 PM', '5:00 PM']);
+      console.error('Error fetching workspace schedules:', error);
     }
   };
 
-  const loadSettings = () => {
-    console.log('Loading settings from:', settings);
-    setSettingsData({
-      totalDesks: settings['total_desks'] || '6',
-      hourlySlots: settings['hourly_slots'] || '9:00 AM,10:00 AM,11:00 AM,12:00 PM,1:00 PM,2:00 PM,3:00 PM,4:00 PM,5:00 PM'
-    });
-  };
-
-  const handleSettingsChange = (field: string, value: string) => {
-    setSettingsData(prev => ({ ...prev, [field]: value }));
+  const handleScheduleChange = (id: string, field: 'capacity' | 'opening_time' | 'closing_time' | 'slot_minutes', value: string) => {
+    setWorkspaceSchedules(prev => prev.map(row => {
+      if (row.id !== id) return row;
+      return field === 'capacity' || field === 'slot_minutes'
+        ? { ...row, [field]: parseInt(value, 10) || 0 }
+        : { ...row, [field]: value };
+    }));
   };
 
   const fetchBookings = async () => {
     try {
       const { data, error } = await supabase
         .from('bookings')
-        .select('*')
+        .select('*, booking_add_ons(*), payment_proofs(*)')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -194,20 +220,32 @@ const AdminDashboard: React.FC = () => {
     try {
       const { data: bookingsData, error } = await supabase
         .from('bookings')
-        .select('status, total_price, created_at');
+        .select('status, total_price, tax_amount, currency, created_at, refunds(amount, status)');
 
       if (error) throw error;
 
       const totalBookings = bookingsData?.length || 0;
       const pendingBookings = bookingsData?.filter(b => b.status === 'pending' || b.status === 'code_sent').length || 0;
-      const monthlyRevenue = bookingsData
-        ?.filter(b => b.status === 'confirmed')
-        .reduce((sum, b) => sum + (b.total_price || 0), 0) || 0;
+      // Confirmed bookings, and cancelled ones that were paid, less what is refunded or owed back.
+      // Bookings in different currencies are totalled separately. Tax is refunded in proportion
+      const revenueByCurrency: Record<string, number> = {};
+      const taxByCurrency: Record<string, number> = {};
+      (bookingsData || [])
+        .filter(b => b.status === 'confirmed' || b.refunds.length > 0)
+        .forEach(b => {
+          const refunded = b.refunds
+            .filter((refund: { status: string }) => refund.status !== 'rejected')
+            .reduce((total: number, refund: { amount: number }) => total + refund.amount, 0);
+          const kept = b.total_price > 0 ? (b.total_price - refunded) / b.total_price : 0;
+          revenueByCurrency[b.currency] = (revenueByCurrency[b.currency] || 0) + (b.total_price || 0) - refunded;
+          taxByCurrency[b.currency] = (taxByCurrency[b.currency] || 0) + (b.tax_amount || 0) * kept;
+        });
 
       setStats({
         totalBookings,
         activeMembers: Math.floor(totalBookings * 0.7), // Mock calculation
-        monthlyRevenue,
+        revenueByCurrency,
+        taxByCurrency,
         pendingBookings
       });
     } catch (error) {
@@ -220,15 +258,6 @@ const AdminDashboard: React.FC = () => {
       // Generate confirmation code
       const confirmationCode = Math.floor(100000 + Math.random() * 900000).toString();
 
-      // Get booking data for webhook
-      const { data: bookingData, error: fetchError } = await supabase
-        .from('bookings')
-        .select('*')
-        .eq('id', bookingId)
-        .single();
-
-      if (fetchError) throw fetchError;
-
       // Update booking status to 'code_sent' and store confirmation code
       const { error: updateError } = await supabase
         .from('bookings')
@@ -240,42 +269,11 @@ const AdminDashboard: React.FC = () => {
         .eq('id', bookingId);
 
       if (updateError) throw updateError;
-
-      // Send webhook notification with confirmation code
-      try {
-        await fetch('https://aibackend.cp-devcode.com/webhook/1ef572d1-3263-4784-bc19-c38b3fbc09d0', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            action: 'send_confirmation_code',
-            bookingId: bookingId,
-            confirmationCode: confirmationCode,
-            customerData: {
-              name: bookingData.customer_name,
-              whatsapp: bookingData.customer_whatsapp,
-              email: bookingData.customer_email,
-              phone: bookingData.customer_phone
-            },
-            bookingDetails: {
-              workspace_type: bookingData.workspace_type,
-              date: bookingData.date,
-              time_slot: bookingData.time_slot,
-              duration: bookingData.duration,
-              total_price: bookingData.total_price
-            },
-            timestamp: new Date().toISOString()
-          })
-        });
-      } catch (webhookError) {
-        console.error('Webhook failed:', webhookError);
-        // Don't fail the confirmation if webhook fails
-      }
       
       // Note: Real-time subscription will automatically update the UI
       
-      alert(`Confirmation code ${confirmationCode} sent to customer via WhatsApp!`);
+      // The code goes out to the customer's WhatsApp from the notification outbox
+      alert(`Confirmation code ${confirmationCode} is on its way to the customer via WhatsApp. Failed deliveries are listed under Notifications.`);
     } catch (error) {
       console.error('Error confirming booking:', error);
       alert('Failed to send confirmation code. Please try again.');
@@ -291,27 +289,22 @@ const AdminDashboard: React.FC = () => {
           .eq('id', bookingId);
 
         if (error) throw error;
-
-        // Send webhook notification for rejection
+        
+        // The freed desk goes to the first customer on the waitlist
+        let hold = null;
         try {
-          await fetch('https://aibackend.cp-devcode.com/webhook/1ef572d1-3263-4784-bc19-c38b3fbc09d0', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              action: 'booking_rejected',
-              bookingId: bookingId,
-              timestamp: new Date().toISOString()
-            })
-          });
-        } catch (webhookError) {
-          console.error('Webhook failed:', webhookError);
+          hold = await offerFreedDesk(bookingId);
+        } catch (waitlistError) {
+          console.error('Waitlist offer failed:', waitlistError);
         }
-        
+
         // Note: Real-time subscription will automatically update the UI
         
-        alert('Booking rejected successfully!');
+        alert(
+          hold
+            ? `Booking rejected. The desk is now held for ${hold.customer_name} from the waitlist.`
+            : 'Booking rejected successfully!'
+        );
       } catch (error) {
         console.error('Error rejecting booking:', error);
         alert('Failed to reject booking. Please try again.');
@@ -319,6 +312,33 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
+  // Changes the follow-up the customer gets after the booking ends
+  const handleToggleNoShow = async (booking: Booking) => {
+    try {
+      const updated = await markBookingNoShow(booking.id, !booking.no_show_at);
+      setBookings(prev => prev.map(b => (b.id === booking.id ? { ...b, no_show_at: updated.no_show_at } : b)));
+      toast.success(updated.no_show_at ? 'Marked as a no-show' : 'No-show cleared');
+    } catch (error) {
+      console.error('Error marking no-show:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update the booking');
+    }
+  };
+
+  // Record the payment review; an approved payment goes straight on to sending the code
+  const handlePaymentReviewed = (booking: Booking, proof: PaymentProofRow) => {
+    setBookings(prev =>
+      prev.map(b =>
+        b.id === booking.id
+          ? { ...b, payment_proofs: (b.payment_proofs || []).map(p => (p.id === proof.id ? proof : p)) }
+          : b
+      )
+    );
+
+    if (proof.status === 'approved' && booking.status === 'pending') {
+      handleConfirmBooking(booking.id);
+    }
+  };
+
   const handleBookingSuccess = () => {
     // Refresh bookings and stats after successful admin booking
     fetchBookings();
@@ -328,18 +348,42 @@ const AdminDashboard: React.FC = () => {
   const handleSaveBooking = async (bookingData: Partial<Booking>) => {
     if (!editingBooking) return;
     
+    const original = bookings.find(b => b.id === editingBooking);
+    const startTime = bookingData.starts_at?.slice(11, 16);
+
     try {
+      // Moving a booking re-checks desk availability on the server
+      if (
+        original &&
+        (bookingData.date !== original.date ||
+          startTime !== original.starts_at.slice(11, 16) ||
+          bookingData.duration !== original.duration)
+      ) {
+        const { error: rescheduleError } = await supabase.rpc('reschedule_booking', {
+          p_booking_id: editingBooking,
+          p_date: bookingData.date,
+          p_start_time: startTime,
+          p_duration: bookingData.duration
+        });
+
+        if (rescheduleError) {
+          if (rescheduleError.code === BOOKING_CONFLICT_CODE) {
+            toast.error(rescheduleError.details || 'The booking cannot be moved to that time.');
+            return;
+          }
+          throw rescheduleError;
+        }
+      }
+
       const { error } = await supabase
         .from('bookings')
         .update({
-          date: bookingData.date,
-          time_slot: bookingData.time_slot,
-          duration: bookingData.duration,
           customer_name: bookingData.customer_name,
           customer_email: bookingData.customer_email,
           customer_phone: bookingData.customer_phone,
           customer_whatsapp: bookingData.customer_whatsapp,
           total_price: bookingData.total_price,
+          currency: bookingData.currency,
           updated_at: new Date().toISOString()
         })
         .eq('id', editingBooking);
@@ -350,7 +394,6 @@ const AdminDashboard: React.FC = () => {
       setEditBookingData({});
       toast.success('Booking updated successfully');
       fetchBookings();
-      fetchTodaysBookings(); // Refresh today's bookings visualization
     } catch (error) {
       console.error('Error updating booking:', error);
       toast.error('Failed to update booking. Please try again.');
@@ -372,7 +415,6 @@ const AdminDashboard: React.FC = () => {
 
       toast.success('Booking deleted successfully');
       fetchBookings();
-      fetchTodaysBookings();
     } catch (error) {
       console.error('Error deleting booking:', error);
       toast.error('Failed to delete booking. Please try again.');
@@ -386,23 +428,39 @@ const AdminDashboard: React.FC = () => {
   const saveSettings = async () => {
     setSettingsSaving(true);
     try {
-      // Validate total desks
-      const totalDesks = parseInt(settingsData.totalDesks);
-      if (isNaN(totalDesks) || totalDesks < 1) {
-        alert('Total desks must be a positive number');
-        return;
-      }
+      // Validate every workspace type before saving any of them
+      for (const row of workspaceSchedules) {
+        if (!row.capacity || row.capacity < 1) {
+          alert(`${row.name}: capacity must be a positive number`);
+          return;
+        }
 
-      // Validate hourly slots
-      const slots = settingsData.hourlySlots.split(',').map(s => s.trim()).filter(s => s.length > 0);
-      if (slots.length === 0) {
-        alert('Please provide at least one hourly slot');
-        return;
+        if (!row.slot_minutes || row.slot_minutes < 5) {
+          alert(`${row.name}: slot length must be at least 5 minutes`);
+          return;
+        }
+
+        const opening = parseTimeOfDay(row.opening_time);
+        const closing = parseTimeOfDay(row.closing_time);
+        if (opening === null || closing === null || closing - opening < row.slot_minutes) {
+          alert(`${row.name}: closing time must leave room for at least one slot after opening time`);
+          return;
+        }
       }
 
-      // Save settings
-      await updateSetting('total_desks', settingsData.totalDesks);
-      await updateSetting('hourly_slots', settingsData.hourlySlots);
+      for (const row of workspaceSchedules) {
+        const { error } = await supabase
+          .from('workspace_types')
+          .update({
+            capacity: row.capacity,
+            opening_time: row.opening_time,
+            closing_time: row.closing_time,
+            slot_minutes: row.slot_minutes
+          })
+          .eq('id', row.id);
+
+        if (error) throw error;
+      }
 
       alert('Settings saved successfully!');
     } catch (error) {
@@ -413,33 +471,6 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  // Today's bookings visualization
-  const getTodaysBookingsBySlot = () => {
-    const slotBookings: Record<string, number> = {};
-    const totalDesks = parseInt(getSetting('total_desks', '6'));
-    
-    // Initialize all slots with 0 bookings
-    hourlySlots.forEach(slot => {
-      slotBookings[slot] = 0;
-    });
-    
-    // Count bookings for each slot
-    todaysBookings.forEach(booking => {
-      if (slotBookings.hasOwnProperty(booking.time_slot)) {
-        slotBookings[booking.time_slot]++;
-      }
-    });
-    
-    return { slotBookings, totalDesks };
-  };
-
-  const getSlotColor = (bookingCount: number, totalDesks: number) => {
-    if (bookingCount === 0) return 'bg-green-100 border-green-300 text-green-800';
-    if (bookingCount >= totalDesks) return 'bg-red-500 border-red-600 text-white';
-    if (bookingCount >= totalDesks * 0.8) return 'bg-orange-400 border-orange-500 text-white';
-    return 'bg-yellow-200 border-yellow-400 text-yellow-800';
-  };
-
   const statsCards = [
     {
       title: 'Total Bookings',
@@ -457,7 +488,16 @@ const AdminDashboard: React.FC = () => {
     },
     {
       title: 'Monthly Revenue',
-      value: `E£${stats.monthlyRevenue.toLocaleString()}`,
+      value: Object.keys(stats.revenueByCurrency).length > 0
+        ? Object.entries(stats.revenueByCurrency).map(([currency, total]) => formatMoney(total, currency)).join(' + ')
+        : formatPrice(0),
+      detail: Object.entries(stats.taxByCurrency)
+        .filter(([, tax]) => tax > 0)
+        .map(([currency, tax]) => {
+          const net = (stats.revenueByCurrency[currency] || 0) - tax;
+          return `Net ${formatMoney(net, currency)}, tax ${formatMoney(tax, currency)}`;
+        })
+        .join(' + '),
       change: '+15%',
       icon: DollarSign,
       color: 'bg-yellow-500'
@@ -504,54 +544,15 @@ const AdminDashboard: React.FC = () => {
 
     {/* Stats Cards */}
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-      {/* Today's Bookings Visualization */}
-      <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
-        <div className="flex items-center mb-6">
-          <Clock className="w-6 h-6 text-yellow-500 mr-3" />
-          <h3 className="text-xl font-semibold text-gray-900">Today's Bookings Overview</h3>
-          <span className="ml-2 text-sm text-gray-500">({new Date().toLocaleDateString()})</span>
-        </div>
-        
-        <div className="grid grid-cols-3 md:grid-cols-5 lg:grid-cols-9 gap-3">
-          {(() => {
-            const { slotBookings, totalDesks } = getTodaysBookingsBySlot();
-            return hourlySlots.map((slot) => {
-              const bookingCount = slotBookings[slot] || 0;
-              const colorClass = getSlotColor(bookingCount, totalDesks);
-              
-              return (
-                <div
-                  key={slot}
-                  className={`p-3 rounded-lg border-2 text-center transition-all duration-200 hover:scale-105 ${colorClass}`}
-                >
-                  <div className="text-xs font-medium mb-1">{slot}</div>
-                  <div className="text-lg font-bold">{bookingCount}</div>
-                  <div className="text-xs opacity-75">/ {totalDesks}</div>
-                </div>
-              );
-            });
-          })()}
-        </div>
-        
-        <div className="flex items-center justify-center mt-4 space-x-6 text-sm">
-          <div className="flex items-center">
-            <div className="w-4 h-4 bg-green-100 border border-green-300 rounded mr-2"></div>
-            <span>Available</span>
-          </div>
-          <div className="flex items-center">
-            <div className="w-4 h-4 bg-yellow-200 border border-yellow-400 rounded mr-2"></div>
-            <span>Partially Booked</span>
-          </div>
-          <div className="flex items-center">
-            <div className="w-4 h-4 bg-orange-400 border border-orange-500 rounded mr-2"></div>
-            <span>Nearly Full</span>
-          </div>
-          <div className="flex items-center">
-            <div className="w-4 h-4 bg-red-500 border border-red-600 rounded mr-2"></div>
-            <span>Full</span>
-          </div>
-        </div>
-      </div>
+      {/* Desk x slot occupancy for any date */}
+      <OccupancyGrid
+        workspaceTypes={workspaceSchedules}
+        calendar={calendar}
+        onCreateBooking={(prefill) => {
+          setBookingPrefill(prefill);
+          setShowAdminBookingForm(true);
+        }}
+      />
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         {statsCards.map((stat, index) => (
@@ -563,6 +564,7 @@ const AdminDashboard: React.FC = () => {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">{stat.title}</p>
                 <p className="text-2xl font-semibold text-gray-900">{stat.value}</p>
+                {'detail' in stat && stat.detail && <p className="text-xs text-gray-500">{stat.detail}</p>}
                 <p className="text-sm text-green-600">{stat.change}</p>
               </div>
             </div>
@@ -590,6 +592,26 @@ const AdminDashboard: React.FC = () => {
             >
               Clients
             </Link>
+            <button
+              onClick={() => setActiveTab('refunds')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'refunds'
+                  ? 'border-yellow-500 text-yellow-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Refunds
+            </button>
+            <button
+              onClick={() => setActiveTab('notifications')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'notifications'
+                  ? 'border-yellow-500 text-yellow-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Notifications
+            </button>
             <button
               onClick={() => setActiveTab('analytics')}
               className={`py-4 px-1 border-b-2 font-medium text-sm ${
@@ -636,6 +658,7 @@ const AdminDashboard: React.FC = () => {
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date &amp; Time</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duration</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                       </tr>
@@ -674,7 +697,20 @@ const AdminDashboard: React.FC = () => {
                               <div className="text-sm text-gray-900">{booking.duration}</div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="text-sm text-gray-900">${booking.total_price}</div>
+                              <div className="text-sm text-gray-900">{formatMoney(booking.total_price, booking.currency)}</div>
+                              {booking.booking_add_ons?.map(line => (
+                                <div key={line.id} className="text-xs text-gray-500">
+                                  + {describeAddOnLine(line)}
+                                </div>
+                              ))}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <PaymentProofReview
+                                proofs={booking.payment_proofs || []}
+                                expectedAmount={booking.total_price}
+                                currency={booking.currency}
+                                onReviewed={(proof) => handlePaymentReviewed(booking, proof)}
+                              />
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
                               <span
@@ -688,6 +724,11 @@ const AdminDashboard: React.FC = () => {
                               >
                                 {booking.status}
                               </span>
+                              {booking.no_show_at && (
+                                <span className="ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                                  no-show
+                                </span>
+                              )}
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
                               {(booking.status === 'pending' || booking.status === 'code_sent') && (
@@ -710,6 +751,15 @@ const AdminDashboard: React.FC = () => {
                                   </button>
                                 </>
                               )}
+                              {booking.status === 'confirmed' && new Date(booking.starts_at) <= new Date() && (
+                                <button
+                                  onClick={() => handleToggleNoShow(booking)}
+                                  className={booking.no_show_at ? 'text-gray-900 hover:text-gray-600' : 'text-gray-400 hover:text-gray-700'}
+                                  title={booking.no_show_at ? 'Clear no-show' : 'Mark as no-show'}
+                                >
+                                  <UserX className="w-4 h-4" />
+                                </button>
+                              )}
                               {canEditBooking(booking.status) && (
                                 <button
                                   onClick={() => {
@@ -733,7 +783,7 @@ const AdminDashboard: React.FC = () => {
                           </tr>
                           {editingBooking === booking.id && (
                             <tr>
-                              <td colSpan={7} className="px-6 py-4 bg-gray-50">
+                              <td colSpan={8} className="px-6 py-4 bg-gray-50">
                                 <div className="space-y-4">
                                   <h4 className="font-semibold text-gray-900">Edit Booking</h4>
                                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -749,12 +799,15 @@ const AdminDashboard: React.FC = () => {
                                       />
                                     </div>
                                     <div>
-                                      <label className="block text-sm font-medium text-gray-700 mb-1">Time Slot</label>
+                                      <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
                                       <input
-                                        type="text"
-                                        value={editBookingData.time_slot || ''}
+                                        type="time"
+                                        value={editBookingData.starts_at?.slice(11, 16) || ''}
                                         onChange={(e) =>
-                                          setEditBookingData((prev) => ({ ...prev, time_slot: e.target.value }))
+                                          setEditBookingData((prev) => ({
+                                            ...prev,
+                                            starts_at: `${prev.date}T${e.target.value}:00`
+                                          }))
                                         }
                                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
                                       />
@@ -840,6 +893,26 @@ const AdminDashboard: React.FC = () => {
             </div>
           )}
 
+          {activeTab === 'refunds' && (
+            user.role === 'admin' ? (
+              <RefundRequests adminName={user.name} onProcessed={fetchStats} />
+            ) : (
+              <div className="text-center py-8">
+                <p className="text-gray-500">Refunds are only accessible to administrators.</p>
+              </div>
+            )
+          )}
+
+          {activeTab === 'notifications' && (
+            user.role === 'admin' ? (
+              <WebhookEndpoints />
+            ) : (
+              <div className="text-center py-8">
+                <p className="text-gray-500">Notifications are only accessible to administrators.</p>
+              </div>
+            )
+          )}
+
           {activeTab === 'analytics' && (
             <div>
               {/* Analytics content here */}
@@ -853,40 +926,79 @@ const AdminDashboard: React.FC = () => {
                 <h3 className="text-lg font-medium text-gray-900 mb-6">Booking System Settings</h3>
                 
                 <div className="space-y-6">
-                  {/* Total Desks Setting */}
-                  <div className="bg-gray-50 p-6 rounded-lg">
-                    <h4 className="text-md font-semibold text-gray-900 mb-3">Total Number of Desks</h4>
-                    <p className="text-sm text-gray-600 mb-3">
-                      Set the total number of desks available for booking. This affects how many simultaneous bookings can be made for the same time slot.
-                    </p>
-                    <input
-                      type="number"
-                      min="1"
-                      max="100"
-                      value={settingsData.totalDesks}
-                      onChange={(e) => handleSettingsChange('totalDesks', e.target.value)}
-                      className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
-                      placeholder="6"
-                    />
-                    <span className="ml-2 text-sm text-gray-500">desks</span>
-                  </div>
-
-                  {/* Hourly Slots Setting */}
+                  {/* Per-workspace-type capacity and opening hours */}
                   <div className="bg-gray-50 p-6 rounded-lg">
-                    <h4 className="text-md font-semibold text-gray-900 mb-3">Available Hourly Time Slots</h4>
+                    <h4 className="text-md font-semibold text-gray-900 mb-3">Capacity and Opening Hours</h4>
                     <p className="text-sm text-gray-600 mb-3">
-                      Define the available hourly time slots for booking. Enter each time slot separated by commas.
-                      Example: 9:00 AM,10:00 AM,11:00 AM,12:00 PM,1:00 PM
+                      Set how many desks each workspace type has and when it can be booked. Bookable time slots run from the
+                      opening time until the closing time, one slot of the chosen length after another.
                     </p>
-                    <textarea
-                      rows={4}
-                      value={settingsData.hourlySlots}
-                      onChange={(e) => handleSettingsChange('hourlySlots', e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
-                      placeholder="9:00 AM,10:00 AM,11:00 AM,12:00 PM,1:00 PM,2:00 PM,3:00 PM,4:00 PM,5:00 PM"
-                    />
-                    <div className="mt-2 text-xs text-gray-500">
-                      Current slots: {settingsData.hourlySlots.split(',').map(s => s.trim()).filter(s => s.length > 0).length} slots
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead>
+                          <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Workspace</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Desks</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Opens</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Closes</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Slot Length</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Slots</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {workspaceSchedules.map(row => {
+                            const slots = generateTimeSlots(row.opening_time, row.closing_time, row.slot_minutes);
+                            return (
+                              <tr key={row.id}>
+                                <td className="px-3 py-2 text-sm font-medium text-gray-900">
+                                  {row.name}
+                                  {!row.is_active && <span className="ml-2 text-xs text-gray-400">(inactive)</span>}
+                                </td>
+                                <td className="px-3 py-2">
+                                  <input
+                                    type="number"
+                                    min="1"
+                                    max="100"
+                                    value={row.capacity}
+                                    onChange={(e) => handleScheduleChange(row.id, 'capacity', e.target.value)}
+                                    className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                </td>
+                                <td className="px-3 py-2">
+                                  <input
+                                    type="time"
+                                    value={row.opening_time}
+                                    onChange={(e) => handleScheduleChange(row.id, 'opening_time', e.target.value)}
+                                    className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                </td>
+                                <td className="px-3 py-2">
+                                  <input
+                                    type="time"
+                                    value={row.closing_time}
+                                    onChange={(e) => handleScheduleChange(row.id, 'closing_time', e.target.value)}
+                                    className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                </td>
+                                <td className="px-3 py-2">
+                                  <input
+                                    type="number"
+                                    min="5"
+                                    step="5"
+                                    value={row.slot_minutes}
+                                    onChange={(e) => handleScheduleChange(row.id, 'slot_minutes', e.target.value)}
+                                    className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                  <span className="ml-1 text-sm text-gray-500">min</span>
+                                </td>
+                                <td className="px-3 py-2 text-xs text-gray-500">
+                                  {slots.length > 0 ? `${slots.length} slots (${slots[0]} – ${slots[slots.length - 1]})` : 'No slots'}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
                     </div>
                   </div>
 
@@ -911,6 +1023,21 @@ const AdminDashboard: React.FC = () => {
                     </button>
                   </div>
 
+                  {/* Weekly hours, date overrides and closures */}
+                  <ScheduleSettings onScheduleChange={refetchCalendar} />
+
+                  {/* Desk labels, zones and attributes */}
+                  <DeskSettings workspaceTypes={workspaceSchedules} />
+
+                  {/* Discount codes for checkout */}
+                  <PromoCodeSettings workspaceTypes={workspaceSchedules} />
+
+                  {/* Refunds for cancelled confirmed bookings */}
+                  <CancellationPolicySettings workspaceTypes={workspaceSchedules} />
+
+                  {/* VAT and other taxes on booking prices */}
+                  <TaxRateSettings workspaceTypes={workspaceSchedules} />
+
                   {/* Warning Notice */}
                   <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                     <div className="flex">
@@ -937,7 +1064,11 @@ const AdminDashboard: React.FC = () => {
       {/* Admin Booking Form Modal */}
       {showAdminBookingForm && (
         <AdminBookingForm
-          onClose={() => setShowAdminBookingForm(false)}
+          prefill={bookingPrefill}
+          onClose={() => {
+            setShowAdminBookingForm(false);
+            setBookingPrefill(null);
+          }}
           onSuccess={handleBookingSuccess}
         />
       )}
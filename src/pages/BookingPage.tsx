@@ -1,74 +1,87 @@
 import React, { useState } from 'react';
 import { useEffect } from 'react';
-import { Calendar, Clock, User, Phone, Mail, MessageCircle, Lock } from 'lucide-react';
+import { Calendar, Clock, User, Phone, Mail, MessageCircle, Lock, LayoutGrid, Package } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { useBooking } from '../contexts/BookingContext';
+import { useBooking, BookingRequest } from '../contexts/BookingContext';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import { useContent } from '../hooks/useContent';
+import { useCurrency } from '../hooks/useCurrency';
+import { formatSecondaryPrice } from '../utils/moneyHelpers';
 import AnimatedSection from '../components/AnimatedSection';
 import LoadingSpinner from '../components/LoadingSpinner';
 import AuthModal from '../components/AuthModal';
-
-// Default fallback values for booking logic
-const DEFAULT_HOURLY_SLOTS = [
-  '9:00 AM', '10:00 AM', '11:00 AM', '12:00 PM',
-  '1:00 PM', '2:00 PM', '3:00 PM', '4:00 PM', '5:00 PM'
-];
-
-const DEFAULT_TOTAL_DESKS = 6;
-
-// Helper function to convert duration to hours
-const convertDurationToHours = (duration: string, totalSlots: number): number => {
-  switch (duration) {
-    case '1-hour':
-      return 1;
-    case '2-hours':
-      return 2;
-    case '4-hours':
-      return 4;
-    case '1-day':
-      return totalSlots; // Full day = all available hourly slots
-    case '1-week':
-      return totalSlots * 7; // Not applicable for hourly slots, but kept for consistency
-    case '1-month':
-      return totalSlots * 30; // Not applicable for hourly slots, but kept for consistency
-    default:
-      return 1;
-  }
-};
-
-// Helper function to get hourly slots covered by a booking
-const getHourlySlotsForBooking = (startSlot: string, durationHours: number, allSlots: string[]): string[] => {
-  const startIndex = allSlots.indexOf(startSlot);
-  if (startIndex === -1) return [];
-  
-  const slots = [];
-  for (let i = 0; i < durationHours && (startIndex + i) < allSlots.length; i++) {
-    slots.push(allSlots[startIndex + i]);
-  }
-  return slots;
-};
-
-interface WorkspaceType {
+import ScheduleDatePicker from '../components/ScheduleDatePicker';
+import DeskFloorPlan from '../components/DeskFloorPlan';
+import RecurrenceFields from '../components/RecurrenceFields';
+import { useScheduleCalendar } from '../hooks/useScheduleCalendar';
+import { useDesks } from '../hooks/useDesks';
+import { useWorkspaceRates } from '../hooks/useWorkspaceRates';
+import { useSeriesConflicts } from '../hooks/useSeriesConflicts';
+import { useAddOns } from '../hooks/useAddOns';
+import { useCredits } from '../hooks/useCredits';
+import { useTaxRates } from '../hooks/useTaxRates';
+import { getDeskInventory } from '../utils/deskHelpers';
+import { BOOKING_DURATIONS, getBookingPrice, getDurationLabel, getPricedDurations } from '../utils/pricingHelpers';
+import { RecurrenceRule, canRepeatDuration, getOccurrenceDates } from '../utils/recurrenceHelpers';
+import { PromoQuote, PromoCodeError, checkPromoCode } from '../utils/promoHelpers';
+import { describeAddOnLine, formatAddOnPrice, getAddOnLines } from '../utils/addOnHelpers';
+import { InsufficientCreditsError, formatCredits, getCreditCoverage, getCreditDayHours } from '../utils/membershipHelpers';
+import { getDayHours, getWorkspaceScheduleForDate } from '../utils/scheduleHelpers';
+import { applyTax, describeTaxLine, getApplicableTaxes } from '../utils/taxHelpers';
+import {
+  AvailabilityBooking,
+  WorkspaceScheduleSource,
+  getWorkspaceSchedule,
+  formatTimeLabel,
+  fetchActiveBookings,
+  getUnavailableTimeSlots,
+  getFreeDesks,
+  getRequestedPeriod,
+  getBookingEndDate,
+  getDurationDays,
+  isMultiDayDuration,
+  BookingConflictError
+} from '../utils/bookingHelpers';
+
+interface WorkspaceType extends WorkspaceScheduleSource {
   id: string;
   name: string;
   description: string;
   price: number;
   price_unit: string;
+  secondary_price: number | null;
   features: string[];
   is_active: boolean;
 }
 
 const BookingPage: React.FC = () => {
   const navigate = useNavigate();
-  const { setBookingData } = useBooking();
+  const { createBooking, createBookingSeries, joinWaitlist } = useBooking();
   const { user } = useAuth();
-  const { getContent, getSetting, loading: contentLoading } = useContent();
+  const { getContent, loading: contentLoading } = useContent();
+  const { calendar } = useScheduleCalendar();
+  const { desks } = useDesks();
+  const { rates } = useWorkspaceRates();
+  const { addOns } = useAddOns();
+  const { currency, secondaryCurrency, formatPrice } = useCurrency();
+  const { taxRates } = useTaxRates();
+  const { balances, refetch: refetchCredits } = useCredits(user?.id);
   
   const [workspaceTypes, setWorkspaceTypes] = useState<WorkspaceType[]>([]);
   const [loading, setLoading] = useState(true);
   const [bookedSlots, setBookedSlots] = useState<string[]>([]);
+  const [existingBookings, setExistingBookings] = useState<AvailabilityBooking[]>([]);
+  const [preferredDesk, setPreferredDesk] = useState<number | null>(null);
+  const [waitlistSlot, setWaitlistSlot] = useState('');
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoQuote, setPromoQuote] = useState<PromoQuote | null>(null);
+  const [promoError, setPromoError] = useState('');
+  const [checkingPromo, setCheckingPromo] = useState(false);
+  const [selectedAddOnIds, setSelectedAddOnIds] = useState<string[]>([]);
+  const [payWithCredits, setPayWithCredits] = useState(false);
   const [checkingAvailability, setCheckingAvailability] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
   
@@ -83,12 +96,42 @@ const BookingPage: React.FC = () => {
     customerWhatsapp: user?.whatsapp || ''
   });
 
-  // Get dynamic settings
-  const totalDesks = parseInt(getSetting('total_desks', DEFAULT_TOTAL_DESKS.toString()));
-  const hourlySlots = getSetting('hourly_slots', DEFAULT_HOURLY_SLOTS.join(','))
-    .split(',')
-    .map(slot => slot.trim())
-    .filter(slot => slot.length > 0);
+  // Capacity and slot schedule of the selected workspace type, narrowed to each day's opening hours
+  const selectedWorkspace = workspaceTypes.find(w => w.name === formData.workspaceType);
+  const scheduleFor = (date: string) => getWorkspaceScheduleForDate(selectedWorkspace, date, calendar);
+  const timeSlots = formData.date ? scheduleFor(formData.date).timeSlots : getWorkspaceSchedule(selectedWorkspace).timeSlots;
+  const selectedDayHours = formData.date ? getDayHours(formData.date, calendar) : null;
+
+  // Week and month bookings reserve whole days, from the first slot of the start date
+  const isMultiDay = isMultiDayDuration(formData.duration);
+  const endDate = formData.date && formData.duration ? getBookingEndDate(formData.date, formData.duration) : '';
+  const startTime = isMultiDay ? timeSlots[0] : formData.timeSlot;
+
+  // Desks free for the chosen slot; the preferred desk is kept while it stays free
+  const freeDesks = formData.workspaceType && formData.date && formData.duration && startTime
+    ? getFreeDesks(formData.date, startTime, formData.duration, existingBookings, scheduleFor)
+    : [];
+  const selectedDesk = preferredDesk !== null && freeDesks.includes(preferredDesk) ? preferredDesk : null;
+  const deskInventory = formData.workspaceType && formData.date
+    ? getDeskInventory(desks, formData.workspaceType, scheduleFor(formData.date).totalDesks)
+    : [];
+  const selectedDeskLabel = deskInventory.find(d => d.desk_number === selectedDesk)?.label;
+
+  // Start times that fit the day but have no free desk; customers can wait for these
+  const fullSlots = formData.date && formData.duration
+    ? bookedSlots.filter(slot => getRequestedPeriod(formData.date, slot, formData.duration, scheduleFor) !== null)
+    : [];
+
+  // Repeating bookings: every date of the series, and those that are closed or full
+  const recurrenceRule = canRepeatDuration(formData.duration) ? recurrence : null;
+  const seriesDates = recurrenceRule ? getOccurrenceDates(formData.date, recurrenceRule) : [];
+  const { conflicts: seriesConflicts, checking: checkingSeries, refetch: recheckSeries } = useSeriesConflicts(
+    formData.workspaceType,
+    seriesDates,
+    startTime || '',
+    formData.duration
+  );
+  const bookableSeriesDates = seriesDates.filter(date => !seriesConflicts.some(c => c.conflict_date === date));
 
   useEffect(() => {
     fetchWorkspaceTypes();
@@ -111,9 +154,16 @@ const BookingPage: React.FC = () => {
     if (formData.workspaceType && formData.date && formData.duration) {
       fetchBookedSlots();
     } else {
+      setExistingBookings([]);
       setBookedSlots([]);
     }
-  }, [formData.workspaceType, formData.date, formData.duration]);
+  }, [formData.workspaceType, formData.date, formData.duration, calendar]);
+
+  // A promo quote is for one workspace type and duration
+  useEffect(() => {
+    setPromoQuote(null);
+    setPromoError('');
+  }, [formData.workspaceType, formData.duration]);
 
   const fetchWorkspaceTypes = async () => {
     try {
@@ -135,99 +185,30 @@ const BookingPage: React.FC = () => {
   const fetchBookedSlots = async () => {
     setCheckingAvailability(true);
     try {
-      const { data, error } = await supabase
-        .from('bookings')
-        .select('time_slot, duration, desk_number')
-        .eq('workspace_type', formData.workspaceType)
-        .eq('date', formData.date)
-        .in('status', ['pending', 'confirmed', 'code_sent']);
-
-      if (error) throw error;
+      const rangeEnd = getBookingEndDate(formData.date, formData.duration);
+      const bookings = await fetchActiveBookings(formData.workspaceType, formData.date, rangeEnd);
+      const unavailableSlots = getUnavailableTimeSlots(formData.date, formData.duration, bookings, scheduleFor);
 
-      const bookings = data || [];
-      const requestedDurationHours = convertDurationToHours(formData.duration, hourlySlots.length);
-      
-      // Build desk availability matrix
-      const deskAvailabilityMatrix = new Map<string, boolean[]>();
-      
-      // Initialize all slots as available for all desks
-      hourlySlots.forEach(slot => {
-        deskAvailabilityMatrix.set(slot, new Array(totalDesks).fill(true));
-      });
-      
-      // Mark desks as unavailable based on existing bookings
-      bookings.forEach(booking => {
-        const bookingDurationHours = convertDurationToHours(booking.duration, hourlySlots.length);
-        const occupiedSlots = getHourlySlotsForBooking(booking.time_slot, bookingDurationHours, hourlySlots);
-        
-        occupiedSlots.forEach(slot => {
-          const availability = deskAvailabilityMatrix.get(slot);
-          if (availability) {
-            if (booking.desk_number !== null && booking.desk_number >= 1 && booking.desk_number <= totalDesks) {
-              // Mark specific desk as unavailable
-              availability[booking.desk_number - 1] = false;
-            } else {
-              // Legacy booking without desk assignment - mark all desks as unavailable
-              availability.fill(false);
-            }
-          }
-        });
-      });
-      
-      // Find unavailable starting slots for the requested duration
-      const unavailableSlots: string[] = [];
-      
-      hourlySlots.forEach(startSlot => {
-        const requiredSlots = getHourlySlotsForBooking(startSlot, requestedDurationHours, hourlySlots);
-        
-        // Check if we have enough consecutive slots
-        if (requiredSlots.length < requestedDurationHours) {
-          unavailableSlots.push(startSlot);
-          return;
-        }
-        
-        // Check if at least one desk is available for all required slots
-        let hasAvailableDesk = false;
-        
-        for (let deskIndex = 0; deskIndex < totalDesks; deskIndex++) {
-          let deskAvailableForAllSlots = true;
-          
-          for (const slot of requiredSlots) {
-            const availability = deskAvailabilityMatrix.get(slot);
-            if (!availability || !availability[deskIndex]) {
-              deskAvailableForAllSlots = false;
-              break;
-            }
-          }
-          
-          if (deskAvailableForAllSlots) {
-            hasAvailableDesk = true;
-            break;
-          }
-        }
-        
-        if (!hasAvailableDesk) {
-          unavailableSlots.push(startSlot);
-        }
-      });
-      
+      setExistingBookings(bookings);
       setBookedSlots(unavailableSlots);
     } catch (error) {
       console.error('Error fetching booked slots:', error);
+      setExistingBookings([]);
       setBookedSlots([]);
     } finally {
       setCheckingAvailability(false);
     }
   };
 
-  const durations = [
-    { value: '1-hour', label: '1 Hour', multiplier: 1 },
-    { value: '2-hours', label: '2 Hours', multiplier: 2 },
-    { value: '4-hours', label: '4 Hours', multiplier: 4 },
-    { value: '1-day', label: '1 Day', multiplier: 1 },
-    { value: '1-week', label: '1 Week', multiplier: 7 },
-    { value: '1-month', label: '1 Month', multiplier: 30 }
-  ];
+  const durations = formData.workspaceType ? getPricedDurations(rates, formData.workspaceType) : BOOKING_DURATIONS;
+
+  const handleDateChange = (date: string) => {
+    setFormData(prev => ({
+      ...prev,
+      date,
+      timeSlot: '' // Reset time slot when date changes
+    }));
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -252,112 +233,182 @@ const BookingPage: React.FC = () => {
         [name]: value
       }));
     }
+
+    // Not every workspace type offers every duration
+    if (name === 'workspaceType' && formData.duration && getBookingPrice(rates, value, formData.duration) === null) {
+      setFormData(prev => ({ ...prev, duration: '' }));
+    }
   };
 
-   const saveBookingToDatabase = async (bookingData: any) => {
+  const saveSeriesToDatabase = async (bookingData: BookingRequest, rule: RecurrenceRule) => {
+    if (bookableSeriesDates.length === 0) {
+      alert('None of the dates in this series can be booked. Please change the repeat options.');
+      return;
+    }
+
+    if (seriesConflicts.length > 0) {
+      const skipped = seriesConflicts
+        .map(c => `${new Date(`${c.conflict_date}T00:00:00`).toLocaleDateString()} (${c.reason})`)
+        .join('\n');
+      if (!confirm(`These dates cannot be booked and will be skipped:\n${skipped}\n\nBook the other ${bookableSeriesDates.length} dates?`)) {
+        return;
+      }
+    }
+
     try {
-      // Find an available desk for the booking
-      const { data: existingBookings, error: fetchError } = await supabase
-        .from('bookings')
-        .select('time_slot, duration, desk_number')
-        .eq('workspace_type', bookingData.workspaceType)
-        .eq('date', bookingData.date)
-        .in('status', ['pending', 'confirmed', 'code_sent']);
-
-      if (fetchError) throw fetchError;
-
-      const bookings = existingBookings || [];
-      const requestedDurationHours = convertDurationToHours(bookingData.duration, hourlySlots.length);
-      const requiredSlots = getHourlySlotsForBooking(bookingData.timeSlot, requestedDurationHours, hourlySlots);
-      
-      // Build desk availability matrix
-      const deskAvailabilityMatrix = new Map<string, boolean[]>();
-      
-      // Initialize all slots as available for all desks
-      hourlySlots.forEach(slot => {
-        deskAvailabilityMatrix.set(slot, new Array(totalDesks).fill(true));
-      });
-      
-      // Mark desks as unavailable based on existing bookings
-      bookings.forEach(booking => {
-        const bookingDurationHours = convertDurationToHours(booking.duration, hourlySlots.length);
-        const occupiedSlots = getHourlySlotsForBooking(booking.time_slot, bookingDurationHours, hourlySlots);
-        
-        occupiedSlots.forEach(slot => {
-          const availability = deskAvailabilityMatrix.get(slot);
-          if (availability) {
-            if (booking.desk_number !== null && booking.desk_number >= 1 && booking.desk_number <= totalDesks) {
-              // Mark specific desk as unavailable
-              availability[booking.desk_number - 1] = false;
-            } else {
-              // Legacy booking without desk assignment - mark all desks as unavailable
-              availability.fill(false);
-            }
-          }
-        });
-      });
-      
-      // Find an available desk for the entire duration
-      let assignedDeskNumber = null;
-      
-      for (let deskIndex = 0; deskIndex < totalDesks; deskIndex++) {
-        let deskAvailableForAllSlots = true;
-        
-        for (const slot of requiredSlots) {
-          const availability = deskAvailabilityMatrix.get(slot);
-          if (!availability || !availability[deskIndex]) {
-            deskAvailableForAllSlots = false;
-            break;
-          }
-        }
-        
-        if (deskAvailableForAllSlots) {
-          assignedDeskNumber = deskIndex + 1; // Desk numbers are 1-indexed
-          break;
-        }
+      const data = await createBookingSeries(bookingData, rule, bookableSeriesDates);
+
+      // Bookings paid in full with credits are confirmed straight away
+      if (data.every(booking => booking.status === 'confirmed')) {
+        alert(`${data.length} bookings were paid with your credits and are confirmed.`);
+        navigate('/my-bookings');
+        return;
       }
-      
-      if (!assignedDeskNumber) {
-        throw new Error('No available desk found for the selected time slot and duration. Please choose a different time or date.');
+      navigate('/confirmation', { state: { bookingId: data[0].id, seriesCount: data.length } });
+    } catch (error) {
+      console.error('Error saving booking series:', error);
+      if (error instanceof BookingConflictError) {
+        alert(error.message);
+        recheckSeries();
+        fetchBookedSlots();
+        return;
+      }
+      if (error instanceof PromoCodeError) {
+        alert(error.message);
+        setPromoQuote(null);
+        return;
       }
+      if (error instanceof InsufficientCreditsError) {
+        alert(error.message);
+        setPayWithCredits(false);
+        refetchCredits();
+        return;
+      }
+      alert('Failed to save booking. Please try again.');
+    }
+  };
 
-      const { data, error } = await supabase
-        .from('bookings')
-        .insert({
-          workspace_type: bookingData.workspaceType,
-          date: bookingData.date,
-          time_slot: bookingData.timeSlot,
-          duration: bookingData.duration,
-          customer_name: bookingData.customerName,
-          customer_email: bookingData.customerEmail,
-          customer_phone: bookingData.customerPhone,
-          customer_whatsapp: bookingData.customerWhatsapp,
-          total_price: bookingData.totalPrice,
-          status: 'pending',
-          user_id: user?.id || null,
-          desk_number: assignedDeskNumber
-        })
-        .select()
-        .single();
+  const saveBookingToDatabase = async (bookingData: BookingRequest) => {
+    if (recurrenceRule) {
+      return saveSeriesToDatabase(bookingData, recurrenceRule);
+    }
 
-      if (error) throw error;
+    try {
+      // Desk assignment happens atomically on the server
+      const data = await createBooking(bookingData);
+
+      // Bookings paid in full with credits are confirmed straight away
+      if (data.status === 'confirmed') {
+        alert('Your booking was paid with your credits and is confirmed.');
+        navigate('/my-bookings');
+        return;
+      }
 
       // Navigate to confirmation page
       navigate('/confirmation', { state: { bookingId: data.id } });
       
     } catch (error) {
       console.error('Error saving booking:', error);
+      if (error instanceof BookingConflictError) {
+        alert(error.message);
+        setFormData(prev => ({ ...prev, timeSlot: '' }));
+        fetchBookedSlots();
+        return;
+      }
+      if (error instanceof PromoCodeError) {
+        alert(error.message);
+        setPromoQuote(null);
+        return;
+      }
+      if (error instanceof InsufficientCreditsError) {
+        alert(error.message);
+        setPayWithCredits(false);
+        refetchCredits();
+        return;
+      }
       alert('Failed to save booking. Please try again.');
     }
   };
   
-  const calculatePrice = () => {
-    const workspace = workspaceTypes.find(w => w.name === formData.workspaceType);
-    const duration = durations.find(d => d.value === formData.duration);
-    
-    if (!workspace || !duration) return 0;
-    
-    return workspace.price * duration.multiplier;
+  const calculatePrice = () => getBookingPrice(rates, formData.workspaceType, formData.duration) ?? 0;
+
+  // Add-ons are priced per booking; the promo discount applies to the workspace rate only
+  const addOnLines = getAddOnLines(addOns, selectedAddOnIds, formData.duration);
+  const addOnsTotal = addOnLines.reduce((sum, line) => sum + line.lineTotal, 0);
+
+  // Membership credits that can pay for the workspace of every booking being made
+  const creditCoverage = user && formData.duration
+    ? getCreditCoverage(
+        balances,
+        formData.duration,
+        getCreditDayHours(selectedWorkspace),
+        recurrenceRule ? bookableSeriesDates.length : 1
+      )
+    : null;
+  const usingCredits = payWithCredits && creditCoverage !== null;
+
+  // Price of one booking after the applied promo code; credits leave only the add-ons to pay.
+  // Exclusive taxes are added on top
+  const discountAmount = usingCredits ? 0 : promoQuote?.discount_amount ?? 0;
+  const taxBreakdown = applyTax(
+    (usingCredits ? 0 : calculatePrice() - discountAmount) + addOnsTotal,
+    getApplicableTaxes(taxRates, formData.workspaceType)
+  );
+  const bookingTotal = taxBreakdown.gross_amount;
+
+  const toggleAddOn = (addOnId: string) => {
+    setSelectedAddOnIds(prev =>
+      prev.includes(addOnId) ? prev.filter(id => id !== addOnId) : [...prev, addOnId]
+    );
+  };
+
+  const handleApplyPromo = async () => {
+    if (!promoInput.trim() || !formData.workspaceType || !formData.duration) return;
+
+    setCheckingPromo(true);
+    setPromoError('');
+    try {
+      setPromoQuote(await checkPromoCode(promoInput, formData.workspaceType, formData.duration));
+    } catch (error) {
+      console.error('Error checking promo code:', error);
+      setPromoQuote(null);
+      setPromoError(error instanceof PromoCodeError ? error.message : 'Failed to check the promo code. Please try again.');
+    } finally {
+      setCheckingPromo(false);
+    }
+  };
+
+  const getBookingRequest = (): BookingRequest => {
+    const { timeSlot, ...details } = formData;
+    return {
+      ...details,
+      startTime: isMultiDay ? timeSlots[0] : timeSlot,
+      deskNumber: selectedDesk,
+      totalPrice: bookingTotal,
+      promoCode: usingCredits ? undefined : promoQuote?.code,
+      addOnIds: selectedAddOnIds,
+      useCredits: usingCredits
+    };
+  };
+
+  // Join the waitlist for a full start time; the customer is messaged if a desk frees up
+  const handleJoinWaitlist = async (waitlistStartTime: string) => {
+    if (!formData.customerName || !formData.customerEmail || !formData.customerWhatsapp) {
+      alert('Please fill in your contact information so we can reach you when a desk frees up.');
+      return;
+    }
+
+    setJoiningWaitlist(true);
+    try {
+      await joinWaitlist({ ...getBookingRequest(), startTime: waitlistStartTime });
+      setWaitlistSlot('');
+      alert("You're on the waitlist. If a desk frees up we'll hold it for you and message you on WhatsApp.");
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      alert(error instanceof Error ? error.message : 'Failed to join the waitlist. Please try again.');
+    } finally {
+      setJoiningWaitlist(false);
+    }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -369,28 +420,14 @@ const BookingPage: React.FC = () => {
       return;
     }
     
-    const totalPrice = calculatePrice();
-    
-    const bookingData = {
-      ...formData,
-      totalPrice
-    };
-    
     // Save booking to database immediately
-    saveBookingToDatabase(bookingData);
+    saveBookingToDatabase(getBookingRequest());
   };
 
   const handleAuthSuccess = () => {
     setShowAuthModal(false);
     // After successful authentication, automatically submit the form
-    const totalPrice = calculatePrice();
-    
-    const bookingData = {
-      ...formData,
-      totalPrice
-    };
-    
-    saveBookingToDatabase(bookingData);
+    saveBookingToDatabase(getBookingRequest());
   };
 
   // Show loading spinner while content is being fetched
@@ -468,7 +505,10 @@ const BookingPage: React.FC = () => {
                               <div className="text-center space-y-3">
                                 <h4 className="font-semibold text-black text-lg">{workspace.name}</h4>
                                 <p className="text-gray-600 text-sm">{workspace.description}</p>
-                                <div className="text-yellow-600 font-bold text-xl">E£{workspace.price}/{workspace.price_unit}</div>
+                                <div className="text-yellow-600 font-bold text-xl">{formatPrice(workspace.price)}/{workspace.price_unit}</div>
+                                {formatSecondaryPrice(workspace, secondaryCurrency) && (
+                                  <div className="text-xs text-gray-500">{formatSecondaryPrice(workspace, secondaryCurrency)}</div>
+                                )}
                                 {workspace.features && workspace.features.length > 0 && (
                                   <ul className="text-xs text-gray-500 space-y-1">
                                     {workspace.features.slice(0, 3).map((feature, idx) => (
@@ -493,15 +533,18 @@ const BookingPage: React.FC = () => {
                         <Calendar className="w-4 h-4 inline mr-2" />
                         Select Date
                       </label>
-                      <input
-                        type="date"
-                        name="date"
+                      <ScheduleDatePicker
                         value={formData.date}
-                        onChange={handleChange}
+                        onChange={handleDateChange}
+                        calendar={calendar}
                         required
                         min={new Date().toISOString().split('T')[0]}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 transition-all duration-300"
                       />
+                      {selectedDayHours && !selectedDayHours.isOpen && (
+                        <p className="text-sm text-red-500 mt-1">
+                          We are closed on this date{selectedDayHours.reason ? ` (${selectedDayHours.reason})` : ''}. Please choose another day.
+                        </p>
+                      )}
                     </div>
                   </div>
                 </AnimatedSection>
@@ -523,6 +566,7 @@ const BookingPage: React.FC = () => {
                       {durations.map((duration) => (
                         <option key={duration.value} value={duration.value}>
                           {duration.label}
+                          {formData.workspaceType && ` – ${formatPrice(getBookingPrice(rates, formData.workspaceType, duration.value) ?? 0)}`}
                         </option>
                       ))}
                     </select>
@@ -531,46 +575,147 @@ const BookingPage: React.FC = () => {
 
                 {/* Time Selection - moved after duration */}
                 <AnimatedSection animation="slideUp" delay={700} duration={600}>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      <Clock className="w-4 h-4 inline mr-2" />
-                      Select Time Slot {checkingAvailability && <span className="text-yellow-500">(Checking availability...)</span>}
-                    </label>
-                    <select
-                      name="timeSlot"
-                      value={formData.timeSlot}
-                      onChange={handleChange}
-                      required
-                      disabled={!formData.workspaceType || !formData.date || !formData.duration || checkingAvailability}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 transition-all duration-300"
-                    >
-                      <option value="">
-                        {!formData.workspaceType || !formData.date || !formData.duration
-                          ? 'Select workspace, date, and duration first' 
-                          : checkingAvailability 
-                          ? 'Checking availability...' 
-                          : 'Choose available time slot'
-                        }
-                      </option>
-                      {hourlySlots
-                        .filter(slot => !bookedSlots.includes(slot))
-                        .map((slot) => (
-                          <option key={slot} value={slot}>{slot}</option>
-                        ))}
-                    </select>
-                    {formData.workspaceType && formData.date && formData.duration && bookedSlots.length > 0 && (
-                      <p className="text-sm text-gray-500 mt-1">
-                        Unavailable slots for {formData.duration}: {bookedSlots.join(', ')}
-                      </p>
-                    )}
-                    {formData.workspaceType && formData.date && formData.duration && bookedSlots.length === hourlySlots.length && (
-                      <p className="text-sm text-red-500 mt-1">
-                        No available slots for this date and duration. Please choose a different date or shorter duration.
-                      </p>
-                    )}
-                  </div>
+                  {isMultiDay ? (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        <Calendar className="w-4 h-4 inline mr-2" />
+                        Reserved Dates {checkingAvailability && <span className="text-yellow-500">(Checking availability...)</span>}
+                      </label>
+                      {!formData.workspaceType || !formData.date ? (
+                        <p className="text-sm text-gray-500">Select workspace and start date first</p>
+                      ) : (
+                        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                          <p className="font-medium text-black">
+                            {new Date(`${formData.date}T00:00:00`).toLocaleDateString()} – {new Date(`${endDate}T00:00:00`).toLocaleDateString()}
+                          </p>
+                          <p className="text-sm text-gray-600 mt-1">
+                            {getDurationDays(formData.duration)} days, full-day access from {formatTimeLabel(timeSlots[0])} on each day
+                          </p>
+                          {!checkingAvailability && bookedSlots.includes(timeSlots[0]) && (
+                            <p className="text-sm text-red-500 mt-2">
+                              No desk is free on every day of this range. Please choose a different start date or shorter duration.
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        <Clock className="w-4 h-4 inline mr-2" />
+                        Select Time Slot {checkingAvailability && <span className="text-yellow-500">(Checking availability...)</span>}
+                      </label>
+                      <select
+                        name="timeSlot"
+                        value={formData.timeSlot}
+                        onChange={handleChange}
+                        required
+                        disabled={!formData.workspaceType || !formData.date || !formData.duration || checkingAvailability}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 transition-all duration-300"
+                      >
+                        <option value="">
+                          {!formData.workspaceType || !formData.date || !formData.duration
+                            ? 'Select workspace, date, and duration first' 
+                            : checkingAvailability 
+                            ? 'Checking availability...' 
+                            : 'Choose available time slot'
+                          }
+                        </option>
+                        {timeSlots
+                          .filter(slot => !bookedSlots.includes(slot))
+                          .map((slot) => (
+                            <option key={slot} value={slot}>{formatTimeLabel(slot)}</option>
+                          ))}
+                      </select>
+                      {formData.workspaceType && formData.date && formData.duration && bookedSlots.length > 0 && (
+                        <p className="text-sm text-gray-500 mt-1">
+                          Unavailable slots for {formData.duration}: {bookedSlots.map(formatTimeLabel).join(', ')}
+                        </p>
+                      )}
+                      {formData.workspaceType && formData.date && formData.duration && bookedSlots.length === timeSlots.length && (
+                        <p className="text-sm text-red-500 mt-1">
+                          No available slots for this date and duration. Please choose a different date or shorter duration.
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </AnimatedSection>
 
+                {/* Waitlist for full slots */}
+                {user && !checkingAvailability && formData.workspaceType && formData.date && formData.duration && fullSlots.length > 0 && (
+                  <AnimatedSection animation="slideUp" delay={750} duration={600}>
+                    <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
+                      <p className="text-sm font-medium text-gray-900 mb-2">Fully booked? Join the waitlist</p>
+                      {isMultiDay ? (
+                        <button
+                          type="button"
+                          onClick={() => handleJoinWaitlist(timeSlots[0])}
+                          disabled={joiningWaitlist}
+                          className="bg-black text-white px-4 py-2 rounded-md text-sm font-semibold hover:bg-gray-800 disabled:opacity-50"
+                        >
+                          {joiningWaitlist ? 'Joining...' : 'Join the waitlist for these dates'}
+                        </button>
+                      ) : (
+                        <div className="flex flex-wrap items-center gap-3">
+                          <select
+                            value={waitlistSlot}
+                            onChange={(e) => setWaitlistSlot(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                          >
+                            <option value="">Choose a full time slot</option>
+                            {fullSlots.map(slot => (
+                              <option key={slot} value={slot}>{formatTimeLabel(slot)}</option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            onClick={() => handleJoinWaitlist(waitlistSlot)}
+                            disabled={!waitlistSlot || joiningWaitlist}
+                            className="bg-black text-white px-4 py-2 rounded-md text-sm font-semibold hover:bg-gray-800 disabled:opacity-50"
+                          >
+                            {joiningWaitlist ? 'Joining...' : 'Join Waitlist'}
+                          </button>
+                        </div>
+                      )}
+                      <p className="text-xs text-gray-500 mt-2">
+                        If a desk frees up we hold it for you for a short time and message you on WhatsApp.
+                      </p>
+                    </div>
+                  </AnimatedSection>
+                )}
+
+                {/* Desk Selection */}
+                {startTime && !checkingAvailability && freeDesks.length > 0 && (
+                  <AnimatedSection animation="slideUp" delay={800} duration={600}>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        <LayoutGrid className="w-4 h-4 inline mr-2" />
+                        Choose Your Desk (optional)
+                      </label>
+                      <DeskFloorPlan
+                        desks={deskInventory}
+                        freeDesks={freeDesks}
+                        selectedDesk={selectedDesk}
+                        onSelect={setPreferredDesk}
+                      />
+                    </div>
+                  </AnimatedSection>
+                )}
+
+                {/* Repeat */}
+                {startTime && canRepeatDuration(formData.duration) && (
+                  <AnimatedSection animation="slideUp" delay={850} duration={600}>
+                    <RecurrenceFields
+                      startDate={formData.date}
+                      rule={recurrenceRule}
+                      onChange={setRecurrence}
+                      dates={seriesDates}
+                      conflicts={seriesConflicts}
+                      checking={checkingSeries}
+                    />
+                  </AnimatedSection>
+                )}
+
                 {/* Customer Information */}
                 <AnimatedSection animation="slideUp" delay={900} duration={600}>
                   <div>
@@ -644,6 +789,46 @@ const BookingPage: React.FC = () => {
                   </div>
                 </AnimatedSection>
 
+                {/* Add-ons */}
+                {formData.duration && addOns.length > 0 && (
+                  <AnimatedSection animation="slideUp" delay={1000} duration={600}>
+                    <div>
+                      <h3 className="text-xl font-semibold text-black mb-4">
+                        <Package className="w-5 h-5 inline mr-2" />
+                        {getContent('booking_addons_title', 'Add-On Services')}
+                      </h3>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {addOns.map(addOn => (
+                          <label
+                            key={addOn.id}
+                            className={`flex items-start p-4 border-2 rounded-lg cursor-pointer transition-all duration-300 ${
+                              selectedAddOnIds.includes(addOn.id)
+                                ? 'border-yellow-500 bg-yellow-50'
+                                : 'border-gray-200 hover:border-gray-300'
+                            }`}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={selectedAddOnIds.includes(addOn.id)}
+                              onChange={() => toggleAddOn(addOn.id)}
+                              className="mt-1 mr-3"
+                            />
+                            <div className="flex-1">
+                              <div className="flex justify-between">
+                                <span className="font-medium text-black">{addOn.name}</span>
+                                <span className="text-sm font-semibold text-yellow-600">
+                                  {formatAddOnPrice(addOn.price, addOn.price_unit, currency)}
+                                </span>
+                              </div>
+                              {addOn.description && <p className="text-sm text-gray-600">{addOn.description}</p>}
+                            </div>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  </AnimatedSection>
+                )}
+
                 {/* Price Summary */}
                 {formData.workspaceType && formData.duration && (
                   <AnimatedSection animation="slideUp" delay={1100} duration={600}>
@@ -651,13 +836,96 @@ const BookingPage: React.FC = () => {
                       <h3 className="text-lg font-semibold text-black mb-2">Price Summary</h3>
                       <div className="flex justify-between items-center">
                         <span className="text-gray-600">Total Cost:</span>
-                        <span className="text-2xl font-bold text-yellow-600">E£{calculatePrice()}</span>
+                        <span className="text-2xl font-bold text-yellow-600">
+                          {formatPrice(recurrenceRule ? bookingTotal * bookableSeriesDates.length : bookingTotal)}
+                        </span>
                       </div>
-                      {formData.timeSlot && (
+                      {usingCredits && creditCoverage && (
+                        <p className="text-sm text-green-700">
+                          Workspace paid with {formatCredits(creditCoverage.cost, creditCoverage.unit)} of credits
+                        </p>
+                      )}
+                      {addOnLines.map(line => (
+                        <p key={line.addOn.id} className="text-sm text-gray-600">
+                          + {describeAddOnLine({ name: line.addOn.name, quantity: line.quantity })}: {formatPrice(line.lineTotal)}
+                        </p>
+                      ))}
+                      {taxBreakdown.tax_lines.map(line => (
+                        <p key={line.name} className="text-sm text-gray-600">
+                          {line.inclusive ? '' : '+ '}{describeTaxLine(line)}: {formatPrice(line.amount)}
+                        </p>
+                      ))}
+                      {promoQuote && !usingCredits && (
+                        <p className="text-sm text-green-700">
+                          {promoQuote.code} applied: {formatPrice(calculatePrice())} − {formatPrice(discountAmount)}
+                          {promoQuote.description && ` (${promoQuote.description})`}
+                        </p>
+                      )}
+                      {recurrenceRule && (
+                        <p className="text-sm text-gray-600">
+                          {formatPrice(bookingTotal)} × {bookableSeriesDates.length} bookings in this series
+                        </p>
+                      )}
+                      {creditCoverage && (
+                        <label className="mt-4 flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={payWithCredits}
+                            onChange={(e) => setPayWithCredits(e.target.checked)}
+                            className="mr-2"
+                          />
+                          Pay with my credits ({formatCredits(balances[creditCoverage.unit], creditCoverage.unit)} left)
+                        </label>
+                      )}
+                      {!usingCredits && (
+                        <>
+                        <div className="mt-4 flex flex-wrap items-center gap-2">
+                          <input
+                            type="text"
+                            value={promoInput}
+                            onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                            placeholder="Promo code"
+                            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 uppercase"
+                          />
+                          {promoQuote ? (
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setPromoQuote(null);
+                                setPromoInput('');
+                              }}
+                              className="text-sm text-red-600 hover:text-red-700 font-medium"
+                            >
+                              Remove
+                            </button>
+                          ) : (
+                            <button
+                              type="button"
+                              onClick={handleApplyPromo}
+                              disabled={checkingPromo || !promoInput.trim()}
+                              className="bg-black text-white px-4 py-2 rounded-md text-sm font-semibold hover:bg-gray-800 disabled:opacity-50"
+                            >
+                              {checkingPromo ? 'Checking...' : 'Apply'}
+                            </button>
+                          )}
+                        </div>
+                        {promoError && <p className="text-sm text-red-500 mt-1">{promoError}</p>}
+                        </>
+                      )}
+                      {formData.timeSlot && !isMultiDay && (
+                        <div className="mt-2 text-sm text-gray-600">
+                          <p>Workspace: {formData.workspaceType}</p>
+                          <p>Duration: {getDurationLabel(formData.duration)}</p>
+                          <p>Time: {formatTimeLabel(formData.timeSlot)}</p>
+                          {selectedDeskLabel && <p>Desk: {selectedDeskLabel}</p>}
+                        </div>
+                      )}
+                      {isMultiDay && formData.date && (
                         <div className="mt-2 text-sm text-gray-600">
                           <p>Workspace: {formData.workspaceType}</p>
-                          <p>Duration: {durations.find(d => d.value === formData.duration)?.label}</p>
-                          <p>Time: {formData.timeSlot}</p>
+                          <p>Duration: {getDurationLabel(formData.duration)}</p>
+                          <p>Dates: {new Date(`${formData.date}T00:00:00`).toLocaleDateString()} – {new Date(`${endDate}T00:00:00`).toLocaleDateString()}</p>
+                          {selectedDeskLabel && <p>Desk: {selectedDeskLabel}</p>}
                         </div>
                       )}
                     </div>
@@ -6,6 +6,15 @@ import { Navigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import AnimatedSection from '../components/AnimatedSection';
 import LoadingSpinner from '../components/LoadingSpinner';
+import WorkspaceRatesEditor from '../components/WorkspaceRatesEditor';
+import AddOnsEditor from '../components/AddOnsEditor';
+import EmailTemplatesEditor from '../components/EmailTemplatesEditor';
+import { useWorkspaceRates } from '../hooks/useWorkspaceRates';
+import { useAddOns } from '../hooks/useAddOns';
+import { useCurrency } from '../hooks/useCurrency';
+import { formatSecondaryPrice } from '../utils/moneyHelpers';
+import { getBookingPrice, getPricedDurations, saveListedRate } from '../utils/pricingHelpers';
+import { describeCreditAllowance } from '../utils/membershipHelpers';
 import { 
   FileText, 
   Image, 
@@ -21,7 +30,8 @@ import {
   Users,
   BarChart3,
   DollarSign,
-  HelpCircle
+  HelpCircle,
+  Mail
 } from 'lucide-react';
 
 interface ContentItem {
@@ -56,6 +66,7 @@ interface WorkspaceType {
   description: string;
   price: number;
   price_unit: string;
+  secondary_price: number | null;
   image_url?: string;
   features: string[];
   is_active: boolean;
@@ -84,6 +95,13 @@ const CMSPage: React.FC = () => {
     updatePricingFAQ,
     refetch 
   } = useContent();
+
+  // JSON settings such as tax rates have their own editors in the admin dashboard
+  const editableSettings = siteSettings.filter(setting => setting.setting_type !== 'json');
+
+  const { rates, refetch: refetchRates } = useWorkspaceRates();
+  const { addOns, refetch: refetchAddOns } = useAddOns(true);
+  const { secondaryCurrency, formatPrice } = useCurrency();
   const [activeTab, setActiveTab] = useState('content');
   const [editingItem, setEditingItem] = useState<any>(null);
   const [workspaceTypes, setWorkspaceTypes] = useState<WorkspaceType[]>([]);
@@ -233,6 +251,8 @@ const CMSPage: React.FC = () => {
 
       if (error) throw error;
 
+      await saveListedRate(newWorkspaceForm.name, newWorkspaceForm.price, newWorkspaceForm.price_unit);
+      refetchRates();
       await fetchWorkspaceTypes();
       setNewWorkspaceForm({
         name: '',
@@ -283,6 +303,7 @@ const CMSPage: React.FC = () => {
           description: workspace.description,
           price: workspace.price,
           price_unit: workspace.price_unit,
+          secondary_price: workspace.secondary_price ?? null,
           image_url: workspace.image_url,
           features: featuresArray,
           updated_at: new Date().toISOString()
@@ -291,6 +312,17 @@ const CMSPage: React.FC = () => {
 
       if (error) throw error;
 
+      // Rates are keyed by workspace name
+      const previousName = workspaceTypes.find(w => w.id === workspace.id)?.name;
+      if (previousName && previousName !== workspace.name) {
+        const { error: ratesError } = await supabase
+          .from('workspace_rates')
+          .update({ workspace_type: workspace.name })
+          .eq('workspace_type', previousName);
+        if (ratesError) throw ratesError;
+        refetchRates();
+      }
+
       await fetchWorkspaceTypes();
       setEditingItem(null);
       toast.success('Workspace saved successfully!');
@@ -337,6 +369,8 @@ const CMSPage: React.FC = () => {
 
       if (error) throw error;
 
+      await saveListedRate(newWorkspace.name, parseFloat(newWorkspace.price), newWorkspace.price_unit);
+      refetchRates();
       toast.success('Workspace type added successfully!');
       setShowAddWorkspace(false);
       setNewWorkspace({
@@ -452,7 +486,7 @@ const CMSPage: React.FC = () => {
                   }`}
                 >
                   <Settings className="w-4 h-4 inline mr-2" />
-                  Settings ({siteSettings.length})
+                  Settings ({editableSettings.length})
                 </button>
                 <button
                   onClick={() => setActiveTab('workspaces')}
@@ -496,7 +530,18 @@ const CMSPage: React.FC = () => {
                   }`}
                 >
                   <DollarSign className="w-4 h-4 inline mr-2" />
-                  Pricing ({pricingPlans.length + pricingFAQs.length})
+                  Pricing ({pricingPlans.length + addOns.length + pricingFAQs.length})
+                </button>
+                <button
+                  onClick={() => setActiveTab('emails')}
+                  className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                    activeTab === 'emails'
+                      ? 'border-yellow-500 text-yellow-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <Mail className="w-4 h-4 inline mr-2" />
+                  Emails
                 </button>
               </nav>
             </div>
@@ -705,7 +750,7 @@ const CMSPage: React.FC = () => {
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                      {siteSettings.map((setting) => (
+                      {editableSettings.map((setting) => (
                         <AnimatedSection key={setting.id} animation="slideUp" delay={50} duration={400}>
                           <div className="bg-gray-50 rounded-lg p-4">
                             {editingItem?.id === setting.id ? (
@@ -1024,6 +1069,20 @@ const CMSPage: React.FC = () => {
                                         <option value="month">per month</option>
                                       </select>
                                     </div>
+                                    {secondaryCurrency && (
+                                      <input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={editingItem.secondary_price ?? ''}
+                                        onChange={(e) => setEditingItem({
+                                          ...editingItem,
+                                          secondary_price: e.target.value === '' ? null : parseFloat(e.target.value)
+                                        })}
+                                        placeholder={`Price in ${secondaryCurrency} (optional, shown to international visitors)`}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                      />
+                                    )}
                                     <input
                                       type="url"
                                       value={editingItem.image_url || ''}
@@ -1053,12 +1112,25 @@ const CMSPage: React.FC = () => {
                                         Cancel
                                       </button>
                                     </div>
+                                    <WorkspaceRatesEditor workspaceType={workspace.name} rates={rates} onSaved={refetchRates} />
                                   </div>
                                 ) : (
                                   <>
                                     <h4 className="font-semibold text-gray-900">{workspace.name}</h4>
                                     <p className="text-gray-600 text-sm mt-1">{workspace.description}</p>
-                                    <p className="text-yellow-600 font-bold mt-2">E£{workspace.price}/{workspace.price_unit}</p>
+                                    <p className="text-yellow-600 font-bold mt-2">{formatPrice(workspace.price)}/{workspace.price_unit}</p>
+                                    {formatSecondaryPrice(workspace, secondaryCurrency) && (
+                                      <p className="text-sm text-gray-500">{formatSecondaryPrice(workspace, secondaryCurrency)}</p>
+                                    )}
+                                    <div className="mt-2 text-sm text-gray-600">
+                                      {getPricedDurations(rates, workspace.name).length === 0 ? (
+                                        <p className="text-red-500">No rates set; this workspace cannot be booked</p>
+                                      ) : (
+                                        getPricedDurations(rates, workspace.name).map(({ value, label }) => (
+                                          <p key={value}>{label}: {formatPrice(getBookingPrice(rates, workspace.name, value) ?? 0)}</p>
+                                        ))
+                                      )}
+                                    </div>
                                     <div className="mt-3">
                                       <p className="text-sm text-gray-500 mb-1">Features:</p>
                                       <ul className="text-sm text-gray-600">
@@ -1386,6 +1458,40 @@ const CMSPage: React.FC = () => {
                                     rows={2}
                                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
                                   />
+                                  {/* Plans with credits can be subscribed to from the pricing page */}
+                                  <div className="grid grid-cols-3 gap-2">
+                                    <select
+                                      value={editingItem.credit_unit || ''}
+                                      onChange={(e) => setEditingItem({
+                                        ...editingItem,
+                                        credit_unit: e.target.value || null,
+                                        credits_per_period: e.target.value ? editingItem.credits_per_period || 1 : null
+                                      })}
+                                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                    >
+                                      <option value="">No credits</option>
+                                      <option value="hour">Hour credits</option>
+                                      <option value="day">Day credits</option>
+                                    </select>
+                                    <input
+                                      type="number"
+                                      min="1"
+                                      value={editingItem.credits_per_period ?? ''}
+                                      onChange={(e) => setEditingItem({...editingItem, credits_per_period: Number(e.target.value) || 1})}
+                                      disabled={!editingItem.credit_unit}
+                                      placeholder="Credits"
+                                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:bg-gray-100"
+                                    />
+                                    <select
+                                      value={editingItem.billing_period}
+                                      onChange={(e) => setEditingItem({...editingItem, billing_period: e.target.value})}
+                                      disabled={!editingItem.credit_unit}
+                                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:bg-gray-100"
+                                    >
+                                      <option value="week">per week</option>
+                                      <option value="month">per month</option>
+                                    </select>
+                                  </div>
                                   <div className="flex space-x-2">
                                     <button
                                       onClick={() => updatePricingPlan(editingItem.id, editingItem).then(() => setEditingItem(null))}
@@ -1408,6 +1514,11 @@ const CMSPage: React.FC = () => {
                                     <h4 className="font-semibold text-gray-900">{plan.name}</h4>
                                     <p className="text-2xl font-bold text-yellow-600">{plan.price} {plan.period}</p>
                                     <p className="text-gray-600 text-sm mt-1">{plan.description}</p>
+                                    {plan.credit_unit && plan.credits_per_period && (
+                                      <p className="text-sm text-gray-900 mt-1">
+                                        Credits: {describeCreditAllowance(plan.credits_per_period, plan.credit_unit, plan.billing_period)}
+                                      </p>
+                                    )}
                                     {plan.is_popular && (
                                       <span className="inline-block bg-yellow-100 text-yellow-800 text-xs px-2 py-1 rounded mt-2">
                                         Most Popular
@@ -1431,6 +1542,10 @@ const CMSPage: React.FC = () => {
                       </div>
                     </div>
 
+                    <div className="mb-8">
+                      <AddOnsEditor addOns={addOns} onSaved={refetchAddOns} />
+                    </div>
+
                     <div>
                       <h3 className="text-lg font-medium text-gray-900 mb-6">Pricing FAQs</h3>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -1492,6 +1607,12 @@ const CMSPage: React.FC = () => {
                   </div>
                 </AnimatedSection>
               )}
+
+              {activeTab === 'emails' && (
+                <AnimatedSection animation="fadeIn" duration={400}>
+                  <EmailTemplatesEditor />
+                </AnimatedSection>
+              )}
             </div>
           </div>
         </AnimatedSection>
@@ -1,11 +1,16 @@
 import React, { useState } from 'react';
 import { useEffect } from 'react';
-import { MessageCircle, CheckCircle, AlertCircle, Phone, CreditCard } from 'lucide-react';
+import { MessageCircle, CheckCircle, AlertCircle, Phone, CreditCard, Upload } from 'lucide-react';
 import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { useBooking } from '../contexts/BookingContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useContent } from '../hooks/useContent';
-import { supabase } from '../lib/supabase';
+import { supabase, BookingAddOnRow, PaymentProofRow, PaymentRow, TaxLine } from '../lib/supabase';
+import { describeAddOnLine } from '../utils/addOnHelpers';
+import { formatMoney } from '../utils/moneyHelpers';
+import { fetchBookingPayments, getPaymentProvider } from '../utils/paymentHelpers';
+import { describeTaxLine } from '../utils/taxHelpers';
+import PaymentProofUpload from '../components/PaymentProofUpload';
 
 interface BookingDetails {
   id: string;
@@ -13,11 +18,16 @@ interface BookingDetails {
   date: string;
   time_slot: string;
   duration: string;
+  desk_number: number | null;
   customer_name: string;
   customer_email: string;
   customer_phone: string;
   customer_whatsapp: string;
   total_price: number;
+  net_amount: number;
+  tax_amount: number;
+  tax_lines: TaxLine[];
+  currency: string;
   status: string;
   confirmation_code: string | null;
 }
@@ -26,17 +36,23 @@ const ConfirmationPage: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const [searchParams] = useSearchParams();
-  const { confirmBooking } = useBooking();
+  const { confirmBooking, startPayment } = useBooking();
   const { user } = useAuth();
   const { getSetting, getContent } = useContent();
   const [confirmationCode, setConfirmationCode] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
   const [bookingDetails, setBookingDetails] = useState<BookingDetails | null>(null);
+  const [deskLabel, setDeskLabel] = useState<string | null>(null);
+  const [addOnLines, setAddOnLines] = useState<BookingAddOnRow[]>([]);
+  const [paymentProofs, setPaymentProofs] = useState<PaymentProofRow[]>([]);
+  const [lastPayment, setLastPayment] = useState<PaymentRow | null>(null);
   const [loadingBookingDetails, setLoadingBookingDetails] = useState(true);
 
   // Get booking ID from navigation state
   const bookingId = location.state?.bookingId || searchParams.get('bookingId');
+  // Set when the booking is the first of a repeating series
+  const seriesCount: number | undefined = location.state?.seriesCount;
 
   useEffect(() => {
     if (!bookingId) {
@@ -78,7 +94,7 @@ const ConfirmationPage: React.FC = () => {
       setLoadingBookingDetails(true);
       const { data, error } = await supabase
         .from('bookings')
-        .select('*')
+        .select('*, booking_add_ons(*), payment_proofs(*)')
         .eq('id', bookingId)
         .single();
 
@@ -90,7 +106,23 @@ const ConfirmationPage: React.FC = () => {
         throw new Error('Unauthorized access to booking');
       }
 
-      setBookingDetails(data);
+      const { booking_add_ons, payment_proofs, ...booking } = data;
+      setBookingDetails(booking);
+      setAddOnLines(booking_add_ons || []);
+      setPaymentProofs(payment_proofs || []);
+
+      const [latestPayment] = await fetchBookingPayments(data.id);
+      setLastPayment(latestPayment || null);
+
+      if (data.desk_number !== null) {
+        const { data: desk } = await supabase
+          .from('desks')
+          .select('label')
+          .eq('workspace_type', data.workspace_type)
+          .eq('desk_number', data.desk_number)
+          .maybeSingle();
+        setDeskLabel(desk?.label || `Desk ${data.desk_number}`);
+      }
     } catch (error) {
       console.error('Error fetching booking details:', error);
       setError('Failed to load booking details. Please check the booking ID and try again.');
@@ -127,6 +159,27 @@ const ConfirmationPage: React.FC = () => {
 
   // Get payment phone number from settings
   const paymentPhone = getSetting('payment_phone', '+20 123 456 7890');
+  // Without a provider customers pay by transfer and confirm with a code
+  const paymentProviderName = getSetting('payment_provider', 'manual');
+  const paymentProvider = getPaymentProvider(paymentProviderName);
+
+  const handlePayOnline = async () => {
+    if (!bookingId) return;
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const { redirectUrl } = await startPayment(bookingId, paymentProviderName);
+      if (redirectUrl.startsWith('/')) {
+        navigate(redirectUrl);
+      } else {
+        window.location.assign(redirectUrl);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the payment. Please try again.');
+      setIsSubmitting(false);
+    }
+  };
 
   if (loadingBookingDetails) {
     return <div className="min-h-screen flex items-center justify-center"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-yellow-500"></div></div>;
@@ -186,137 +239,232 @@ const ConfirmationPage: React.FC = () => {
                   <span className="text-gray-600">Duration:</span>
                   <span className="font-medium">{bookingDetails.duration}</span>
                 </div>
+                {deskLabel && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Desk:</span>
+                    <span className="font-medium">{deskLabel}</span>
+                  </div>
+                )}
+                {seriesCount && seriesCount > 1 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Repeats:</span>
+                    <span className="font-medium">First of {seriesCount} bookings, all listed in My Bookings</span>
+                  </div>
+                )}
+                {addOnLines.map(line => (
+                  <div key={line.id} className="flex justify-between">
+                    <span className="text-gray-600">{describeAddOnLine(line)}:</span>
+                    <span className="font-medium">{formatMoney(line.line_total, bookingDetails.currency)}</span>
+                  </div>
+                ))}
+                {bookingDetails.tax_amount > 0 && (
+                  <>
+                    <div className="flex justify-between border-t pt-2">
+                      <span className="text-gray-600">Net Price:</span>
+                      <span className="font-medium">{formatMoney(bookingDetails.net_amount, bookingDetails.currency)}</span>
+                    </div>
+                    {bookingDetails.tax_lines.map(line => (
+                      <div key={line.name} className="flex justify-between">
+                        <span className="text-gray-600">{describeTaxLine(line)}:</span>
+                        <span className="font-medium">{formatMoney(line.amount, bookingDetails.currency)}</span>
+                      </div>
+                    ))}
+                  </>
+                )}
                 <div className="flex justify-between border-t pt-2">
                   <span className="text-gray-600">Total Cost:</span>
-                  <span className="font-bold text-yellow-600">E£{bookingDetails.total_price}</span>
+                  <span className="font-bold text-yellow-600">{formatMoney(bookingDetails.total_price, bookingDetails.currency)}</span>
                 </div>
               </div>
               </div>
             )}
 
-            {/* Payment Instructions */}
-            <div className="mb-8">
-              <div className="flex items-center mb-4">
-                <CreditCard className="w-6 h-6 text-green-500 mr-2" />
-                <h3 className="text-xl font-semibold text-black">Payment Instructions</h3>
+            {paymentProvider ? (
+              /* Online Payment */
+              <div className="mb-8">
+                <div className="flex items-center mb-4">
+                  <CreditCard className="w-6 h-6 text-green-500 mr-2" />
+                  <h3 className="text-xl font-semibold text-black">Pay Online</h3>
+                </div>
+
+                {bookingDetails?.status === 'confirmed' ? (
+                  <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start">
+                    <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+                    <p className="text-green-800 font-medium">Payment received. Your booking is confirmed!</p>
+                  </div>
+                ) : bookingDetails?.status === 'pending' || bookingDetails?.status === 'code_sent' ? (
+                  <>
+                    {lastPayment?.status === 'failed' && (
+                      <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+                        <p className="text-red-800 text-sm">
+                          Your last payment did not go through{lastPayment.failure_reason ? `: ${lastPayment.failure_reason}` : ''}. Please try again.
+                        </p>
+                      </div>
+                    )}
+
+                    {error && (
+                      <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+                        <p className="text-red-800 text-sm">{error}</p>
+                      </div>
+                    )}
+
+                    <button
+                      onClick={handlePayOnline}
+                      disabled={isSubmitting}
+                      className="w-full bg-yellow-500 text-black py-3 px-6 rounded-md font-semibold hover:bg-yellow-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                    >
+                      <CreditCard className="w-5 h-5 mr-2" />
+                      {isSubmitting ? 'Starting payment...' : `Pay ${formatMoney(bookingDetails?.total_price || 0, bookingDetails?.currency)}`}
+                    </button>
+                  </>
+                ) : (
+                  <p className="text-gray-600">Booking status: {bookingDetails?.status}</p>
+                )}
               </div>
+            ) : (
+              <>
+              {/* Payment Instructions */}
+              <div className="mb-8">
+                <div className="flex items-center mb-4">
+                  <CreditCard className="w-6 h-6 text-green-500 mr-2" />
+                  <h3 className="text-xl font-semibold text-black">Payment Instructions</h3>
+                </div>
               
-              <div className="bg-green-50 border border-green-200 rounded-lg p-6 mb-4">
-                <div className="flex items-start">
-                  <Phone className="w-6 h-6 text-green-500 mr-3 mt-1 flex-shrink-0" />
-                  <div>
-                    <p className="text-green-800 font-medium text-lg mb-2">
-                      Transfer Payment To:
-                    </p>
-                    <p className="text-green-700 text-2xl font-bold mb-3">
-                      {paymentPhone}
-                    </p>
-                    <p className="text-green-700 text-lg font-medium mb-2">
-                      Amount: E£{bookingDetails?.total_price || 0}
-                    </p>
-                    <div className="text-green-600 text-sm space-y-1">
-                      <p>• Transfer the exact amount via mobile money or bank transfer</p>
-                      <p>• After payment, admin will send you a confirmation code on WhatsApp</p>
-                      <p>• The confirmation code may take 2-5 minutes to arrive</p>
-                      <p>• Enter the code below to complete your booking</p>
+                <div className="bg-green-50 border border-green-200 rounded-lg p-6 mb-4">
+                  <div className="flex items-start">
+                    <Phone className="w-6 h-6 text-green-500 mr-3 mt-1 flex-shrink-0" />
+                    <div>
+                      <p className="text-green-800 font-medium text-lg mb-2">
+                        Transfer Payment To:
+                      </p>
+                      <p className="text-green-700 text-2xl font-bold mb-3">
+                        {paymentPhone}
+                      </p>
+                      <p className="text-green-700 text-lg font-medium mb-2">
+                        Amount: {formatMoney(bookingDetails?.total_price || 0, bookingDetails?.currency)}
+                      </p>
+                      <div className="text-green-600 text-sm space-y-1">
+                        <p>• Transfer the exact amount via mobile money or bank transfer</p>
+                        <p>• Upload a screenshot of the transfer below so we can match your payment</p>
+                        <p>• Once the payment is verified, admin will send you a confirmation code on WhatsApp</p>
+                        <p>• The confirmation code may take 2-5 minutes to arrive</p>
+                        <p>• Enter the code below to complete your booking</p>
+                      </div>
                     </div>
                   </div>
                 </div>
               </div>
-            </div>
 
-            {/* WhatsApp Confirmation */}
-            <div className="mb-8">
-              <div className="flex items-center mb-4">
-                <MessageCircle className="w-6 h-6 text-green-500 mr-2" />
-                <h3 className="text-xl font-semibold text-black">Enter Confirmation Code</h3>
-              </div>
-              
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
-                <div className="flex items-start">
-                  <AlertCircle className="w-5 h-5 text-blue-500 mr-2 mt-0.5 flex-shrink-0" />
-                  <div>
-                    {bookingDetails?.status === 'pending' ? (
-                      <>
-                        <p className="text-blue-800 font-medium">
-                          Waiting for admin to send confirmation code
-                        </p>
-                        <p className="text-blue-600 text-sm mt-1">
-                          After you complete the payment, our admin will send a confirmation code to: {bookingDetails?.customer_whatsapp}
-                        </p>
-                        <p className="text-blue-600 text-sm mt-1">
-                          Please wait for the admin to process your payment and send the code.
-                        </p>
-                      </>
-                    ) : bookingDetails?.status === 'code_sent' ? (
-                      <>
-                        <p className="text-blue-800 font-medium">
-                          Confirmation code sent!
-                        </p>
-                        <p className="text-blue-600 text-sm mt-1">
-                          Check your WhatsApp: {bookingDetails?.customer_whatsapp}
-                        </p>
-                        <p className="text-blue-600 text-sm mt-1">
-                          Enter the 6-digit code you received to confirm your booking.
-                        </p>
-                      </>
-                    ) : (
-                      <>
-                        <p className="text-blue-800 font-medium">
-                          Booking status: {bookingDetails?.status}
-                        </p>
-                        <p className="text-blue-600 text-sm mt-1">
-                          Please contact support if you need assistance.
-                        </p>
-                      </>
-                    )}
+              {/* Payment Proof */}
+              {user && bookingId && (bookingDetails?.status === 'pending' || paymentProofs.length > 0) && (
+                <div className="mb-8">
+                  <div className="flex items-center mb-4">
+                    <Upload className="w-6 h-6 text-green-500 mr-2" />
+                    <h3 className="text-xl font-semibold text-black">Send Payment Proof</h3>
                   </div>
+                  <PaymentProofUpload
+                    bookingId={bookingId}
+                    userId={user.id}
+                    proofs={paymentProofs}
+                    onSubmitted={(proof) => setPaymentProofs(prev => [proof, ...prev])}
+                  />
                 </div>
-              </div>
+              )}
 
-              <form onSubmit={handleSubmit}>
-                <div className="mb-4">
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Enter Confirmation Code
-                  </label>
-                  <input
-                    type="text"
-                    value={confirmationCode}
-                    onChange={(e) => setConfirmationCode(e.target.value)}
-                    required
-                    disabled={bookingDetails?.status !== 'code_sent'}
-                    placeholder="Enter 6-digit code"
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
-                  />
+              {/* WhatsApp Confirmation */}
+              <div className="mb-8">
+                <div className="flex items-center mb-4">
+                  <MessageCircle className="w-6 h-6 text-green-500 mr-2" />
+                  <h3 className="text-xl font-semibold text-black">Enter Confirmation Code</h3>
+                </div>
+              
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
+                  <div className="flex items-start">
+                    <AlertCircle className="w-5 h-5 text-blue-500 mr-2 mt-0.5 flex-shrink-0" />
+                    <div>
+                      {bookingDetails?.status === 'pending' ? (
+                        <>
+                          <p className="text-blue-800 font-medium">
+                            Waiting for admin to send confirmation code
+                          </p>
+                          <p className="text-blue-600 text-sm mt-1">
+                            After you complete the payment, our admin will send a confirmation code to: {bookingDetails?.customer_whatsapp}
+                          </p>
+                          <p className="text-blue-600 text-sm mt-1">
+                            Please wait for the admin to process your payment and send the code.
+                          </p>
+                        </>
+                      ) : bookingDetails?.status === 'code_sent' ? (
+                        <>
+                          <p className="text-blue-800 font-medium">
+                            Confirmation code sent!
+                          </p>
+                          <p className="text-blue-600 text-sm mt-1">
+                            Check your WhatsApp: {bookingDetails?.customer_whatsapp}
+                          </p>
+                          <p className="text-blue-600 text-sm mt-1">
+                            Enter the 6-digit code you received to confirm your booking.
+                          </p>
+                        </>
+                      ) : (
+                        <>
+                          <p className="text-blue-800 font-medium">
+                            Booking status: {bookingDetails?.status}
+                          </p>
+                          <p className="text-blue-600 text-sm mt-1">
+                            Please contact support if you need assistance.
+                          </p>
+                        </>
+                      )}
+                    </div>
+                  </div>
                 </div>
 
-                {error && (
-                  <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
-                    <p className="text-red-800 text-sm">{error}</p>
+                <form onSubmit={handleSubmit}>
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Enter Confirmation Code
+                    </label>
+                    <input
+                      type="text"
+                      value={confirmationCode}
+                      onChange={(e) => setConfirmationCode(e.target.value)}
+                      required
+                      disabled={bookingDetails?.status !== 'code_sent'}
+                      placeholder="Enter 6-digit code"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                    />
                   </div>
-                )}
 
-                <button
-                  type="submit"
-                  disabled={isSubmitting || bookingDetails?.status !== 'code_sent'}
-                  className="w-full bg-yellow-500 text-black py-3 px-6 rounded-md font-semibold hover:bg-yellow-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
-                >
-                  {isSubmitting ? (
-                    <>
-                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-black mr-2"></div>
-                      Confirming...
-                    </>
-                  ) : bookingDetails?.status !== 'code_sent' ? (
-                    'Waiting for confirmation code...'
-                  ) : (
-                    <>
-                      <CheckCircle className="w-5 h-5 mr-2" />
-                      Confirm Booking
-                    </>
+                  {error && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+                      <p className="text-red-800 text-sm">{error}</p>
+                    </div>
                   )}
-                </button>
-              </form>
-            </div>
+
+                  <button
+                    type="submit"
+                    disabled={isSubmitting || bookingDetails?.status !== 'code_sent'}
+                    className="w-full bg-yellow-500 text-black py-3 px-6 rounded-md font-semibold hover:bg-yellow-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-black mr-2"></div>
+                        Confirming...
+                      </>
+                    ) : bookingDetails?.status !== 'code_sent' ? (
+                      'Waiting for confirmation code...'
+                    ) : (
+                      <>
+                        <CheckCircle className="w-5 h-5 mr-2" />
+                        Confirm Booking
+                      </>
+                    )}
+                  </button>
+                </form>
+              </div>
+              </>
+            )}
 
             {/* Contact Info */}
             <div className="border-t pt-6">
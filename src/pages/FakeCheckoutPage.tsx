@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { CreditCard, CheckCircle, XCircle } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useBooking } from '../contexts/BookingContext';
+import { PaymentRow } from '../lib/supabase';
+import { fetchPayment } from '../utils/paymentHelpers';
+import { formatMoney } from '../utils/moneyHelpers';
+
+// Hosted checkout of the fake payment provider, used while developing without a real gateway
+const FakeCheckoutPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { completePayment } = useBooking();
+  const [payment, setPayment] = useState<PaymentRow | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState('');
+
+  const paymentId = searchParams.get('paymentId');
+
+  useEffect(() => {
+    if (!paymentId) {
+      navigate('/booking');
+      return;
+    }
+
+    fetchPayment(paymentId)
+      .then(setPayment)
+      .catch(err => {
+        console.error('Error fetching payment:', err);
+        setError('Payment not found.');
+      });
+  }, [paymentId, navigate]);
+
+  const handleOutcome = async (outcome: 'succeeded' | 'failed') => {
+    if (!payment) return;
+
+    setIsProcessing(true);
+    setError('');
+    try {
+      await completePayment('fake', { paymentId: payment.id, outcome });
+      navigate(`/confirmation?bookingId=${payment.booking_id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Payment failed. Please try again.');
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-20">
+      <div className="max-w-md mx-auto px-4">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <div className="flex items-center mb-2">
+            <CreditCard className="w-6 h-6 text-yellow-500 mr-2" />
+            <h1 className="text-2xl font-bold text-black">Fake Gateway</h1>
+          </div>
+          <p className="text-sm text-gray-500 mb-6">
+            Development checkout. No money is moved; pick how the payment should end.
+          </p>
+
+          {payment && (
+            <>
+              <div className="bg-gray-50 p-4 rounded-lg mb-6 flex justify-between">
+                <span className="text-gray-600">Amount:</span>
+                <span className="font-bold text-yellow-600">{formatMoney(payment.amount, payment.currency)}</span>
+              </div>
+
+              {payment.status === 'requires_payment' ? (
+                <div className="space-y-3">
+                  <button
+                    onClick={() => handleOutcome('succeeded')}
+                    disabled={isProcessing}
+                    className="w-full bg-yellow-500 text-black py-3 px-6 rounded-md font-semibold hover:bg-yellow-600 transition-colors disabled:opacity-50 flex items-center justify-center"
+                  >
+                    <CheckCircle className="w-5 h-5 mr-2" />
+                    Pay {formatMoney(payment.amount, payment.currency)}
+                  </button>
+                  <button
+                    onClick={() => handleOutcome('failed')}
+                    disabled={isProcessing}
+                    className="w-full bg-gray-200 text-gray-800 py-3 px-6 rounded-md font-semibold hover:bg-gray-300 transition-colors disabled:opacity-50 flex items-center justify-center"
+                  >
+                    <XCircle className="w-5 h-5 mr-2" />
+                    Decline Payment
+                  </button>
+                </div>
+              ) : (
+                <p className="text-gray-600">This payment has already been processed.</p>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 mt-4">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FakeCheckoutPage;
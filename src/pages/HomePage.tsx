@@ -3,6 +3,8 @@ import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useContent } from '../hooks/useContent';
+import { useCurrency } from '../hooks/useCurrency';
+import { formatSecondaryPrice } from '../utils/moneyHelpers';
 import AnimatedSection from '../components/AnimatedSection';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { ArrowRight, Users, Wifi, Coffee, Shield, Calendar, MapPin } from 'lucide-react';
@@ -13,6 +15,7 @@ interface WorkspaceType {
   description: string;
   price: number;
   price_unit: string;
+  secondary_price: number | null;
   image_url?: string;
   features: string[];
   is_active: boolean;
@@ -22,6 +25,7 @@ const HomePage: React.FC = () => {
   const [workspaceTypes, setWorkspaceTypes] = useState<WorkspaceType[]>([]);
   const [workspacesLoading, setWorkspacesLoading] = useState(true);
   const { getContent, getSetting, loading: contentLoading } = useContent();
+  const { secondaryCurrency, formatPrice } = useCurrency();
 
   useEffect(() => {
     fetchWorkspaceTypes();
@@ -202,9 +206,14 @@ const HomePage: React.FC = () => {
                       <h3 className="text-xl font-semibold mb-2">{workspace.name}</h3>
                       <p className="text-gray-600 mb-4">{workspace.description}</p>
                       <div className="flex justify-between items-center">
-                        <span className="text-2xl font-bold text-black">
-                          E£{workspace.price}/{workspace.price_unit}
-                        </span>
+                        <div>
+                          <span className="text-2xl font-bold text-black">
+                            {formatPrice(workspace.price)}/{workspace.price_unit}
+                          </span>
+                          {formatSecondaryPrice(workspace, secondaryCurrency) && (
+                            <div className="text-sm text-gray-500">{formatSecondaryPrice(workspace, secondaryCurrency)}</div>
+                          )}
+                        </div>
                         <Link
                           to="/booking"
                           className="bg-yellow-500 text-black px-4 py-2 rounded hover:bg-yellow-600 transition-all duration-300 transform hover:scale-105"
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { Printer, ArrowLeft } from 'lucide-react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useContent } from '../hooks/useContent';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { INVOICE_KIND_LABELS, InvoiceWithLines, fetchInvoice } from '../utils/invoiceHelpers';
+import { formatMoney } from '../utils/moneyHelpers';
+import { describeTaxLine } from '../utils/taxHelpers';
+
+// Printable invoice or credit note; the browser's print dialog saves it as PDF
+const InvoicePage: React.FC = () => {
+  const { invoiceId } = useParams<{ invoiceId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { getSetting } = useContent();
+  const [invoice, setInvoice] = useState<InvoiceWithLines | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (user && invoiceId) {
+      fetchInvoice(invoiceId)
+        .then(setInvoice)
+        .catch(err => {
+          console.error('Error fetching invoice:', err);
+          setError('Invoice not found.');
+        })
+        .finally(() => setLoading(false));
+    }
+  }, [user, invoiceId]);
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <h2 className="text-2xl font-bold text-gray-900">Please log in to view your invoices</h2>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <LoadingSpinner size="lg" text="Loading invoice..." />;
+  }
+
+  if (error || !invoice) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-red-600">{error || 'Invoice not found.'}</p>
+      </div>
+    );
+  }
+
+  const title = INVOICE_KIND_LABELS[invoice.kind];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 print:bg-white print:py-0">
+      <div className="max-w-3xl mx-auto px-4">
+        <div className="flex justify-between mb-6 print:hidden">
+          <button
+            onClick={() => navigate(-1)}
+            className="text-gray-600 hover:text-gray-900 inline-flex items-center text-sm font-medium"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="bg-yellow-500 text-black px-4 py-2 rounded-md text-sm font-semibold hover:bg-yellow-600 transition-colors inline-flex items-center"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Print / Save as PDF
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-10 print:shadow-none print:p-0">
+          {/* Header */}
+          <div className="flex justify-between items-start mb-10">
+            <div>
+              <h1 className="text-2xl font-bold text-black">{getSetting('site_name', 'Desk4U')}</h1>
+              <p className="text-sm text-gray-600 whitespace-pre-line">{getSetting('contact_address')}</p>
+              <p className="text-sm text-gray-600">{getSetting('contact_email')}</p>
+            </div>
+            <div className="text-right">
+              <h2 className="text-3xl font-bold text-gray-900 uppercase">{title}</h2>
+              <p className="text-sm text-gray-600 mt-1">No. {invoice.number}</p>
+              <p className="text-sm text-gray-600">
+                Issued {new Date(invoice.issued_at).toLocaleDateString()}
+              </p>
+            </div>
+          </div>
+
+          {/* Billed to */}
+          <div className="mb-8">
+            <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Billed To</h3>
+            {invoice.company_name && <p className="font-medium text-gray-900">{invoice.company_name}</p>}
+            <p className={invoice.company_name ? 'text-gray-700' : 'font-medium text-gray-900'}>{invoice.customer_name}</p>
+            <p className="text-gray-700">{invoice.customer_email}</p>
+            {invoice.tax_id && <p className="text-gray-700">Tax ID: {invoice.tax_id}</p>}
+            {invoice.kind === 'credit_note' && invoice.reason && (
+              <p className="text-gray-700 mt-2">Reason: {invoice.reason}</p>
+            )}
+          </div>
+
+          {/* Lines */}
+          <table className="min-w-full mb-8">
+            <thead>
+              <tr className="border-b border-gray-300">
+                <th className="py-2 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">Description</th>
+                <th className="py-2 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider">Qty</th>
+                <th className="py-2 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider">Unit Price</th>
+                <th className="py-2 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invoice.invoice_lines.map(line => (
+                <tr key={line.id}>
+                  <td className="py-3 text-sm text-gray-900">{line.description}</td>
+                  <td className="py-3 text-sm text-gray-700 text-right">{line.quantity}</td>
+                  <td className="py-3 text-sm text-gray-700 text-right">{formatMoney(line.unit_price, invoice.currency)}</td>
+                  <td className="py-3 text-sm text-gray-900 text-right">{formatMoney(line.line_total, invoice.currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Totals */}
+          <div className="ml-auto w-64 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Subtotal</span>
+              <span>{formatMoney(invoice.subtotal, invoice.currency)}</span>
+            </div>
+            {invoice.tax_lines.length > 0 ? (
+              invoice.tax_lines.map(line => (
+                <div key={line.name} className="flex justify-between">
+                  <span className="text-gray-600">{describeTaxLine(line)}</span>
+                  <span>{formatMoney(line.amount, invoice.currency)}</span>
+                </div>
+              ))
+            ) : (
+              // Credit notes and invoices issued before per-rate taxes have the combined rate only
+              <div className="flex justify-between">
+                <span className="text-gray-600">Tax ({invoice.tax_rate}%)</span>
+                <span>{formatMoney(invoice.tax_amount, invoice.currency)}</span>
+              </div>
+            )}
+            <div className="flex justify-between border-t border-gray-300 pt-2 text-base font-bold">
+              <span>{invoice.kind === 'credit_note' ? 'Total Credited' : 'Total'}</span>
+              <span>{formatMoney(invoice.total, invoice.currency)}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoicePage;
@@ -1,18 +1,60 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import {
+  supabase,
+  CancellationPolicyTierRow,
+  InvoiceRow,
+  NotificationChannel,
+  RefundRow,
+  TaxLine,
+  WaitlistEntryRow
+} from '../lib/supabase';
 import { useContent } from '../hooks/useContent';
+import { useCredits } from '../hooks/useCredits';
 import AnimatedSection from '../components/AnimatedSection';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { Calendar, Clock, User, ArrowRight, Filter, X } from 'lucide-react';
+import CreditLedgerList from '../components/CreditLedgerList';
+import { Calendar, Clock, User, ArrowRight, Filter, X, Repeat, FileText } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { useBooking } from '../contexts/BookingContext';
+import {
+  BookingConflictError,
+  DEFAULT_TIMEZONE,
+  fetchSpaceTimeZone,
+  formatTimeLabel,
+  getSpaceLocalNow,
+  isUpcomingBooking
+} from '../utils/bookingHelpers';
+import { CREDIT_UNITS, describeCreditAllowance, formatCredits, isNextPeriodPaid } from '../utils/membershipHelpers';
+import { formatMoney } from '../utils/moneyHelpers';
+import { describeTaxLine } from '../utils/taxHelpers';
+import {
+  BillingDetails,
+  INVOICE_KIND_LABELS,
+  fetchBillingDetails,
+  fetchBookingInvoices,
+  updateBillingDetails
+} from '../utils/invoiceHelpers';
+import {
+  REFUND_STATUS_LABELS,
+  describeCancellationPolicy,
+  fetchBookingRefunds,
+  fetchCancellationPolicyTiers,
+  fetchRefundQuote,
+  getWorkspacePolicy
+} from '../utils/cancellationHelpers';
+import {
+  NOTIFICATION_CHANNEL_LABELS,
+  fetchNotificationChannels,
+  updateNotificationChannels
+} from '../utils/notificationHelpers';
 import toast from 'react-hot-toast';
 
 interface Booking {
   id: string;
   workspace_type: string;
   date: string;
+  starts_at: string;
   time_slot: string;
   duration: string;
   customer_name: string;
@@ -20,8 +62,17 @@ interface Booking {
   customer_phone: string;
   customer_whatsapp: string;
   total_price: number;
+  net_amount: number;
+  tax_amount: number;
+  tax_lines: TaxLine[];
+  currency: string;
+  discount_amount: number;
+  credit_unit: 'hour' | 'day' | null;
+  credits_used: number;
   status: 'pending' | 'code_sent' | 'confirmed' | 'rejected' | 'cancelled';
   confirmation_code: string | null;
+  hold_expires_at: string | null;
+  series_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -29,26 +80,30 @@ interface Booking {
 const MyBookingsPage: React.FC = () => {
   const { user } = useAuth();
   const { getContent } = useContent();
-  const { cancelBooking } = useBooking();
+  const { cancelBooking, cancelBookingSeries, claimWaitlistHold } = useBooking();
+  const { membership, entries: creditEntries, balances, refetch: refetchCredits } = useCredits(user?.id);
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntryRow[]>([]);
   const [filteredBookings, setFilteredBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [sortBy, setSortBy] = useState<'date' | 'created_at' | 'price'>('created_at');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [expandedBooking, setExpandedBooking] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (user) {
-      fetchBookings();
-    }
-  }, [user]);
+  const [invoices, setInvoices] = useState<InvoiceRow[]>([]);
+  const [refunds, setRefunds] = useState<RefundRow[]>([]);
+  const [policyTiers, setPolicyTiers] = useState<CancellationPolicyTierRow[]>([]);
+  const [billingDetails, setBillingDetails] = useState<BillingDetails>({ company_name: '', tax_id: '' });
+  const [savingBilling, setSavingBilling] = useState(false);
+  const [channels, setChannels] = useState<NotificationChannel[]>(['whatsapp', 'email']);
+  const [savingChannels, setSavingChannels] = useState(false);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIMEZONE);
 
   useEffect(() => {
     filterAndSortBookings();
   }, [bookings, statusFilter, sortBy, sortOrder]);
 
-  const fetchBookings = async () => {
+  const fetchBookings = useCallback(async () => {
     try {
       setLoading(true);
       const { data, error } = await supabase
@@ -59,12 +114,86 @@ const MyBookingsPage: React.FC = () => {
 
       if (error) throw error;
       setBookings(data || []);
+      const bookingIds = (data || []).map(booking => booking.id);
+      const [bookingInvoices, bookingRefunds] = await Promise.all([
+        fetchBookingInvoices(bookingIds),
+        fetchBookingRefunds(bookingIds)
+      ]);
+      setInvoices(bookingInvoices);
+      setRefunds(bookingRefunds);
     } catch (error) {
       console.error('Error fetching bookings:', error);
       toast.error('Failed to load booking history');
     } finally {
       setLoading(false);
     }
+  }, [user?.id]);
+
+  const fetchWaitlistEntries = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('waitlist_entries')
+        .select('*')
+        .eq('user_id', user?.id)
+        .in('status', ['waiting', 'offered'])
+        .order('starts_at', { ascending: true });
+
+      if (error) throw error;
+      setWaitlistEntries(data || []);
+    } catch (error) {
+      console.error('Error fetching waitlist entries:', error);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (user) {
+      fetchBookings();
+      fetchWaitlistEntries();
+      fetchBillingDetails(user.id)
+        .then(setBillingDetails)
+        .catch(error => console.error('Error fetching billing details:', error));
+      fetchNotificationChannels(user.id)
+        .then(setChannels)
+        .catch(error => console.error('Error fetching notification channels:', error));
+      fetchCancellationPolicyTiers()
+        .then(setPolicyTiers)
+        .catch(error => console.error('Error fetching cancellation policies:', error));
+      fetchSpaceTimeZone()
+        .then(setTimeZone)
+        .catch(error => console.error('Error fetching time zone:', error));
+    }
+  }, [user, fetchBookings, fetchWaitlistEntries]);
+
+  const handleSaveBillingDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingBilling(true);
+    try {
+      await updateBillingDetails(billingDetails);
+      toast.success('Invoice details saved. They appear on invoices issued from now on.');
+    } catch (error) {
+      console.error('Error saving billing details:', error);
+      toast.error('Failed to save invoice details');
+    } finally {
+      setSavingBilling(false);
+    }
+  };
+
+  const toggleChannel = (channel: NotificationChannel) => {
+    setChannels(prev => (prev.includes(channel) ? prev.filter(c => c !== channel) : [...prev, channel]));
+  };
+
+  const handleSaveChannels = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingChannels(true);
+    try {
+      setChannels(await updateNotificationChannels(channels));
+      toast.success('Notification preferences saved');
+    } catch (error) {
+      console.error('Error saving notification channels:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save notification preferences');
+    } finally {
+      setSavingChannels(false);
+    }
   };
 
   const filterAndSortBookings = () => {
@@ -128,19 +257,119 @@ const MyBookingsPage: React.FC = () => {
     return booking.status === 'pending' || booking.status === 'code_sent';
   };
 
+  // Confirmed bookings can be cancelled until they start, with a refund set by the cancellation policy
   const canCancelBooking = (booking: Booking) => {
-    return booking.status === 'pending';
+    return (
+      booking.status === 'pending' ||
+      (booking.status === 'confirmed' && isUpcomingBooking(booking, getSpaceLocalNow(timeZone)))
+    );
   };
 
-  const handleCancelBooking = async (bookingId: string) => {
-    if (!confirm('Are you sure you want to cancel this booking? This action cannot be undone.')) {
+  // Pending and confirmed occurrences of a series that have not started, which cancelling the series would cancel
+  const getCancellableInSeries = (seriesId: string) => {
+    const spaceNow = getSpaceLocalNow(timeZone);
+    return bookings.filter(
+      b =>
+        b.series_id === seriesId &&
+        (b.status === 'pending' || b.status === 'confirmed') &&
+        isUpcomingBooking(b, spaceNow)
+    );
+  };
+
+  const handleCancelSeries = async (seriesId: string) => {
+    const cancellable = getCancellableInSeries(seriesId);
+    const refundNote = cancellable.some(b => b.status === 'confirmed')
+      ? ' Confirmed bookings are refunded according to the cancellation policy.'
+      : '';
+    if (!confirm(`Cancel all ${cancellable.length} upcoming bookings in this series?${refundNote} This action cannot be undone.`)) {
       return;
     }
 
     try {
-      await cancelBooking(bookingId);
-      toast.success('Booking cancelled successfully');
+      const cancelled = await cancelBookingSeries(seriesId);
+      toast.success(`${cancelled} bookings cancelled`);
+      fetchBookings();
+      refetchCredits();
+    } catch (error) {
+      console.error('Error cancelling booking series:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel the series');
+    }
+  };
+
+  // A desk held for the customer from the waitlist that they have not claimed yet
+  const isOpenHold = (booking: Booking) => {
+    return booking.status === 'pending' && !!booking.hold_expires_at && new Date(booking.hold_expires_at) > new Date();
+  };
+
+  const handleClaimHold = async (bookingId: string) => {
+    try {
+      await claimWaitlistHold(bookingId);
+      toast.success('The desk is yours. Complete your booking to confirm it.');
+      fetchBookings();
+      fetchWaitlistEntries();
+    } catch (error) {
+      if (error instanceof BookingConflictError) {
+        toast.error(error.message);
+        fetchBookings();
+        return;
+      }
+      console.error('Error claiming waitlist hold:', error);
+      toast.error('Failed to claim the desk. Please try again.');
+    }
+  };
+
+  const handleLeaveWaitlist = async (entryId: string) => {
+    try {
+      const { error } = await supabase
+        .from('waitlist_entries')
+        .update({ status: 'left' })
+        .eq('id', entryId);
+
+      if (error) throw error;
+      toast.success('You left the waitlist');
+      fetchWaitlistEntries();
+    } catch (error) {
+      console.error('Error leaving waitlist:', error);
+      toast.error('Failed to leave the waitlist');
+    }
+  };
+
+  const handleCancelBooking = async (booking: Booking) => {
+    let message = 'Are you sure you want to cancel this booking? This action cannot be undone.';
+
+    if (booking.status === 'confirmed') {
+      try {
+        const quote = await fetchRefundQuote(booking.id);
+        const refundParts: string[] = [];
+        if (quote.refund_amount > 0) {
+          refundParts.push(`Cancelling now refunds ${formatMoney(quote.refund_amount, booking.currency)} (${quote.refund_percent}% of ${formatMoney(booking.total_price, booking.currency)}).`);
+        }
+        // Credits come back in the same percent as the refund
+        if (booking.credit_unit && booking.credits_used > 0) {
+          const credits = Math.round(booking.credits_used * quote.refund_percent) / 100;
+          refundParts.push(`${formatCredits(credits, booking.credit_unit)} of the ${formatCredits(booking.credits_used, booking.credit_unit)} used come back.`);
+        }
+        message = `${refundParts.length > 0 ? refundParts.join(' ') : 'Cancelling now is not refunded.'} ${message}`;
+      } catch (error) {
+        console.error('Error fetching refund quote:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to work out the refund');
+        return;
+      }
+    }
+
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      const refund = await cancelBooking(booking.id);
+      toast.success(
+        refund && refund.amount > 0
+          ? `Booking cancelled. A refund of ${formatMoney(refund.amount, booking.currency)} is on its way.`
+          : 'Booking cancelled successfully'
+      );
       fetchBookings(); // Refresh the bookings list
+      refetchCredits(); // Credits spent on the booking are refunded by the cancellation policy
     } catch (error) {
       console.error('Error cancelling booking:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to cancel booking');
@@ -233,6 +462,133 @@ const MyBookingsPage: React.FC = () => {
             </div>
           </AnimatedSection>
 
+          {/* Membership & Credits */}
+          {(membership || creditEntries.length > 0) && (
+            <AnimatedSection animation="slideUp" duration={600}>
+              <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Membership &amp; Credits</h3>
+                {membership && (
+                  <div className="mb-4 text-sm text-gray-700">
+                    <span className="font-medium text-gray-900">{membership.plan_name}</span>
+                    {' · '}
+                    {describeCreditAllowance(membership.credits_per_period, membership.credit_unit, membership.billing_period)}
+                    {' · '}
+                    {membership.status === 'pending' ? (
+                      <span className="text-yellow-700">Starts once we have received your payment</span>
+                    ) : membership.current_period_end && (
+                      <span>
+                        {isNextPeriodPaid(membership) ? 'Renews' : 'Ends unless we receive your payment by'}{' '}
+                        {new Date(membership.current_period_end).toLocaleDateString()}; unused plan credits expire then
+                      </span>
+                    )}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-4 mb-4">
+                  {CREDIT_UNITS.filter(unit => balances[unit] !== 0 || membership?.credit_unit === unit).map(unit => (
+                    <div key={unit} className="bg-yellow-50 border border-yellow-200 rounded-lg px-4 py-3">
+                      <div className="text-xs text-gray-600 uppercase tracking-wider">Balance</div>
+                      <div className="text-xl font-bold text-gray-900">{formatCredits(balances[unit], unit)}</div>
+                    </div>
+                  ))}
+                </div>
+                <CreditLedgerList entries={creditEntries} />
+              </div>
+            </AnimatedSection>
+          )}
+
+          {/* Invoice Details */}
+          <AnimatedSection animation="slideUp" duration={600}>
+            <form onSubmit={handleSaveBillingDetails} className="bg-white rounded-lg shadow-sm p-6 mb-8">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">Invoice Details</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Add your company to have it printed on the invoices for your confirmed bookings.
+              </p>
+              <div className="flex flex-col md:flex-row gap-4">
+                <input
+                  type="text"
+                  value={billingDetails.company_name}
+                  onChange={(e) => setBillingDetails(prev => ({ ...prev, company_name: e.target.value }))}
+                  placeholder="Company name"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                />
+                <input
+                  type="text"
+                  value={billingDetails.tax_id}
+                  onChange={(e) => setBillingDetails(prev => ({ ...prev, tax_id: e.target.value }))}
+                  placeholder="Tax ID"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                />
+                <button
+                  type="submit"
+                  disabled={savingBilling}
+                  className="bg-yellow-500 text-black px-6 py-2 rounded-md font-semibold hover:bg-yellow-600 transition-colors disabled:opacity-50"
+                >
+                  {savingBilling ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </form>
+          </AnimatedSection>
+
+          {/* Notification Preferences */}
+          <AnimatedSection animation="slideUp" duration={600}>
+            <form onSubmit={handleSaveChannels} className="bg-white rounded-lg shadow-sm p-6 mb-8">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">Notifications</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Choose how we tell you about your bookings, confirmation codes and reminders.
+              </p>
+              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                {(Object.keys(NOTIFICATION_CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                  <label key={channel} className="flex items-center text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={channels.includes(channel)}
+                      onChange={() => toggleChannel(channel)}
+                      className="mr-2"
+                    />
+                    {NOTIFICATION_CHANNEL_LABELS[channel]}
+                  </label>
+                ))}
+                <button
+                  type="submit"
+                  disabled={savingChannels || channels.length === 0}
+                  className="md:ml-auto bg-yellow-500 text-black px-6 py-2 rounded-md font-semibold hover:bg-yellow-600 transition-colors disabled:opacity-50"
+                >
+                  {savingChannels ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </form>
+          </AnimatedSection>
+
+          {/* Waitlist */}
+          {waitlistEntries.length > 0 && (
+            <AnimatedSection animation="slideUp" duration={600}>
+              <div className="bg-white rounded-lg shadow-sm p-6 mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Your Waitlist</h3>
+                <div className="divide-y divide-gray-200">
+                  {waitlistEntries.map(entry => (
+                    <div key={entry.id} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                      <div className="text-sm text-gray-700">
+                        <span className="font-medium text-gray-900">{entry.workspace_type}</span>
+                        {' · '}
+                        {new Date(`${entry.date}T00:00:00`).toLocaleDateString()} at {formatTimeLabel(entry.start_time.slice(0, 5))} ({entry.duration})
+                      </div>
+                      {entry.status === 'offered' ? (
+                        <span className="text-sm font-medium text-green-700">A desk is held for you below</span>
+                      ) : (
+                        <button
+                          onClick={() => handleLeaveWaitlist(entry.id)}
+                          className="text-sm text-red-600 hover:text-red-700 font-medium"
+                        >
+                          Leave
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </AnimatedSection>
+          )}
+
           {/* Bookings List */}
           {loading ? (
             <LoadingSpinner size="lg" text="Loading your bookings..." />
@@ -278,6 +634,12 @@ const MyBookingsPage: React.FC = () => {
                             <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(booking.status)}`}>
                               {booking.status.replace('_', ' ').toUpperCase()}
                             </span>
+                            {booking.series_id && (
+                              <span className="px-2 py-1 text-xs font-medium rounded-full bg-purple-100 text-purple-800 inline-flex items-center">
+                                <Repeat className="w-3 h-3 mr-1" />
+                                SERIES
+                              </span>
+                            )}
                           </div>
                           
                           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-600">
@@ -291,13 +653,38 @@ const MyBookingsPage: React.FC = () => {
                             </div>
                             <div className="flex items-center">
                               <User className="w-4 h-4 mr-2" />
-                              E£{booking.total_price}
+                              {formatMoney(booking.total_price, booking.currency)}
+                              {booking.credits_used > 0 && booking.credit_unit && (
+                                <span className="ml-1 text-green-700">
+                                  + {formatCredits(booking.credits_used, booking.credit_unit)} of credits
+                                </span>
+                              )}
                             </div>
                           </div>
+                          {booking.status === 'confirmed' && canCancelBooking(booking) && (
+                            <p className="mt-2 text-xs text-gray-500">
+                              Cancellation: {describeCancellationPolicy(getWorkspacePolicy(policyTiers, booking.workspace_type))}
+                            </p>
+                          )}
+                          {isOpenHold(booking) && booking.hold_expires_at && (
+                            <p className="mt-2 text-sm font-medium text-green-700">
+                              A desk opened up from the waitlist. It is held for you until{' '}
+                              {new Date(booking.hold_expires_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.
+                            </p>
+                          )}
                         </div>
 
                         <div className="mt-4 md:mt-0 flex flex-col md:flex-row gap-2">
-                          {canResumeBooking(booking) && (
+                          {isOpenHold(booking) && (
+                            <button
+                              onClick={() => handleClaimHold(booking.id)}
+                              className="bg-green-600 text-white px-4 py-2 rounded-md text-sm font-semibold hover:bg-green-700 transition-colors inline-flex items-center justify-center"
+                            >
+                              Keep this desk
+                            </button>
+                          )}
+
+                          {!isOpenHold(booking) && canResumeBooking(booking) && (
                             <Link
                               to={`/confirmation?bookingId=${booking.id}`}
                               className="bg-yellow-500 text-black px-4 py-2 rounded-md text-sm font-semibold hover:bg-yellow-600 transition-colors inline-flex items-center justify-center"
@@ -309,11 +696,21 @@ const MyBookingsPage: React.FC = () => {
                           
                           {canCancelBooking(booking) && (
                             <button
-                              onClick={() => handleCancelBooking(booking.id)}
+                              onClick={() => handleCancelBooking(booking)}
                               className="bg-red-500 text-white px-4 py-2 rounded-md text-sm font-semibold hover:bg-red-600 transition-colors inline-flex items-center justify-center"
                             >
                               <X className="w-4 h-4 mr-1" />
-                              Cancel
+                              {booking.series_id ? 'Cancel This Date' : 'Cancel'}
+                            </button>
+                          )}
+
+                          {booking.series_id && getCancellableInSeries(booking.series_id).length > 1 && (
+                            <button
+                              onClick={() => handleCancelSeries(booking.series_id as string)}
+                              className="bg-white text-red-600 border border-red-300 px-4 py-2 rounded-md text-sm font-semibold hover:bg-red-50 transition-colors inline-flex items-center justify-center"
+                            >
+                              <Repeat className="w-4 h-4 mr-1" />
+                              Cancel Series
                             </button>
                           )}
                           
@@ -345,10 +742,48 @@ const MyBookingsPage: React.FC = () => {
                                   <span className="text-gray-600">Duration:</span>
                                   <span>{booking.duration}</span>
                                 </div>
+                                {booking.discount_amount > 0 && (
+                                  <div className="flex justify-between text-green-700">
+                                    <span>Promo Discount:</span>
+                                    <span>-{formatMoney(booking.discount_amount, booking.currency)}</span>
+                                  </div>
+                                )}
+                                {booking.tax_amount > 0 && (
+                                  <>
+                                    <div className="flex justify-between">
+                                      <span className="text-gray-600">Net Price:</span>
+                                      <span>{formatMoney(booking.net_amount, booking.currency)}</span>
+                                    </div>
+                                    {booking.tax_lines.map(line => (
+                                      <div key={line.name} className="flex justify-between">
+                                        <span className="text-gray-600">{describeTaxLine(line)}:</span>
+                                        <span>{formatMoney(line.amount, booking.currency)}</span>
+                                      </div>
+                                    ))}
+                                  </>
+                                )}
                                 <div className="flex justify-between">
                                   <span className="text-gray-600">Total Price:</span>
-                                  <span className="font-semibold">E£{booking.total_price}</span>
+                                  <span className="font-semibold">{formatMoney(booking.total_price, booking.currency)}</span>
                                 </div>
+                                {invoices.filter(invoice => invoice.booking_id === booking.id).map(invoice => (
+                                  <div key={invoice.id} className="flex justify-between">
+                                    <span className="text-gray-600">{INVOICE_KIND_LABELS[invoice.kind]}:</span>
+                                    <Link
+                                      to={`/invoices/${invoice.id}`}
+                                      className="text-yellow-700 hover:text-yellow-800 font-medium inline-flex items-center"
+                                    >
+                                      <FileText className="w-4 h-4 mr-1" />
+                                      {invoice.number}
+                                    </Link>
+                                  </div>
+                                ))}
+                                {refunds.filter(refund => refund.booking_id === booking.id).map(refund => (
+                                  <div key={refund.id} className="flex justify-between">
+                                    <span className="text-gray-600">{REFUND_STATUS_LABELS[refund.status]}:</span>
+                                    <span>{formatMoney(refund.amount, booking.currency)} ({refund.refund_percent}%)</span>
+                                  </div>
+                                ))}
                               </div>
                             </div>
                             
@@ -1,41 +1,48 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Check, X } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
 import { useContent } from '../hooks/useContent';
+import { useAddOns } from '../hooks/useAddOns';
+import { useAuth } from '../contexts/AuthContext';
+import { formatAddOnPrice } from '../utils/addOnHelpers';
+import { useCurrency } from '../hooks/useCurrency';
+import { describeCreditAllowance, subscribeToPlan } from '../utils/membershipHelpers';
 import AnimatedSection from '../components/AnimatedSection';
 import LoadingSpinner from '../components/LoadingSpinner';
 
 const PricingPage: React.FC = () => {
   const { getContent, pricingPlans, pricingFAQs, loading: contentLoading } = useContent();
+  const { addOns } = useAddOns();
+  const { currency } = useCurrency();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [subscribingPlanId, setSubscribingPlanId] = useState<string | null>(null);
+
+  const handleSubscribe = async (planId: string) => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+
+    setSubscribingPlanId(planId);
+    try {
+      await subscribeToPlan(planId);
+      toast.success('Membership requested! Your credits are added once payment is confirmed.');
+      navigate('/my-bookings');
+    } catch (error) {
+      console.error('Error subscribing to plan:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to subscribe');
+    } finally {
+      setSubscribingPlanId(null);
+    }
+  };
 
   // Show loading spinner while content is being fetched
   if (contentLoading) {
     return <LoadingSpinner size="lg" text="Loading content..." />;
   }
 
-  const addOns = [
-    {
-      name: 'Parking',
-      price: 'E£15/day',
-      description: 'Secure parking in our dedicated garage'
-    },
-    {
-      name: 'Storage Locker',
-      price: 'E£25/month',
-      description: 'Personal storage space for your belongings'
-    },
-    {
-      name: 'Virtual Office',
-      price: 'E£99/month',
-      description: 'Business address and mail handling services'
-    },
-    {
-      name: 'Phone Answering',
-      price: 'E£149/month',
-      description: 'Professional phone answering in your company name'
-    }
-  ];
-
   return (
     <div className="min-h-screen bg-white">
       {/* Hero Section */}
@@ -92,6 +99,11 @@ const PricingPage: React.FC = () => {
                           Monthly: {plan.monthly_price}
                         </div>
                       )}
+                      {plan.credit_unit && plan.credits_per_period && (
+                        <div className="text-sm font-medium text-yellow-600 mt-1">
+                          Includes {describeCreditAllowance(plan.credits_per_period, plan.credit_unit, plan.billing_period)} of desk time
+                        </div>
+                      )}
                     </div>
 
                     <ul className="space-y-3 mb-6">
@@ -109,16 +121,30 @@ const PricingPage: React.FC = () => {
                       ))}
                     </ul>
 
-                    <Link
-                      to="/booking"
-                      className={`w-full py-3 px-6 rounded-md font-semibold transition-all duration-300 transform hover:scale-105 inline-block text-center ${
-                        plan.is_popular
-                          ? 'bg-yellow-500 text-black hover:bg-yellow-600'
-                          : 'bg-black text-white hover:bg-gray-800'
-                      }`}
-                    >
-                      Book Now
-                    </Link>
+                    {plan.credit_unit ? (
+                      <button
+                        onClick={() => handleSubscribe(plan.id)}
+                        disabled={subscribingPlanId === plan.id}
+                        className={`w-full py-3 px-6 rounded-md font-semibold transition-all duration-300 transform hover:scale-105 disabled:opacity-50 ${
+                          plan.is_popular
+                            ? 'bg-yellow-500 text-black hover:bg-yellow-600'
+                            : 'bg-black text-white hover:bg-gray-800'
+                        }`}
+                      >
+                        {subscribingPlanId === plan.id ? 'Subscribing...' : 'Subscribe'}
+                      </button>
+                    ) : (
+                      <Link
+                        to="/booking"
+                        className={`w-full py-3 px-6 rounded-md font-semibold transition-all duration-300 transform hover:scale-105 inline-block text-center ${
+                          plan.is_popular
+                            ? 'bg-yellow-500 text-black hover:bg-yellow-600'
+                            : 'bg-black text-white hover:bg-gray-800'
+                        }`}
+                      >
+                        Book Now
+                      </Link>
+                    )}
                   </div>
                 </div>
               </AnimatedSection>
@@ -128,37 +154,39 @@ const PricingPage: React.FC = () => {
       </section>
 
       {/* Add-ons Section */}
-      <section className="py-20 bg-gray-50">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <AnimatedSection animation="slideUp" duration={800}>
-            <div className="text-center mb-16">
-              <h2 className="text-3xl md:text-4xl font-bold text-black mb-4">
-                {getContent('pricing_addons_title', 'Add-On Services')}
-              </h2>
-              <p className="text-xl text-gray-600 max-w-3xl mx-auto">
-                {getContent('pricing_addons_subtitle', 'Enhance your workspace experience with our additional services')}
-              </p>
-            </div>
-          </AnimatedSection>
+      {addOns.length > 0 && (
+        <section className="py-20 bg-gray-50">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <AnimatedSection animation="slideUp" duration={800}>
+              <div className="text-center mb-16">
+                <h2 className="text-3xl md:text-4xl font-bold text-black mb-4">
+                  {getContent('pricing_addons_title', 'Add-On Services')}
+                </h2>
+                <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+                  {getContent('pricing_addons_subtitle', 'Enhance your workspace experience with our additional services')}
+                </p>
+              </div>
+            </AnimatedSection>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            {addOns.map((addon, index) => (
-              <AnimatedSection 
-                key={index}
-                animation="slideUp" 
-                delay={index * 100} 
-                duration={600}
-              >
-                <div className="bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-all duration-300 transform hover:-translate-y-2">
-                  <h3 className="text-lg font-semibold text-black mb-2">{addon.name}</h3>
-                  <p className="text-gray-600 mb-4">{addon.description}</p>
-                  <div className="text-xl font-bold text-yellow-500">{addon.price}</div>
-                </div>
-              </AnimatedSection>
-            ))}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              {addOns.map((addon, index) => (
+                <AnimatedSection 
+                  key={addon.id}
+                  animation="slideUp" 
+                  delay={index * 100} 
+                  duration={600}
+                >
+                  <div className="bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-all duration-300 transform hover:-translate-y-2">
+                    <h3 className="text-lg font-semibold text-black mb-2">{addon.name}</h3>
+                    <p className="text-gray-600 mb-4">{addon.description}</p>
+                    <div className="text-xl font-bold text-yellow-500">{formatAddOnPrice(addon.price, addon.price_unit, currency)}</div>
+                  </div>
+                </AnimatedSection>
+              ))}
+            </div>
           </div>
-        </div>
-      </section>
+        </section>
+      )}
 
       {/* FAQ Section */}
       <section className="py-20">
@@ -0,0 +1,78 @@
+import { supabase, AddOnRow, AddOnPriceUnit, BookingAddOnRow } from '../lib/supabase';
+import { DEFAULT_CURRENCY, formatMoney } from './moneyHelpers';
+
+export const ADD_ON_PRICE_UNITS: { value: AddOnPriceUnit; label: string }[] = [
+  { value: 'booking', label: 'per booking' },
+  { value: 'day', label: '/day' },
+  { value: 'week', label: '/week' },
+  { value: 'month', label: '/month' }
+];
+
+// e.g. "E£15/day" or "E£40 per booking"
+export const formatAddOnPrice = (price: number, priceUnit: AddOnPriceUnit, currency: string = DEFAULT_CURRENCY): string => {
+  const label = ADD_ON_PRICE_UNITS.find(u => u.value === priceUnit)?.label || '';
+  return `${formatMoney(price, currency)}${label.startsWith('/') ? label : ` ${label}`}`;
+};
+
+// Units of an add-on one booking is charged for: a week covers 7 days and a month 30.
+// Mirrors add_on_quantity on the server, which prices the booked lines
+export const getAddOnQuantity = (priceUnit: AddOnPriceUnit, duration: string): number => {
+  const days = duration === '1-week' ? 7 : duration === '1-month' ? 30 : 1;
+  switch (priceUnit) {
+    case 'day':
+      return days;
+    case 'week':
+      return Math.ceil(days / 7);
+    case 'month':
+      return Math.ceil(days / 30);
+    default:
+      return 1;
+  }
+};
+
+export interface AddOnLine {
+  addOn: AddOnRow;
+  quantity: number;
+  lineTotal: number;
+}
+
+// Lines the chosen add-ons will add to one booking of a duration
+export const getAddOnLines = (addOns: AddOnRow[], selectedIds: string[], duration: string): AddOnLine[] =>
+  addOns
+    .filter(addOn => selectedIds.includes(addOn.id))
+    .map(addOn => {
+      const quantity = getAddOnQuantity(addOn.price_unit, duration);
+      return { addOn, quantity, lineTotal: Number(addOn.price) * quantity };
+    });
+
+// e.g. "Parking × 7"
+export const describeAddOnLine = (line: Pick<BookingAddOnRow, 'name' | 'quantity'>): string =>
+  line.quantity > 1 ? `${line.name} × ${line.quantity}` : line.name;
+
+export const fetchAddOns = async (includeInactive = false): Promise<AddOnRow[]> => {
+  let query = supabase
+    .from('add_ons')
+    .select('*')
+    .order('display_order', { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchBookingAddOns = async (bookingIds: string[]): Promise<BookingAddOnRow[]> => {
+  if (bookingIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('booking_add_ons')
+    .select('*')
+    .in('booking_id', bookingIds)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,154 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AvailabilityBooking,
+  findAvailableDesk,
+  getDeskAvailability,
+  getSpaceLocalNow,
+  getWorkspaceSchedule,
+  isUpcomingBooking
+} from './bookingHelpers';
+
+// The helpers under test never reach the database
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+// 3 desks, hourly slots from 09:00 to 18:00
+const schedule = getWorkspaceSchedule({ capacity: 3 });
+const scheduleFor = () => schedule;
+
+const DATE = '2025-08-04';
+
+const booking = (id: string, starts_at: string, ends_at: string, desk_number: number | null): AvailabilityBooking => ({
+  id,
+  starts_at,
+  ends_at,
+  desk_number
+});
+
+describe('getDeskAvailability', () => {
+  it('marks every start time free when there are no bookings', () => {
+    const { occupancy, unavailableSlots } = getDeskAvailability(DATE, '1-hour', [], scheduleFor);
+
+    expect(Object.keys(occupancy)).toEqual(schedule.timeSlots);
+    expect(occupancy['09:00']).toEqual([null, null, null]);
+    expect(unavailableSlots).toEqual([]);
+  });
+
+  it('blocks every desk for legacy bookings without a desk', () => {
+    const legacy = booking('legacy', `${DATE}T10:00:00`, `${DATE}T11:00:00`, null);
+    const { occupancy, unavailableSlots } = getDeskAvailability(DATE, '1-hour', [legacy], scheduleFor);
+
+    expect(occupancy['10:00']).toEqual([legacy, legacy, legacy]);
+    expect(occupancy['11:00']).toEqual([null, null, null]);
+    expect(unavailableSlots).toEqual(['10:00']);
+  });
+
+  it('treats desk numbers outside the capacity like legacy bookings', () => {
+    const tooHigh = booking('too-high', `${DATE}T10:00:00`, `${DATE}T11:00:00`, 7);
+    const zero = booking('zero', `${DATE}T12:00:00`, `${DATE}T13:00:00`, 0);
+    const { occupancy, unavailableSlots } = getDeskAvailability(DATE, '1-hour', [tooHigh, zero], scheduleFor);
+
+    expect(occupancy['10:00']).toEqual([tooHigh, tooHigh, tooHigh]);
+    expect(occupancy['12:00']).toEqual([zero, zero, zero]);
+    expect(unavailableSlots).toEqual(['10:00', '12:00']);
+  });
+
+  it('holds a desk in every slot a multi-hour booking straddles', () => {
+    const straddling = booking('straddling', `${DATE}T10:30:00`, `${DATE}T12:30:00`, 2);
+    const { occupancy } = getDeskAvailability(DATE, '1-hour', [straddling], scheduleFor);
+
+    expect(occupancy['09:00'][1]).toBeNull();
+    expect(occupancy['10:00'][1]).toBe(straddling);
+    expect(occupancy['11:00'][1]).toBe(straddling);
+    expect(occupancy['12:00'][1]).toBe(straddling);
+    expect(occupancy['13:00'][1]).toBeNull();
+    expect(occupancy['11:00'][0]).toBeNull();
+  });
+
+  it('shows a multi-day booking on the later dates it covers', () => {
+    const week = booking('week', '2025-08-01T09:00:00', '2025-08-07T18:00:00', 1);
+    const { occupancy } = getDeskAvailability(DATE, '1-hour', [week], scheduleFor);
+
+    schedule.timeSlots.forEach(slot => {
+      expect(occupancy[slot]).toEqual([week, null, null]);
+    });
+    expect(getDeskAvailability('2025-08-08', '1-hour', [week], scheduleFor).occupancy['09:00']).toEqual([null, null, null]);
+  });
+
+  it('includes every day a multi-day request covers', () => {
+    const later = booking('later', '2025-08-06T09:00:00', '2025-08-06T18:00:00', null);
+    const { occupancyByDate, unavailableSlots } = getDeskAvailability(DATE, '1-week', [later], scheduleFor);
+
+    expect(Object.keys(occupancyByDate)).toHaveLength(7);
+    expect(occupancyByDate['2025-08-06']['14:00']).toEqual([later, later, later]);
+    expect(unavailableSlots).toEqual(schedule.timeSlots);
+  });
+
+  it('marks start times that cannot fit the duration before closing', () => {
+    expect(getDeskAvailability(DATE, '4-hours', [], scheduleFor).unavailableSlots).toEqual(['15:00', '16:00', '17:00']);
+  });
+});
+
+describe('findAvailableDesk', () => {
+  it('returns null while a legacy booking holds every desk', () => {
+    const legacy = booking('legacy', `${DATE}T10:00:00`, `${DATE}T12:00:00`, null);
+
+    expect(findAvailableDesk(DATE, '11:00', '1-hour', [legacy], scheduleFor)).toBeNull();
+    expect(findAvailableDesk(DATE, '09:00', '2-hours', [legacy], scheduleFor)).toBeNull();
+    expect(findAvailableDesk(DATE, '12:00', '1-hour', [legacy], scheduleFor)).toBe(1);
+  });
+
+  it('returns null for out-of-range desks over the requested period', () => {
+    const outOfRange = booking('out-of-range', `${DATE}T10:00:00`, `${DATE}T11:00:00`, 4);
+
+    expect(findAvailableDesk(DATE, '10:00', '1-hour', [outOfRange], scheduleFor, 1)).toBeNull();
+  });
+
+  it('skips desks held by a straddling booking for any part of the request', () => {
+    const straddling = booking('straddling', `${DATE}T10:30:00`, `${DATE}T12:30:00`, 1);
+
+    expect(findAvailableDesk(DATE, '09:00', '2-hours', [straddling], scheduleFor)).toBe(2);
+    expect(findAvailableDesk(DATE, '09:00', '1-hour', [straddling], scheduleFor)).toBe(1);
+    expect(findAvailableDesk(DATE, '12:00', '1-hour', [straddling], scheduleFor, 1)).toBe(2);
+    expect(findAvailableDesk(DATE, '13:00', '1-hour', [straddling], scheduleFor, 1)).toBe(1);
+  });
+
+  it('sees a multi-day booking from a later date', () => {
+    const month = booking('month', '2025-07-20T09:00:00', '2025-08-18T18:00:00', 1);
+
+    expect(findAvailableDesk(DATE, '09:00', '1-hour', [month], scheduleFor, 1)).toBe(2);
+    expect(findAvailableDesk('2025-08-19', '09:00', '1-hour', [month], scheduleFor, 1)).toBe(1);
+  });
+
+  it('returns null when the duration cannot fit before closing', () => {
+    expect(findAvailableDesk(DATE, '17:00', '2-hours', [], scheduleFor)).toBeNull();
+    expect(findAvailableDesk(DATE, '10:00', '1-day', [], scheduleFor)).toBeNull();
+    expect(findAvailableDesk(DATE, '09:00', '1-day', [], scheduleFor)).toBe(1);
+  });
+
+  it('prefers the requested desk and falls back to the first free one', () => {
+    const deskTwo = booking('desk-two', `${DATE}T09:00:00`, `${DATE}T10:00:00`, 2);
+
+    expect(findAvailableDesk(DATE, '10:00', '1-hour', [deskTwo], scheduleFor, 2)).toBe(2);
+    expect(findAvailableDesk(DATE, '09:00', '1-hour', [deskTwo], scheduleFor, 2)).toBe(1);
+    expect(findAvailableDesk(DATE, '09:00', '1-hour', [deskTwo], scheduleFor, 9)).toBe(1);
+  });
+});
+
+describe('getSpaceLocalNow', () => {
+  it('returns the wall-clock time at the space, not UTC', () => {
+    const instant = new Date('2025-08-03T22:30:00Z');
+
+    expect(getSpaceLocalNow('Africa/Cairo', instant)).toBe('2025-08-04T01:30:00');
+    expect(getSpaceLocalNow('UTC', instant)).toBe('2025-08-03T22:30:00');
+  });
+
+  it('compares with booking start times', () => {
+    // 08:30 in Cairo, which is on summer time in August
+    const spaceNow = getSpaceLocalNow('Africa/Cairo', new Date('2025-08-04T05:30:00Z'));
+
+    expect(isUpcomingBooking({ starts_at: `${DATE}T09:00:00` }, spaceNow)).toBe(true);
+    expect(isUpcomingBooking({ starts_at: `${DATE} 09:00:00` }, spaceNow)).toBe(true);
+    expect(isUpcomingBooking({ starts_at: `${DATE}T08:00:00` }, spaceNow)).toBe(false);
+    expect(isUpcomingBooking({ starts_at: `${DATE}T08:30:00` }, spaceNow)).toBe(false);
+  });
+});
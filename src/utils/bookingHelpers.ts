@@ -1,168 +1,404 @@
-// Helper function to convert duration to hours
-export const convertDurationToHours = (duration: string, totalSlots: number): number => {
+import { supabase, BookingRow, BookingStatus } from '../lib/supabase';
+
+// Default fallback values for workspace types without their own schedule
+export const DEFAULT_TOTAL_DESKS = 6;
+export const DEFAULT_OPENING_TIME = '09:00';
+export const DEFAULT_CLOSING_TIME = '18:00';
+export const DEFAULT_SLOT_MINUTES = 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Bookings in these states hold a desk
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ['pending', 'code_sent', 'confirmed'];
+
+// SQLSTATE raised by the create_booking RPC when no desk can be assigned
+export const BOOKING_CONFLICT_CODE = 'BK409';
+
+// Thrown when the server refuses a booking because its desk/slot is taken
+export class BookingConflictError extends Error {
+  constructor(message = 'The selected time slot is no longer available. Please choose a different time or date.') {
+    super(message);
+    this.name = 'BookingConflictError';
+  }
+}
+
+// Start and end of a booking as local wall-clock timestamps at the space, e.g. 2025-07-30T09:30:00
+export interface BookingPeriod {
+  starts_at: string;
+  ends_at: string;
+}
+
+// Minimal booking shape the availability engine needs
+export interface AvailabilityBooking extends BookingPeriod {
+  id?: string;
+  desk_number: number | null;
+}
+
+// Half-open [start, end) range in minutes after midnight
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+// occupancy[slot][deskIndex] is the booking holding that desk during the slot, or null when free
+export type DeskOccupancy<T extends AvailabilityBooking = AvailabilityBooking> = Record<string, (T | null)[]>;
+
+export interface DeskAvailability<T extends AvailabilityBooking = AvailabilityBooking> {
+  // Occupancy of the first day, and of every day the requested duration covers
+  occupancy: DeskOccupancy<T>;
+  occupancyByDate: Record<string, DeskOccupancy<T>>;
+  unavailableSlots: string[];
+}
+
+// Capacity and slot schedule columns stored on workspace_types
+export interface WorkspaceScheduleSource {
+  capacity?: number | null;
+  opening_time?: string | null;
+  closing_time?: string | null;
+  slot_minutes?: number | null;
+}
+
+// Capacity, hours and bookable start times (HH:MM) of one workspace type
+export interface WorkspaceSchedule {
+  totalDesks: number;
+  slotMinutes: number;
+  openingMinutes: number;
+  closingMinutes: number;
+  timeSlots: string[];
+}
+
+// Helper function to convert a HH:MM[:SS] time of day to minutes after midnight
+export const parseTimeOfDay = (value: string | null | undefined): number | null => {
+  const match = /^(\d{1,2}):(\d{2})/.exec(value || '');
+  if (!match) return null;
+
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  return minutes >= 0 && minutes <= MINUTES_PER_DAY ? minutes : null;
+};
+
+// Helper function to format minutes after midnight as HH:MM
+export const formatTimeOfDay = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Helper function to format minutes after midnight as a slot label, e.g. 9:30 AM
+export const formatSlotLabel = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60) % 24;
+  const period = hours < 12 ? 'AM' : 'PM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes % 60).padStart(2, '0')} ${period}`;
+};
+
+// Display label of a HH:MM start time
+export const formatTimeLabel = (time: string): string => {
+  const minutes = parseTimeOfDay(time);
+  return minutes === null ? time : formatSlotLabel(minutes);
+};
+
+// Helper function to list the HH:MM start times between opening and closing time
+export const generateTimeSlots = (openingTime: string, closingTime: string, slotMinutes: number): string[] => {
+  const opening = parseTimeOfDay(openingTime);
+  const closing = parseTimeOfDay(closingTime);
+  if (opening === null || closing === null || slotMinutes < 1) return [];
+
+  const slots: string[] = [];
+  for (let start = opening; start + slotMinutes <= closing; start += slotMinutes) {
+    slots.push(formatTimeOfDay(start));
+  }
+  return slots;
+};
+
+// Resolve a workspace type's schedule, falling back to the defaults for missing values
+export const getWorkspaceSchedule = (workspace?: WorkspaceScheduleSource | null): WorkspaceSchedule => {
+  const totalDesks = workspace?.capacity && workspace.capacity > 0 ? workspace.capacity : DEFAULT_TOTAL_DESKS;
+  const slotMinutes = workspace?.slot_minutes && workspace.slot_minutes > 0 ? workspace.slot_minutes : DEFAULT_SLOT_MINUTES;
+  const openingTime = workspace?.opening_time || DEFAULT_OPENING_TIME;
+  const closingTime = workspace?.closing_time || DEFAULT_CLOSING_TIME;
+  const timeSlots = generateTimeSlots(openingTime, closingTime, slotMinutes);
+
+  if (timeSlots.length === 0) {
+    return {
+      totalDesks,
+      slotMinutes: DEFAULT_SLOT_MINUTES,
+      openingMinutes: parseTimeOfDay(DEFAULT_OPENING_TIME) as number,
+      closingMinutes: parseTimeOfDay(DEFAULT_CLOSING_TIME) as number,
+      timeSlots: generateTimeSlots(DEFAULT_OPENING_TIME, DEFAULT_CLOSING_TIME, DEFAULT_SLOT_MINUTES)
+    };
+  }
+
+  return {
+    totalDesks,
+    slotMinutes,
+    openingMinutes: parseTimeOfDay(openingTime) as number,
+    closingMinutes: parseTimeOfDay(closingTime) as number,
+    timeSlots
+  };
+};
+
+// Helper function to get the length of hour-based durations; null for whole-day durations
+export const getDurationMinutes = (duration: string): number | null => {
   switch (duration) {
     case '1-hour':
-      return 1;
+      return 60;
     case '2-hours':
-      return 2;
+      return 120;
     case '4-hours':
-      return 4;
+      return 240;
     case '1-day':
-      return totalSlots; // Full day = all available hourly slots
     case '1-week':
-      return totalSlots * 7; // Not applicable for hourly slots, but kept for consistency
     case '1-month':
-      return totalSlots * 30; // Not applicable for hourly slots, but kept for consistency
+      return null; // Opening on the first day to closing on the last
     default:
-      return 1;
+      return 60;
   }
 };
 
-// Helper function to get hourly slots covered by a booking
-export const getHourlySlotsForBooking = (startSlot: string, durationHours: number, allSlots: string[]): string[] => {
-  const startIndex = allSlots.indexOf(startSlot);
-  if (startIndex === -1) return [];
-  
-  const slots = [];
-  for (let i = 0; i < durationHours && (startIndex + i) < allSlots.length; i++) {
-    slots.push(allSlots[startIndex + i]);
+// Helper function to get the number of calendar days a duration covers
+export const getDurationDays = (duration: string): number => {
+  switch (duration) {
+    case '1-week':
+      return 7;
+    case '1-month':
+      return 30;
+    default:
+      return 1;
   }
-  return slots;
 };
 
-// Helper function to find an available desk for a booking
-export const findAvailableDesk = (
-  startSlot: string,
+export const isMultiDayDuration = (duration: string): boolean => getDurationDays(duration) > 1;
+
+// Add days to a YYYY-MM-DD date without local timezone drift
+export const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+// Last calendar day (inclusive) a booking starting on date covers
+export const getBookingEndDate = (date: string, duration: string): string =>
+  addDays(date, getDurationDays(duration) - 1);
+
+// Every calendar day a booking starting on date covers
+export const getBookingDates = (date: string, duration: string): string[] =>
+  Array.from({ length: getDurationDays(duration) }, (_, index) => addDays(date, index));
+
+// Local timestamp of a date and minutes after midnight
+export const toLocalTimestamp = (date: string, minutes: number): string =>
+  minutes >= MINUTES_PER_DAY ? `${addDays(date, 1)}T00:00:00` : `${date}T${formatTimeOfDay(minutes)}:00`;
+
+// Normalise a timestamp returned by the database (space or T separator, optional fractions)
+const normaliseTimestamp = (value: string): string => value.replace(' ', 'T').slice(0, 19);
+
+// Time zone of the space when the timezone setting is empty, as in space_local_now()
+export const DEFAULT_TIMEZONE = 'Africa/Cairo';
+
+// The current wall-clock time at the space, comparable with starts_at. Mirrors space_local_now()
+export const getSpaceLocalNow = (timeZone: string = DEFAULT_TIMEZONE, now: Date = new Date()): string => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+      .formatToParts(now)
+      .map(part => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}`;
+};
+
+// Whether a booking has not started yet at the space's current time
+export const isUpcomingBooking = (booking: Pick<BookingPeriod, 'starts_at'>, spaceNow: string): boolean =>
+  normaliseTimestamp(booking.starts_at) > spaceNow;
+
+export const periodsOverlap = (a: BookingPeriod, b: BookingPeriod): boolean =>
+  normaliseTimestamp(a.starts_at) < normaliseTimestamp(b.ends_at) &&
+  normaliseTimestamp(b.starts_at) < normaliseTimestamp(a.ends_at);
+
+// The part of a booking that falls on a date, or null when it does not touch that date
+export const getBookingIntervalOnDate = (booking: BookingPeriod, date: string): TimeInterval | null => {
+  const startsAt = normaliseTimestamp(booking.starts_at);
+  const endsAt = normaliseTimestamp(booking.ends_at);
+  const startDate = startsAt.slice(0, 10);
+  const endDate = endsAt.slice(0, 10);
+  if (date < startDate || date > endDate) return null;
+
+  const interval = {
+    start: date === startDate ? parseTimeOfDay(startsAt.slice(11)) ?? 0 : 0,
+    end: date === endDate ? parseTimeOfDay(endsAt.slice(11)) ?? 0 : MINUTES_PER_DAY
+  };
+  return interval.end > interval.start ? interval : null;
+};
+
+// Resolves the schedule of the selected workspace type on a given date
+export type ScheduleResolver = (date: string) => WorkspaceSchedule;
+
+// Start and end of a requested booking, or null when it does not fit the day. Mirrors booking_period()
+export const getRequestedPeriod = (
+  date: string,
+  startTime: string,
   duration: string,
+  scheduleFor: ScheduleResolver
+): BookingPeriod | null => {
+  const schedule = scheduleFor(date);
+  const start = parseTimeOfDay(startTime);
+  const durationMinutes = getDurationMinutes(duration);
+
+  // Closed day, or a start time that is not one of the day's slots
+  if (start === null || !schedule.timeSlots.includes(formatTimeOfDay(start))) return null;
+
+  if (durationMinutes === null) {
+    // Whole-day durations start at opening and hold the desk until closing on their last day
+    if (start !== schedule.openingMinutes) return null;
+    const endDate = getBookingEndDate(date, duration);
+    return {
+      starts_at: toLocalTimestamp(date, start),
+      ends_at: toLocalTimestamp(endDate, scheduleFor(endDate).closingMinutes)
+    };
+  }
+
+  // Not enough time left before closing
+  if (start + durationMinutes > schedule.closingMinutes) return null;
+  return { starts_at: toLocalTimestamp(date, start), ends_at: toLocalTimestamp(date, start + durationMinutes) };
+};
+
+// Whether a booking holds a desk; bookings without a valid desk block every desk
+const holdsDesk = (booking: AvailabilityBooking, deskNumber: number, totalDesks: number): boolean =>
+  booking.desk_number === null || booking.desk_number < 1 || booking.desk_number > totalDesks
+    ? true
+    : booking.desk_number === deskNumber;
+
+// Desks free for the whole period, in desk order
+const getFreeDeskNumbers = (period: BookingPeriod, totalDesks: number, existingBookings: AvailabilityBooking[]): number[] => {
+  const overlapping = existingBookings.filter(booking => periodsOverlap(booking, period));
+
+  return Array.from({ length: totalDesks }, (_, index) => index + 1).filter(
+    deskNumber => !overlapping.some(booking => holdsDesk(booking, deskNumber, totalDesks))
+  );
+};
+
+// Build the per-slot, per-desk occupancy on one date
+export const buildDeskOccupancy = <T extends AvailabilityBooking>(
   date: string,
-  existingBookings: any[],
-  hourlySlots: string[],
-  totalDesks: number
-): number | null => {
-  const requestedDurationHours = convertDurationToHours(duration, hourlySlots.length);
-  const requiredSlots = getHourlySlotsForBooking(startSlot, requestedDurationHours, hourlySlots);
-  
-  // Build desk availability matrix
-  const deskAvailabilityMatrix = new Map<string, boolean[]>();
-  
-  // Initialize all slots as available for all desks
-  hourlySlots.forEach(slot => {
-    deskAvailabilityMatrix.set(slot, new Array(totalDesks).fill(true));
+  existingBookings: T[],
+  schedule: WorkspaceSchedule
+): DeskOccupancy<T> => {
+  const { timeSlots, totalDesks, slotMinutes } = schedule;
+  const occupancy: DeskOccupancy<T> = {};
+
+  timeSlots.forEach(slot => {
+    occupancy[slot] = new Array<T | null>(totalDesks).fill(null);
   });
-  
-  // Mark desks as unavailable based on existing bookings
+
   existingBookings.forEach(booking => {
-    const bookingDurationHours = convertDurationToHours(booking.duration, hourlySlots.length);
-    const occupiedSlots = getHourlySlotsForBooking(booking.time_slot, bookingDurationHours, hourlySlots);
-    
-    occupiedSlots.forEach(slot => {
-      const availability = deskAvailabilityMatrix.get(slot);
-      if (availability) {
-        if (booking.desk_number !== null && booking.desk_number >= 1 && booking.desk_number <= totalDesks) {
-          // Mark specific desk as unavailable
-          availability[booking.desk_number - 1] = false;
-        } else {
-          // Legacy booking without desk assignment - mark all desks as unavailable
-          availability.fill(false);
-        }
+    const held = getBookingIntervalOnDate(booking, date);
+    if (!held) return;
+
+    timeSlots.forEach(slot => {
+      const slotStart = parseTimeOfDay(slot) ?? 0;
+      if (held.start >= slotStart + slotMinutes || slotStart >= held.end) return;
+
+      const desks = occupancy[slot];
+      if (booking.desk_number !== null && booking.desk_number >= 1 && booking.desk_number <= totalDesks) {
+        desks[booking.desk_number - 1] = booking;
+      } else {
+        // Legacy booking without desk assignment - mark all desks as unavailable
+        desks.fill(booking);
       }
     });
   });
-  
-  // Find an available desk for the entire duration
-  for (let deskIndex = 0; deskIndex < totalDesks; deskIndex++) {
-    let deskAvailableForAllSlots = true;
-    
-    for (const slot of requiredSlots) {
-      const availability = deskAvailabilityMatrix.get(slot);
-      if (!availability || !availability[deskIndex]) {
-        deskAvailableForAllSlots = false;
-        break;
-      }
-    }
-    
-    if (deskAvailableForAllSlots) {
-      return deskIndex + 1; // Desk numbers are 1-indexed
-    }
-  }
-  
-  return null; // No available desk found
+
+  return occupancy;
 };
 
-// Helper function to get unavailable time slots for a given date and duration
-export const getUnavailableTimeSlots = (
-  workspaceType: string,
+// Compute desk occupancy and the start times that cannot fit the requested duration
+export const getDeskAvailability = <T extends AvailabilityBooking>(
   date: string,
   duration: string,
-  existingBookings: any[],
-  hourlySlots: string[],
-  totalDesks: number
-): string[] => {
-  const requestedDurationHours = convertDurationToHours(duration, hourlySlots.length);
-  
-  // Build desk availability matrix
-  const deskAvailabilityMatrix = new Map<string, boolean[]>();
-  
-  // Initialize all slots as available for all desks
-  hourlySlots.forEach(slot => {
-    deskAvailabilityMatrix.set(slot, new Array(totalDesks).fill(true));
-  });
-  
-  // Mark desks as unavailable based on existing bookings
-  existingBookings.forEach(booking => {
-    const bookingDurationHours = convertDurationToHours(booking.duration, hourlySlots.length);
-    const occupiedSlots = getHourlySlotsForBooking(booking.time_slot, bookingDurationHours, hourlySlots);
-    
-    occupiedSlots.forEach(slot => {
-      const availability = deskAvailabilityMatrix.get(slot);
-      if (availability) {
-        if (booking.desk_number !== null && booking.desk_number >= 1 && booking.desk_number <= totalDesks) {
-          // Mark specific desk as unavailable
-          availability[booking.desk_number - 1] = false;
-        } else {
-          // Legacy booking without desk assignment - mark all desks as unavailable
-          availability.fill(false);
-        }
-      }
-    });
+  existingBookings: T[],
+  scheduleFor: ScheduleResolver
+): DeskAvailability<T> => {
+  const occupancyByDate: Record<string, DeskOccupancy<T>> = {};
+  getBookingDates(date, duration).forEach(day => {
+    occupancyByDate[day] = buildDeskOccupancy(day, existingBookings, scheduleFor(day));
   });
-  
-  // Find unavailable starting slots for the requested duration
-  const unavailableSlots: string[] = [];
-  
-  hourlySlots.forEach(startSlot => {
-    const requiredSlots = getHourlySlotsForBooking(startSlot, requestedDurationHours, hourlySlots);
-    
-    // Check if we have enough consecutive slots
-    if (requiredSlots.length < requestedDurationHours) {
-      unavailableSlots.push(startSlot);
-      return;
-    }
-    
-    // Check if at least one desk is available for all required slots
-    let hasAvailableDesk = false;
-    
-    for (let deskIndex = 0; deskIndex < totalDesks; deskIndex++) {
-      let deskAvailableForAllSlots = true;
-      
-      for (const slot of requiredSlots) {
-        const availability = deskAvailabilityMatrix.get(slot);
-        if (!availability || !availability[deskIndex]) {
-          deskAvailableForAllSlots = false;
-          break;
-        }
-      }
-      
-      if (deskAvailableForAllSlots) {
-        hasAvailableDesk = true;
-        break;
-      }
-    }
-    
-    if (!hasAvailableDesk) {
-      unavailableSlots.push(startSlot);
-    }
-  });
-  
-  return unavailableSlots;
-};
\ No newline at end of file
+
+  const unavailableSlots = scheduleFor(date).timeSlots.filter(
+    startTime => findAvailableDesk(date, startTime, duration, existingBookings, scheduleFor) === null
+  );
+
+  return { occupancy: occupancyByDate[date], occupancyByDate, unavailableSlots };
+};
+
+// Desks free for a requested booking; empty when it does not fit the day
+export const getFreeDesks = (
+  date: string,
+  startTime: string,
+  duration: string,
+  existingBookings: AvailabilityBooking[],
+  scheduleFor: ScheduleResolver
+): number[] => {
+  const period = getRequestedPeriod(date, startTime, duration, scheduleFor);
+  return period ? getFreeDeskNumbers(period, scheduleFor(date).totalDesks, existingBookings) : [];
+};
+
+// Helper function to find an available desk for a booking, preferring the given desk when it is free
+export const findAvailableDesk = (
+  date: string,
+  startTime: string,
+  duration: string,
+  existingBookings: AvailabilityBooking[],
+  scheduleFor: ScheduleResolver,
+  preferredDesk: number | null = null
+): number | null => {
+  const freeDesks = getFreeDesks(date, startTime, duration, existingBookings, scheduleFor);
+  if (preferredDesk !== null && freeDesks.includes(preferredDesk)) return preferredDesk;
+  return freeDesks[0] ?? null;
+};
+
+// Helper function to get unavailable start times for a given date and duration
+export const getUnavailableTimeSlots = (
+  date: string,
+  duration: string,
+  existingBookings: AvailabilityBooking[],
+  scheduleFor: ScheduleResolver
+): string[] => getDeskAvailability(date, duration, existingBookings, scheduleFor).unavailableSlots;
+
+export const fetchSpaceTimeZone = async (): Promise<string> => {
+  const { data, error } = await supabase.from('site_settings').select('value').eq('key', 'timezone').maybeSingle();
+
+  if (error) throw error;
+  return data?.value?.trim() || DEFAULT_TIMEZONE;
+};
+
+// Fetch the bookings that hold a desk for a workspace type at any time from date to endDate
+export const fetchActiveBookings = async (
+  workspaceType: string,
+  date: string,
+  endDate: string = date
+): Promise<AvailabilityBooking[]> => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('id, starts_at, ends_at, desk_number')
+    .eq('workspace_type', workspaceType)
+    .lt('starts_at', toLocalTimestamp(endDate, MINUTES_PER_DAY))
+    .gt('ends_at', toLocalTimestamp(date, 0))
+    .in('status', ACTIVE_BOOKING_STATUSES);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Flag a started confirmed booking as a no-show, or clear the flag. A flagged booking's follow-up
+// is a no-show message instead of a feedback request
+export const markBookingNoShow = async (bookingId: string, noShow: boolean): Promise<BookingRow> => {
+  const { data, error } = await supabase.rpc('mark_booking_no_show', { p_booking_id: bookingId, p_no_show: noShow });
+
+  if (error) {
+    throw new Error(error.details || error.message);
+  }
+  return data as BookingRow;
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CancellationPolicyTierRow } from '../lib/supabase';
+import { describeCancellationPolicy, getWorkspacePolicy } from './cancellationHelpers';
+
+// The helpers under test never reach the database
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const tier = (workspace_type: string, hours_before: number, refund_percent: number): CancellationPolicyTierRow => ({
+  id: `${workspace_type}-${hours_before}`,
+  workspace_type,
+  hours_before,
+  refund_percent,
+  created_at: '2025-08-01T00:00:00Z'
+});
+
+describe('getWorkspacePolicy', () => {
+  it('keeps the workspace type\'s tiers, earliest cancellation first', () => {
+    const tiers = [
+      tier('Hot Desk', 0, 25),
+      tier('Meeting Room', 48, 100),
+      tier('Hot Desk', 48, 100),
+      tier('Hot Desk', 24, 50)
+    ];
+
+    expect(getWorkspacePolicy(tiers, 'Hot Desk').map(t => t.hours_before)).toEqual([48, 24, 0]);
+    expect(getWorkspacePolicy(tiers, 'Private Office')).toEqual([]);
+  });
+});
+
+describe('describeCancellationPolicy', () => {
+  it('describes each tier and what is left after the last one', () => {
+    expect(describeCancellationPolicy([tier('Hot Desk', 24, 100), tier('Hot Desk', 2, 50)])).toBe(
+      'Full refund 24h or more before the start, 50% refund 2h or more before the start, no refund after that'
+    );
+  });
+
+  it('ends with the tier that applies up to the start', () => {
+    expect(describeCancellationPolicy([tier('Hot Desk', 24, 100), tier('Hot Desk', 0, 50)])).toBe(
+      'Full refund 24h or more before the start, 50% refund after that'
+    );
+    expect(describeCancellationPolicy([tier('Hot Desk', 0, 0)])).toBe('No refund after that');
+  });
+
+  it('says when there is no refund at all', () => {
+    expect(describeCancellationPolicy([])).toBe('No refund on cancellation');
+  });
+});
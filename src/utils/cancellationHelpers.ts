@@ -0,0 +1,92 @@
+import { supabase, CancellationPolicyTierRow, RefundRow, RefundStatus } from '../lib/supabase';
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  pending: 'Refund pending',
+  processed: 'Refunded',
+  rejected: 'Refund declined'
+};
+
+// What cancelling a confirmed booking now would pay back, worked out on the server
+export interface RefundQuote {
+  refund_percent: number;
+  refund_amount: number;
+  hours_before_start: number;
+}
+
+// Tiers of one workspace type, earliest cancellation first
+export const getWorkspacePolicy = (tiers: CancellationPolicyTierRow[], workspaceType: string): CancellationPolicyTierRow[] =>
+  tiers
+    .filter(tier => tier.workspace_type === workspaceType)
+    .sort((a, b) => b.hours_before - a.hours_before);
+
+const describeRefund = (percent: number) => (percent >= 100 ? 'full refund' : percent > 0 ? `${percent}% refund` : 'no refund');
+
+// e.g. "Full refund 24h or more before the start, 50% refund after that"
+export const describeCancellationPolicy = (policy: CancellationPolicyTierRow[]): string => {
+  if (policy.length === 0) return 'No refund on cancellation';
+
+  const parts = policy.map(tier =>
+    tier.hours_before > 0
+      ? `${describeRefund(tier.refund_percent)} ${tier.hours_before}h or more before the start`
+      : `${describeRefund(tier.refund_percent)} after that`
+  );
+  if (policy[policy.length - 1].hours_before > 0) parts.push('no refund after that');
+
+  const text = parts.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+export const fetchCancellationPolicyTiers = async (): Promise<CancellationPolicyTierRow[]> => {
+  const { data, error } = await supabase
+    .from('cancellation_policy_tiers')
+    .select('*')
+    .order('hours_before', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchRefundQuote = async (bookingId: string): Promise<RefundQuote> => {
+  const { data, error } = await supabase
+    .rpc('quote_cancellation_refund', { p_booking_id: bookingId })
+    .single();
+
+  if (error) {
+    throw new Error(error.details || error.message);
+  }
+  return data as RefundQuote;
+};
+
+// Refunds of the given bookings, newest first
+export const fetchBookingRefunds = async (bookingIds: string[]): Promise<RefundRow[]> => {
+  if (bookingIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('refunds')
+    .select('*')
+    .in('booking_id', bookingIds)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Mark a refund paid back, or declined. `paymentId` is the provider payment it was refunded through
+export const processRefund = async (
+  refundId: string,
+  processed: boolean,
+  note: string,
+  paymentId?: string
+): Promise<RefundRow> => {
+  const { data, error } = await supabase.rpc('process_refund', {
+    p_refund_id: refundId,
+    p_processed: processed,
+    p_note: note,
+    p_payment_id: paymentId ?? null
+  });
+
+  if (error) {
+    throw new Error(error.details || error.message);
+  }
+  return data as RefundRow;
+};
@@ -0,0 +1,53 @@
+import { supabase, DeskRow, DeskAttribute } from '../lib/supabase';
+
+export const DESK_ATTRIBUTES: { value: DeskAttribute; label: string }[] = [
+  { value: 'window', label: 'Window' },
+  { value: 'monitor', label: 'Monitor' },
+  { value: 'standing', label: 'Standing' },
+  { value: 'power', label: 'Power outlet' },
+  { value: 'quiet', label: 'Quiet zone' }
+];
+
+export const DEFAULT_DESK_ZONE = 'Main floor';
+
+// What the floor plan shows about a desk
+export type DeskInfo = Pick<DeskRow, 'desk_number' | 'label' | 'zone' | 'attributes'>;
+
+// Desks 1..totalDesks of a workspace type; desks without an inventory row get a default label
+export const getDeskInventory = (desks: DeskRow[], workspaceType: string, totalDesks: number): DeskInfo[] =>
+  Array.from({ length: totalDesks }, (_, index) => {
+    const deskNumber = index + 1;
+    return (
+      desks.find(desk => desk.workspace_type === workspaceType && desk.desk_number === deskNumber) || {
+        desk_number: deskNumber,
+        label: `Desk ${deskNumber}`,
+        zone: DEFAULT_DESK_ZONE,
+        attributes: []
+      }
+    );
+  });
+
+// Desks grouped by zone, zones in order of their first desk
+export const groupDesksByZone = <T extends DeskInfo>(desks: T[]): { zone: string; desks: T[] }[] => {
+  const zones: { zone: string; desks: T[] }[] = [];
+  desks.forEach(desk => {
+    const group = zones.find(z => z.zone === desk.zone);
+    if (group) {
+      group.desks.push(desk);
+    } else {
+      zones.push({ zone: desk.zone, desks: [desk] });
+    }
+  });
+  return zones;
+};
+
+export const fetchDesks = async (): Promise<DeskRow[]> => {
+  const { data, error } = await supabase
+    .from('desks')
+    .select('*')
+    .order('workspace_type', { ascending: true })
+    .order('desk_number', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
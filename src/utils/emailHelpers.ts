@@ -0,0 +1,50 @@
+import { supabase, EmailTemplateEvent, EmailTemplateRow } from '../lib/supabase';
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplateEvent, string> = {
+  booking_created: 'Booking received',
+  code_sent: 'Confirmation code',
+  confirmed: 'Booking confirmed',
+  rejected: 'Booking rejected',
+  cancelled: 'Booking cancelled',
+  reminder: 'Reminder',
+  feedback_requested: 'Feedback request',
+  no_show: 'No-show follow-up'
+};
+
+// What templates can use as {{name}}, filled in by email_placeholders on the server.
+// Placeholders without a value for an email are left out
+export const EMAIL_PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: 'customer_name', description: 'Customer name' },
+  { name: 'customer_email', description: 'Customer email' },
+  { name: 'workspace_type', description: 'Workspace booked' },
+  { name: 'date', description: 'Date, e.g. Monday, 4 August 2025' },
+  { name: 'time_slot', description: 'Time slot' },
+  { name: 'duration', description: 'Duration' },
+  { name: 'desk_number', description: 'Desk number' },
+  { name: 'total', description: 'Total with currency' },
+  { name: 'confirmation_code', description: 'Confirmation code (code email only)' },
+  { name: 'refund_amount', description: 'Refund with currency (cancellation email only)' },
+  { name: 'hours_before', description: 'Hours until the booking starts (reminder only)' },
+  { name: 'booking_id', description: 'Booking reference' },
+  { name: 'site_name', description: 'Site name setting' }
+];
+
+export const fetchEmailTemplates = async (): Promise<EmailTemplateRow[]> => {
+  const { data, error } = await supabase.from('email_templates').select('*');
+
+  if (error) throw error;
+  const order = Object.keys(EMAIL_TEMPLATE_LABELS);
+  return (data || []).sort((a, b) => order.indexOf(a.event) - order.indexOf(b.event));
+};
+
+// Applies to emails queued from now on
+export const saveEmailTemplate = async (
+  template: Pick<EmailTemplateRow, 'id' | 'subject' | 'body' | 'is_enabled'>
+): Promise<void> => {
+  const { error } = await supabase
+    .from('email_templates')
+    .update({ subject: template.subject, body: template.body, is_enabled: template.is_enabled })
+    .eq('id', template.id);
+
+  if (error) throw error;
+};
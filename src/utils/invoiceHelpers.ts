@@ -0,0 +1,84 @@
+import { supabase, InvoiceKind, InvoiceLineRow, InvoiceRow } from '../lib/supabase';
+
+export const INVOICE_KIND_LABELS: Record<InvoiceKind, string> = {
+  invoice: 'Invoice',
+  credit_note: 'Credit Note'
+};
+
+export interface InvoiceWithLines extends InvoiceRow {
+  invoice_lines: InvoiceLineRow[];
+}
+
+export interface BillingDetails {
+  company_name: string;
+  tax_id: string;
+}
+
+// What is left to credit on an invoice after its credit notes
+export const getCreditableAmount = (invoice: InvoiceRow, documents: InvoiceRow[]): number =>
+  invoice.total -
+  documents
+    .filter(document => document.kind === 'credit_note' && document.invoice_id === invoice.id)
+    .reduce((sum, creditNote) => sum + Number(creditNote.total), 0);
+
+export const fetchInvoice = async (invoiceId: string): Promise<InvoiceWithLines> => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*, invoice_lines(*)')
+    .eq('id', invoiceId)
+    .order('position', { referencedTable: 'invoice_lines', ascending: true })
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Invoices and credit notes of the given bookings, oldest first
+export const fetchBookingInvoices = async (bookingIds: string[]): Promise<InvoiceRow[]> => {
+  if (bookingIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .in('booking_id', bookingIds)
+    .order('issued_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchBillingDetails = async (userId: string): Promise<BillingDetails> => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('company_name, tax_id')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+  return { company_name: data?.company_name || '', tax_id: data?.tax_id || '' };
+};
+
+// The signed-in customer's company name and tax ID for future invoices
+export const updateBillingDetails = async ({ company_name, tax_id }: BillingDetails): Promise<void> => {
+  const { error } = await supabase.rpc('update_billing_details', {
+    p_company_name: company_name,
+    p_tax_id: tax_id
+  });
+
+  if (error) {
+    throw new Error(error.details || error.message);
+  }
+};
+
+export const createCreditNote = async (invoiceId: string, amount: number, reason: string): Promise<InvoiceRow> => {
+  const { data, error } = await supabase.rpc('create_credit_note', {
+    p_invoice_id: invoiceId,
+    p_amount: amount,
+    p_reason: reason
+  });
+
+  if (error) {
+    throw new Error(error.details || error.message);
+  }
+  return data as InvoiceRow;
+};
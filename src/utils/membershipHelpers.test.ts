@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CreditLedgerRow } from '../lib/supabase';
+import {
+  describeCreditAllowance,
+  formatCredits,
+  getBookingCreditCost,
+  getCreditBalances,
+  getCreditCoverage,
+  getCreditDayHours,
+  isNextPeriodPaid
+} from './membershipHelpers';
+
+// The helpers under test never reach the database
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const entry = (credit_unit: 'hour' | 'day', amount: number): CreditLedgerRow => ({
+  id: `${credit_unit}-${amount}`,
+  user_id: 'customer',
+  credit_unit,
+  amount,
+  entry_type: amount > 0 ? 'grant' : 'use',
+  membership_id: null,
+  booking_id: null,
+  note: '',
+  created_by: null,
+  created_at: '2025-08-01T00:00:00Z'
+});
+
+describe('getCreditDayHours', () => {
+  it('is as long as the workspace type is open', () => {
+    expect(getCreditDayHours({ opening_time: '08:00', closing_time: '20:00' })).toBe(12);
+    expect(getCreditDayHours({ opening_time: '09:00:00', closing_time: '17:30:00' })).toBe(8.5);
+  });
+
+  it('falls back to the default opening hours', () => {
+    expect(getCreditDayHours(null)).toBe(9);
+  });
+});
+
+describe('getBookingCreditCost', () => {
+  it('charges hour bookings by the hour', () => {
+    expect(getBookingCreditCost('hour', '1-hour', 9)).toBe(1);
+    expect(getBookingCreditCost('hour', '4-hours', 9)).toBe(4);
+  });
+
+  it('charges whole days by the length of the day in hours', () => {
+    expect(getBookingCreditCost('hour', '1-day', 9)).toBe(9);
+    expect(getBookingCreditCost('hour', '1-week', 12)).toBe(84);
+    expect(getBookingCreditCost('hour', '1-month', 8)).toBe(240);
+  });
+
+  it('takes a whole day credit for each day a booking covers', () => {
+    expect(getBookingCreditCost('day', '2-hours', 9)).toBe(1);
+    expect(getBookingCreditCost('day', '1-day', 9)).toBe(1);
+    expect(getBookingCreditCost('day', '1-week', 9)).toBe(7);
+    expect(getBookingCreditCost('day', '1-month', 9)).toBe(30);
+  });
+});
+
+describe('getCreditCoverage', () => {
+  it('uses hour credits before day credits', () => {
+    expect(getCreditCoverage({ hour: 10, day: 5 }, '1-day', 9)).toEqual({ unit: 'hour', cost: 9 });
+    expect(getCreditCoverage({ hour: 8, day: 5 }, '1-day', 9)).toEqual({ unit: 'day', cost: 1 });
+  });
+
+  it('covers every booking of a series or none', () => {
+    expect(getCreditCoverage({ hour: 6, day: 0 }, '2-hours', 9, 3)).toEqual({ unit: 'hour', cost: 6 });
+    expect(getCreditCoverage({ hour: 5, day: 2 }, '2-hours', 9, 3)).toBeNull();
+  });
+});
+
+describe('getCreditBalances', () => {
+  it('sums the ledger per unit', () => {
+    expect(getCreditBalances([entry('hour', 20), entry('hour', -4), entry('day', 2)])).toEqual({ hour: 16, day: 2 });
+    expect(getCreditBalances([])).toEqual({ hour: 0, day: 0 });
+  });
+});
+
+describe('isNextPeriodPaid', () => {
+  it('is true once the membership is paid beyond the current period', () => {
+    expect(isNextPeriodPaid({ current_period_end: '2025-09-01T00:00:00Z', paid_through: '2025-10-01T00:00:00Z' })).toBe(true);
+    expect(isNextPeriodPaid({ current_period_end: '2025-09-01T00:00:00Z', paid_through: '2025-09-01T00:00:00Z' })).toBe(false);
+    expect(isNextPeriodPaid({ current_period_end: '2025-09-01T00:00:00Z', paid_through: null })).toBe(false);
+  });
+});
+
+describe('formatCredits', () => {
+  it('pluralises the unit', () => {
+    expect(formatCredits(1, 'hour')).toBe('1 hour');
+    expect(formatCredits(3, 'day')).toBe('3 days');
+    expect(describeCreditAllowance(20, 'hour', 'month')).toBe('20 hours / month');
+  });
+});
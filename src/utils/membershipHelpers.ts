@@ -0,0 +1,106 @@
+import { supabase, BillingPeriod, CreditEntryType, CreditLedgerRow, CreditUnit, MembershipRow } from '../lib/supabase';
+import { WorkspaceScheduleSource, getWorkspaceSchedule } from './bookingHelpers';
+
+// SQLSTATE raised by the server when a booking cannot be paid with credits
+export const INSUFFICIENT_CREDITS_CODE = 'CR402';
+
+// Thrown when the customer's credits do not cover a booking; the message says why
+export class InsufficientCreditsError extends Error {
+  constructor(message = 'You do not have enough credits for this booking.') {
+    super(message);
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+// Bookings take hour credits before day credits, as pay_booking_with_credits does
+export const CREDIT_UNITS: CreditUnit[] = ['hour', 'day'];
+
+export const CREDIT_ENTRY_LABELS: Record<CreditEntryType, string> = {
+  grant: 'Granted',
+  use: 'Used',
+  refund: 'Refunded',
+  adjustment: 'Adjusted',
+  expiry: 'Expired'
+};
+
+export type CreditBalances = Record<CreditUnit, number>;
+
+// e.g. "1 hour", "3 days"
+export const formatCredits = (amount: number, unit: CreditUnit): string =>
+  `${amount} ${unit}${Math.abs(amount) === 1 ? '' : 's'}`;
+
+// e.g. "20 hours / month"
+export const describeCreditAllowance = (amount: number, unit: CreditUnit, billingPeriod: BillingPeriod): string =>
+  `${formatCredits(amount, unit)} / ${billingPeriod}`;
+
+// Hours a day credit stands for: as long as the workspace type is open
+export const getCreditDayHours = (workspace?: WorkspaceScheduleSource | null): number => {
+  const { openingMinutes, closingMinutes } = getWorkspaceSchedule(workspace);
+  return (closingMinutes - openingMinutes) / 60;
+};
+
+// Credits one booking takes: a day is dayHours hours, a week 7 days and a month 30.
+// Mirrors booking_credit_cost on the server
+export const getBookingCreditCost = (unit: CreditUnit, duration: string, dayHours: number): number => {
+  const days = duration === '1-week' ? 7 : duration === '1-month' ? 30 : 1;
+  if (unit === 'day') return days;
+
+  const hours: Record<string, number> = { '1-hour': 1, '2-hours': 2, '4-hours': 4 };
+  return hours[duration] ?? days * dayHours;
+};
+
+// Whether the period after the current one has been paid for, so it renews when this one ends
+export const isNextPeriodPaid = (membership: Pick<MembershipRow, 'current_period_end' | 'paid_through'>): boolean =>
+  !!membership.current_period_end && !!membership.paid_through && membership.paid_through > membership.current_period_end;
+
+export const getCreditBalances = (entries: CreditLedgerRow[]): CreditBalances =>
+  entries.reduce<CreditBalances>(
+    (balances, entry) => ({ ...balances, [entry.credit_unit]: balances[entry.credit_unit] + Number(entry.amount) }),
+    { hour: 0, day: 0 }
+  );
+
+// The credits that would pay for a number of bookings of a duration, or null when the balance is too low
+export const getCreditCoverage = (
+  balances: CreditBalances,
+  duration: string,
+  dayHours: number,
+  bookingCount = 1
+): { unit: CreditUnit; cost: number } | null => {
+  for (const unit of CREDIT_UNITS) {
+    const cost = getBookingCreditCost(unit, duration, dayHours) * bookingCount;
+    if (balances[unit] >= cost) return { unit, cost };
+  }
+  return null;
+};
+
+export const fetchCreditLedger = async (userId: string): Promise<CreditLedgerRow[]> => {
+  const { data, error } = await supabase
+    .from('credit_ledger')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The customer's pending or active membership, if any
+export const fetchOpenMembership = async (userId: string): Promise<MembershipRow | null> => {
+  const { data, error } = await supabase
+    .from('memberships')
+    .select('*')
+    .eq('user_id', userId)
+    .in('status', ['pending', 'active'])
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const subscribeToPlan = async (planId: string): Promise<MembershipRow> => {
+  const { data, error } = await supabase.rpc('subscribe_to_plan', { p_plan_id: planId });
+  if (error) {
+    throw new Error(error.details || error.message);
+  }
+  return data as MembershipRow;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { formatMoney, formatSecondaryPrice, getCurrencySymbol } from './moneyHelpers';
+
+// The helpers under test never reach the database
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+describe('formatMoney', () => {
+  it('drops the decimals of whole amounts only', () => {
+    expect(formatMoney(150, 'USD', 'en-US')).toBe('$150');
+    expect(formatMoney(99.5, 'USD', 'en-US')).toBe('$99.50');
+    expect(formatMoney(12.345, 'USD', 'en-US')).toBe('$12.35');
+  });
+
+  it('uses the narrow symbol of the currency', () => {
+    expect(formatMoney(150, 'EGP', 'en-US')).toBe('E£150');
+  });
+
+  it('reads amounts the database returns as strings', () => {
+    expect(formatMoney('99.50', 'USD', 'en-US')).toBe('$99.50');
+    expect(formatMoney('not a number', 'USD', 'en-US')).toBe('$0');
+  });
+
+  it('falls back to the code for currencies Intl does not know', () => {
+    expect(formatMoney(10, 'GOLD', 'en-US')).toBe('GOLD 10');
+  });
+});
+
+describe('getCurrencySymbol', () => {
+  it('returns the symbol without the amount', () => {
+    expect(getCurrencySymbol('EGP', 'en-US')).toBe('E£');
+    expect(getCurrencySymbol('USD', 'en-US')).toBe('$');
+  });
+});
+
+describe('formatSecondaryPrice', () => {
+  it('shows the listed price in the secondary currency', () => {
+    expect(formatSecondaryPrice({ secondary_price: 3, price_unit: 'day' }, 'USD')).toBe(`≈ ${formatMoney(3, 'USD')}/day`);
+  });
+
+  it('returns null without a secondary currency or price', () => {
+    expect(formatSecondaryPrice({ secondary_price: 3, price_unit: 'day' }, null)).toBeNull();
+    expect(formatSecondaryPrice({ secondary_price: null, price_unit: 'day' }, 'USD')).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { supabase } from '../lib/supabase';
+
+// Currency of bookings made before currencies were configurable; mirrors site_currency() on the server
+export const DEFAULT_CURRENCY = 'EGP';
+
+export interface CurrencySettings {
+  currency: string;
+  // Extra currency workspace prices are shown in, or null when not configured
+  secondaryCurrency: string | null;
+}
+
+// e.g. "E£150", "E£99.50" or "$12" in the visitor's locale. Whole amounts drop the decimals
+export const formatMoney = (amount: number | string, currency: string = DEFAULT_CURRENCY, locale?: string): string => {
+  const value = Number(amount) || 0;
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      currencyDisplay: 'narrowSymbol',
+      minimumFractionDigits: Number.isInteger(value) ? 0 : 2,
+      maximumFractionDigits: 2
+    }).format(value);
+  } catch {
+    // Not an ISO 4217 code
+    return `${currency} ${value}`;
+  }
+};
+
+// The symbol alone, e.g. for an input prefix
+export const getCurrencySymbol = (currency: string = DEFAULT_CURRENCY, locale?: string): string =>
+  formatMoney(0, currency, locale).replace(/[\d\s.,]/g, '') || currency;
+
+// A workspace type's listed price in the secondary currency, e.g. "≈ $3/day", or null when it has none.
+// Shown for international visitors only; bookings are charged in the main currency
+export const formatSecondaryPrice = (
+  workspace: { secondary_price?: number | null; price_unit: string },
+  secondaryCurrency: string | null
+): string | null =>
+  secondaryCurrency && workspace.secondary_price != null
+    ? `≈ ${formatMoney(workspace.secondary_price, secondaryCurrency)}/${workspace.price_unit}`
+    : null;
+
+export const fetchCurrencySettings = async (): Promise<CurrencySettings> => {
+  const { data, error } = await supabase
+    .from('site_settings')
+    .select('key, value')
+    .in('key', ['currency', 'secondary_currency']);
+
+  if (error) throw error;
+
+  const value = (key: string) => (data || []).find(setting => setting.key === key)?.value?.trim().toUpperCase() || '';
+  return {
+    currency: value('currency') || DEFAULT_CURRENCY,
+    secondaryCurrency: value('secondary_currency') || null
+  };
+};
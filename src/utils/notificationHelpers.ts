@@ -0,0 +1,176 @@
+import {
+  supabase,
+  BookingAddOnRow,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationOutboxRow,
+  PaymentRow
+} from '../lib/supabase';
+
+// Bumped whenever a payload changes shape, so the receiver can tell old and new notifications apart.
+// Notifications are built on the server, by notify_booking_change and friends, and must match these types
+export const NOTIFICATION_VERSION = 1;
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  booking_created: 'Booking created',
+  code_sent: 'Confirmation code',
+  confirmed: 'Booking confirmed',
+  rejected: 'Booking rejected',
+  cancelled: 'Booking cancelled',
+  client_created: 'Client account created',
+  waitlist_hold_offered: 'Waitlist desk offered',
+  reminder: 'Booking reminder',
+  feedback_requested: 'Feedback request',
+  no_show: 'No-show follow-up'
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  whatsapp: 'WhatsApp',
+  email: 'Email'
+};
+
+export interface NotificationCustomer {
+  name: string;
+  email: string;
+  whatsapp: string;
+  phone: string;
+  // How the customer wants to be told; absent for new clients, who get both
+  channels?: NotificationChannel[];
+}
+
+export interface NotificationBooking {
+  id: string;
+  workspace_type: string;
+  date: string;
+  time_slot: string;
+  duration: string;
+  desk_number: number | null;
+  total_price: number;
+  net_amount: number;
+  tax_amount: number;
+  currency: string;
+  add_ons: Pick<BookingAddOnRow, 'name' | 'quantity' | 'unit_price' | 'price_unit' | 'line_total'>[];
+}
+
+// All bookings of a recurring series, sent with the first one
+export interface NotificationSeries {
+  id: string | null;
+  booking_ids: string[];
+  dates: string[];
+}
+
+// Who did it: the customer themselves, or an admin by name
+export interface NotificationActor {
+  role: 'customer' | 'admin';
+  name: string;
+}
+
+export interface NotificationPayloads {
+  booking_created: {
+    booking: NotificationBooking;
+    customer: NotificationCustomer;
+    created_by: NotificationActor;
+    series?: NotificationSeries;
+  };
+  code_sent: {
+    booking: NotificationBooking;
+    customer: NotificationCustomer;
+    confirmation_code: string;
+  };
+  confirmed: {
+    booking: NotificationBooking;
+    customer: NotificationCustomer;
+    // `code` when the customer entered the code sent to them, `payment` when they paid online
+    confirmed_by: 'code' | 'payment';
+    payment?: Pick<PaymentRow, 'provider' | 'provider_ref' | 'amount'>;
+  };
+  rejected: {
+    booking: NotificationBooking;
+    customer: NotificationCustomer;
+    rejected_by: NotificationActor;
+  };
+  cancelled: {
+    booking: NotificationBooking;
+    customer: NotificationCustomer;
+    cancelled_by: NotificationActor;
+    refund_amount: number;
+  };
+  client_created: {
+    client: NotificationCustomer & { id: string };
+    // Sent so the client can sign in; they are asked to change it. Removed from the stored
+    // notification once every endpoint has it, so later resends go out without it
+    temporary_password?: string;
+    created_by: NotificationActor;
+  };
+  waitlist_hold_offered: {
+    booking: NotificationBooking;
+    customer: NotificationCustomer;
+    freed_booking_id: string;
+    hold_expires_at: string | null;
+  };
+  // Sent by the reminder schedule, once per reminder_lead_hours lead time
+  reminder: {
+    booking: NotificationBooking;
+    customer: NotificationCustomer;
+    hours_before: number;
+  };
+  // follow_up_delay_hours after a confirmed booking ends: feedback_requested when the customer
+  // came, no_show when an admin marked them as not coming
+  feedback_requested: {
+    booking: NotificationBooking;
+    customer: NotificationCustomer;
+  };
+  no_show: {
+    booking: NotificationBooking;
+    customer: NotificationCustomer;
+    no_show_at: string;
+  };
+}
+
+export interface Notification<E extends NotificationEvent = NotificationEvent> {
+  version: typeof NOTIFICATION_VERSION;
+  id: string;
+  event: E;
+  occurred_at: string;
+  data: NotificationPayloads[E];
+}
+
+// Queue the new client's credentials. Throws when the notification could not be queued; the
+// account itself already exists by then
+export const notifyClientCreated = async (
+  clientId: string,
+  temporaryPassword: string,
+  phone = ''
+): Promise<NotificationOutboxRow> => {
+  const { data, error } = await supabase.rpc('notify_client_created', {
+    p_client_id: clientId,
+    p_temporary_password: temporaryPassword,
+    p_phone: phone
+  });
+
+  if (error) {
+    throw new Error(error.details || error.message);
+  }
+  return data as NotificationOutboxRow;
+};
+
+export const fetchNotificationChannels = async (userId: string): Promise<NotificationChannel[]> => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('notification_channels')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+  return data?.notification_channels || ['whatsapp', 'email'];
+};
+
+// The signed-in customer's channels; at least one is required
+export const updateNotificationChannels = async (channels: NotificationChannel[]): Promise<NotificationChannel[]> => {
+  const { data, error } = await supabase.rpc('update_notification_channels', { p_channels: channels });
+
+  if (error) {
+    throw new Error(error.details || error.message);
+  }
+  return data as NotificationChannel[];
+};
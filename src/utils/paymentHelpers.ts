@@ -0,0 +1,101 @@
+import { supabase, PaymentRow, PaymentStatus } from '../lib/supabase';
+
+// `manual` is the transfer and confirmation code flow; every other name is a PaymentProvider
+export type PaymentProviderName = 'manual' | 'fake';
+
+export interface PaymentIntent {
+  payment: PaymentRow;
+  // Where the customer completes the payment: an app route or a provider's hosted page
+  redirectUrl: string;
+}
+
+// What a provider sends back to the return URL, e.g. from the query string
+export type PaymentCallbackParams = Record<string, string>;
+
+// A payment gateway. Providers record every step through the payment RPCs so the
+// booking is confirmed on the server when a payment succeeds
+export interface PaymentProvider {
+  name: Exclude<PaymentProviderName, 'manual'>;
+  createIntent: (bookingId: string) => Promise<PaymentIntent>;
+  handleCallback: (params: PaymentCallbackParams) => Promise<PaymentRow>;
+  refund: (payment: PaymentRow, amount?: number) => Promise<PaymentRow>;
+  getStatus: (paymentId: string) => Promise<PaymentStatus>;
+}
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  requires_payment: 'Awaiting payment',
+  succeeded: 'Paid',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded'
+};
+
+const rpcOrThrow = async <T>(fn: string, params: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.rpc(fn, params);
+  if (error) {
+    throw new Error(error.details || error.message);
+  }
+  return data as T;
+};
+
+export const fetchPayment = async (paymentId: string): Promise<PaymentRow> => {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('id', paymentId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchBookingPayments = async (bookingId: string): Promise<PaymentRow[]> => {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Local stand-in for a hosted checkout: the customer is sent to /payment/fake and
+// picks the outcome there. Refunds always succeed
+export const fakePaymentProvider: PaymentProvider = {
+  name: 'fake',
+
+  createIntent: async (bookingId) => {
+    const payment = await rpcOrThrow<PaymentRow>('create_payment_intent', {
+      p_booking_id: bookingId,
+      p_provider: 'fake'
+    });
+    return { payment, redirectUrl: `/payment/fake?paymentId=${payment.id}` };
+  },
+
+  handleCallback: async ({ paymentId, outcome }) => {
+    const succeeded = outcome === 'succeeded';
+    return rpcOrThrow<PaymentRow>('settle_payment', {
+      p_payment_id: paymentId,
+      p_succeeded: succeeded,
+      p_provider_ref: `fake_${crypto.randomUUID()}`,
+      p_failure_reason: succeeded ? null : 'Declined by the fake gateway'
+    });
+  },
+
+  refund: async (payment, amount) =>
+    rpcOrThrow<PaymentRow>('refund_payment', {
+      p_payment_id: payment.id,
+      p_amount: amount ?? null
+    }),
+
+  getStatus: async (paymentId) => (await fetchPayment(paymentId)).status
+};
+
+const PAYMENT_PROVIDERS: Record<PaymentProvider['name'], PaymentProvider> = {
+  fake: fakePaymentProvider
+};
+
+// The provider for the `payment_provider` site setting, or null for the manual flow
+export const getPaymentProvider = (name: string): PaymentProvider | null =>
+  PAYMENT_PROVIDERS[name as PaymentProvider['name']] ?? null;
@@ -0,0 +1,99 @@
+import { supabase, PaymentProofRow, PaymentProofStatus } from '../lib/supabase';
+
+export const PAYMENT_PROOF_BUCKET = 'payment-proofs';
+
+// Screenshots and PDF receipts up to 5 MB
+export const PAYMENT_PROOF_ACCEPT = 'image/*,application/pdf';
+export const MAX_PAYMENT_PROOF_BYTES = 5 * 1024 * 1024;
+
+export const PAYMENT_PROOF_STATUS_LABELS: Record<PaymentProofStatus, string> = {
+  submitted: 'Awaiting review',
+  approved: 'Payment approved',
+  rejected: 'Payment rejected'
+};
+
+// The proof that decides a booking's payment state: the newest one
+export const getLatestPaymentProof = (proofs: PaymentProofRow[] = []): PaymentProofRow | null =>
+  proofs.reduce<PaymentProofRow | null>(
+    (latest, proof) => (!latest || proof.created_at > latest.created_at ? proof : latest),
+    null
+  );
+
+// Customers can send a proof until one is submitted or approved
+export const canSubmitPaymentProof = (proofs: PaymentProofRow[]): boolean =>
+  getLatestPaymentProof(proofs)?.status !== 'submitted' && !proofs.some(proof => proof.status === 'approved');
+
+export const fetchPaymentProofs = async (bookingId: string): Promise<PaymentProofRow[]> => {
+  const { data, error } = await supabase
+    .from('payment_proofs')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Upload the transfer screenshot under the customer's folder and record it against the booking
+export const submitPaymentProof = async (
+  bookingId: string,
+  userId: string,
+  file: File,
+  referenceNumber: string
+): Promise<PaymentProofRow> => {
+  if (file.size > MAX_PAYMENT_PROOF_BYTES) {
+    throw new Error('The file is too large. Please upload a file under 5 MB.');
+  }
+
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const filePath = `${userId}/${bookingId}/${Date.now()}-${safeName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(PAYMENT_PROOF_BUCKET)
+    .upload(filePath, file, { contentType: file.type });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('payment_proofs')
+    .insert({
+      booking_id: bookingId,
+      user_id: userId,
+      file_path: filePath,
+      reference_number: referenceNumber.trim()
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Short-lived link to a proof in the private bucket
+export const getPaymentProofUrl = async (filePath: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(PAYMENT_PROOF_BUCKET)
+    .createSignedUrl(filePath, 10 * 60);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const verifyPaymentProof = async (
+  proofId: string,
+  approved: boolean,
+  amountReceived: number | null,
+  note = ''
+): Promise<PaymentProofRow> => {
+  const { data, error } = await supabase.rpc('verify_payment_proof', {
+    p_proof_id: proofId,
+    p_approved: approved,
+    p_amount_received: amountReceived,
+    p_note: note
+  });
+
+  if (error) {
+    throw new Error(error.details || error.message);
+  }
+  return data as PaymentProofRow;
+};
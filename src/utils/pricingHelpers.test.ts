@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { WorkspaceRateRow } from '../lib/supabase';
+import { getBookingPrice, getDurationLabel, getPricedDurations } from './pricingHelpers';
+
+// The helpers under test never reach the database
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const rate = (workspace_type: string, duration: string, price: number): WorkspaceRateRow => ({
+  id: `${workspace_type}-${duration}`,
+  workspace_type,
+  duration,
+  price,
+  created_at: '2025-08-01T00:00:00Z',
+  updated_at: '2025-08-01T00:00:00Z'
+});
+
+const rates = [
+  rate('Hot Desk', '1-hour', 50),
+  rate('Hot Desk', '1-day', 300),
+  rate('Private Office', '1-month', 9000)
+];
+
+describe('getBookingPrice', () => {
+  it('returns the rate of the workspace type and duration', () => {
+    expect(getBookingPrice(rates, 'Hot Desk', '1-hour')).toBe(50);
+    expect(getBookingPrice(rates, 'Private Office', '1-month')).toBe(9000);
+  });
+
+  it('returns null when the workspace type has no rate for the duration', () => {
+    expect(getBookingPrice(rates, 'Hot Desk', '1-week')).toBeNull();
+    expect(getBookingPrice(rates, 'Meeting Room', '1-hour')).toBeNull();
+  });
+
+  it('keeps a free rate apart from a missing one', () => {
+    expect(getBookingPrice([rate('Hot Desk', '1-hour', 0)], 'Hot Desk', '1-hour')).toBe(0);
+  });
+
+  it('reads prices the database returns as strings', () => {
+    const fromDatabase = { ...rate('Hot Desk', '2-hours', 0), price: '95.50' as unknown as number };
+
+    expect(getBookingPrice([fromDatabase], 'Hot Desk', '2-hours')).toBe(95.5);
+  });
+});
+
+describe('getPricedDurations', () => {
+  it('lists the durations with a rate, shortest first', () => {
+    expect(getPricedDurations(rates, 'Hot Desk').map(d => d.value)).toEqual(['1-hour', '1-day']);
+    expect(getPricedDurations(rates, 'Meeting Room')).toEqual([]);
+  });
+});
+
+describe('getDurationLabel', () => {
+  it('labels known durations and passes others through', () => {
+    expect(getDurationLabel('4-hours')).toBe('4 Hours');
+    expect(getDurationLabel('3-days')).toBe('3-days');
+  });
+});
@@ -0,0 +1,55 @@
+import { supabase, WorkspaceRateRow } from '../lib/supabase';
+
+// Durations a booking can have, shortest first; each workspace type prices them in workspace_rates
+export const BOOKING_DURATIONS: { value: string; label: string }[] = [
+  { value: '1-hour', label: '1 Hour' },
+  { value: '2-hours', label: '2 Hours' },
+  { value: '4-hours', label: '4 Hours' },
+  { value: '1-day', label: '1 Day' },
+  { value: '1-week', label: '1 Week' },
+  { value: '1-month', label: '1 Month' }
+];
+
+export const getDurationLabel = (duration: string): string =>
+  BOOKING_DURATIONS.find(d => d.value === duration)?.label || duration;
+
+// Price of one booking, or null when the workspace type has no rate for the duration.
+// Mirrors booking_price on the server, which sets total_price on every booking
+export const getBookingPrice = (rates: WorkspaceRateRow[], workspaceType: string, duration: string): number | null => {
+  const rate = rates.find(r => r.workspace_type === workspaceType && r.duration === duration);
+  return rate ? Number(rate.price) : null;
+};
+
+// Durations the workspace type has a rate for
+export const getPricedDurations = (rates: WorkspaceRateRow[], workspaceType: string) =>
+  BOOKING_DURATIONS.filter(d => getBookingPrice(rates, workspaceType, d.value) !== null);
+
+export const fetchWorkspaceRates = async (): Promise<WorkspaceRateRow[]> => {
+  const { data, error } = await supabase
+    .from('workspace_rates')
+    .select('*')
+    .order('workspace_type', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Duration priced by a workspace type's listed price_unit
+const PRICE_UNIT_DURATIONS: Record<string, string> = {
+  hour: '1-hour',
+  day: '1-day',
+  week: '1-week',
+  month: '1-month'
+};
+
+// Give a new workspace type its listed price as the rate of the matching duration, so it can be booked at once
+export const saveListedRate = async (workspaceType: string, price: number, priceUnit: string): Promise<void> => {
+  const duration = PRICE_UNIT_DURATIONS[priceUnit];
+  if (!duration) return;
+
+  const { error } = await supabase
+    .from('workspace_rates')
+    .upsert({ workspace_type: workspaceType, duration, price }, { onConflict: 'workspace_type,duration' });
+
+  if (error) throw error;
+};
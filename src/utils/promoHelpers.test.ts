@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { formatMoney } from './moneyHelpers';
+import { PromoCodeError, describePromoDiscount } from './promoHelpers';
+
+// The helpers under test never reach the database
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+describe('describePromoDiscount', () => {
+  it('shows percentage codes as a percentage', () => {
+    expect(describePromoDiscount({ discount_type: 'percent', discount_value: 20 })).toBe('20% off');
+  });
+
+  it('shows fixed codes as an amount in the booking currency', () => {
+    expect(describePromoDiscount({ discount_type: 'fixed', discount_value: 50 }, 'USD')).toBe(`${formatMoney(50, 'USD')} off`);
+    expect(describePromoDiscount({ discount_type: 'fixed', discount_value: 50 })).toBe(`${formatMoney(50, 'EGP')} off`);
+  });
+});
+
+describe('PromoCodeError', () => {
+  it('carries the reason the server gave', () => {
+    const error = new PromoCodeError('This promo code has expired.');
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('PromoCodeError');
+    expect(error.message).toBe('This promo code has expired.');
+  });
+
+  it('falls back to a generic reason', () => {
+    expect(new PromoCodeError().message).toBe('This promo code cannot be used.');
+  });
+});
@@ -0,0 +1,48 @@
+import { supabase, PromoCodeRow } from '../lib/supabase';
+import { DEFAULT_CURRENCY, formatMoney } from './moneyHelpers';
+
+// SQLSTATE raised by the server when a promo code cannot be used
+export const PROMO_CODE_ERROR_CODE = 'PR422';
+
+// Thrown when the server refuses a promo code; the message says why
+export class PromoCodeError extends Error {
+  constructor(message = 'This promo code cannot be used.') {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+// A valid code and what one booking costs with it, as returned by check_promo_code
+export interface PromoQuote {
+  promo_code_id: string;
+  code: string;
+  description: string;
+  discount_amount: number;
+  total_price: number;
+}
+
+// e.g. "20% off" or "E£50 off"
+export const describePromoDiscount = (
+  promo: Pick<PromoCodeRow, 'discount_type' | 'discount_value'>,
+  currency: string = DEFAULT_CURRENCY
+): string =>
+  promo.discount_type === 'percent' ? `${promo.discount_value}% off` : `${formatMoney(promo.discount_value, currency)} off`;
+
+// Check a code for the signed-in customer against one booking of a workspace type and duration
+export const checkPromoCode = async (code: string, workspaceType: string, duration: string): Promise<PromoQuote> => {
+  const { data, error } = await supabase.rpc('check_promo_code', {
+    p_code: code,
+    p_workspace_type: workspaceType,
+    p_duration: duration
+  });
+
+  if (error) {
+    if (error.code === PROMO_CODE_ERROR_CODE) {
+      throw new PromoCodeError(error.details || undefined);
+    }
+    throw error;
+  }
+
+  const quote = (data as PromoQuote[])[0];
+  return { ...quote, discount_amount: Number(quote.discount_amount), total_price: Number(quote.total_price) };
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  MAX_SERIES_OCCURRENCES,
+  RecurrenceRule,
+  canRepeatDuration,
+  createRecurrenceRule,
+  describeRecurrence,
+  getOccurrenceDates,
+  getRecurrenceParams
+} from './recurrenceHelpers';
+
+// The helpers under test never reach the database
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+// A Monday
+const MONDAY = '2025-08-04';
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({ ...createRecurrenceRule(MONDAY), ...overrides });
+
+describe('createRecurrenceRule', () => {
+  it('repeats weekly on the start date\'s day, four times', () => {
+    expect(createRecurrenceRule(MONDAY)).toEqual({
+      frequency: 'weekly',
+      weekdays: [1],
+      endType: 'count',
+      untilDate: '2025-09-01',
+      count: 4
+    });
+  });
+});
+
+describe('getOccurrenceDates', () => {
+  it('lists a weekly series up to its count', () => {
+    expect(getOccurrenceDates(MONDAY, rule({}))).toEqual(['2025-08-04', '2025-08-11', '2025-08-18', '2025-08-25']);
+  });
+
+  it('skips weekends for weekday series', () => {
+    expect(getOccurrenceDates('2025-08-08', rule({ frequency: 'weekdays', count: 4 }))).toEqual([
+      '2025-08-08',
+      '2025-08-11',
+      '2025-08-12',
+      '2025-08-13'
+    ]);
+  });
+
+  it('stops at the until date, including it', () => {
+    const tuesdaysAndThursdays = rule({ weekdays: [2, 4], endType: 'until', untilDate: '2025-08-14' });
+
+    expect(getOccurrenceDates(MONDAY, tuesdaysAndThursdays)).toEqual(['2025-08-05', '2025-08-07', '2025-08-12', '2025-08-14']);
+  });
+
+  it('caps long series', () => {
+    expect(getOccurrenceDates(MONDAY, rule({ count: 100 }))).toHaveLength(MAX_SERIES_OCCURRENCES);
+    expect(getOccurrenceDates(MONDAY, rule({ endType: 'until', untilDate: '2027-01-01' }))).toHaveLength(MAX_SERIES_OCCURRENCES);
+  });
+
+  it('returns nothing without a start date, weekdays or until date', () => {
+    expect(getOccurrenceDates('', rule({}))).toEqual([]);
+    expect(getOccurrenceDates(MONDAY, rule({ weekdays: [] }))).toEqual([]);
+    expect(getOccurrenceDates(MONDAY, rule({ endType: 'until', untilDate: '' }))).toEqual([]);
+  });
+});
+
+describe('canRepeatDuration', () => {
+  it('repeats hour and day bookings only', () => {
+    expect(canRepeatDuration('2-hours')).toBe(true);
+    expect(canRepeatDuration('1-day')).toBe(true);
+    expect(canRepeatDuration('1-week')).toBe(false);
+    expect(canRepeatDuration('')).toBe(false);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('names the days and the count', () => {
+    expect(describeRecurrence(rule({ weekdays: [4, 2], count: 10 }))).toBe('Every Tue, Thu, 10 times');
+    expect(describeRecurrence(rule({ frequency: 'weekdays' }))).toBe('Every weekday, 4 times');
+  });
+});
+
+describe('getRecurrenceParams', () => {
+  it('stores the weekdays and whichever end the rule uses', () => {
+    expect(getRecurrenceParams(rule({ frequency: 'weekdays' }))).toEqual({
+      p_frequency: 'weekdays',
+      p_weekdays: [1, 2, 3, 4, 5],
+      p_until_date: null,
+      p_occurrence_count: 4
+    });
+    expect(getRecurrenceParams(rule({ endType: 'until' }))).toEqual({
+      p_frequency: 'weekly',
+      p_weekdays: [1],
+      p_until_date: '2025-09-01',
+      p_occurrence_count: null
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { supabase, RecurrenceFrequency } from '../lib/supabase';
+import { addDays, isMultiDayDuration } from './bookingHelpers';
+
+// Most occurrences one series can book
+export const MAX_SERIES_OCCURRENCES = 52;
+
+// Days of the week as stored on booking_series, 0 is Sunday
+export const WEEKDAY_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' }
+];
+
+const WORKING_WEEKDAYS = [1, 2, 3, 4, 5];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  weekdays: number[]; // Used by weekly series
+  endType: 'until' | 'count';
+  untilDate: string;
+  count: number;
+}
+
+// A date of a series that cannot be booked, as returned by booking_series_conflicts
+export interface SeriesConflict {
+  conflict_date: string;
+  reason: string;
+}
+
+const getWeekday = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Weekly on the start date's day, four times
+export const createRecurrenceRule = (startDate: string): RecurrenceRule => ({
+  frequency: 'weekly',
+  weekdays: startDate ? [getWeekday(startDate)] : [],
+  endType: 'count',
+  untilDate: startDate ? addDays(startDate, 28) : '',
+  count: 4
+});
+
+// Hour and single-day bookings can repeat; weekly and monthly bookings already span many days
+export const canRepeatDuration = (duration: string): boolean => !!duration && !isMultiDayDuration(duration);
+
+const getRuleWeekdays = (rule: RecurrenceRule): number[] =>
+  rule.frequency === 'weekdays' ? WORKING_WEEKDAYS : rule.weekdays;
+
+// Dates from startDate on that match the rule, up to its end and MAX_SERIES_OCCURRENCES
+export const getOccurrenceDates = (startDate: string, rule: RecurrenceRule): string[] => {
+  const weekdays = getRuleWeekdays(rule);
+  if (!startDate || weekdays.length === 0) return [];
+
+  const limit = rule.endType === 'count' ? Math.min(rule.count, MAX_SERIES_OCCURRENCES) : MAX_SERIES_OCCURRENCES;
+  const dates: string[] = [];
+
+  for (let date = startDate; dates.length < limit; date = addDays(date, 1)) {
+    if (rule.endType === 'until' && (!rule.untilDate || date > rule.untilDate)) break;
+    if (weekdays.includes(getWeekday(date))) {
+      dates.push(date);
+    }
+    // A year covers every weekly pattern MAX_SERIES_OCCURRENCES can reach
+    if (date >= addDays(startDate, 366)) break;
+  }
+
+  return dates;
+};
+
+// e.g. "Every Tue, Thu until Aug 30, 2025" or "Every weekday, 10 times"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const days = rule.frequency === 'weekdays'
+    ? 'weekday'
+    : WEEKDAY_OPTIONS.filter(d => rule.weekdays.includes(d.value)).map(d => d.label).join(', ');
+  const end = rule.endType === 'until'
+    ? `until ${new Date(`${rule.untilDate}T00:00:00`).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}`
+    : `${rule.count} times`;
+  return `Every ${days}, ${end}`;
+};
+
+// Parameters create_booking_series stores on the series row
+export const getRecurrenceParams = (rule: RecurrenceRule) => ({
+  p_frequency: rule.frequency,
+  p_weekdays: getRuleWeekdays(rule),
+  p_until_date: rule.endType === 'until' ? rule.untilDate : null,
+  p_occurrence_count: rule.endType === 'count' ? rule.count : null
+});
+
+// Dates of a series that cannot be booked, checked on the server against opening hours and desks
+export const fetchSeriesConflicts = async (
+  workspaceType: string,
+  dates: string[],
+  startTime: string,
+  duration: string
+): Promise<SeriesConflict[]> => {
+  const { data, error } = await supabase.rpc('booking_series_conflicts', {
+    p_workspace_type: workspaceType,
+    p_dates: dates,
+    p_start_time: startTime,
+    p_duration: duration
+  });
+
+  if (error) throw error;
+  return (data || []) as SeriesConflict[];
+};
@@ -0,0 +1,100 @@
+import { supabase, OpeningHoursRow, ScheduleOverrideRow, ClosureRow } from '../lib/supabase';
+import {
+  WorkspaceSchedule,
+  WorkspaceScheduleSource,
+  getWorkspaceSchedule,
+  generateTimeSlots,
+  formatTimeOfDay,
+  parseTimeOfDay
+} from './bookingHelpers';
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Weekly hours, date overrides and closures that decide when bookings can be made
+export interface ScheduleCalendar {
+  openingHours: OpeningHoursRow[];
+  overrides: ScheduleOverrideRow[];
+  closures: ClosureRow[];
+}
+
+// Resolved site hours of one date; null times keep each workspace type's own hours
+export interface DayHours {
+  isOpen: boolean;
+  opensAt: string | null;
+  closesAt: string | null;
+  reason: string | null;
+}
+
+export const EMPTY_SCHEDULE_CALENDAR: ScheduleCalendar = { openingHours: [], overrides: [], closures: [] };
+
+// Day of the week of a YYYY-MM-DD date, 0 = Sunday
+export const getWeekday = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Resolve a date's hours: closures win over overrides, which win over the weekly hours
+export const getDayHours = (date: string, calendar: ScheduleCalendar): DayHours => {
+  const closure = calendar.closures.find(c => c.start_date <= date && c.end_date >= date);
+  if (closure) {
+    return { isOpen: false, opensAt: null, closesAt: null, reason: closure.reason };
+  }
+
+  const override = calendar.overrides.find(o => o.date === date);
+  if (override) {
+    return { isOpen: override.is_open, opensAt: override.opens_at, closesAt: override.closes_at, reason: override.reason };
+  }
+
+  const weekly = calendar.openingHours.find(h => h.weekday === getWeekday(date));
+  if (weekly) {
+    return { isOpen: weekly.is_open, opensAt: weekly.opens_at, closesAt: weekly.closes_at, reason: null };
+  }
+
+  return { isOpen: true, opensAt: null, closesAt: null, reason: null };
+};
+
+export const isDateClosed = (date: string, calendar: ScheduleCalendar): boolean => !getDayHours(date, calendar).isOpen;
+
+// Schedule of a workspace type on a date: its own hours narrowed to the site hours, no slots when closed
+export const getWorkspaceScheduleForDate = (
+  workspace: WorkspaceScheduleSource | null | undefined,
+  date: string,
+  calendar: ScheduleCalendar
+): WorkspaceSchedule => {
+  const schedule = getWorkspaceSchedule(workspace);
+  const dayHours = getDayHours(date, calendar);
+
+  if (!dayHours.isOpen) {
+    return { ...schedule, timeSlots: [] };
+  }
+
+  if (!dayHours.opensAt || !dayHours.closesAt) {
+    return schedule;
+  }
+
+  const opening = Math.max(schedule.openingMinutes, parseTimeOfDay(dayHours.opensAt) ?? 0);
+  const closing = Math.min(schedule.closingMinutes, parseTimeOfDay(dayHours.closesAt) ?? 24 * 60);
+
+  return {
+    ...schedule,
+    openingMinutes: opening,
+    closingMinutes: closing,
+    timeSlots: generateTimeSlots(formatTimeOfDay(opening), formatTimeOfDay(closing), schedule.slotMinutes)
+  };
+};
+
+// Fetch the weekly hours, plus overrides and closures touching date..endDate
+export const fetchScheduleCalendar = async (date: string, endDate: string): Promise<ScheduleCalendar> => {
+  const [openingHours, overrides, closures] = await Promise.all([
+    supabase.from('opening_hours').select('*').order('weekday', { ascending: true }),
+    supabase.from('schedule_overrides').select('*').gte('date', date).lte('date', endDate).order('date', { ascending: true }),
+    supabase.from('closures').select('*').lte('start_date', endDate).gte('end_date', date).order('start_date', { ascending: true })
+  ]);
+
+  if (openingHours.error) throw openingHours.error;
+  if (overrides.error) throw overrides.error;
+  if (closures.error) throw closures.error;
+
+  return {
+    openingHours: openingHours.data || [],
+    overrides: overrides.data || [],
+    closures: closures.data || []
+  };
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyTax, describeTaxLine, getApplicableTaxes, parseTaxRates, TaxRate } from './taxHelpers';
+
+// The helpers under test never reach the database
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const vat = { name: 'VAT', rate: 14, inclusive: true };
+const service = { name: 'Service', rate: 12, inclusive: false };
+
+describe('parseTaxRates', () => {
+  it('reads the tax_rates setting, with rates included in prices by default', () => {
+    expect(parseTaxRates('[{"name":"VAT","rate":"14"},{"name":"Service","rate":12,"inclusive":false,"workspace_types":["Meeting Room"]}]')).toEqual([
+      { name: 'VAT', rate: 14, inclusive: true, workspace_types: [] },
+      { name: 'Service', rate: 12, inclusive: false, workspace_types: ['Meeting Room'] }
+    ]);
+  });
+
+  it('returns no rates for a missing or broken setting', () => {
+    expect(parseTaxRates(null)).toEqual([]);
+    expect(parseTaxRates('not json')).toEqual([]);
+    expect(parseTaxRates('{"name":"VAT"}')).toEqual([]);
+  });
+});
+
+describe('getApplicableTaxes', () => {
+  const rates: TaxRate[] = [
+    { ...vat, workspace_types: [] },
+    { ...service, workspace_types: ['Meeting Room'] },
+    { name: 'Paused', rate: 0, inclusive: true, workspace_types: [] }
+  ];
+
+  it('keeps rates for every type and the ones naming the workspace type', () => {
+    expect(getApplicableTaxes(rates, 'Meeting Room').map(rate => rate.name)).toEqual(['VAT', 'Service']);
+    expect(getApplicableTaxes(rates, 'Hot Desk').map(rate => rate.name)).toEqual(['VAT']);
+  });
+});
+
+describe('applyTax', () => {
+  it('takes included tax out of the price', () => {
+    expect(applyTax(114, [vat])).toEqual({
+      net_amount: 100,
+      tax_amount: 14,
+      gross_amount: 114,
+      tax_lines: [{ ...vat, amount: 14 }]
+    });
+  });
+
+  it('adds exclusive tax on top of the price', () => {
+    expect(applyTax(100, [service])).toEqual({
+      net_amount: 100,
+      tax_amount: 12,
+      gross_amount: 112,
+      tax_lines: [{ ...service, amount: 12 }]
+    });
+  });
+
+  it('combines included and exclusive rates', () => {
+    const { net_amount, tax_amount, gross_amount } = applyTax(114, [vat, service]);
+
+    expect([net_amount, tax_amount, gross_amount]).toEqual([100, 26, 126]);
+  });
+
+  it('gives the rounding cents to the last included rate', () => {
+    const { net_amount, tax_lines } = applyTax(10, [
+      { name: 'VAT', rate: 7, inclusive: true },
+      { name: 'Levy', rate: 7, inclusive: true }
+    ]);
+
+    expect(net_amount).toBe(8.77);
+    expect(tax_lines.map(line => line.amount)).toEqual([0.61, 0.62]);
+  });
+
+  it('treats every rate as included in a final price', () => {
+    const { net_amount, gross_amount, tax_lines } = applyTax(112, [service], true);
+
+    expect([net_amount, gross_amount]).toEqual([100, 112]);
+    expect(tax_lines[0].amount).toBe(12);
+  });
+
+  it('leaves untaxed amounts alone', () => {
+    expect(applyTax(250, [])).toEqual({ net_amount: 250, tax_amount: 0, gross_amount: 250, tax_lines: [] });
+  });
+});
+
+describe('describeTaxLine', () => {
+  it('says whether the tax is included', () => {
+    expect(describeTaxLine(vat)).toBe('VAT 14% (included)');
+    expect(describeTaxLine(service)).toBe('Service 12%');
+    expect(describeTaxLine({ ...vat, name: '' })).toBe('Tax 14% (included)');
+  });
+});
@@ -0,0 +1,95 @@
+import { supabase, TaxLine } from '../lib/supabase';
+
+// One entry of the tax_rates site setting. Inclusive rates are contained in listed
+// prices, exclusive rates are added on top. No workspace types means every type
+export interface TaxRate {
+  name: string;
+  rate: number;
+  inclusive: boolean;
+  workspace_types: string[];
+}
+
+export interface TaxBreakdown {
+  net_amount: number;
+  tax_amount: number;
+  gross_amount: number;
+  tax_lines: TaxLine[];
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export const parseTaxRates = (value: string | null | undefined): TaxRate[] => {
+  try {
+    const rates = JSON.parse(value || '[]');
+    if (!Array.isArray(rates)) return [];
+    return rates.map(rate => ({
+      name: String(rate.name ?? ''),
+      rate: Number(rate.rate) || 0,
+      inclusive: rate.inclusive !== false,
+      workspace_types: Array.isArray(rate.workspace_types) ? rate.workspace_types : []
+    }));
+  } catch {
+    return [];
+  }
+};
+
+// Mirrors booking_taxes() on the server
+export const getApplicableTaxes = (rates: TaxRate[], workspaceType: string): TaxRate[] =>
+  rates.filter(
+    rate => rate.rate > 0 && (rate.workspace_types.length === 0 || rate.workspace_types.includes(workspaceType))
+  );
+
+// Mirrors apply_booking_tax() on the server. With `gross` the amount is taken as the final price
+export const applyTax = (
+  amount: number,
+  taxes: Pick<TaxLine, 'name' | 'rate' | 'inclusive'>[],
+  gross = false
+): TaxBreakdown => {
+  const includedRate = taxes.filter(tax => gross || tax.inclusive).reduce((sum, tax) => sum + tax.rate, 0);
+  const net = roundMoney((amount * 100) / (100 + includedRate));
+
+  const lines: TaxLine[] = taxes.map(tax => ({
+    name: tax.name,
+    rate: tax.rate,
+    inclusive: tax.inclusive,
+    amount: roundMoney((net * tax.rate) / 100)
+  }));
+
+  // Rounding cents go to the last included rate so the lines add up to the price
+  const included = lines.filter(line => gross || line.inclusive);
+  const includedTax = included.reduce((sum, line) => sum + line.amount, 0);
+  if (included.length > 0) {
+    included[included.length - 1].amount = roundMoney(included[included.length - 1].amount + amount - net - includedTax);
+  }
+
+  const added = lines.filter(line => !(gross || line.inclusive)).reduce((sum, line) => sum + line.amount, 0);
+  const grossAmount = roundMoney(amount + added);
+  return { net_amount: net, tax_amount: roundMoney(grossAmount - net), gross_amount: grossAmount, tax_lines: lines };
+};
+
+// e.g. "VAT 14% (included)"
+export const describeTaxLine = (line: Pick<TaxLine, 'name' | 'rate' | 'inclusive'>): string =>
+  `${line.name || 'Tax'} ${line.rate}%${line.inclusive ? ' (included)' : ''}`;
+
+export const fetchTaxRates = async (): Promise<TaxRate[]> => {
+  const { data, error } = await supabase
+    .from('site_settings')
+    .select('value')
+    .eq('key', 'tax_rates')
+    .maybeSingle();
+
+  if (error) throw error;
+  return parseTaxRates(data?.value);
+};
+
+export const saveTaxRates = async (rates: TaxRate[]): Promise<void> => {
+  const { error } = await supabase
+    .from('site_settings')
+    .update({
+      value: JSON.stringify(rates),
+      updated_at: new Date().toISOString()
+    })
+    .eq('key', 'tax_rates');
+
+  if (error) throw error;
+};
@@ -0,0 +1,11 @@
+import { supabase, BookingRow } from '../lib/supabase';
+
+// Offer a desk freed by a cancelled or rejected booking to the first waiting customer. The server queues
+// the notification telling them
+export const offerFreedDesk = async (bookingId: string): Promise<BookingRow | null> => {
+  const { data, error } = await supabase.rpc('offer_waitlist_hold', { p_booking_id: bookingId });
+  if (error) throw error;
+
+  const hold = data as BookingRow | null;
+  return hold?.id ? hold : null;
+};
@@ -0,0 +1,106 @@
+import {
+  supabase,
+  NotificationEvent,
+  NotificationOutboxRow,
+  WebhookDeliveryRow,
+  WebhookDeliveryStatus,
+  WebhookEndpointRow
+} from '../lib/supabase';
+import { NOTIFICATION_EVENT_LABELS } from './notificationHelpers';
+
+export const WEBHOOK_DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: 'Queued',
+  delivered: 'Delivered',
+  dead: 'Failed'
+};
+
+export interface WebhookDeliveryWithNotification extends WebhookDeliveryRow {
+  notification_outbox: Pick<NotificationOutboxRow, 'event' | 'payload' | 'created_at'> | null;
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  description: string;
+  // Empty subscribes to every event
+  events: NotificationEvent[];
+}
+
+export const isValidWebhookUrl = (url: string): boolean => /^https?:\/\/\S+$/.test(url.trim());
+
+// "All events" or the subscribed events by label
+export const describeWebhookEvents = (events: NotificationEvent[]): string =>
+  events.length === 0 ? 'All events' : events.map(event => NOTIFICATION_EVENT_LABELS[event] ?? event).join(', ');
+
+export const fetchWebhookEndpoints = async (): Promise<WebhookEndpointRow[]> => {
+  const { data, error } = await supabase.from('webhook_endpoints').select('*').order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// New endpoints get a generated secret and only receive notifications queued after they are added
+export const createWebhookEndpoint = async (input: WebhookEndpointInput): Promise<WebhookEndpointRow> => {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .insert({ url: input.url.trim(), description: input.description.trim(), events: input.events })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateWebhookEndpoint = async (
+  endpointId: string,
+  changes: Partial<WebhookEndpointInput> & { is_active?: boolean }
+): Promise<void> => {
+  const { error } = await supabase.from('webhook_endpoints').update(changes).eq('id', endpointId);
+  if (error) throw error;
+};
+
+// Deletes its delivery log with it
+export const deleteWebhookEndpoint = async (endpointId: string): Promise<void> => {
+  const { error } = await supabase.from('webhook_endpoints').delete().eq('id', endpointId);
+  if (error) throw error;
+};
+
+// The old secret stops working straight away, so update the receiver right after
+export const rotateWebhookSecret = async (endpointId: string): Promise<WebhookEndpointRow> => {
+  const { data, error } = await supabase.rpc('rotate_webhook_secret', { p_endpoint_id: endpointId });
+
+  if (error) {
+    throw new Error(error.details || error.message);
+  }
+  return data as WebhookEndpointRow;
+};
+
+// Deliveries to one endpoint not delivered yet, or all of them, newest first
+export const fetchWebhookDeliveries = async (
+  endpointId: string,
+  includeDelivered = false
+): Promise<WebhookDeliveryWithNotification[]> => {
+  let query = supabase
+    .from('webhook_deliveries')
+    .select('*, notification_outbox(event, payload, created_at)')
+    .eq('endpoint_id', endpointId)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (!includeDelivered) {
+    query = query.neq('status', 'delivered');
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+// Queue a delivery again with a fresh set of attempts
+export const resendWebhookDelivery = async (deliveryId: string): Promise<WebhookDeliveryRow> => {
+  const { data, error } = await supabase.rpc('resend_webhook_delivery', { p_delivery_id: deliveryId });
+
+  if (error) {
+    throw new Error(error.details || error.message);
+  }
+  return data as WebhookDeliveryRow;
+};
@@ -0,0 +1,113 @@
+// Delivers queued notifications to every webhook endpoint subscribed to them. Failed deliveries
+// are retried per endpoint with backoff by record_webhook_delivery.
+//
+// Each request is signed so receivers can check it came from us and reject replays:
+//   X-Webhook-Id         the notification id, the same on every retry
+//   X-Webhook-Event      the notification event
+//   X-Webhook-Timestamp  unix seconds when this attempt was sent
+//   X-Webhook-Signature  v1=<hex HMAC-SHA256 of "<timestamp>.<body>" keyed with the endpoint secret>
+// Receivers should recompute the signature over the raw body and refuse timestamps older than a
+// few minutes.
+//
+// Schedule it every minute in production. Locally:
+//   supabase functions serve deliver-notifications
+//   curl -X POST http://localhost:54321/functions/v1/deliver-notifications -H "Authorization: Bearer $SUPABASE_ANON_KEY"
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const BATCH_SIZE = 20;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+interface ClaimedDelivery {
+  delivery_id: string;
+  notification_id: string;
+  event: string;
+  endpoint_url: string;
+  signing_secret: string;
+  payload: unknown;
+}
+
+interface DeliveryResult {
+  responseStatus: number | null;
+  responseBody: string | null;
+  // Null when the endpoint accepted the notification
+  error: string | null;
+  durationMs: number;
+}
+
+const encoder = new TextEncoder();
+
+const sign = async (secret: string, timestamp: number, body: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign'
+  ]);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const deliver = async (delivery: ClaimedDelivery): Promise<DeliveryResult> => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = performance.now();
+
+  try {
+    const response = await fetch(delivery.endpoint_url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': delivery.notification_id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `v1=${await sign(delivery.signing_secret, timestamp, body)}`
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    return {
+      responseStatus: response.status,
+      responseBody: await response.text().catch(() => null),
+      error: response.ok ? null : `Endpoint responded with ${response.status}`,
+      durationMs: Math.round(performance.now() - startedAt)
+    };
+  } catch (error) {
+    return {
+      responseStatus: null,
+      responseBody: null,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Math.round(performance.now() - startedAt)
+    };
+  }
+};
+
+Deno.serve(async () => {
+  try {
+    const { data, error } = await supabase.rpc('claim_webhook_deliveries', { p_limit: BATCH_SIZE });
+    if (error) throw error;
+
+    let delivered = 0;
+    let failed = 0;
+    for (const delivery of (data ?? []) as ClaimedDelivery[]) {
+      const result = await deliver(delivery);
+      const { error: recordError } = await supabase.rpc('record_webhook_delivery', {
+        p_delivery_id: delivery.delivery_id,
+        p_response_status: result.responseStatus,
+        p_response_body: result.responseBody,
+        p_error: result.error,
+        p_duration_ms: result.durationMs
+      });
+      if (recordError) throw recordError;
+
+      if (result.error) {
+        failed++;
+      } else {
+        delivered++;
+      }
+    }
+
+    return Response.json({ delivered, failed });
+  } catch (error) {
+    console.error('Notification delivery failed:', error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
@@ -0,0 +1,22 @@
+// Releases waitlist holds nobody claimed in time and offers each freed desk to the next waiting
+// customer. release_expired_waitlist_holds locks the holds it releases, so overlapping runs never
+// release one twice. The offers go out with deliver-notifications and send-emails.
+//
+// Schedule it every minute in production. Locally:
+//   supabase functions serve release-holds
+//   curl -X POST http://localhost:54321/functions/v1/release-holds -H "Authorization: Bearer $SUPABASE_ANON_KEY"
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+Deno.serve(async () => {
+  try {
+    const { data: released, error } = await supabase.rpc('release_expired_waitlist_holds');
+    if (error) throw error;
+
+    return Response.json({ released });
+  } catch (error) {
+    console.error('Releasing waitlist holds failed:', error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
@@ -0,0 +1,22 @@
+// Starts the next period of memberships whose period has ended and grants its credits, once an
+// admin has recorded the payment for it. Memberships with an unpaid period go back to pending.
+// renew_memberships locks the memberships it renews, so overlapping runs never grant a period twice.
+//
+// Schedule it every hour in production. Locally:
+//   supabase functions serve renew-memberships
+//   curl -X POST http://localhost:54321/functions/v1/renew-memberships -H "Authorization: Bearer $SUPABASE_ANON_KEY"
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+Deno.serve(async () => {
+  try {
+    const { data: renewed, error } = await supabase.rpc('renew_memberships');
+    if (error) throw error;
+
+    return Response.json({ renewed });
+  } catch (error) {
+    console.error('Renewing memberships failed:', error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
@@ -0,0 +1,53 @@
+// Sends queued emails from email_deliveries through the SMTP adapter in smtp.ts. Failed emails are
+// retried with backoff by record_email_delivery.
+//
+// Schedule it every minute in production. Locally:
+//   supabase functions serve send-emails --env-file supabase/functions/.env
+//   curl -X POST http://localhost:54321/functions/v1/send-emails -H "Authorization: Bearer $SUPABASE_ANON_KEY"
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createSmtpMailer } from './smtp.ts';
+
+const BATCH_SIZE = 20;
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+Deno.serve(async () => {
+  try {
+    // Emails stay queued until SMTP is configured
+    const mailer = createSmtpMailer();
+    if (!mailer) {
+      return Response.json({ sent: 0, failed: 0 });
+    }
+
+    const { data: emails, error } = await supabase.rpc('claim_email_deliveries', { p_limit: BATCH_SIZE });
+    if (error) throw error;
+
+    let sent = 0;
+    let failed = 0;
+    for (const email of emails ?? []) {
+      let sendError: string | null = null;
+      try {
+        await mailer.send({ to: email.recipient, subject: email.subject, text: email.body });
+      } catch (error) {
+        sendError = error instanceof Error ? error.message : String(error);
+      }
+
+      const { error: recordError } = await supabase.rpc('record_email_delivery', {
+        p_delivery_id: email.id,
+        p_error: sendError
+      });
+      if (recordError) throw recordError;
+
+      if (sendError) {
+        failed++;
+      } else {
+        sent++;
+      }
+    }
+
+    return Response.json({ sent, failed });
+  } catch (error) {
+    console.error('Email delivery failed:', error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
@@ -0,0 +1,47 @@
+// SMTP adapter for send-emails, configured from the environment:
+//   SMTP_HOST, SMTP_PORT (default 587)
+//   SMTP_SECURE     "true" for TLS from the start, usually on port 465; otherwise STARTTLS when offered
+//   SMTP_USER, SMTP_PASSWORD  leave empty for servers without authentication
+//   SMTP_FROM       e.g. "Desk4U <bookings@desk4u.com>"
+//
+// In development point it at a mail catcher such as Mailpit, which accepts everything and shows it
+// in a web inbox:
+//   docker run -p 8025:8025 -p 1025:1025 axllent/mailpit
+//   SMTP_HOST=host.docker.internal SMTP_PORT=1025 SMTP_FROM=dev@localhost
+// Hosted edge functions cannot connect to ports 25 and 587, so use 465 with SMTP_SECURE=true there.
+import nodemailer from 'npm:nodemailer@6';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Null when SMTP_HOST is not set, so emails stay queued until it is
+export const createSmtpMailer = (): Mailer | null => {
+  const host = Deno.env.get('SMTP_HOST');
+  if (!host) return null;
+
+  const user = Deno.env.get('SMTP_USER');
+  const from = Deno.env.get('SMTP_FROM') || user;
+  if (!from) {
+    throw new Error('SMTP_FROM must be set');
+  }
+
+  const transport = nodemailer.createTransport({
+    host,
+    port: Number(Deno.env.get('SMTP_PORT') || 587),
+    secure: Deno.env.get('SMTP_SECURE') === 'true',
+    auth: user ? { user, pass: Deno.env.get('SMTP_PASSWORD') ?? '' } : undefined
+  });
+
+  return {
+    async send({ to, subject, text }) {
+      await transport.sendMail({ from, to, subject, text });
+    }
+  };
+};
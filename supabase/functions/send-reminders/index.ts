@@ -0,0 +1,23 @@
+// Queues booking reminders and follow-ups that are due, using the reminder_lead_hours and
+// follow_up_delay_hours settings. send_booking_reminders records what it queued, so running it
+// more often never sends anything twice. The notifications go out with deliver-notifications and
+// send-emails.
+//
+// Schedule it every five minutes in production. Locally:
+//   supabase functions serve send-reminders
+//   curl -X POST http://localhost:54321/functions/v1/send-reminders -H "Authorization: Bearer $SUPABASE_ANON_KEY"
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+Deno.serve(async () => {
+  try {
+    const { data: queued, error } = await supabase.rpc('send_booking_reminders');
+    if (error) throw error;
+
+    return Response.json({ queued });
+  } catch (error) {
+    console.error('Scheduling reminders failed:', error);
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
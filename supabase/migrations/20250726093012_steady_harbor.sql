@@ -0,0 +1,265 @@
+/*
+  # Atomic booking creation with desk assignment
+
+  1. New Tables
+    - `booking_slot_claims`
+      - `booking_id` (uuid, foreign key to bookings.id)
+      - `workspace_type` (text)
+      - `date` (date)
+      - `time_slot` (text)
+      - `desk_number` (integer)
+      - Unique on (`workspace_type`, `date`, `time_slot`, `desk_number`) so two
+        active bookings can never hold the same desk for the same slot
+
+  2. Functions
+    - `booking_hourly_slots()` - parsed `hourly_slots` site setting
+    - `booking_total_desks()` - parsed `total_desks` site setting
+    - `booking_duration_slots(duration, total_slots)` - number of slots a duration covers
+    - `booking_covered_slots(time_slot, duration)` - slots a booking occupies
+    - `sync_booking_slot_claims()` - trigger keeping claims in step with bookings
+    - `create_booking(...)` - checks availability, assigns a desk and inserts
+      the booking in one transaction. Raises SQLSTATE `BK409` on conflict.
+
+  3. Security
+    - Enable RLS on `booking_slot_claims`, readable by everyone so availability
+      can be computed without exposing customer data
+    - Only admins may create bookings with a status other than `pending`
+    - Drop the "Allow booking creation for all users" insert policy, so bookings
+      can only be created through `create_booking`, which checks availability
+      and assigns the desk
+*/
+
+CREATE TABLE IF NOT EXISTS booking_slot_claims (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  workspace_type text NOT NULL,
+  date date NOT NULL,
+  time_slot text NOT NULL,
+  desk_number integer NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT booking_slot_claims_desk_slot_key UNIQUE (workspace_type, date, time_slot, desk_number)
+);
+
+CREATE INDEX IF NOT EXISTS booking_slot_claims_booking_id_idx ON booking_slot_claims(booking_id);
+
+ALTER TABLE booking_slot_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view slot claims"
+  ON booking_slot_claims
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage slot claims"
+  ON booking_slot_claims
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Direct inserts would bypass the availability check and desk assignment
+DROP POLICY "Allow booking creation for all users" ON bookings;
+
+-- Parsed hourly_slots setting, in display order
+CREATE OR REPLACE FUNCTION booking_hourly_slots()
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT array_agg(trim(slot) ORDER BY ord)
+      FROM site_settings,
+        unnest(string_to_array(value, ',')) WITH ORDINALITY AS t(slot, ord)
+      WHERE key = 'hourly_slots' AND trim(slot) <> ''
+    ),
+    ARRAY['9:00 AM', '10:00 AM', '11:00 AM', '12:00 PM', '1:00 PM', '2:00 PM', '3:00 PM', '4:00 PM', '5:00 PM']
+  );
+$$;
+
+-- Parsed total_desks setting
+CREATE OR REPLACE FUNCTION booking_total_desks()
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_value text;
+BEGIN
+  SELECT value INTO v_value FROM site_settings WHERE key = 'total_desks';
+
+  IF v_value ~ '^\s*[0-9]+\s*$' AND trim(v_value)::integer >= 1 THEN
+    RETURN trim(v_value)::integer;
+  END IF;
+
+  RETURN 6;
+END;
+$$;
+
+-- Mirrors convertDurationToHours in src/utils/bookingHelpers.ts
+CREATE OR REPLACE FUNCTION booking_duration_slots(p_duration text, p_total_slots integer)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_duration
+    WHEN '1-hour' THEN 1
+    WHEN '2-hours' THEN 2
+    WHEN '4-hours' THEN 4
+    WHEN '1-day' THEN p_total_slots
+    WHEN '1-week' THEN p_total_slots * 7
+    WHEN '1-month' THEN p_total_slots * 30
+    ELSE 1
+  END;
+$$;
+
+-- Slots occupied by a booking starting at p_time_slot
+CREATE OR REPLACE FUNCTION booking_covered_slots(p_time_slot text, p_duration text)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slots text[] := booking_hourly_slots();
+  v_start integer := array_position(v_slots, p_time_slot);
+  v_count integer := booking_duration_slots(p_duration, array_length(v_slots, 1));
+BEGIN
+  IF v_start IS NULL THEN
+    RETURN ARRAY[]::text[];
+  END IF;
+
+  RETURN v_slots[v_start : v_start + v_count - 1];
+END;
+$$;
+
+-- Keep claims in step with the booking row; the unique constraint rejects overlaps
+CREATE OR REPLACE FUNCTION sync_booking_slot_claims()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM booking_slot_claims WHERE booking_id = NEW.id;
+
+  IF NEW.status IN ('pending', 'code_sent', 'confirmed') AND NEW.desk_number IS NOT NULL THEN
+    INSERT INTO booking_slot_claims (booking_id, workspace_type, date, time_slot, desk_number)
+    SELECT NEW.id, NEW.workspace_type, NEW.date, slot, NEW.desk_number
+    FROM unnest(booking_covered_slots(NEW.time_slot, NEW.duration)) AS slot;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_booking_slot_claims
+  AFTER INSERT OR UPDATE OF workspace_type, date, time_slot, duration, desk_number, status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_booking_slot_claims();
+
+-- Backfill claims for active bookings; pre-existing double bookings keep the first claim
+INSERT INTO booking_slot_claims (booking_id, workspace_type, date, time_slot, desk_number)
+SELECT b.id, b.workspace_type, b.date, slot, b.desk_number
+FROM bookings b,
+  unnest(booking_covered_slots(b.time_slot, b.duration)) AS slot
+WHERE b.status IN ('pending', 'code_sent', 'confirmed')
+  AND b.desk_number IS NOT NULL
+ORDER BY b.created_at
+ON CONFLICT ON CONSTRAINT booking_slot_claims_desk_slot_key DO NOTHING;
+
+-- Check availability, assign a desk and insert the booking atomically
+CREATE OR REPLACE FUNCTION create_booking(
+  p_workspace_type text,
+  p_date date,
+  p_time_slot text,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_status text DEFAULT 'pending'
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slots text[];
+  v_required integer;
+  v_desk integer;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Serialise bookings for the same workspace and date
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type || ':' || p_date::text));
+
+  v_slots := booking_covered_slots(p_time_slot, p_duration);
+  v_required := booking_duration_slots(p_duration, array_length(booking_hourly_slots(), 1));
+
+  IF coalesce(array_length(v_slots, 1), 0) = 0 OR array_length(v_slots, 1) < v_required THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected time slot cannot fit the requested duration.';
+  END IF;
+
+  -- Legacy bookings without a desk block every desk for their slots
+  IF EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.workspace_type = p_workspace_type
+      AND b.date = p_date
+      AND b.status IN ('pending', 'code_sent', 'confirmed')
+      AND b.desk_number IS NULL
+      AND booking_covered_slots(b.time_slot, b.duration) && v_slots
+  ) THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available for the selected time slot and duration.';
+  END IF;
+
+  SELECT desk INTO v_desk
+  FROM generate_series(1, booking_total_desks()) AS desk
+  WHERE NOT EXISTS (
+    SELECT 1 FROM booking_slot_claims c
+    WHERE c.workspace_type = p_workspace_type
+      AND c.date = p_date
+      AND c.desk_number = desk
+      AND c.time_slot = ANY (v_slots)
+  )
+  ORDER BY desk
+  LIMIT 1;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available for the selected time slot and duration.';
+  END IF;
+
+  INSERT INTO bookings (
+    workspace_type, date, time_slot, duration,
+    customer_name, customer_email, customer_phone, customer_whatsapp,
+    total_price, status, user_id, desk_number
+  ) VALUES (
+    p_workspace_type, p_date, p_time_slot, p_duration,
+    p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+    p_total_price, p_status, auth.uid(), v_desk
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected desk was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_booking(text, date, text, text, text, text, text, text, numeric, text) TO anon, authenticated;
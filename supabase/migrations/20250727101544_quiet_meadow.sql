@@ -0,0 +1,233 @@
+/*
+  # Multi-day bookings
+
+  1. Changes
+    - Add `end_date` column to `bookings`: the last calendar day (inclusive) a
+      booking holds its desk. Derived from `date` and `duration` by trigger,
+      so `1-week` covers 7 days and `1-month` covers 30 days
+    - Backfill `end_date` for existing bookings
+
+  2. Functions
+    - `booking_duration_days(duration)` - calendar days a duration covers
+    - `booking_duration_slots` - week and month bookings now take every slot of
+      each day they cover rather than 7x / 30x the day's slots
+    - `booking_covered_slots` - multi-day bookings cover the whole day
+    - `sync_booking_slot_claims` - claims a desk on every day of the booking
+    - `create_booking` - checks availability on every day of the booking
+*/
+
+-- Calendar days a duration covers
+CREATE OR REPLACE FUNCTION booking_duration_days(p_duration text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_duration
+    WHEN '1-week' THEN 7
+    WHEN '1-month' THEN 30
+    ELSE 1
+  END;
+$$;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS end_date date;
+
+UPDATE bookings
+SET end_date = date + booking_duration_days(duration) - 1
+WHERE end_date IS NULL;
+
+ALTER TABLE bookings ALTER COLUMN end_date SET NOT NULL;
+
+COMMENT ON COLUMN bookings.end_date IS 'Last day (inclusive) the booking holds its desk. Derived from date and duration.';
+
+CREATE INDEX IF NOT EXISTS bookings_workspace_date_range_idx ON bookings(workspace_type, date, end_date);
+
+CREATE OR REPLACE FUNCTION set_booking_end_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.end_date := NEW.date + booking_duration_days(NEW.duration) - 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_booking_end_date
+  BEFORE INSERT OR UPDATE OF date, duration, end_date ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_end_date();
+
+-- Mirrors convertDurationToHours in src/utils/bookingHelpers.ts (slots per day)
+CREATE OR REPLACE FUNCTION booking_duration_slots(p_duration text, p_total_slots integer)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_duration
+    WHEN '1-hour' THEN 1
+    WHEN '2-hours' THEN 2
+    WHEN '4-hours' THEN 4
+    WHEN '1-day' THEN p_total_slots
+    WHEN '1-week' THEN p_total_slots
+    WHEN '1-month' THEN p_total_slots
+    ELSE 1
+  END;
+$$;
+
+-- Slots occupied by a booking on each day it covers
+CREATE OR REPLACE FUNCTION booking_covered_slots(p_time_slot text, p_duration text)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slots text[] := booking_hourly_slots();
+  v_start integer := array_position(v_slots, p_time_slot);
+  v_count integer := booking_duration_slots(p_duration, array_length(v_slots, 1));
+BEGIN
+  IF booking_duration_days(p_duration) > 1 THEN
+    RETURN v_slots;
+  END IF;
+
+  IF v_start IS NULL THEN
+    RETURN ARRAY[]::text[];
+  END IF;
+
+  RETURN v_slots[v_start : v_start + v_count - 1];
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_booking_slot_claims()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM booking_slot_claims WHERE booking_id = NEW.id;
+
+  IF NEW.status IN ('pending', 'code_sent', 'confirmed') AND NEW.desk_number IS NOT NULL THEN
+    INSERT INTO booking_slot_claims (booking_id, workspace_type, date, time_slot, desk_number)
+    SELECT NEW.id, NEW.workspace_type, day::date, slot, NEW.desk_number
+    FROM generate_series(NEW.date, NEW.end_date, interval '1 day') AS day,
+      unnest(booking_covered_slots(NEW.time_slot, NEW.duration)) AS slot;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_booking_slot_claims ON bookings;
+
+CREATE TRIGGER sync_booking_slot_claims
+  AFTER INSERT OR UPDATE OF workspace_type, date, end_date, time_slot, duration, desk_number, status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_booking_slot_claims();
+
+-- Re-claim the later days of existing week and month bookings
+INSERT INTO booking_slot_claims (booking_id, workspace_type, date, time_slot, desk_number)
+SELECT b.id, b.workspace_type, day::date, slot, b.desk_number
+FROM bookings b,
+  generate_series(b.date, b.end_date, interval '1 day') AS day,
+  unnest(booking_covered_slots(b.time_slot, b.duration)) AS slot
+WHERE b.status IN ('pending', 'code_sent', 'confirmed')
+  AND b.desk_number IS NOT NULL
+  AND b.end_date > b.date
+ORDER BY b.created_at
+ON CONFLICT ON CONSTRAINT booking_slot_claims_desk_slot_key DO NOTHING;
+
+CREATE OR REPLACE FUNCTION create_booking(
+  p_workspace_type text,
+  p_date date,
+  p_time_slot text,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_status text DEFAULT 'pending'
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slots text[];
+  v_required integer;
+  v_end_date date := p_date + booking_duration_days(p_duration) - 1;
+  v_desk integer;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Serialise bookings for the same workspace; ranges can span many dates
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  v_slots := booking_covered_slots(p_time_slot, p_duration);
+  v_required := booking_duration_slots(p_duration, array_length(booking_hourly_slots(), 1));
+
+  IF booking_duration_days(p_duration) > 1 AND p_time_slot <> (booking_hourly_slots())[1] THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'Multi-day bookings must start at the first slot of the day.';
+  END IF;
+
+  IF coalesce(array_length(v_slots, 1), 0) = 0 OR array_length(v_slots, 1) < v_required THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected time slot cannot fit the requested duration.';
+  END IF;
+
+  -- Legacy bookings without a desk block every desk for their slots
+  IF EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.workspace_type = p_workspace_type
+      AND b.date <= v_end_date
+      AND b.end_date >= p_date
+      AND b.status IN ('pending', 'code_sent', 'confirmed')
+      AND b.desk_number IS NULL
+      AND booking_covered_slots(b.time_slot, b.duration) && v_slots
+  ) THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available for the selected time slot and duration.';
+  END IF;
+
+  SELECT desk INTO v_desk
+  FROM generate_series(1, booking_total_desks()) AS desk
+  WHERE NOT EXISTS (
+    SELECT 1 FROM booking_slot_claims c
+    WHERE c.workspace_type = p_workspace_type
+      AND c.date BETWEEN p_date AND v_end_date
+      AND c.desk_number = desk
+      AND c.time_slot = ANY (v_slots)
+  )
+  ORDER BY desk
+  LIMIT 1;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available on every day of the selected dates.';
+  END IF;
+
+  INSERT INTO bookings (
+    workspace_type, date, time_slot, duration,
+    customer_name, customer_email, customer_phone, customer_whatsapp,
+    total_price, status, user_id, desk_number
+  ) VALUES (
+    p_workspace_type, p_date, p_time_slot, p_duration,
+    p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+    p_total_price, p_status, auth.uid(), v_desk
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected desk was just booked by someone else.';
+END;
+$$;
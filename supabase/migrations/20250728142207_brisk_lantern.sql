@@ -0,0 +1,278 @@
+/*
+  # Per-workspace-type capacity and opening hours
+
+  1. Changes
+    - Add to `workspace_types`:
+      - `capacity` (integer) - number of desks that can be booked at once
+      - `opening_time` / `closing_time` (time) - first slot start and last slot end
+      - `slot_minutes` (integer) - length of one bookable slot
+    - Backfill existing workspace types from the global `total_desks` and
+      `hourly_slots` settings, which are no longer read by the booking engine
+
+  2. Functions
+    - `booking_time_slots(workspace_type)` - start slots of a workspace type,
+      labelled like `9:00 AM`
+    - `booking_total_desks(workspace_type)` - capacity of a workspace type
+    - `booking_slot_minutes(workspace_type)` - slot length of a workspace type
+    - `booking_duration_slots(duration, total_slots, slot_minutes)` - slots a
+      duration takes on each day it covers
+    - `booking_covered_slots(workspace_type, time_slot, duration)`
+    - `sync_booking_slot_claims` and `create_booking` use the booking's
+      workspace type schedule
+*/
+
+ALTER TABLE workspace_types ADD COLUMN IF NOT EXISTS capacity integer NOT NULL DEFAULT 6;
+ALTER TABLE workspace_types ADD COLUMN IF NOT EXISTS opening_time time NOT NULL DEFAULT '09:00';
+ALTER TABLE workspace_types ADD COLUMN IF NOT EXISTS closing_time time NOT NULL DEFAULT '18:00';
+ALTER TABLE workspace_types ADD COLUMN IF NOT EXISTS slot_minutes integer NOT NULL DEFAULT 60;
+
+-- Carry the global settings over to every existing workspace type
+UPDATE workspace_types SET capacity = booking_total_desks();
+
+DO $$
+DECLARE
+  v_slots text[] := booking_hourly_slots();
+  v_opening time;
+  v_closing time;
+BEGIN
+  v_opening := to_timestamp(v_slots[1], 'HH12:MI AM')::time;
+  v_closing := to_timestamp(v_slots[array_length(v_slots, 1)], 'HH12:MI AM')::time + interval '1 hour';
+
+  IF v_closing > v_opening THEN
+    UPDATE workspace_types SET opening_time = v_opening, closing_time = v_closing;
+  END IF;
+EXCEPTION
+  WHEN others THEN
+    RAISE NOTICE 'Could not parse hourly_slots setting, keeping default opening hours';
+END;
+$$;
+
+ALTER TABLE workspace_types ADD CONSTRAINT workspace_types_capacity_check CHECK (capacity >= 1);
+ALTER TABLE workspace_types ADD CONSTRAINT workspace_types_slot_minutes_check CHECK (slot_minutes >= 5);
+ALTER TABLE workspace_types ADD CONSTRAINT workspace_types_opening_hours_check
+  CHECK (closing_time >= opening_time + make_interval(mins => slot_minutes));
+
+-- Start slots of a workspace type, labelled to match src/utils/bookingHelpers.ts
+CREATE OR REPLACE FUNCTION booking_time_slots(p_workspace_type text)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH hours AS (
+    SELECT
+      COALESCE(w.opening_time, time '09:00') AS opening_time,
+      COALESCE(w.closing_time, time '18:00') AS closing_time,
+      COALESCE(w.slot_minutes, 60) AS slot_minutes
+    FROM (SELECT 1) AS fallback
+    LEFT JOIN LATERAL (
+      SELECT opening_time, closing_time, slot_minutes FROM workspace_types
+      WHERE name = p_workspace_type
+      ORDER BY created_at
+      LIMIT 1
+    ) w ON true
+  )
+  SELECT COALESCE(array_agg(to_char(start_at, 'FMHH12:MI AM') ORDER BY start_at), ARRAY[]::text[])
+  FROM hours,
+    generate_series(
+      date '2000-01-01' + opening_time,
+      date '2000-01-01' + closing_time - make_interval(mins => slot_minutes),
+      make_interval(mins => slot_minutes)
+    ) AS start_at;
+$$;
+
+DROP FUNCTION IF EXISTS booking_total_desks();
+
+CREATE OR REPLACE FUNCTION booking_total_desks(p_workspace_type text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT capacity FROM workspace_types WHERE name = p_workspace_type ORDER BY created_at LIMIT 1),
+    6
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION booking_slot_minutes(p_workspace_type text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT slot_minutes FROM workspace_types WHERE name = p_workspace_type ORDER BY created_at LIMIT 1),
+    60
+  );
+$$;
+
+-- Mirrors convertDurationToSlots in src/utils/bookingHelpers.ts (slots per day)
+CREATE OR REPLACE FUNCTION booking_duration_slots(p_duration text, p_total_slots integer, p_slot_minutes integer)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_duration
+    WHEN '1-hour' THEN ceil(60.0 / p_slot_minutes)::integer
+    WHEN '2-hours' THEN ceil(120.0 / p_slot_minutes)::integer
+    WHEN '4-hours' THEN ceil(240.0 / p_slot_minutes)::integer
+    WHEN '1-day' THEN p_total_slots
+    WHEN '1-week' THEN p_total_slots
+    WHEN '1-month' THEN p_total_slots
+    ELSE ceil(60.0 / p_slot_minutes)::integer
+  END;
+$$;
+
+-- Slots occupied by a booking on each day it covers
+CREATE OR REPLACE FUNCTION booking_covered_slots(p_workspace_type text, p_time_slot text, p_duration text)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slots text[] := booking_time_slots(p_workspace_type);
+  v_start integer := array_position(v_slots, p_time_slot);
+  v_count integer := booking_duration_slots(
+    p_duration, coalesce(array_length(v_slots, 1), 0), booking_slot_minutes(p_workspace_type)
+  );
+BEGIN
+  IF booking_duration_days(p_duration) > 1 THEN
+    RETURN v_slots;
+  END IF;
+
+  IF v_start IS NULL THEN
+    RETURN ARRAY[]::text[];
+  END IF;
+
+  RETURN v_slots[v_start : v_start + v_count - 1];
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_booking_slot_claims()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM booking_slot_claims WHERE booking_id = NEW.id;
+
+  IF NEW.status IN ('pending', 'code_sent', 'confirmed') AND NEW.desk_number IS NOT NULL THEN
+    INSERT INTO booking_slot_claims (booking_id, workspace_type, date, time_slot, desk_number)
+    SELECT NEW.id, NEW.workspace_type, day::date, slot, NEW.desk_number
+    FROM generate_series(NEW.date, NEW.end_date, interval '1 day') AS day,
+      unnest(booking_covered_slots(NEW.workspace_type, NEW.time_slot, NEW.duration)) AS slot;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_booking(
+  p_workspace_type text,
+  p_date date,
+  p_time_slot text,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_status text DEFAULT 'pending'
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_day_slots text[] := booking_time_slots(p_workspace_type);
+  v_slots text[];
+  v_required integer;
+  v_end_date date := p_date + booking_duration_days(p_duration) - 1;
+  v_desk integer;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Serialise bookings for the same workspace; ranges can span many dates
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  v_slots := booking_covered_slots(p_workspace_type, p_time_slot, p_duration);
+  v_required := booking_duration_slots(
+    p_duration, coalesce(array_length(v_day_slots, 1), 0), booking_slot_minutes(p_workspace_type)
+  );
+
+  IF booking_duration_days(p_duration) > 1 AND p_time_slot <> v_day_slots[1] THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'Multi-day bookings must start at the first slot of the day.';
+  END IF;
+
+  IF coalesce(array_length(v_slots, 1), 0) = 0 OR array_length(v_slots, 1) < v_required THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected time slot cannot fit the requested duration.';
+  END IF;
+
+  -- Legacy bookings without a desk block every desk for their slots
+  IF EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.workspace_type = p_workspace_type
+      AND b.date <= v_end_date
+      AND b.end_date >= p_date
+      AND b.status IN ('pending', 'code_sent', 'confirmed')
+      AND b.desk_number IS NULL
+      AND booking_covered_slots(b.workspace_type, b.time_slot, b.duration) && v_slots
+  ) THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available for the selected time slot and duration.';
+  END IF;
+
+  SELECT desk INTO v_desk
+  FROM generate_series(1, booking_total_desks(p_workspace_type)) AS desk
+  WHERE NOT EXISTS (
+    SELECT 1 FROM booking_slot_claims c
+    WHERE c.workspace_type = p_workspace_type
+      AND c.date BETWEEN p_date AND v_end_date
+      AND c.desk_number = desk
+      AND c.time_slot = ANY (v_slots)
+  )
+  ORDER BY desk
+  LIMIT 1;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available on every day of the selected dates.';
+  END IF;
+
+  INSERT INTO bookings (
+    workspace_type, date, time_slot, duration,
+    customer_name, customer_email, customer_phone, customer_whatsapp,
+    total_price, status, user_id, desk_number
+  ) VALUES (
+    p_workspace_type, p_date, p_time_slot, p_duration,
+    p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+    p_total_price, p_status, auth.uid(), v_desk
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected desk was just booked by someone else.';
+END;
+$$;
+
+-- The global-settings variants are superseded by the per-workspace-type functions
+DROP FUNCTION IF EXISTS booking_covered_slots(text, text);
+DROP FUNCTION IF EXISTS booking_duration_slots(text, integer);
+DROP FUNCTION IF EXISTS booking_hourly_slots();
@@ -0,0 +1,346 @@
+/*
+  # Opening-hours calendar with holidays and closures
+
+  1. New Tables
+    - `opening_hours` - one row per weekday (0 = Sunday ... 6 = Saturday)
+      - `is_open` (boolean) - whether bookings can be made on that weekday
+      - `opens_at` / `closes_at` (time, nullable) - site hours for that weekday;
+        null keeps each workspace type's own hours
+    - `schedule_overrides` - hours for one specific date, replacing the weekday
+      - `date` (date, unique), `is_open`, `opens_at`, `closes_at`, `reason`
+    - `closures` - closed date ranges such as public holidays
+      - `start_date` / `end_date` (date, inclusive), `reason` (text),
+        `kind` (`holiday` or `closure`)
+
+  2. Functions
+    - `booking_day_hours(date)` - resolved hours of a date. Closures win over
+      overrides, which win over the weekly hours
+    - `booking_time_slots(workspace_type, date)` - start slots of a workspace
+      type on a date: its own hours narrowed to the site hours, empty when closed
+    - `booking_covered_slots(workspace_type, date, time_slot, duration)` -
+      slots a booking holds on one of the days it covers
+    - `sync_booking_slot_claims` only claims open days
+    - `create_booking` rejects bookings that start on a closed day
+
+  3. Security
+    - Enable RLS on the new tables, readable by everyone, managed by admins
+*/
+
+CREATE TABLE IF NOT EXISTS opening_hours (
+  weekday smallint PRIMARY KEY CHECK (weekday BETWEEN 0 AND 6),
+  is_open boolean NOT NULL DEFAULT true,
+  opens_at time,
+  closes_at time,
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT opening_hours_times_check CHECK ((opens_at IS NULL) = (closes_at IS NULL) AND (closes_at IS NULL OR closes_at > opens_at))
+);
+
+INSERT INTO opening_hours (weekday, is_open)
+SELECT weekday, true FROM generate_series(0, 6) AS weekday
+ON CONFLICT (weekday) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS schedule_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  date date NOT NULL UNIQUE,
+  is_open boolean NOT NULL DEFAULT true,
+  opens_at time,
+  closes_at time,
+  reason text,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT schedule_overrides_times_check CHECK ((opens_at IS NULL) = (closes_at IS NULL) AND (closes_at IS NULL OR closes_at > opens_at))
+);
+
+CREATE TABLE IF NOT EXISTS closures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text NOT NULL,
+  kind text NOT NULL DEFAULT 'closure' CHECK (kind IN ('closure', 'holiday')),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT closures_range_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS closures_range_idx ON closures(start_date, end_date);
+
+ALTER TABLE opening_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedule_overrides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view opening hours"
+  ON opening_hours
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage opening hours"
+  ON opening_hours
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Anyone can view schedule overrides"
+  ON schedule_overrides
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage schedule overrides"
+  ON schedule_overrides
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Anyone can view closures"
+  ON closures
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage closures"
+  ON closures
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Mirrors getDayHours in src/utils/scheduleHelpers.ts
+CREATE OR REPLACE FUNCTION booking_day_hours(p_date date)
+RETURNS TABLE (is_open boolean, opens_at time, closes_at time, reason text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT false, NULL::time, NULL::time, c.reason
+  FROM closures c
+  WHERE p_date BETWEEN c.start_date AND c.end_date
+  ORDER BY c.start_date
+  LIMIT 1;
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT o.is_open, o.opens_at, o.closes_at, o.reason
+  FROM schedule_overrides o
+  WHERE o.date = p_date;
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT h.is_open, h.opens_at, h.closes_at, NULL::text
+  FROM opening_hours h
+  WHERE h.weekday = extract(dow FROM p_date)::smallint;
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT true, NULL::time, NULL::time, NULL::text;
+END;
+$$;
+
+-- Start slots of a workspace type on a date, labelled to match src/utils/bookingHelpers.ts
+CREATE OR REPLACE FUNCTION booking_time_slots(p_workspace_type text, p_date date)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH hours AS (
+    SELECT
+      d.is_open,
+      greatest(COALESCE(w.opening_time, time '09:00'), COALESCE(d.opens_at, time '00:00')) AS opening_time,
+      CASE
+        WHEN d.closes_at IS NULL THEN COALESCE(w.closing_time, time '18:00')
+        ELSE least(COALESCE(w.closing_time, time '18:00'), d.closes_at)
+      END AS closing_time,
+      COALESCE(w.slot_minutes, 60) AS slot_minutes
+    FROM booking_day_hours(p_date) AS d
+    LEFT JOIN LATERAL (
+      SELECT opening_time, closing_time, slot_minutes FROM workspace_types
+      WHERE name = p_workspace_type
+      ORDER BY created_at
+      LIMIT 1
+    ) w ON true
+  )
+  SELECT COALESCE(array_agg(to_char(start_at, 'FMHH12:MI AM') ORDER BY start_at), ARRAY[]::text[])
+  FROM hours,
+    generate_series(
+      date '2000-01-01' + opening_time,
+      date '2000-01-01' + closing_time - make_interval(mins => slot_minutes),
+      make_interval(mins => slot_minutes)
+    ) AS start_at
+  WHERE hours.is_open;
+$$;
+
+-- Slots a booking holds on one of the days it covers
+CREATE OR REPLACE FUNCTION booking_covered_slots(p_workspace_type text, p_date date, p_time_slot text, p_duration text)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slots text[] := booking_time_slots(p_workspace_type, p_date);
+  v_start integer := array_position(v_slots, p_time_slot);
+  v_count integer := booking_duration_slots(
+    p_duration, coalesce(array_length(v_slots, 1), 0), booking_slot_minutes(p_workspace_type)
+  );
+BEGIN
+  IF booking_duration_days(p_duration) > 1 THEN
+    RETURN v_slots;
+  END IF;
+
+  IF v_start IS NULL THEN
+    RETURN ARRAY[]::text[];
+  END IF;
+
+  RETURN v_slots[v_start : v_start + v_count - 1];
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_booking_slot_claims()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM booking_slot_claims WHERE booking_id = NEW.id;
+
+  IF NEW.status IN ('pending', 'code_sent', 'confirmed') AND NEW.desk_number IS NOT NULL THEN
+    INSERT INTO booking_slot_claims (booking_id, workspace_type, date, time_slot, desk_number)
+    SELECT NEW.id, NEW.workspace_type, day::date, slot, NEW.desk_number
+    FROM generate_series(NEW.date, NEW.end_date, interval '1 day') AS day,
+      unnest(booking_covered_slots(NEW.workspace_type, day::date, NEW.time_slot, NEW.duration)) AS slot;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_booking(
+  p_workspace_type text,
+  p_date date,
+  p_time_slot text,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_status text DEFAULT 'pending'
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_day record;
+  v_day_slots text[] := booking_time_slots(p_workspace_type, p_date);
+  v_slots text[];
+  v_required integer;
+  v_end_date date := p_date + booking_duration_days(p_duration) - 1;
+  v_desk integer;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_day FROM booking_day_hours(p_date);
+
+  IF NOT v_day.is_open THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = format(
+        'We are closed on %s%s. Please choose a different date.',
+        to_char(p_date, 'FMMonth FMDD, YYYY'),
+        COALESCE(' (' || v_day.reason || ')', '')
+      );
+  END IF;
+
+  -- Serialise bookings for the same workspace; ranges can span many dates
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  v_slots := booking_covered_slots(p_workspace_type, p_date, p_time_slot, p_duration);
+  v_required := booking_duration_slots(
+    p_duration, coalesce(array_length(v_day_slots, 1), 0), booking_slot_minutes(p_workspace_type)
+  );
+
+  IF booking_duration_days(p_duration) > 1 AND p_time_slot <> v_day_slots[1] THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'Multi-day bookings must start at the first slot of the day.';
+  END IF;
+
+  IF coalesce(array_length(v_slots, 1), 0) = 0 OR array_length(v_slots, 1) < v_required THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected time slot cannot fit the requested duration.';
+  END IF;
+
+  -- Legacy bookings without a desk block every desk for their slots
+  IF EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.workspace_type = p_workspace_type
+      AND b.date <= v_end_date
+      AND b.end_date >= p_date
+      AND b.status IN ('pending', 'code_sent', 'confirmed')
+      AND b.desk_number IS NULL
+      AND EXISTS (
+        SELECT 1
+        FROM generate_series(greatest(b.date, p_date), least(b.end_date, v_end_date), interval '1 day') AS day
+        WHERE booking_covered_slots(b.workspace_type, day::date, b.time_slot, b.duration)
+          && booking_covered_slots(p_workspace_type, day::date, p_time_slot, p_duration)
+      )
+  ) THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available for the selected time slot and duration.';
+  END IF;
+
+  SELECT desk INTO v_desk
+  FROM generate_series(1, booking_total_desks(p_workspace_type)) AS desk
+  WHERE NOT EXISTS (
+    SELECT 1 FROM booking_slot_claims c
+    WHERE c.workspace_type = p_workspace_type
+      AND c.date BETWEEN p_date AND v_end_date
+      AND c.desk_number = desk
+      AND c.time_slot = ANY (booking_covered_slots(p_workspace_type, c.date, p_time_slot, p_duration))
+  )
+  ORDER BY desk
+  LIMIT 1;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available on every day of the selected dates.';
+  END IF;
+
+  INSERT INTO bookings (
+    workspace_type, date, time_slot, duration,
+    customer_name, customer_email, customer_phone, customer_whatsapp,
+    total_price, status, user_id, desk_number
+  ) VALUES (
+    p_workspace_type, p_date, p_time_slot, p_duration,
+    p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+    p_total_price, p_status, auth.uid(), v_desk
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected desk was just booked by someone else.';
+END;
+$$;
+
+-- Superseded by the date-aware variants above
+DROP FUNCTION IF EXISTS booking_covered_slots(text, text, text);
+DROP FUNCTION IF EXISTS booking_time_slots(text);
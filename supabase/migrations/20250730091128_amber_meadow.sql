@@ -0,0 +1,423 @@
+/*
+  # Bookings store start and end timestamps
+
+  1. Changes
+    - Add `starts_at` and `ends_at` (timestamp) to `bookings`: the local
+      wall-clock time at the space the booking starts and ends. Week and month
+      bookings run from opening on their first day to closing on their last
+    - Convert existing rows from `date`, `time_slot` and `duration`
+    - `date`, `end_date` and `time_slot` are now derived from the timestamps
+      by trigger and kept for display only; renaming or reordering slots no
+      longer changes what an existing booking means
+    - Replace `booking_slot_claims` with an exclusion constraint: two active
+      bookings can never hold the same desk for overlapping periods
+    - Pre-existing overlapping bookings keep the earliest; later ones lose their
+      desk assignment and block every desk, like legacy bookings without a desk
+
+  2. Functions
+    - `booking_day_window(workspace_type, date)` - opening and closing time of a
+      workspace type on a date, no row when closed
+    - `booking_duration_minutes(duration)` - length of hour-based durations
+    - `booking_period(workspace_type, date, start_time, duration)` - start and
+      end timestamps of a requested booking. Raises `BK409` when it does not fit
+    - `create_booking` takes a start time instead of a slot label
+    - `reschedule_booking(booking_id, date, start_time, duration, desk_number)` -
+      admins move a booking, optionally to a given desk, re-checking availability
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS starts_at timestamp;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS ends_at timestamp;
+
+COMMENT ON COLUMN bookings.starts_at IS 'Local time at the space the booking starts.';
+COMMENT ON COLUMN bookings.ends_at IS 'Local time at the space the booking ends (exclusive).';
+COMMENT ON COLUMN bookings.time_slot IS 'Display label of starts_at, e.g. 9:30 AM. Derived, do not write.';
+COMMENT ON COLUMN bookings.end_date IS 'Last day the booking covers. Derived from ends_at, do not write.';
+
+-- Opening and closing time of a workspace type on a date, narrowed to the site hours
+CREATE OR REPLACE FUNCTION booking_day_window(p_workspace_type text, p_date date)
+RETURNS TABLE (opens_at time, closes_at time)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    greatest(COALESCE(w.opening_time, time '09:00'), COALESCE(d.opens_at, time '00:00')),
+    CASE
+      WHEN d.closes_at IS NULL THEN COALESCE(w.closing_time, time '18:00')
+      ELSE least(COALESCE(w.closing_time, time '18:00'), d.closes_at)
+    END
+  FROM booking_day_hours(p_date) AS d
+  LEFT JOIN LATERAL (
+    SELECT opening_time, closing_time FROM workspace_types
+    WHERE name = p_workspace_type
+    ORDER BY created_at
+    LIMIT 1
+  ) w ON true
+  WHERE d.is_open;
+$$;
+
+-- Mirrors getDurationMinutes in src/utils/bookingHelpers.ts; null for whole-day durations
+CREATE OR REPLACE FUNCTION booking_duration_minutes(p_duration text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_duration
+    WHEN '1-hour' THEN 60
+    WHEN '2-hours' THEN 120
+    WHEN '4-hours' THEN 240
+    WHEN '1-day' THEN NULL
+    WHEN '1-week' THEN NULL
+    WHEN '1-month' THEN NULL
+    ELSE 60
+  END;
+$$;
+
+-- Convert existing rows. Unreadable slot labels fall back to opening time
+CREATE OR REPLACE FUNCTION pg_temp.parse_slot_label(p_label text)
+RETURNS time
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN to_timestamp(trim(p_label), 'HH12:MI AM')::time;
+EXCEPTION
+  WHEN others THEN
+    RETURN NULL;
+END;
+$$;
+
+UPDATE bookings b
+SET
+  starts_at = CASE
+    WHEN booking_duration_minutes(b.duration) IS NULL THEN b.date + w.opening_time
+    ELSE b.date + COALESCE(pg_temp.parse_slot_label(b.time_slot), w.opening_time)
+  END,
+  ends_at = CASE
+    WHEN booking_duration_minutes(b.duration) IS NULL THEN b.end_date + w.closing_time
+    ELSE b.date + COALESCE(pg_temp.parse_slot_label(b.time_slot), w.opening_time)
+      + make_interval(mins => booking_duration_minutes(b.duration))
+  END
+FROM (
+  SELECT bk.id,
+    COALESCE(wt.opening_time, time '09:00') AS opening_time,
+    COALESCE(wt.closing_time, time '18:00') AS closing_time
+  FROM bookings bk
+  LEFT JOIN LATERAL (
+    SELECT opening_time, closing_time FROM workspace_types
+    WHERE name = bk.workspace_type
+    ORDER BY created_at
+    LIMIT 1
+  ) wt ON true
+) w
+WHERE w.id = b.id AND b.starts_at IS NULL;
+
+ALTER TABLE bookings ALTER COLUMN starts_at SET NOT NULL;
+ALTER TABLE bookings ALTER COLUMN ends_at SET NOT NULL;
+ALTER TABLE bookings ADD CONSTRAINT bookings_period_check CHECK (ends_at > starts_at);
+
+-- The slot claims are replaced by the exclusion constraint below
+DROP TRIGGER IF EXISTS sync_booking_slot_claims ON bookings;
+DROP TRIGGER IF EXISTS set_booking_end_date ON bookings;
+DROP FUNCTION IF EXISTS sync_booking_slot_claims();
+DROP FUNCTION IF EXISTS set_booking_end_date();
+DROP FUNCTION IF EXISTS booking_covered_slots(text, date, text, text);
+DROP FUNCTION IF EXISTS booking_duration_slots(text, integer, integer);
+DROP FUNCTION IF EXISTS booking_time_slots(text, date);
+DROP TABLE IF EXISTS booking_slot_claims;
+
+-- Keep the display columns in step with the timestamps
+CREATE OR REPLACE FUNCTION set_booking_display_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.date := NEW.starts_at::date;
+  NEW.end_date := (NEW.ends_at - interval '1 microsecond')::date;
+  NEW.time_slot := to_char(NEW.starts_at, 'FMHH12:MI AM');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_booking_display_fields
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_display_fields();
+
+UPDATE bookings SET starts_at = starts_at;
+
+-- Earlier bookings keep their desk when converted rows overlap
+UPDATE bookings b
+SET desk_number = NULL
+WHERE b.desk_number IS NOT NULL
+  AND b.status IN ('pending', 'code_sent', 'confirmed')
+  AND EXISTS (
+    SELECT 1 FROM bookings other
+    WHERE other.workspace_type = b.workspace_type
+      AND other.desk_number = b.desk_number
+      AND other.status IN ('pending', 'code_sent', 'confirmed')
+      AND (other.created_at, other.id) < (b.created_at, b.id)
+      AND tsrange(other.starts_at, other.ends_at) && tsrange(b.starts_at, b.ends_at)
+  );
+
+ALTER TABLE bookings ADD CONSTRAINT bookings_desk_period_excl
+  EXCLUDE USING gist (workspace_type WITH =, desk_number WITH =, tsrange(starts_at, ends_at) WITH &&)
+  WHERE (status IN ('pending', 'code_sent', 'confirmed') AND desk_number IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS bookings_workspace_period_idx ON bookings USING gist (workspace_type, tsrange(starts_at, ends_at));
+
+-- Start and end of a requested booking; raises BK409 when it does not fit the day
+CREATE OR REPLACE FUNCTION booking_period(p_workspace_type text, p_date date, p_start_time time, p_duration text)
+RETURNS TABLE (starts_at timestamp, ends_at timestamp)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_day record;
+  v_window record;
+  v_slot_minutes integer := booking_slot_minutes(p_workspace_type);
+  v_minutes integer := booking_duration_minutes(p_duration);
+  v_end_date date := p_date + booking_duration_days(p_duration) - 1;
+  v_last_closing time;
+BEGIN
+  SELECT * INTO v_day FROM booking_day_hours(p_date);
+  SELECT * INTO v_window FROM booking_day_window(p_workspace_type, p_date);
+
+  IF NOT FOUND OR v_window.closes_at <= v_window.opens_at THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = format(
+        'We are closed on %s%s. Please choose a different date.',
+        to_char(p_date, 'FMMonth FMDD, YYYY'),
+        COALESCE(' (' || v_day.reason || ')', '')
+      );
+  END IF;
+
+  -- Whole-day durations run from opening to closing, ending on the last day they cover
+  IF v_minutes IS NULL THEN
+    IF p_start_time IS NOT NULL AND p_start_time <> v_window.opens_at THEN
+      RAISE EXCEPTION 'booking_conflict'
+        USING ERRCODE = 'BK409', DETAIL = 'Full-day bookings must start at opening time.';
+    END IF;
+
+    SELECT w.closes_at INTO v_last_closing FROM booking_day_window(p_workspace_type, v_end_date) AS w;
+    v_last_closing := COALESCE(
+      v_last_closing,
+      (SELECT closing_time FROM workspace_types WHERE name = p_workspace_type ORDER BY created_at LIMIT 1),
+      time '18:00'
+    );
+
+    RETURN QUERY SELECT p_date + v_window.opens_at, v_end_date + v_last_closing;
+    RETURN;
+  END IF;
+
+  IF p_start_time IS NULL
+    OR p_start_time < v_window.opens_at
+    OR (extract(epoch FROM p_start_time - v_window.opens_at)::integer / 60) % v_slot_minutes <> 0 THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected start time is not one of the bookable time slots.';
+  END IF;
+
+  IF p_start_time + make_interval(mins => v_minutes) > v_window.closes_at
+    OR p_start_time + make_interval(mins => v_minutes) < p_start_time THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected time slot cannot fit the requested duration.';
+  END IF;
+
+  RETURN QUERY SELECT p_date + p_start_time, p_date + p_start_time + make_interval(mins => v_minutes);
+END;
+$$;
+
+-- First desk of a workspace type free for the whole period, or null
+CREATE OR REPLACE FUNCTION booking_free_desk(
+  p_workspace_type text,
+  p_starts_at timestamp,
+  p_ends_at timestamp,
+  p_ignore_booking_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_desk integer;
+BEGIN
+  -- Legacy bookings without a desk block every desk for their period
+  IF EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.workspace_type = p_workspace_type
+      AND b.status IN ('pending', 'code_sent', 'confirmed')
+      AND b.desk_number IS NULL
+      AND b.id IS DISTINCT FROM p_ignore_booking_id
+      AND tsrange(b.starts_at, b.ends_at) && tsrange(p_starts_at, p_ends_at)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT desk INTO v_desk
+  FROM generate_series(1, booking_total_desks(p_workspace_type)) AS desk
+  WHERE NOT EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.workspace_type = p_workspace_type
+      AND b.status IN ('pending', 'code_sent', 'confirmed')
+      AND b.desk_number = desk
+      AND b.id IS DISTINCT FROM p_ignore_booking_id
+      AND tsrange(b.starts_at, b.ends_at) && tsrange(p_starts_at, p_ends_at)
+  )
+  ORDER BY desk
+  LIMIT 1;
+
+  RETURN v_desk;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS create_booking(text, date, text, text, text, text, text, text, numeric, text);
+
+CREATE OR REPLACE FUNCTION create_booking(
+  p_workspace_type text,
+  p_date date,
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_status text DEFAULT 'pending'
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period record;
+  v_desk integer;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_period FROM booking_period(p_workspace_type, p_date, p_start_time, p_duration);
+
+  -- Serialise bookings for the same workspace; ranges can span many dates
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  v_desk := booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at);
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available for the selected dates and time.';
+  END IF;
+
+  INSERT INTO bookings (
+    workspace_type, starts_at, ends_at, duration,
+    customer_name, customer_email, customer_phone, customer_whatsapp,
+    total_price, status, user_id, desk_number
+  ) VALUES (
+    p_workspace_type, v_period.starts_at, v_period.ends_at, p_duration,
+    p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+    p_total_price, p_status, auth.uid(), v_desk
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected desk was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_booking(text, date, time, text, text, text, text, text, numeric, text) TO anon, authenticated;
+
+-- Move a booking to a new date, start time or duration, keeping its desk when it is still free
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id uuid,
+  p_date date,
+  p_start_time time,
+  p_duration text,
+  p_desk_number integer DEFAULT NULL
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_period record;
+  v_desk integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can reschedule bookings'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found', p_booking_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_period FROM booking_period(v_booking.workspace_type, p_date, p_start_time, p_duration);
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_booking.workspace_type));
+
+  -- A requested desk must be free; otherwise keep the current desk or take the first free one
+  IF p_desk_number IS NOT NULL THEN
+    IF p_desk_number < 1 OR p_desk_number > booking_total_desks(v_booking.workspace_type) OR EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.workspace_type = v_booking.workspace_type
+        AND b.status IN ('pending', 'code_sent', 'confirmed')
+        AND (b.desk_number = p_desk_number OR b.desk_number IS NULL)
+        AND b.id <> p_booking_id
+        AND tsrange(b.starts_at, b.ends_at) && tsrange(v_period.starts_at, v_period.ends_at)
+    ) THEN
+      RAISE EXCEPTION 'booking_conflict'
+        USING ERRCODE = 'BK409', DETAIL = format('Desk %s is not available for the selected dates and time.', p_desk_number);
+    END IF;
+    v_desk := p_desk_number;
+  ELSIF v_booking.desk_number IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.workspace_type = v_booking.workspace_type
+      AND b.status IN ('pending', 'code_sent', 'confirmed')
+      AND (b.desk_number = v_booking.desk_number OR b.desk_number IS NULL)
+      AND b.id <> p_booking_id
+      AND tsrange(b.starts_at, b.ends_at) && tsrange(v_period.starts_at, v_period.ends_at)
+  ) THEN
+    v_desk := v_booking.desk_number;
+  ELSE
+    v_desk := booking_free_desk(v_booking.workspace_type, v_period.starts_at, v_period.ends_at, p_booking_id);
+  END IF;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available for the selected dates and time.';
+  END IF;
+
+  UPDATE bookings
+  SET starts_at = v_period.starts_at,
+      ends_at = v_period.ends_at,
+      duration = p_duration,
+      desk_number = v_desk,
+      updated_at = now()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected desk was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reschedule_booking(uuid, date, time, text, integer) TO authenticated;
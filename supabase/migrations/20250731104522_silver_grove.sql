@@ -0,0 +1,153 @@
+/*
+  # Desk inventory and preferred desks
+
+  1. New Tables
+    - `desks` - the physical desks of each workspace type, numbered like
+      `bookings.desk_number`
+      - `workspace_type` (text), `desk_number` (integer, unique per type)
+      - `label` (text) - name shown on the floor plan, e.g. `Window 3`
+      - `zone` (text) - area of the floor plan the desk belongs to
+      - `attributes` (text[]) - any of `monitor`, `window`, `standing`,
+        `power`, `quiet`
+    - Seed `Desk 1` ... `Desk N` for every workspace type up to its capacity.
+      Desks without a row are still bookable and shown as `Desk N`
+
+  2. Functions
+    - `booking_desk_is_free(workspace_type, desk_number, starts_at, ends_at)` -
+      whether one desk is free for a period
+    - `create_booking` takes an optional `p_desk_number`. The preferred desk is
+      used when it is free, otherwise the first free desk is assigned
+
+  3. Security
+    - Enable RLS on `desks`, readable by everyone, managed by admins
+*/
+
+CREATE TABLE IF NOT EXISTS desks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_type text NOT NULL,
+  desk_number integer NOT NULL CHECK (desk_number > 0),
+  label text NOT NULL,
+  zone text NOT NULL DEFAULT 'Main floor',
+  attributes text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT desks_workspace_desk_key UNIQUE (workspace_type, desk_number),
+  CONSTRAINT desks_attributes_check CHECK (attributes <@ ARRAY['monitor', 'window', 'standing', 'power', 'quiet']::text[])
+);
+
+INSERT INTO desks (workspace_type, desk_number, label)
+SELECT w.name, desk, 'Desk ' || desk
+FROM (
+  SELECT DISTINCT ON (name) name, capacity FROM workspace_types ORDER BY name, created_at
+) w
+CROSS JOIN LATERAL generate_series(1, w.capacity) AS desk
+ON CONFLICT (workspace_type, desk_number) DO NOTHING;
+
+ALTER TABLE desks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view desks"
+  ON desks
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage desks"
+  ON desks
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Whether one desk is free for a period; bookings without a desk block every desk
+CREATE OR REPLACE FUNCTION booking_desk_is_free(
+  p_workspace_type text,
+  p_desk_number integer,
+  p_starts_at timestamp,
+  p_ends_at timestamp,
+  p_ignore_booking_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_desk_number BETWEEN 1 AND booking_total_desks(p_workspace_type)
+    AND NOT EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.workspace_type = p_workspace_type
+        AND b.status IN ('pending', 'code_sent', 'confirmed')
+        AND (b.desk_number = p_desk_number OR b.desk_number IS NULL)
+        AND b.id IS DISTINCT FROM p_ignore_booking_id
+        AND tsrange(b.starts_at, b.ends_at) && tsrange(p_starts_at, p_ends_at)
+    );
+$$;
+
+DROP FUNCTION IF EXISTS create_booking(text, date, time, text, text, text, text, text, numeric, text);
+
+CREATE OR REPLACE FUNCTION create_booking(
+  p_workspace_type text,
+  p_date date,
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_status text DEFAULT 'pending',
+  p_desk_number integer DEFAULT NULL
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period record;
+  v_desk integer;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_period FROM booking_period(p_workspace_type, p_date, p_start_time, p_duration);
+
+  -- Serialise bookings for the same workspace; ranges can span many dates
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  -- Preferred desk when it is free, otherwise the first free desk
+  IF p_desk_number IS NOT NULL
+    AND booking_desk_is_free(p_workspace_type, p_desk_number, v_period.starts_at, v_period.ends_at) THEN
+    v_desk := p_desk_number;
+  ELSE
+    v_desk := booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at);
+  END IF;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available for the selected dates and time.';
+  END IF;
+
+  INSERT INTO bookings (
+    workspace_type, starts_at, ends_at, duration,
+    customer_name, customer_email, customer_phone, customer_whatsapp,
+    total_price, status, user_id, desk_number
+  ) VALUES (
+    p_workspace_type, v_period.starts_at, v_period.ends_at, p_duration,
+    p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+    p_total_price, p_status, auth.uid(), v_desk
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected desk was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_booking(text, date, time, text, text, text, text, text, numeric, text, integer) TO anon, authenticated;
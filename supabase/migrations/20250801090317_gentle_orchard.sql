@@ -0,0 +1,256 @@
+/*
+  # Waitlist for fully booked slots
+
+  1. New Tables
+    - `waitlist_entries` - customers waiting for a workspace type, date, start
+      time and duration that had no free desk
+      - `starts_at` / `ends_at` (timestamp) - period they want, as on bookings
+      - `status` - `waiting`, `offered` (a desk is held for them), `booked`,
+        `expired` (the hold ran out) or `left`
+      - `hold_booking_id` - the booking holding a desk for them once offered
+
+  2. Changes
+    - Add `hold_expires_at` (timestamptz) to `bookings`. A waitlist offer is a
+      pending booking in the customer's name that is cancelled when the hold
+      runs out unless they claim it first
+
+  3. Functions
+    - `join_waitlist(...)` - join the waitlist for a full period
+    - `offer_waitlist_hold(booking_id)` - after a booking is cancelled or
+      rejected, hold a desk for the first waiting customer whose period it
+      frees. Returns the held booking, or null when nobody can be offered
+    - `release_expired_waitlist_holds()` - cancel holds that ran out and return
+      them, so their desks can be offered to the next customer
+    - `claim_waitlist_hold(booking_id)` - the customer keeps a held desk
+
+  4. Security
+    - Enable RLS on `waitlist_entries`. Customers see and leave their own
+      entries, admins manage all
+*/
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS hold_expires_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_type text NOT NULL,
+  date date NOT NULL,
+  start_time time NOT NULL,
+  duration text NOT NULL,
+  starts_at timestamp NOT NULL,
+  ends_at timestamp NOT NULL,
+  customer_name text NOT NULL,
+  customer_email text NOT NULL,
+  customer_phone text NOT NULL DEFAULT '',
+  customer_whatsapp text NOT NULL,
+  total_price numeric NOT NULL,
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'left')),
+  hold_booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  offered_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS waitlist_entries_queue_idx ON waitlist_entries(workspace_type, status, created_at);
+
+-- One open entry per customer and period
+CREATE UNIQUE INDEX IF NOT EXISTS waitlist_entries_open_key
+  ON waitlist_entries(user_id, workspace_type, starts_at, duration)
+  WHERE status IN ('waiting', 'offered');
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their waitlist entries"
+  ON waitlist_entries
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can leave the waitlist"
+  ON waitlist_entries
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid() AND status = 'waiting')
+  WITH CHECK (user_id = auth.uid() AND status = 'left');
+
+CREATE POLICY "Admins can manage waitlist entries"
+  ON waitlist_entries
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE OR REPLACE FUNCTION join_waitlist(
+  p_workspace_type text,
+  p_date date,
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric
+)
+RETURNS waitlist_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period record;
+  v_entry waitlist_entries;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join the waitlist'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_period FROM booking_period(p_workspace_type, p_date, p_start_time, p_duration);
+
+  IF booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at) IS NOT NULL THEN
+    RAISE EXCEPTION 'desk_available'
+      USING ERRCODE = '22023', DETAIL = 'A desk is free for this time. Book it directly instead.';
+  END IF;
+
+  INSERT INTO waitlist_entries (
+    user_id, workspace_type, date, start_time, duration, starts_at, ends_at,
+    customer_name, customer_email, customer_phone, customer_whatsapp, total_price
+  ) VALUES (
+    auth.uid(), p_workspace_type, p_date, p_start_time, p_duration, v_period.starts_at, v_period.ends_at,
+    p_customer_name, p_customer_email, COALESCE(p_customer_phone, ''), p_customer_whatsapp, p_total_price
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'already_waiting'
+      USING ERRCODE = '22023', DETAIL = 'You are already on the waitlist for this time.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION join_waitlist(text, date, time, text, text, text, text, text, numeric) TO authenticated;
+
+-- Hold a desk freed by a cancelled or rejected booking for the first customer it suits
+CREATE OR REPLACE FUNCTION offer_waitlist_hold(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- How long a waiting customer has to claim the desk
+  v_hold interval := interval '30 minutes';
+  v_freed bookings;
+  v_entry waitlist_entries;
+  v_desk integer;
+  v_hold_booking bookings;
+BEGIN
+  SELECT * INTO v_freed FROM bookings WHERE id = p_booking_id;
+  IF NOT FOUND OR v_freed.status IN ('pending', 'code_sent', 'confirmed') THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_freed.workspace_type));
+
+  FOR v_entry IN
+    SELECT * FROM waitlist_entries w
+    WHERE w.workspace_type = v_freed.workspace_type
+      AND w.status = 'waiting'
+      AND w.date >= current_date
+      AND tsrange(w.starts_at, w.ends_at) && tsrange(v_freed.starts_at, v_freed.ends_at)
+    ORDER BY w.created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    -- The freed desk when it suits the whole period, otherwise any desk now free
+    IF v_freed.desk_number IS NOT NULL
+      AND booking_desk_is_free(v_entry.workspace_type, v_freed.desk_number, v_entry.starts_at, v_entry.ends_at) THEN
+      v_desk := v_freed.desk_number;
+    ELSE
+      v_desk := booking_free_desk(v_entry.workspace_type, v_entry.starts_at, v_entry.ends_at);
+    END IF;
+
+    CONTINUE WHEN v_desk IS NULL;
+
+    INSERT INTO bookings (
+      workspace_type, starts_at, ends_at, duration,
+      customer_name, customer_email, customer_phone, customer_whatsapp,
+      total_price, status, user_id, desk_number, hold_expires_at
+    ) VALUES (
+      v_entry.workspace_type, v_entry.starts_at, v_entry.ends_at, v_entry.duration,
+      v_entry.customer_name, v_entry.customer_email, v_entry.customer_phone, v_entry.customer_whatsapp,
+      v_entry.total_price, 'pending', v_entry.user_id, v_desk, now() + v_hold
+    )
+    RETURNING * INTO v_hold_booking;
+
+    UPDATE waitlist_entries
+    SET status = 'offered', hold_booking_id = v_hold_booking.id, offered_at = now()
+    WHERE id = v_entry.id;
+
+    RETURN v_hold_booking;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION offer_waitlist_hold(uuid) TO anon, authenticated;
+
+-- Cancel holds nobody claimed in time; the caller offers their desks to the next customer
+CREATE OR REPLACE FUNCTION release_expired_waitlist_holds()
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH expired AS (
+    UPDATE bookings
+    SET status = 'cancelled', hold_expires_at = NULL, updated_at = now()
+    WHERE status = 'pending' AND hold_expires_at < now()
+    RETURNING *
+  ), marked AS (
+    UPDATE waitlist_entries w
+    SET status = 'expired'
+    FROM expired e
+    WHERE w.hold_booking_id = e.id
+    RETURNING w.id
+  )
+  SELECT * FROM expired;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION release_expired_waitlist_holds() TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION claim_waitlist_hold(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR v_booking.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking % not found', p_booking_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.status <> 'pending' OR v_booking.hold_expires_at IS NULL OR v_booking.hold_expires_at < now() THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'This hold has expired and the desk was offered to someone else.';
+  END IF;
+
+  UPDATE bookings SET hold_expires_at = NULL, updated_at = now()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  UPDATE waitlist_entries SET status = 'booked' WHERE hold_booking_id = p_booking_id;
+
+  RETURN v_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_waitlist_hold(uuid) TO authenticated;
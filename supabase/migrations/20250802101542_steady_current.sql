@@ -0,0 +1,196 @@
+/*
+  # Recurring bookings
+
+  1. New Tables
+    - `booking_series` - how a set of linked bookings repeats
+      - `frequency` - `weekdays` (Monday to Friday) or `weekly` (on `weekdays`)
+      - `weekdays` (smallint[]) - days of the week for weekly series, 0 is Sunday
+      - `until_date` / `occurrence_count` - when the series ends; one of them is set
+
+  2. Changes
+    - Add `series_id` to `bookings`, linking each occurrence to its series
+
+  3. Functions
+    - `booking_series_conflicts(...)` - dates of a series that cannot be booked
+      and why, so customers can see them before they submit
+    - `create_booking_series(...)` - books every date of a series in one
+      transaction, keeping the same desk where it is free. Nothing is booked
+      when any date conflicts
+
+  4. Security
+    - Enable RLS on `booking_series`. Customers see their own series, admins
+      manage all
+*/
+
+CREATE TABLE IF NOT EXISTS booking_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  workspace_type text NOT NULL,
+  start_time time NOT NULL,
+  duration text NOT NULL,
+  frequency text NOT NULL CHECK (frequency IN ('weekdays', 'weekly')),
+  weekdays smallint[] NOT NULL DEFAULT '{}' CHECK (weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  until_date date,
+  occurrence_count integer CHECK (occurrence_count > 0),
+  created_at timestamptz DEFAULT now(),
+  CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES booking_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS bookings_series_id_idx ON bookings(series_id);
+
+ALTER TABLE booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their booking series"
+  ON booking_series
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage booking series"
+  ON booking_series
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Dates of a series that cannot be booked, with the reason shown to the customer
+CREATE OR REPLACE FUNCTION booking_series_conflicts(
+  p_workspace_type text,
+  p_dates date[],
+  p_start_time time,
+  p_duration text
+)
+RETURNS TABLE (conflict_date date, reason text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_date date;
+  v_period record;
+BEGIN
+  IF booking_duration_days(p_duration) > 1 THEN
+    RAISE EXCEPTION 'Only bookings of up to one day can repeat'
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOREACH v_date IN ARRAY p_dates LOOP
+    BEGIN
+      SELECT * INTO v_period FROM booking_period(p_workspace_type, v_date, p_start_time, p_duration);
+    EXCEPTION
+      WHEN SQLSTATE 'BK409' THEN
+        conflict_date := v_date;
+        reason := 'Closed or outside opening hours';
+        RETURN NEXT;
+        CONTINUE;
+    END;
+
+    IF v_date < current_date THEN
+      conflict_date := v_date;
+      reason := 'In the past';
+      RETURN NEXT;
+    ELSIF booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at) IS NULL THEN
+      conflict_date := v_date;
+      reason := 'Fully booked';
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION booking_series_conflicts(text, date[], time, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_booking_series(
+  p_workspace_type text,
+  p_dates date[],
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_frequency text,
+  p_weekdays smallint[],
+  p_until_date date,
+  p_occurrence_count integer,
+  p_status text DEFAULT 'pending',
+  p_desk_number integer DEFAULT NULL
+)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conflicts text;
+  v_series_id uuid;
+  v_date date;
+  v_period record;
+  v_desk integer := p_desk_number;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(array_length(p_dates, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A series needs at least one date'
+      USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  SELECT string_agg(to_char(c.conflict_date, 'FMMonth FMDD') || ' (' || c.reason || ')', ', ' ORDER BY c.conflict_date)
+  INTO v_conflicts
+  FROM booking_series_conflicts(p_workspace_type, p_dates, p_start_time, p_duration) c;
+
+  IF v_conflicts IS NOT NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'These dates cannot be booked: ' || v_conflicts || '.';
+  END IF;
+
+  INSERT INTO booking_series (
+    user_id, workspace_type, start_time, duration, frequency, weekdays, until_date, occurrence_count
+  ) VALUES (
+    auth.uid(), p_workspace_type, p_start_time, p_duration,
+    p_frequency, COALESCE(p_weekdays, '{}'), p_until_date, p_occurrence_count
+  )
+  RETURNING id INTO v_series_id;
+
+  FOREACH v_date IN ARRAY (SELECT array_agg(DISTINCT d ORDER BY d) FROM unnest(p_dates) AS d) LOOP
+    SELECT * INTO v_period FROM booking_period(p_workspace_type, v_date, p_start_time, p_duration);
+
+    -- Keep the desk of the previous occurrence while it is free
+    IF v_desk IS NULL
+      OR NOT booking_desk_is_free(p_workspace_type, v_desk, v_period.starts_at, v_period.ends_at) THEN
+      v_desk := booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at);
+    END IF;
+
+    INSERT INTO bookings (
+      workspace_type, starts_at, ends_at, duration,
+      customer_name, customer_email, customer_phone, customer_whatsapp,
+      total_price, status, user_id, desk_number, series_id
+    ) VALUES (
+      p_workspace_type, v_period.starts_at, v_period.ends_at, p_duration,
+      p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+      p_total_price, p_status, auth.uid(), v_desk, v_series_id
+    )
+    RETURNING * INTO v_booking;
+
+    RETURN NEXT v_booking;
+  END LOOP;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'A desk in this series was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_booking_series(
+  text, date[], time, text, text, text, text, text, numeric, text, smallint[], date, integer, text, integer
+) TO anon, authenticated;
@@ -0,0 +1,126 @@
+/*
+  # Duration-based pricing
+
+  1. New Tables
+    - `workspace_rates` - the price of each booking duration for a workspace type
+      - `workspace_type` (text), `duration` (text, e.g. `1-hour`, `1-day`),
+        unique together
+      - `price` (numeric) - price of one booking of that duration
+    - Seeded from `workspace_types.price` and `price_unit`: the unit's own tier
+      keeps the listed price, an hour is an eighth of a day, a week 7 days and
+      a month 30 days
+
+  2. Functions
+    - `booking_price(workspace_type, duration)` - price of one booking
+    - Bookings get their `total_price` from `booking_price` when they are
+      created or their workspace type or duration changes, whatever the client
+      sent
+
+  3. Security
+    - Enable RLS on `workspace_rates`, readable by everyone, managed by admins
+*/
+
+CREATE TABLE IF NOT EXISTS workspace_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_type text NOT NULL,
+  duration text NOT NULL CHECK (duration IN ('1-hour', '2-hours', '4-hours', '1-day', '1-week', '1-month')),
+  price numeric NOT NULL CHECK (price >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT workspace_rates_workspace_duration_key UNIQUE (workspace_type, duration)
+);
+
+CREATE TRIGGER update_workspace_rates_updated_at
+  BEFORE UPDATE ON workspace_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+WITH base AS (
+  SELECT DISTINCT ON (name)
+    name,
+    price,
+    price_unit,
+    CASE price_unit
+      WHEN 'hour' THEN price * 8
+      WHEN 'week' THEN price / 7
+      WHEN 'month' THEN price / 30
+      ELSE price
+    END AS day_price
+  FROM workspace_types
+  ORDER BY name, created_at
+), tiers AS (
+  SELECT name, '1-hour' AS duration, CASE WHEN price_unit = 'hour' THEN price ELSE day_price / 8 END AS price FROM base
+  UNION ALL
+  SELECT name, '2-hours', CASE WHEN price_unit = 'hour' THEN price * 2 ELSE day_price / 4 END FROM base
+  UNION ALL
+  SELECT name, '4-hours', CASE WHEN price_unit = 'hour' THEN price * 4 ELSE day_price / 2 END FROM base
+  UNION ALL
+  SELECT name, '1-day', day_price FROM base
+  UNION ALL
+  SELECT name, '1-week', CASE WHEN price_unit = 'week' THEN price ELSE day_price * 7 END FROM base
+  UNION ALL
+  SELECT name, '1-month', CASE WHEN price_unit = 'month' THEN price ELSE day_price * 30 END FROM base
+)
+INSERT INTO workspace_rates (workspace_type, duration, price)
+SELECT name, duration, round(price, 2) FROM tiers
+ON CONFLICT (workspace_type, duration) DO NOTHING;
+
+ALTER TABLE workspace_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view workspace rates"
+  ON workspace_rates
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage workspace rates"
+  ON workspace_rates
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Price of one booking of a duration; the same rates the booking forms show
+CREATE OR REPLACE FUNCTION booking_price(p_workspace_type text, p_duration text)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_price numeric;
+BEGIN
+  SELECT price INTO v_price
+  FROM workspace_rates
+  WHERE workspace_type = p_workspace_type AND duration = p_duration;
+
+  IF v_price IS NULL THEN
+    RAISE EXCEPTION 'No rate for % %', p_workspace_type, p_duration
+      USING ERRCODE = '22023', DETAIL = 'This duration cannot be booked for the selected workspace.';
+  END IF;
+
+  RETURN v_price;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION booking_price(text, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION set_booking_total_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.workspace_type IS DISTINCT FROM OLD.workspace_type
+    OR NEW.duration IS DISTINCT FROM OLD.duration THEN
+    NEW.total_price := booking_price(NEW.workspace_type, NEW.duration);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_booking_total_price
+  BEFORE INSERT OR UPDATE OF workspace_type, duration ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_total_price();
@@ -0,0 +1,382 @@
+/*
+  # Promo codes
+
+  1. New Tables
+    - `promo_codes` - discount codes customers enter at checkout
+      - `code` (text, unique, stored upper case)
+      - `discount_type` - `percent` or `fixed`, with `discount_value`
+      - `valid_from` / `valid_until` (timestamptz) - optional validity window
+      - `max_uses` / `max_uses_per_user` (integer) - optional usage limits,
+        counting bookings that were not rejected or cancelled. Codes with a
+        per-customer limit can only be used by signed-in customers
+      - `workspace_types` (text[]) - workspace types the code applies to,
+        empty for all
+
+  2. Changes
+    - Add `promo_code_id` and `discount_amount` to `bookings`. `total_price`
+      is the rate less the discount, so revenue reflects it
+
+  3. Functions
+    - `check_promo_code(code, workspace_type, duration)` - validate a code for
+      the signed-in customer and return the discounted price
+    - `create_booking` and `create_booking_series` take an optional
+      `p_promo_code`
+    - `set_booking_total_price` validates the code of a new booking and
+      applies its discount. Invalid codes raise SQLSTATE `PR422` with the
+      reason in DETAIL
+
+  4. Security
+    - Enable RLS on `promo_codes`, managed by admins. Customers can only check
+      codes through `check_promo_code`
+*/
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE CHECK (code = upper(code) AND code <> ''),
+  description text NOT NULL DEFAULT '',
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value numeric NOT NULL CHECK (discount_value > 0),
+  valid_from timestamptz,
+  valid_until timestamptz,
+  max_uses integer CHECK (max_uses > 0),
+  max_uses_per_user integer CHECK (max_uses_per_user > 0),
+  workspace_types text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from)
+);
+
+CREATE TRIGGER update_promo_codes_updated_at
+  BEFORE UPDATE ON promo_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS promo_code_id uuid REFERENCES promo_codes(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS discount_amount numeric NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS bookings_promo_code_id_idx ON bookings(promo_code_id);
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage promo codes"
+  ON promo_codes
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Id of a promo code as customers type it
+CREATE OR REPLACE FUNCTION find_promo_code_id(p_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  SELECT id INTO v_id FROM promo_codes WHERE code = upper(trim(p_code));
+
+  IF v_id IS NULL THEN
+    RAISE EXCEPTION 'promo_code_invalid'
+      USING ERRCODE = 'PR422', DETAIL = 'This promo code does not exist.';
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- The promo code when it can be used for another booking of a workspace type by a customer
+CREATE OR REPLACE FUNCTION validate_promo_code(p_promo_code_id uuid, p_workspace_type text, p_user_id uuid)
+RETURNS promo_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promo promo_codes;
+  v_detail text;
+BEGIN
+  -- Lock the code so concurrent bookings cannot both take its last use
+  SELECT * INTO v_promo FROM promo_codes WHERE id = p_promo_code_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_promo.is_active THEN
+    v_detail := 'This promo code is no longer available.';
+  ELSIF v_promo.valid_from IS NOT NULL AND now() < v_promo.valid_from THEN
+    v_detail := format('This promo code can be used from %s.', to_char(v_promo.valid_from, 'FMMonth FMDD, YYYY'));
+  ELSIF v_promo.valid_until IS NOT NULL AND now() > v_promo.valid_until THEN
+    v_detail := 'This promo code has expired.';
+  ELSIF cardinality(v_promo.workspace_types) > 0 AND NOT p_workspace_type = ANY (v_promo.workspace_types) THEN
+    v_detail := format('This promo code is only valid for %s.', array_to_string(v_promo.workspace_types, ', '));
+  ELSIF v_promo.max_uses IS NOT NULL AND (
+    SELECT count(*) FROM bookings b
+    WHERE b.promo_code_id = v_promo.id AND b.status NOT IN ('rejected', 'cancelled')
+  ) >= v_promo.max_uses THEN
+    v_detail := 'This promo code has been fully redeemed.';
+  ELSIF v_promo.max_uses_per_user IS NOT NULL AND p_user_id IS NULL THEN
+    -- Guests cannot be told apart, so per-customer limits need an account
+    v_detail := 'Sign in to use this promo code.';
+  ELSIF v_promo.max_uses_per_user IS NOT NULL AND (
+    SELECT count(*) FROM bookings b
+    WHERE b.promo_code_id = v_promo.id
+      AND b.user_id = p_user_id
+      AND b.status NOT IN ('rejected', 'cancelled')
+  ) >= v_promo.max_uses_per_user THEN
+    v_detail := 'You have already used this promo code the maximum number of times.';
+  END IF;
+
+  IF v_detail IS NOT NULL THEN
+    RAISE EXCEPTION 'promo_code_invalid'
+      USING ERRCODE = 'PR422', DETAIL = v_detail;
+  END IF;
+
+  RETURN v_promo;
+END;
+$$;
+
+-- Discount a promo code gives on a price, never more than the price
+CREATE OR REPLACE FUNCTION promo_code_discount(p_promo promo_codes, p_price numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_promo.discount_type
+    WHEN 'percent' THEN round(p_price * p_promo.discount_value / 100, 2)
+    ELSE least(p_promo.discount_value, p_price)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_promo_code(p_code text, p_workspace_type text, p_duration text)
+RETURNS TABLE (promo_code_id uuid, code text, description text, discount_amount numeric, total_price numeric)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promo promo_codes;
+  v_price numeric := booking_price(p_workspace_type, p_duration);
+BEGIN
+  v_promo := validate_promo_code(find_promo_code_id(p_code), p_workspace_type, auth.uid());
+
+  promo_code_id := v_promo.id;
+  code := v_promo.code;
+  description := v_promo.description;
+  discount_amount := promo_code_discount(v_promo, v_price);
+  total_price := v_price - discount_amount;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_promo_code(text, text, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION set_booking_total_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_price numeric;
+  v_promo promo_codes;
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.workspace_type IS DISTINCT FROM OLD.workspace_type
+    OR NEW.duration IS DISTINCT FROM OLD.duration THEN
+    v_price := booking_price(NEW.workspace_type, NEW.duration);
+
+    IF NEW.promo_code_id IS NULL THEN
+      NEW.discount_amount := 0;
+    ELSIF TG_OP = 'INSERT' THEN
+      v_promo := validate_promo_code(NEW.promo_code_id, NEW.workspace_type, NEW.user_id);
+      NEW.discount_amount := promo_code_discount(v_promo, v_price);
+    ELSE
+      -- A rescheduled booking keeps the code it was booked with
+      SELECT * INTO v_promo FROM promo_codes WHERE id = NEW.promo_code_id;
+      NEW.discount_amount := COALESCE(promo_code_discount(v_promo, v_price), 0);
+    END IF;
+
+    NEW.total_price := v_price - NEW.discount_amount;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS create_booking(text, date, time, text, text, text, text, text, numeric, text, integer);
+
+CREATE OR REPLACE FUNCTION create_booking(
+  p_workspace_type text,
+  p_date date,
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_status text DEFAULT 'pending',
+  p_desk_number integer DEFAULT NULL,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period record;
+  v_desk integer;
+  v_promo_code_id uuid;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    v_promo_code_id := find_promo_code_id(p_promo_code);
+  END IF;
+
+  SELECT * INTO v_period FROM booking_period(p_workspace_type, p_date, p_start_time, p_duration);
+
+  -- Serialise bookings for the same workspace; ranges can span many dates
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  -- Preferred desk when it is free, otherwise the first free desk
+  IF p_desk_number IS NOT NULL
+    AND booking_desk_is_free(p_workspace_type, p_desk_number, v_period.starts_at, v_period.ends_at) THEN
+    v_desk := p_desk_number;
+  ELSE
+    v_desk := booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at);
+  END IF;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available for the selected dates and time.';
+  END IF;
+
+  -- total_price and discount_amount are set from the rates by set_booking_total_price
+  INSERT INTO bookings (
+    workspace_type, starts_at, ends_at, duration,
+    customer_name, customer_email, customer_phone, customer_whatsapp,
+    total_price, status, user_id, desk_number, promo_code_id
+  ) VALUES (
+    p_workspace_type, v_period.starts_at, v_period.ends_at, p_duration,
+    p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+    p_total_price, p_status, auth.uid(), v_desk, v_promo_code_id
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected desk was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_booking(text, date, time, text, text, text, text, text, numeric, text, integer, text) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS create_booking_series(
+  text, date[], time, text, text, text, text, text, numeric, text, smallint[], date, integer, text, integer
+);
+
+CREATE OR REPLACE FUNCTION create_booking_series(
+  p_workspace_type text,
+  p_dates date[],
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_frequency text,
+  p_weekdays smallint[],
+  p_until_date date,
+  p_occurrence_count integer,
+  p_status text DEFAULT 'pending',
+  p_desk_number integer DEFAULT NULL,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conflicts text;
+  v_series_id uuid;
+  v_promo_code_id uuid;
+  v_date date;
+  v_period record;
+  v_desk integer := p_desk_number;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(array_length(p_dates, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A series needs at least one date'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    v_promo_code_id := find_promo_code_id(p_promo_code);
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  SELECT string_agg(to_char(c.conflict_date, 'FMMonth FMDD') || ' (' || c.reason || ')', ', ' ORDER BY c.conflict_date)
+  INTO v_conflicts
+  FROM booking_series_conflicts(p_workspace_type, p_dates, p_start_time, p_duration) c;
+
+  IF v_conflicts IS NOT NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'These dates cannot be booked: ' || v_conflicts || '.';
+  END IF;
+
+  INSERT INTO booking_series (
+    user_id, workspace_type, start_time, duration, frequency, weekdays, until_date, occurrence_count
+  ) VALUES (
+    auth.uid(), p_workspace_type, p_start_time, p_duration,
+    p_frequency, COALESCE(p_weekdays, '{}'), p_until_date, p_occurrence_count
+  )
+  RETURNING id INTO v_series_id;
+
+  FOREACH v_date IN ARRAY (SELECT array_agg(DISTINCT d ORDER BY d) FROM unnest(p_dates) AS d) LOOP
+    SELECT * INTO v_period FROM booking_period(p_workspace_type, v_date, p_start_time, p_duration);
+
+    -- Keep the desk of the previous occurrence while it is free
+    IF v_desk IS NULL
+      OR NOT booking_desk_is_free(p_workspace_type, v_desk, v_period.starts_at, v_period.ends_at) THEN
+      v_desk := booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at);
+    END IF;
+
+    -- Each occurrence redeems the promo code once, within its usage limits
+    INSERT INTO bookings (
+      workspace_type, starts_at, ends_at, duration,
+      customer_name, customer_email, customer_phone, customer_whatsapp,
+      total_price, status, user_id, desk_number, series_id, promo_code_id
+    ) VALUES (
+      p_workspace_type, v_period.starts_at, v_period.ends_at, p_duration,
+      p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+      p_total_price, p_status, auth.uid(), v_desk, v_series_id, v_promo_code_id
+    )
+    RETURNING * INTO v_booking;
+
+    RETURN NEXT v_booking;
+  END LOOP;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'A desk in this series was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_booking_series(
+  text, date[], time, text, text, text, text, text, numeric, text, smallint[], date, integer, text, integer, text
+) TO anon, authenticated;
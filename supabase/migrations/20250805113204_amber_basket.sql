@@ -0,0 +1,396 @@
+/*
+  # Bookable add-on services
+
+  1. New Tables
+    - `add_ons` - extra services customers can add to a booking, managed in
+      the CMS and listed on the pricing page
+      - `name`, `description`
+      - `price` (numeric) per `price_unit`: `booking`, `day`, `week` or `month`
+      - `is_active`, `display_order`
+    - Seeded with the services the pricing page used to hard-code
+    - `booking_add_ons` - add-on line items of a booking. Name and unit price
+      are copied from the add-on so later price changes leave booked lines alone
+      - `quantity` - units of `price_unit` the booking covers
+      - `line_total` (numeric) - `unit_price * quantity`
+
+  2. Changes
+    - Add `add_ons_total` to `bookings`. `total_price` is the rate less the
+      promo discount plus the add-on lines; discounts apply to the rate only
+
+  3. Functions
+    - `add_on_quantity(price_unit, duration)` - units of an add-on one booking
+      of a duration is charged for
+    - `add_booking_add_ons(booking_id, add_on_ids)` - attach add-ons to a new
+      booking
+    - `create_booking` and `create_booking_series` take an optional
+      `p_add_on_ids`
+    - `set_booking_total_price` adds the add-on lines and reprices them when a
+      booking's duration changes
+
+  4. Security
+    - Enable RLS on `add_ons`, readable by everyone, managed by admins
+    - Enable RLS on `booking_add_ons`, readable by the booking's customer,
+      managed by admins
+*/
+
+CREATE TABLE IF NOT EXISTS add_ons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  price numeric NOT NULL CHECK (price >= 0),
+  price_unit text NOT NULL DEFAULT 'booking' CHECK (price_unit IN ('booking', 'day', 'week', 'month')),
+  is_active boolean NOT NULL DEFAULT true,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TRIGGER update_add_ons_updated_at
+  BEFORE UPDATE ON add_ons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO add_ons (name, description, price, price_unit, display_order) VALUES
+  ('Parking', 'Secure parking in our dedicated garage', 15, 'day', 1),
+  ('Storage Locker', 'Personal storage space for your belongings', 25, 'month', 2),
+  ('Virtual Office', 'Business address and mail handling services', 99, 'month', 3),
+  ('Phone Answering', 'Professional phone answering in your company name', 149, 'month', 4);
+
+CREATE TABLE IF NOT EXISTS booking_add_ons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  add_on_id uuid REFERENCES add_ons(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  unit_price numeric NOT NULL CHECK (unit_price >= 0),
+  price_unit text NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  line_total numeric NOT NULL CHECK (line_total >= 0),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT booking_add_ons_booking_add_on_key UNIQUE (booking_id, add_on_id)
+);
+
+CREATE INDEX IF NOT EXISTS booking_add_ons_booking_id_idx ON booking_add_ons(booking_id);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS add_ons_total numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE add_ons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_add_ons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view add-ons"
+  ON add_ons
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage add-ons"
+  ON add_ons
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Users can view their booking add-ons"
+  ON booking_add_ons
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.id = booking_add_ons.booking_id AND b.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can manage booking add-ons"
+  ON booking_add_ons
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Units of an add-on one booking is charged for: a week covers 7 days and a month 30
+CREATE OR REPLACE FUNCTION add_on_quantity(p_price_unit text, p_duration text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH days AS (
+    SELECT CASE p_duration WHEN '1-week' THEN 7 WHEN '1-month' THEN 30 ELSE 1 END AS n
+  )
+  SELECT CASE p_price_unit
+    WHEN 'day' THEN n
+    WHEN 'week' THEN ceil(n / 7.0)::integer
+    WHEN 'month' THEN ceil(n / 30.0)::integer
+    ELSE 1
+  END
+  FROM days;
+$$;
+
+-- Copy the chosen add-ons onto a booking as line items; set_booking_total_price adds them to the price
+CREATE OR REPLACE FUNCTION add_booking_add_ons(p_booking_id uuid, p_add_on_ids uuid[])
+RETURNS bookings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF COALESCE(cardinality(p_add_on_ids), 0) = 0 THEN
+    RETURN v_booking;
+  END IF;
+
+  IF (SELECT count(*) FROM add_ons WHERE id = ANY (p_add_on_ids) AND is_active)
+    < (SELECT count(DISTINCT id) FROM unnest(p_add_on_ids) AS id) THEN
+    RAISE EXCEPTION 'Add-on not available'
+      USING ERRCODE = '22023', DETAIL = 'One of the selected add-ons is no longer available.';
+  END IF;
+
+  INSERT INTO booking_add_ons (booking_id, add_on_id, name, unit_price, price_unit, quantity, line_total)
+  SELECT v_booking.id, a.id, a.name, a.price, a.price_unit, q.quantity, a.price * q.quantity
+  FROM add_ons a
+  CROSS JOIN LATERAL (SELECT add_on_quantity(a.price_unit, v_booking.duration) AS quantity) q
+  WHERE a.id = ANY (p_add_on_ids);
+
+  UPDATE bookings
+  SET add_ons_total = (SELECT sum(line_total) FROM booking_add_ons WHERE booking_id = v_booking.id)
+  WHERE id = v_booking.id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_booking_total_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_price numeric;
+  v_promo promo_codes;
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.workspace_type IS DISTINCT FROM OLD.workspace_type
+    OR NEW.duration IS DISTINCT FROM OLD.duration
+    OR NEW.add_ons_total IS DISTINCT FROM OLD.add_ons_total THEN
+    v_price := booking_price(NEW.workspace_type, NEW.duration);
+
+    IF NEW.promo_code_id IS NULL THEN
+      NEW.discount_amount := 0;
+    ELSIF TG_OP = 'INSERT' THEN
+      v_promo := validate_promo_code(NEW.promo_code_id, NEW.workspace_type, NEW.user_id);
+      NEW.discount_amount := promo_code_discount(v_promo, v_price);
+    ELSE
+      -- A rescheduled booking keeps the code it was booked with
+      SELECT * INTO v_promo FROM promo_codes WHERE id = NEW.promo_code_id;
+      NEW.discount_amount := COALESCE(promo_code_discount(v_promo, v_price), 0);
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+      -- Lines are added by add_booking_add_ons once the booking exists
+      NEW.add_ons_total := 0;
+    ELSE
+      IF NEW.duration IS DISTINCT FROM OLD.duration THEN
+        UPDATE booking_add_ons
+        SET quantity = add_on_quantity(price_unit, NEW.duration),
+            line_total = unit_price * add_on_quantity(price_unit, NEW.duration)
+        WHERE booking_id = NEW.id;
+      END IF;
+
+      -- Always the sum of the lines, whatever the client sent
+      SELECT COALESCE(sum(line_total), 0) INTO NEW.add_ons_total
+      FROM booking_add_ons
+      WHERE booking_id = NEW.id;
+    END IF;
+
+    NEW.total_price := v_price - NEW.discount_amount + NEW.add_ons_total;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_booking_total_price ON bookings;
+
+CREATE TRIGGER set_booking_total_price
+  BEFORE INSERT OR UPDATE OF workspace_type, duration, add_ons_total ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_total_price();
+
+DROP FUNCTION IF EXISTS create_booking(text, date, time, text, text, text, text, text, numeric, text, integer, text);
+
+CREATE OR REPLACE FUNCTION create_booking(
+  p_workspace_type text,
+  p_date date,
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_status text DEFAULT 'pending',
+  p_desk_number integer DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_add_on_ids uuid[] DEFAULT NULL
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period record;
+  v_desk integer;
+  v_promo_code_id uuid;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    v_promo_code_id := find_promo_code_id(p_promo_code);
+  END IF;
+
+  SELECT * INTO v_period FROM booking_period(p_workspace_type, p_date, p_start_time, p_duration);
+
+  -- Serialise bookings for the same workspace; ranges can span many dates
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  -- Preferred desk when it is free, otherwise the first free desk
+  IF p_desk_number IS NOT NULL
+    AND booking_desk_is_free(p_workspace_type, p_desk_number, v_period.starts_at, v_period.ends_at) THEN
+    v_desk := p_desk_number;
+  ELSE
+    v_desk := booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at);
+  END IF;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available for the selected dates and time.';
+  END IF;
+
+  -- total_price, discount_amount and add_ons_total are set by set_booking_total_price
+  INSERT INTO bookings (
+    workspace_type, starts_at, ends_at, duration,
+    customer_name, customer_email, customer_phone, customer_whatsapp,
+    total_price, status, user_id, desk_number, promo_code_id
+  ) VALUES (
+    p_workspace_type, v_period.starts_at, v_period.ends_at, p_duration,
+    p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+    p_total_price, p_status, auth.uid(), v_desk, v_promo_code_id
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN add_booking_add_ons(v_booking.id, p_add_on_ids);
+EXCEPTION
+  WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected desk was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_booking(text, date, time, text, text, text, text, text, numeric, text, integer, text, uuid[]) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS create_booking_series(
+  text, date[], time, text, text, text, text, text, numeric, text, smallint[], date, integer, text, integer, text
+);
+
+CREATE OR REPLACE FUNCTION create_booking_series(
+  p_workspace_type text,
+  p_dates date[],
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_frequency text,
+  p_weekdays smallint[],
+  p_until_date date,
+  p_occurrence_count integer,
+  p_status text DEFAULT 'pending',
+  p_desk_number integer DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_add_on_ids uuid[] DEFAULT NULL
+)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conflicts text;
+  v_series_id uuid;
+  v_promo_code_id uuid;
+  v_date date;
+  v_period record;
+  v_desk integer := p_desk_number;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(array_length(p_dates, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A series needs at least one date'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL THEN
+    v_promo_code_id := find_promo_code_id(p_promo_code);
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  SELECT string_agg(to_char(c.conflict_date, 'FMMonth FMDD') || ' (' || c.reason || ')', ', ' ORDER BY c.conflict_date)
+  INTO v_conflicts
+  FROM booking_series_conflicts(p_workspace_type, p_dates, p_start_time, p_duration) c;
+
+  IF v_conflicts IS NOT NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'These dates cannot be booked: ' || v_conflicts || '.';
+  END IF;
+
+  INSERT INTO booking_series (
+    user_id, workspace_type, start_time, duration, frequency, weekdays, until_date, occurrence_count
+  ) VALUES (
+    auth.uid(), p_workspace_type, p_start_time, p_duration,
+    p_frequency, COALESCE(p_weekdays, '{}'), p_until_date, p_occurrence_count
+  )
+  RETURNING id INTO v_series_id;
+
+  FOREACH v_date IN ARRAY (SELECT array_agg(DISTINCT d ORDER BY d) FROM unnest(p_dates) AS d) LOOP
+    SELECT * INTO v_period FROM booking_period(p_workspace_type, v_date, p_start_time, p_duration);
+
+    -- Keep the desk of the previous occurrence while it is free
+    IF v_desk IS NULL
+      OR NOT booking_desk_is_free(p_workspace_type, v_desk, v_period.starts_at, v_period.ends_at) THEN
+      v_desk := booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at);
+    END IF;
+
+    -- Each occurrence redeems the promo code once, within its usage limits
+    INSERT INTO bookings (
+      workspace_type, starts_at, ends_at, duration,
+      customer_name, customer_email, customer_phone, customer_whatsapp,
+      total_price, status, user_id, desk_number, series_id, promo_code_id
+    ) VALUES (
+      p_workspace_type, v_period.starts_at, v_period.ends_at, p_duration,
+      p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+      p_total_price, p_status, auth.uid(), v_desk, v_series_id, v_promo_code_id
+    )
+    RETURNING * INTO v_booking;
+
+    -- Every occurrence carries the same add-ons
+    RETURN NEXT add_booking_add_ons(v_booking.id, p_add_on_ids);
+  END LOOP;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'A desk in this series was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_booking_series(
+  text, date[], time, text, text, text, text, text, numeric, text, smallint[], date, integer, text, integer, text, uuid[]
+) TO anon, authenticated;
@@ -0,0 +1,725 @@
+/*
+  # Membership plans with prepaid credits
+
+  1. New Tables
+    - `memberships` - a customer's subscription to a pricing plan
+      - `plan_name`, `credit_unit` (`hour` or `day`), `credits_per_period` and
+        `billing_period` (`week` or `month`) are copied from the plan
+      - `status` - `pending` until an admin activates it after payment, then
+        `active` until `cancelled` or a period ends unpaid
+      - `current_period_start` / `current_period_end` (timestamptz)
+      - `paid_through` - end of the last period paid for. A period is only
+        renewed once it has been paid
+      - At most one pending or active membership per customer
+    - `credit_ledger` - every change to a customer's hour and day credits;
+      the balance of a unit is the sum of its `amount`s
+      - `entry_type` - `grant`, `use`, `refund`, `adjustment` or `expiry`
+      - `membership_id`, `booking_id` - what the entry is for, if anything
+
+  2. Changes
+    - `pricing_plans` get `credit_unit`, `credits_per_period` and
+      `billing_period`. Plans with credits can be subscribed to; the others
+      stay display-only
+    - Add `credit_unit` and `credits_used` to `bookings`. A booking paid with
+      credits only costs its add-ons, and is confirmed at once when that is
+      nothing
+
+  3. Functions
+    - `credit_balance(user_id, unit)`
+    - `booking_credit_cost(unit, duration, workspace_type)` - credits one
+      booking takes. A day is as many hours as the workspace type is open
+    - `subscribe_to_plan(plan_id)` - customers request a membership
+    - `activate_membership(membership_id)` - admins start the first period
+    - `record_membership_payment(membership_id)` - admins record the payment
+      of the next period
+    - `renew_memberships()` - start the next period of memberships whose period
+      has ended. Unused credits of the period expire, up to the period's grant.
+      A membership whose next period is unpaid goes back to `pending` until an
+      admin activates it again. Run by the `renew-memberships` function
+    - `expire_credits(user_id, unit, note)` - admins write off a balance
+    - `create_booking` and `create_booking_series` take `p_use_credits`.
+      Without enough credits they raise SQLSTATE `CR402` with the reason in
+      DETAIL
+    - Credits are refunded when a booking paid with them is cancelled or
+      rejected
+
+  4. Security
+    - Enable RLS on `memberships` and `credit_ledger`, readable by the customer
+      they belong to, managed by admins
+    - `renew_memberships` is for the service role and admins only
+*/
+
+ALTER TABLE pricing_plans ADD COLUMN IF NOT EXISTS credit_unit text CHECK (credit_unit IN ('hour', 'day'));
+ALTER TABLE pricing_plans ADD COLUMN IF NOT EXISTS credits_per_period numeric CHECK (credits_per_period > 0);
+ALTER TABLE pricing_plans ADD COLUMN IF NOT EXISTS billing_period text NOT NULL DEFAULT 'month'
+  CHECK (billing_period IN ('week', 'month'));
+
+ALTER TABLE pricing_plans ADD CONSTRAINT pricing_plans_credits_check
+  CHECK ((credit_unit IS NULL) = (credits_per_period IS NULL));
+
+CREATE TABLE IF NOT EXISTS memberships (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  plan_id uuid REFERENCES pricing_plans(id) ON DELETE SET NULL,
+  plan_name text NOT NULL,
+  credit_unit text NOT NULL CHECK (credit_unit IN ('hour', 'day')),
+  credits_per_period numeric NOT NULL CHECK (credits_per_period > 0),
+  billing_period text NOT NULL CHECK (billing_period IN ('week', 'month')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'cancelled')),
+  current_period_start timestamptz,
+  current_period_end timestamptz,
+  paid_through timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (status <> 'active' OR current_period_end IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS memberships_one_open_per_user_idx
+  ON memberships(user_id)
+  WHERE status IN ('pending', 'active');
+
+CREATE TRIGGER update_memberships_updated_at
+  BEFORE UPDATE ON memberships
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  credit_unit text NOT NULL CHECK (credit_unit IN ('hour', 'day')),
+  amount numeric NOT NULL CHECK (amount <> 0),
+  entry_type text NOT NULL CHECK (entry_type IN ('grant', 'use', 'refund', 'adjustment', 'expiry')),
+  membership_id uuid REFERENCES memberships(id) ON DELETE SET NULL,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  note text NOT NULL DEFAULT '',
+  created_by uuid DEFAULT auth.uid() REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS credit_ledger_user_unit_idx ON credit_ledger(user_id, credit_unit);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS credit_unit text CHECK (credit_unit IN ('hour', 'day'));
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS credits_used numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE memberships ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their memberships"
+  ON memberships
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage memberships"
+  ON memberships
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Users can view their credits"
+  ON credit_ledger
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage credits"
+  ON credit_ledger
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE OR REPLACE FUNCTION credit_balance(p_user_id uuid, p_credit_unit text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(sum(amount), 0)
+  FROM credit_ledger
+  WHERE user_id = p_user_id AND credit_unit = p_credit_unit;
+$$;
+
+-- Credits one booking takes: a day is as many hours as the workspace type is open,
+-- a week 7 days and a month 30
+CREATE OR REPLACE FUNCTION booking_credit_cost(p_credit_unit text, p_duration text, p_workspace_type text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT CASE p_duration WHEN '1-week' THEN 7 WHEN '1-month' THEN 30 ELSE 1 END AS n
+  ), day_hours AS (
+    SELECT COALESCE(
+      (
+        SELECT extract(epoch FROM COALESCE(closing_time, time '18:00') - COALESCE(opening_time, time '09:00')) / 3600
+        FROM workspace_types
+        WHERE name = p_workspace_type
+        ORDER BY created_at
+        LIMIT 1
+      ),
+      9
+    ) AS h
+  )
+  SELECT CASE
+    WHEN p_credit_unit = 'day' THEN n
+    WHEN p_duration = '1-hour' THEN 1
+    WHEN p_duration = '2-hours' THEN 2
+    WHEN p_duration = '4-hours' THEN 4
+    ELSE n * h
+  END
+  FROM days, day_hours;
+$$;
+
+GRANT EXECUTE ON FUNCTION booking_credit_cost(text, text, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION membership_period_interval(p_billing_period text)
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_billing_period WHEN 'week' THEN interval '1 week' ELSE interval '1 month' END;
+$$;
+
+CREATE OR REPLACE FUNCTION subscribe_to_plan(p_plan_id uuid)
+RETURNS memberships
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan pricing_plans;
+  v_membership memberships;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in'
+      USING ERRCODE = '42501', DETAIL = 'Please sign in to subscribe.';
+  END IF;
+
+  SELECT * INTO v_plan FROM pricing_plans WHERE id = p_plan_id AND is_active;
+
+  IF NOT FOUND OR v_plan.credit_unit IS NULL THEN
+    RAISE EXCEPTION 'Plan not available'
+      USING ERRCODE = '22023', DETAIL = 'This plan cannot be subscribed to.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM memberships WHERE user_id = auth.uid() AND status IN ('pending', 'active')) THEN
+    RAISE EXCEPTION 'Membership exists'
+      USING ERRCODE = '22023', DETAIL = 'You already have a membership. Contact us to change plans.';
+  END IF;
+
+  INSERT INTO memberships (user_id, plan_id, plan_name, credit_unit, credits_per_period, billing_period)
+  VALUES (auth.uid(), v_plan.id, v_plan.name, v_plan.credit_unit, v_plan.credits_per_period, v_plan.billing_period)
+  RETURNING * INTO v_membership;
+
+  RETURN v_membership;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION subscribe_to_plan(uuid) TO authenticated;
+
+-- Start the first period of a paid membership and grant its credits
+CREATE OR REPLACE FUNCTION activate_membership(p_membership_id uuid)
+RETURNS memberships
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_membership memberships;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can activate memberships'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE memberships
+  SET status = 'active',
+      current_period_start = now(),
+      current_period_end = now() + membership_period_interval(billing_period),
+      paid_through = now() + membership_period_interval(billing_period)
+  WHERE id = p_membership_id AND status = 'pending'
+  RETURNING * INTO v_membership;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membership is not pending'
+      USING ERRCODE = '22023', DETAIL = 'Only pending memberships can be activated.';
+  END IF;
+
+  INSERT INTO credit_ledger (user_id, credit_unit, amount, entry_type, membership_id, note)
+  VALUES (
+    v_membership.user_id, v_membership.credit_unit, v_membership.credits_per_period, 'grant', v_membership.id,
+    v_membership.plan_name || ' credits'
+  );
+
+  RETURN v_membership;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION activate_membership(uuid) TO authenticated;
+
+-- Record the payment of the period after the last one paid for
+CREATE OR REPLACE FUNCTION record_membership_payment(p_membership_id uuid)
+RETURNS memberships
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_membership memberships;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can record membership payments'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE memberships
+  SET paid_through = GREATEST(paid_through, current_period_end) + membership_period_interval(billing_period)
+  WHERE id = p_membership_id AND status = 'active'
+  RETURNING * INTO v_membership;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membership is not active'
+      USING ERRCODE = '22023', DETAIL = 'Activate a pending membership instead of recording a payment.';
+  END IF;
+
+  RETURN v_membership;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_membership_payment(uuid) TO authenticated;
+
+-- Renew memberships whose period has ended; returns how many periods started
+CREATE OR REPLACE FUNCTION renew_memberships()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_membership memberships;
+  v_unused numeric;
+  v_renewed integer := 0;
+BEGIN
+  IF auth.role() <> 'service_role' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only the renewal scheduler can renew memberships'
+      USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_membership IN
+    SELECT * FROM memberships
+    WHERE status = 'active'
+      AND current_period_end <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('credits:' || v_membership.user_id));
+
+    -- Catch up on every period that ended while nobody looked
+    WHILE v_membership.current_period_end <= now() LOOP
+      -- Membership credits do not roll over; credits granted by admins do
+      v_unused := LEAST(credit_balance(v_membership.user_id, v_membership.credit_unit), v_membership.credits_per_period);
+      IF v_unused > 0 THEN
+        INSERT INTO credit_ledger (user_id, credit_unit, amount, entry_type, membership_id, note)
+        VALUES (
+          v_membership.user_id, v_membership.credit_unit, -v_unused, 'expiry', v_membership.id,
+          'Unused ' || v_membership.plan_name || ' credits'
+        );
+      END IF;
+
+      -- An unpaid period waits for an admin to activate the membership again
+      IF v_membership.paid_through IS NULL OR v_membership.paid_through <= v_membership.current_period_end THEN
+        v_membership.status := 'pending';
+        EXIT;
+      END IF;
+
+      INSERT INTO credit_ledger (user_id, credit_unit, amount, entry_type, membership_id, note)
+      VALUES (
+        v_membership.user_id, v_membership.credit_unit, v_membership.credits_per_period, 'grant', v_membership.id,
+        v_membership.plan_name || ' credits'
+      );
+
+      v_membership.current_period_start := v_membership.current_period_end;
+      v_membership.current_period_end := v_membership.current_period_end
+        + membership_period_interval(v_membership.billing_period);
+      v_renewed := v_renewed + 1;
+    END LOOP;
+
+    UPDATE memberships
+    SET status = v_membership.status,
+        current_period_start = v_membership.current_period_start,
+        current_period_end = v_membership.current_period_end
+    WHERE id = v_membership.id;
+  END LOOP;
+
+  RETURN v_renewed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION renew_memberships() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION renew_memberships() TO service_role;
+
+-- Write off a customer's whole balance of a unit; returns the credits expired
+CREATE OR REPLACE FUNCTION expire_credits(p_user_id uuid, p_credit_unit text, p_note text DEFAULT '')
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_balance numeric;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can expire credits'
+      USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('credits:' || p_user_id));
+
+  v_balance := credit_balance(p_user_id, p_credit_unit);
+  IF v_balance > 0 THEN
+    INSERT INTO credit_ledger (user_id, credit_unit, amount, entry_type, note)
+    VALUES (p_user_id, p_credit_unit, -v_balance, 'expiry', COALESCE(p_note, ''));
+  END IF;
+
+  RETURN GREATEST(v_balance, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION expire_credits(uuid, text, text) TO authenticated;
+
+-- Pay a new booking with the customer's credits, hours before days
+CREATE OR REPLACE FUNCTION pay_booking_with_credits(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings;
+  v_unit text;
+  v_cost numeric;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id AND status = 'pending' AND credit_unit IS NULL;
+
+  IF v_booking.user_id IS NULL THEN
+    RAISE EXCEPTION 'credits_unavailable'
+      USING ERRCODE = 'CR402', DETAIL = 'Please sign in to book with your credits.';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('credits:' || v_booking.user_id));
+
+  SELECT u.unit, booking_credit_cost(u.unit, v_booking.duration, v_booking.workspace_type)
+  INTO v_unit, v_cost
+  FROM unnest(ARRAY['hour', 'day']) WITH ORDINALITY AS u(unit, preference)
+  WHERE credit_balance(v_booking.user_id, u.unit) >= booking_credit_cost(u.unit, v_booking.duration, v_booking.workspace_type)
+  ORDER BY u.preference
+  LIMIT 1;
+
+  IF v_unit IS NULL THEN
+    RAISE EXCEPTION 'credits_unavailable'
+      USING ERRCODE = 'CR402', DETAIL = 'You do not have enough credits for this booking.';
+  END IF;
+
+  INSERT INTO credit_ledger (user_id, credit_unit, amount, entry_type, booking_id, note)
+  VALUES (v_booking.user_id, v_unit, -v_cost, 'use', v_booking.id, v_booking.workspace_type || ' ' || v_booking.duration);
+
+  -- Nothing is left to pay unless add-ons were chosen
+  UPDATE bookings
+  SET credit_unit = v_unit,
+      credits_used = v_cost,
+      status = CASE WHEN add_ons_total = 0 THEN 'confirmed' ELSE status END
+  WHERE id = v_booking.id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refund_booking_credits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.credits_used > 0
+    AND NEW.status IN ('cancelled', 'rejected')
+    AND OLD.status NOT IN ('cancelled', 'rejected') THEN
+    INSERT INTO credit_ledger (user_id, credit_unit, amount, entry_type, booking_id, note)
+    VALUES (NEW.user_id, NEW.credit_unit, NEW.credits_used, 'refund', NEW.id, 'Booking ' || NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refund_booking_credits
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION refund_booking_credits();
+
+CREATE OR REPLACE FUNCTION set_booking_total_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_price numeric;
+  v_promo promo_codes;
+BEGIN
+  -- Bookings are only paid with credits through pay_booking_with_credits, once they exist
+  IF TG_OP = 'INSERT' THEN
+    NEW.credit_unit := NULL;
+    NEW.credits_used := 0;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR NEW.workspace_type IS DISTINCT FROM OLD.workspace_type
+    OR NEW.duration IS DISTINCT FROM OLD.duration
+    OR NEW.add_ons_total IS DISTINCT FROM OLD.add_ons_total
+    OR NEW.credit_unit IS DISTINCT FROM OLD.credit_unit THEN
+    v_price := booking_price(NEW.workspace_type, NEW.duration);
+
+    IF NEW.promo_code_id IS NULL THEN
+      NEW.discount_amount := 0;
+    ELSIF TG_OP = 'INSERT' THEN
+      v_promo := validate_promo_code(NEW.promo_code_id, NEW.workspace_type, NEW.user_id);
+      NEW.discount_amount := promo_code_discount(v_promo, v_price);
+    ELSE
+      -- A rescheduled booking keeps the code it was booked with
+      SELECT * INTO v_promo FROM promo_codes WHERE id = NEW.promo_code_id;
+      NEW.discount_amount := COALESCE(promo_code_discount(v_promo, v_price), 0);
+    END IF;
+
+    -- Credits pay for the workspace, so there is nothing to discount
+    IF NEW.credit_unit IS NOT NULL THEN
+      v_price := 0;
+      NEW.discount_amount := 0;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+      -- Lines are added by add_booking_add_ons once the booking exists
+      NEW.add_ons_total := 0;
+    ELSE
+      IF NEW.duration IS DISTINCT FROM OLD.duration THEN
+        UPDATE booking_add_ons
+        SET quantity = add_on_quantity(price_unit, NEW.duration),
+            line_total = unit_price * add_on_quantity(price_unit, NEW.duration)
+        WHERE booking_id = NEW.id;
+      END IF;
+
+      -- Always the sum of the lines, whatever the client sent
+      SELECT COALESCE(sum(line_total), 0) INTO NEW.add_ons_total
+      FROM booking_add_ons
+      WHERE booking_id = NEW.id;
+    END IF;
+
+    NEW.total_price := v_price - NEW.discount_amount + NEW.add_ons_total;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_booking_total_price ON bookings;
+
+CREATE TRIGGER set_booking_total_price
+  BEFORE INSERT OR UPDATE OF workspace_type, duration, add_ons_total, credit_unit ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_total_price();
+
+DROP FUNCTION IF EXISTS create_booking(text, date, time, text, text, text, text, text, numeric, text, integer, text, uuid[]);
+
+CREATE OR REPLACE FUNCTION create_booking(
+  p_workspace_type text,
+  p_date date,
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_status text DEFAULT 'pending',
+  p_desk_number integer DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_add_on_ids uuid[] DEFAULT NULL,
+  p_use_credits boolean DEFAULT false
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period record;
+  v_desk integer;
+  v_promo_code_id uuid;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL AND NOT p_use_credits THEN
+    v_promo_code_id := find_promo_code_id(p_promo_code);
+  END IF;
+
+  SELECT * INTO v_period FROM booking_period(p_workspace_type, p_date, p_start_time, p_duration);
+
+  -- Serialise bookings for the same workspace; ranges can span many dates
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  -- Preferred desk when it is free, otherwise the first free desk
+  IF p_desk_number IS NOT NULL
+    AND booking_desk_is_free(p_workspace_type, p_desk_number, v_period.starts_at, v_period.ends_at) THEN
+    v_desk := p_desk_number;
+  ELSE
+    v_desk := booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at);
+  END IF;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available for the selected dates and time.';
+  END IF;
+
+  -- total_price, discount_amount and add_ons_total are set by set_booking_total_price
+  INSERT INTO bookings (
+    workspace_type, starts_at, ends_at, duration,
+    customer_name, customer_email, customer_phone, customer_whatsapp,
+    total_price, status, user_id, desk_number, promo_code_id
+  ) VALUES (
+    p_workspace_type, v_period.starts_at, v_period.ends_at, p_duration,
+    p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+    p_total_price, p_status, auth.uid(), v_desk, v_promo_code_id
+  )
+  RETURNING * INTO v_booking;
+
+  v_booking := add_booking_add_ons(v_booking.id, p_add_on_ids);
+
+  IF p_use_credits THEN
+    v_booking := pay_booking_with_credits(v_booking.id);
+  END IF;
+
+  RETURN v_booking;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected desk was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_booking(
+  text, date, time, text, text, text, text, text, numeric, text, integer, text, uuid[], boolean
+) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS create_booking_series(
+  text, date[], time, text, text, text, text, text, numeric, text, smallint[], date, integer, text, integer, text, uuid[]
+);
+
+CREATE OR REPLACE FUNCTION create_booking_series(
+  p_workspace_type text,
+  p_dates date[],
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_frequency text,
+  p_weekdays smallint[],
+  p_until_date date,
+  p_occurrence_count integer,
+  p_status text DEFAULT 'pending',
+  p_desk_number integer DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_add_on_ids uuid[] DEFAULT NULL,
+  p_use_credits boolean DEFAULT false
+)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conflicts text;
+  v_series_id uuid;
+  v_promo_code_id uuid;
+  v_date date;
+  v_period record;
+  v_desk integer := p_desk_number;
+  v_booking bookings;
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(array_length(p_dates, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A series needs at least one date'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL AND NOT p_use_credits THEN
+    v_promo_code_id := find_promo_code_id(p_promo_code);
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  SELECT string_agg(to_char(c.conflict_date, 'FMMonth FMDD') || ' (' || c.reason || ')', ', ' ORDER BY c.conflict_date)
+  INTO v_conflicts
+  FROM booking_series_conflicts(p_workspace_type, p_dates, p_start_time, p_duration) c;
+
+  IF v_conflicts IS NOT NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'These dates cannot be booked: ' || v_conflicts || '.';
+  END IF;
+
+  INSERT INTO booking_series (
+    user_id, workspace_type, start_time, duration, frequency, weekdays, until_date, occurrence_count
+  ) VALUES (
+    auth.uid(), p_workspace_type, p_start_time, p_duration,
+    p_frequency, COALESCE(p_weekdays, '{}'), p_until_date, p_occurrence_count
+  )
+  RETURNING id INTO v_series_id;
+
+  FOREACH v_date IN ARRAY (SELECT array_agg(DISTINCT d ORDER BY d) FROM unnest(p_dates) AS d) LOOP
+    SELECT * INTO v_period FROM booking_period(p_workspace_type, v_date, p_start_time, p_duration);
+
+    -- Keep the desk of the previous occurrence while it is free
+    IF v_desk IS NULL
+      OR NOT booking_desk_is_free(p_workspace_type, v_desk, v_period.starts_at, v_period.ends_at) THEN
+      v_desk := booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at);
+    END IF;
+
+    -- Each occurrence redeems the promo code once, within its usage limits
+    INSERT INTO bookings (
+      workspace_type, starts_at, ends_at, duration,
+      customer_name, customer_email, customer_phone, customer_whatsapp,
+      total_price, status, user_id, desk_number, series_id, promo_code_id
+    ) VALUES (
+      p_workspace_type, v_period.starts_at, v_period.ends_at, p_duration,
+      p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+      p_total_price, p_status, auth.uid(), v_desk, v_series_id, v_promo_code_id
+    )
+    RETURNING * INTO v_booking;
+
+    -- Every occurrence carries the same add-ons
+    v_booking := add_booking_add_ons(v_booking.id, p_add_on_ids);
+
+    -- and takes its own credits, so the whole series fails when the balance runs out
+    IF p_use_credits THEN
+      v_booking := pay_booking_with_credits(v_booking.id);
+    END IF;
+
+    RETURN NEXT v_booking;
+  END LOOP;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'A desk in this series was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_booking_series(
+  text, date[], time, text, text, text, text, text, numeric, text, smallint[], date, integer, text, integer, text, uuid[],
+  boolean
+) TO anon, authenticated;
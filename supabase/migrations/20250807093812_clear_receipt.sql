@@ -0,0 +1,140 @@
+/*
+  # Payment proofs for manual transfers
+
+  1. Storage
+    - Create a private `payment-proofs` bucket for transfer screenshots.
+      Files live under the uploading customer's id: `<user_id>/<booking_id>/<file>`
+
+  2. New Tables
+    - `payment_proofs` - a customer's evidence that they paid for a booking
+      - `file_path` - object path in the `payment-proofs` bucket
+      - `reference_number` - the transfer reference the customer entered
+      - `status` - `submitted` until an admin `approved` or `rejected` it
+      - `amount_received` (numeric) - what the admin found on the account
+      - `verified_by`, `verified_at`, `review_note` - who reviewed it, when and why
+    - A customer may submit a new proof after one is rejected
+
+  3. Functions
+    - `verify_payment_proof(proof_id, approved, amount_received, note)` -
+      admins record the outcome of reviewing a submitted proof
+
+  4. Security
+    - Customers upload to and read their own folder of the bucket; admins read
+      all of it
+    - Enable RLS on `payment_proofs`. Customers submit proofs for their own
+      bookings and view them; admins manage all of them
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('payment-proofs', 'payment-proofs', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their payment proofs" ON storage.objects
+FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'payment-proofs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can view their payment proofs" ON storage.objects
+FOR SELECT TO authenticated
+USING (bucket_id = 'payment-proofs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Admins can view payment proofs" ON storage.objects
+FOR SELECT TO authenticated
+USING (bucket_id = 'payment-proofs' AND is_admin());
+
+CREATE TABLE IF NOT EXISTS payment_proofs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES users(id) ON DELETE CASCADE,
+  file_path text NOT NULL,
+  reference_number text NOT NULL DEFAULT '',
+  status text NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'approved', 'rejected')),
+  amount_received numeric CHECK (amount_received >= 0),
+  verified_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  verified_at timestamptz,
+  review_note text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  CHECK ((status = 'submitted') = (verified_at IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS payment_proofs_booking_id_idx ON payment_proofs(booking_id);
+
+ALTER TABLE payment_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can submit payment proofs"
+  ON payment_proofs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'submitted'
+    AND amount_received IS NULL
+    AND verified_by IS NULL
+    AND file_path LIKE auth.uid()::text || '/%'
+    AND EXISTS (SELECT 1 FROM bookings b WHERE b.id = booking_id AND b.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view their payment proofs"
+  ON payment_proofs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage payment proofs"
+  ON payment_proofs
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Admins see new proofs on the dashboard as they arrive
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE payment_proofs;
+EXCEPTION
+  WHEN undefined_object OR duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_payment_proof(
+  p_proof_id uuid,
+  p_approved boolean,
+  p_amount_received numeric DEFAULT NULL,
+  p_note text DEFAULT ''
+)
+RETURNS payment_proofs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proof payment_proofs;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can verify payments'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_approved AND p_amount_received IS NULL THEN
+    RAISE EXCEPTION 'Amount received is required'
+      USING ERRCODE = '22023', DETAIL = 'Enter the amount received before approving the payment.';
+  END IF;
+
+  UPDATE payment_proofs
+  SET status = CASE WHEN p_approved THEN 'approved' ELSE 'rejected' END,
+      amount_received = p_amount_received,
+      verified_by = auth.uid(),
+      verified_at = now(),
+      review_note = COALESCE(p_note, '')
+  WHERE id = p_proof_id AND status = 'submitted'
+  RETURNING * INTO v_proof;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment proof already reviewed'
+      USING ERRCODE = '22023', DETAIL = 'This payment proof has already been reviewed.';
+  END IF;
+
+  RETURN v_proof;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION verify_payment_proof(uuid, boolean, numeric, text) TO authenticated;
@@ -0,0 +1,225 @@
+/*
+  # Online payments through a payment provider
+
+  1. New Tables
+    - `payments` - one attempt to pay for a booking through a provider
+      - `provider` - the provider that took the payment, e.g. `fake`
+      - `provider_ref` - the provider's id for the payment once it reports back
+      - `amount` (numeric) - the booking's total when the payment was started
+      - `status` - `requires_payment`, then `succeeded`, `failed` or
+        `cancelled`; `refunded` once the whole amount is paid back
+      - `refunded_amount` (numeric), `failure_reason`
+
+  2. Changes
+    - New `payment_provider` site setting: `manual` keeps the transfer and
+      confirmation code flow, `fake` takes payments through the local fake
+      gateway for development
+
+  3. Functions
+    - `create_payment_intent(booking_id, provider)` - start paying for a pending
+      booking with the configured provider. Open attempts for the booking are
+      cancelled
+    - `settle_payment(payment_id, succeeded, provider_ref, failure_reason)` -
+      record the provider's answer. A successful payment confirms the booking
+      without a confirmation code
+    - `refund_payment(payment_id, amount)` - record money paid back by the
+      provider
+
+  4. Security
+    - Enable RLS on `payments`, readable by the booking's customer, managed by
+      admins
+    - Payments are settled and refunded by admins or the service role that
+      receives real provider callbacks. Customers may only settle `fake`
+      payments, and only while the fake provider is configured
+*/
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public)
+VALUES ('payment_provider', 'manual', 'How customers pay: manual (transfer and confirmation code) or fake (development gateway)', 'text', true)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  provider_ref text,
+  amount numeric NOT NULL CHECK (amount > 0),
+  status text NOT NULL DEFAULT 'requires_payment'
+    CHECK (status IN ('requires_payment', 'succeeded', 'failed', 'cancelled', 'refunded')),
+  refunded_amount numeric NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0 AND refunded_amount <= amount),
+  failure_reason text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payments_booking_id_idx ON payments(booking_id);
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM bookings b WHERE b.id = booking_id AND b.user_id = auth.uid()));
+
+CREATE POLICY "Admins can manage payments"
+  ON payments
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE OR REPLACE FUNCTION configured_payment_provider()
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE((SELECT value FROM site_settings WHERE key = 'payment_provider'), 'manual');
+$$;
+
+CREATE OR REPLACE FUNCTION create_payment_intent(p_booking_id uuid, p_provider text)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_payment payments;
+BEGIN
+  IF p_provider = 'manual' OR p_provider IS DISTINCT FROM configured_payment_provider() THEN
+    RAISE EXCEPTION 'Payment provider not available'
+      USING ERRCODE = '22023', DETAIL = 'Online payment is not available right now.';
+  END IF;
+
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR (v_booking.user_id IS DISTINCT FROM auth.uid() AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = '22023', DETAIL = 'Booking not found.';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'code_sent') OR v_booking.total_price <= 0 THEN
+    RAISE EXCEPTION 'Booking not payable'
+      USING ERRCODE = '22023', DETAIL = 'This booking has nothing left to pay.';
+  END IF;
+
+  UPDATE payments
+  SET status = 'cancelled'
+  WHERE booking_id = p_booking_id AND status = 'requires_payment';
+
+  INSERT INTO payments (booking_id, provider, amount)
+  VALUES (p_booking_id, p_provider, v_booking.total_price)
+  RETURNING * INTO v_payment;
+
+  RETURN v_payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_payment_intent(uuid, text) TO authenticated;
+
+-- Admins and the service role settle any payment; customers only their own fake ones
+CREATE OR REPLACE FUNCTION can_settle_payment(p_payment payments)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT auth.role() = 'service_role'
+    OR is_admin()
+    OR (
+      p_payment.provider = 'fake'
+      AND configured_payment_provider() = 'fake'
+      AND EXISTS (SELECT 1 FROM bookings b WHERE b.id = p_payment.booking_id AND b.user_id = auth.uid())
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION settle_payment(
+  p_payment_id uuid,
+  p_succeeded boolean,
+  p_provider_ref text DEFAULT NULL,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT can_settle_payment(v_payment) THEN
+    RAISE EXCEPTION 'Payment not found'
+      USING ERRCODE = '22023', DETAIL = 'Payment not found.';
+  END IF;
+
+  IF v_payment.status <> 'requires_payment' THEN
+    RAISE EXCEPTION 'Payment already settled'
+      USING ERRCODE = '22023', DETAIL = 'This payment has already been processed.';
+  END IF;
+
+  UPDATE payments
+  SET status = CASE WHEN p_succeeded THEN 'succeeded' ELSE 'failed' END,
+      provider_ref = COALESCE(p_provider_ref, provider_ref),
+      failure_reason = CASE WHEN p_succeeded THEN NULL ELSE p_failure_reason END
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  IF p_succeeded THEN
+    UPDATE bookings
+    SET status = 'confirmed'
+    WHERE id = v_payment.booking_id AND status IN ('pending', 'code_sent');
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION settle_payment(uuid, boolean, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION refund_payment(p_payment_id uuid, p_amount numeric DEFAULT NULL)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments;
+  v_amount numeric;
+BEGIN
+  IF NOT (auth.role() = 'service_role' OR is_admin()) THEN
+    RAISE EXCEPTION 'Only admins can refund payments'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND OR v_payment.status <> 'succeeded' THEN
+    RAISE EXCEPTION 'Payment not refundable'
+      USING ERRCODE = '22023', DETAIL = 'Only successful payments can be refunded.';
+  END IF;
+
+  v_amount := COALESCE(p_amount, v_payment.amount - v_payment.refunded_amount);
+
+  IF v_amount <= 0 OR v_amount > v_payment.amount - v_payment.refunded_amount THEN
+    RAISE EXCEPTION 'Invalid refund amount'
+      USING ERRCODE = '22023',
+            DETAIL = format('At most %s can be refunded.', v_payment.amount - v_payment.refunded_amount);
+  END IF;
+
+  UPDATE payments
+  SET refunded_amount = refunded_amount + v_amount,
+      status = CASE WHEN refunded_amount + v_amount = amount THEN 'refunded' ELSE status END
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  RETURN v_payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refund_payment(uuid, numeric) TO authenticated;
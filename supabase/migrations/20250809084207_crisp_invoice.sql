@@ -0,0 +1,366 @@
+/*
+  # Invoices and credit notes for bookings
+
+  1. New Tables
+    - `invoices` - numbered invoices and credit notes
+      - `kind` - `invoice` or `credit_note`
+      - `number` - sequential and gapless per kind: `INV-000001`, `CN-000001`
+      - `booking_id`, `invoice_id` - the booking billed, and for credit notes
+        the invoice they credit
+      - `customer_name`, `customer_email`, `company_name`, `tax_id` - copied
+        from the booking and the customer's billing details when issued
+      - `subtotal`, `tax_rate`, `tax_amount`, `total` (numeric). Prices include
+        tax; `total` is what the customer paid or is credited
+      - `reason` - why a credit note was issued
+    - `invoice_lines` - line items: `description`, `quantity`, `unit_price`
+      and `line_total`, in `position` order
+    - `document_counters` - the last number used per kind
+
+  2. Changes
+    - Add `company_name` and `tax_id` to `users` for invoices
+    - New `tax_rate` site setting, the percentage of tax included in prices
+
+  3. Functions
+    - `issue_booking_invoice(booking_id)` - invoice a booking once; lines for
+      the workspace, the promo discount and each add-on
+    - `issue_credit_note(invoice_id, amount, reason)` - credit part or all of
+      an invoice
+    - `create_credit_note(invoice_id, amount, reason)` - admins issue a credit
+      note for a refund made outside a payment provider
+    - `update_billing_details(company_name, tax_id)` - customers set what
+      appears on their invoices
+    - A booking is invoiced when it becomes `confirmed`, at the end of the
+      transaction so its add-ons are in place
+    - A credit note is issued for every refund of a payment
+
+  4. Security
+    - Enable RLS on `invoices` and `invoice_lines`, readable by the customer
+      they belong to and by admins. They are only written by the functions
+    - Enable RLS on `document_counters` without policies
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS company_name text NOT NULL DEFAULT '';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS tax_id text NOT NULL DEFAULT '';
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public)
+VALUES ('tax_rate', '0', 'Tax included in prices, in percent, shown on invoices', 'number', true)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS document_counters (
+  kind text PRIMARY KEY,
+  last_number integer NOT NULL DEFAULT 0
+);
+
+INSERT INTO document_counters (kind) VALUES ('invoice'), ('credit_note')
+ON CONFLICT (kind) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL DEFAULT 'invoice' CHECK (kind IN ('invoice', 'credit_note')),
+  number text UNIQUE NOT NULL,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  invoice_id uuid REFERENCES invoices(id) ON DELETE RESTRICT,
+  user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  customer_name text NOT NULL,
+  customer_email text NOT NULL,
+  company_name text NOT NULL DEFAULT '',
+  tax_id text NOT NULL DEFAULT '',
+  currency text NOT NULL DEFAULT 'EGP',
+  subtotal numeric NOT NULL,
+  tax_rate numeric NOT NULL DEFAULT 0 CHECK (tax_rate >= 0),
+  tax_amount numeric NOT NULL DEFAULT 0,
+  total numeric NOT NULL CHECK (total >= 0),
+  reason text NOT NULL DEFAULT '',
+  issued_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  CHECK ((kind = 'credit_note') = (invoice_id IS NOT NULL))
+);
+
+-- One invoice per booking; credit notes are not limited
+CREATE UNIQUE INDEX IF NOT EXISTS invoices_one_per_booking_idx
+  ON invoices(booking_id)
+  WHERE kind = 'invoice';
+
+CREATE INDEX IF NOT EXISTS invoices_user_id_idx ON invoices(user_id);
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  description text NOT NULL,
+  quantity numeric NOT NULL DEFAULT 1,
+  unit_price numeric NOT NULL,
+  line_total numeric NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS invoice_lines_invoice_id_idx ON invoice_lines(invoice_id);
+
+ALTER TABLE document_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their invoices"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view invoices"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Users can view their invoice lines"
+  ON invoice_lines
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM invoices i WHERE i.id = invoice_id AND i.user_id = auth.uid()));
+
+CREATE POLICY "Admins can view invoice lines"
+  ON invoice_lines
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Next number of a kind of document; the counter row lock keeps numbers gapless
+CREATE OR REPLACE FUNCTION next_document_number(p_kind text)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_number integer;
+BEGIN
+  UPDATE document_counters
+  SET last_number = last_number + 1
+  WHERE kind = p_kind
+  RETURNING last_number INTO v_number;
+
+  RETURN CASE p_kind WHEN 'credit_note' THEN 'CN-' ELSE 'INV-' END || lpad(v_number::text, 6, '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION current_tax_rate()
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE((SELECT NULLIF(value, '')::numeric FROM site_settings WHERE key = 'tax_rate'), 0);
+$$;
+
+-- Tax contained in a tax-inclusive amount
+CREATE OR REPLACE FUNCTION included_tax(p_amount numeric, p_tax_rate numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT round(p_amount * p_tax_rate / (100 + p_tax_rate), 2);
+$$;
+
+CREATE OR REPLACE FUNCTION issue_booking_invoice(p_booking_id uuid)
+RETURNS invoices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings;
+  v_invoice invoices;
+  v_company_name text := '';
+  v_tax_id text := '';
+  v_tax_rate numeric := current_tax_rate();
+  v_position integer := 1;
+  v_description text;
+  v_line booking_add_ons;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE booking_id = p_booking_id AND kind = 'invoice';
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  SELECT company_name, tax_id INTO v_company_name, v_tax_id
+  FROM users
+  WHERE id = v_booking.user_id;
+
+  INSERT INTO invoices (
+    number, booking_id, user_id, customer_name, customer_email, company_name, tax_id,
+    subtotal, tax_rate, tax_amount, total
+  )
+  VALUES (
+    next_document_number('invoice'), v_booking.id, v_booking.user_id, v_booking.customer_name,
+    v_booking.customer_email, COALESCE(v_company_name, ''), COALESCE(v_tax_id, ''),
+    v_booking.total_price - included_tax(v_booking.total_price, v_tax_rate), v_tax_rate,
+    included_tax(v_booking.total_price, v_tax_rate), v_booking.total_price
+  )
+  RETURNING * INTO v_invoice;
+
+  v_description := v_booking.workspace_type || ', ' || v_booking.duration || ' from '
+    || to_char(v_booking.starts_at, 'YYYY-MM-DD HH24:MI');
+  IF v_booking.credits_used > 0 THEN
+    v_description := v_description || format(' (paid with %s %s credits)', v_booking.credits_used, v_booking.credit_unit);
+  END IF;
+
+  INSERT INTO invoice_lines (invoice_id, position, description, quantity, unit_price, line_total)
+  VALUES (
+    v_invoice.id, v_position, v_description, 1,
+    v_booking.total_price - v_booking.add_ons_total + v_booking.discount_amount,
+    v_booking.total_price - v_booking.add_ons_total + v_booking.discount_amount
+  );
+
+  IF v_booking.discount_amount > 0 THEN
+    v_position := v_position + 1;
+    INSERT INTO invoice_lines (invoice_id, position, description, quantity, unit_price, line_total)
+    VALUES (v_invoice.id, v_position, 'Promo discount', 1, -v_booking.discount_amount, -v_booking.discount_amount);
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM booking_add_ons WHERE booking_id = p_booking_id ORDER BY created_at
+  LOOP
+    v_position := v_position + 1;
+    INSERT INTO invoice_lines (invoice_id, position, description, quantity, unit_price, line_total)
+    VALUES (v_invoice.id, v_position, v_line.name, v_line.quantity, v_line.unit_price, v_line.line_total);
+  END LOOP;
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_credit_note(p_invoice_id uuid, p_amount numeric, p_reason text DEFAULT '')
+RETURNS invoices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_invoice invoices;
+  v_credit_note invoices;
+  v_credited numeric;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id AND kind = 'invoice' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found'
+      USING ERRCODE = '22023', DETAIL = 'Invoice not found.';
+  END IF;
+
+  SELECT COALESCE(sum(total), 0) INTO v_credited
+  FROM invoices
+  WHERE invoice_id = p_invoice_id AND kind = 'credit_note';
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_amount > v_invoice.total - v_credited THEN
+    RAISE EXCEPTION 'Invalid credit amount'
+      USING ERRCODE = '22023',
+            DETAIL = format('At most %s of invoice %s can be credited.', v_invoice.total - v_credited, v_invoice.number);
+  END IF;
+
+  INSERT INTO invoices (
+    kind, number, booking_id, invoice_id, user_id, customer_name, customer_email, company_name, tax_id,
+    currency, subtotal, tax_rate, tax_amount, total, reason
+  )
+  VALUES (
+    'credit_note', next_document_number('credit_note'), v_invoice.booking_id, v_invoice.id, v_invoice.user_id,
+    v_invoice.customer_name, v_invoice.customer_email, v_invoice.company_name, v_invoice.tax_id,
+    v_invoice.currency, p_amount - included_tax(p_amount, v_invoice.tax_rate), v_invoice.tax_rate,
+    included_tax(p_amount, v_invoice.tax_rate), p_amount, COALESCE(p_reason, '')
+  )
+  RETURNING * INTO v_credit_note;
+
+  INSERT INTO invoice_lines (invoice_id, position, description, quantity, unit_price, line_total)
+  VALUES (
+    v_credit_note.id, 1,
+    'Credit for invoice ' || v_invoice.number || CASE WHEN COALESCE(p_reason, '') = '' THEN '' ELSE ': ' || p_reason END,
+    1, p_amount, p_amount
+  );
+
+  RETURN v_credit_note;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_credit_note(p_invoice_id uuid, p_amount numeric, p_reason text DEFAULT '')
+RETURNS invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can issue credit notes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN issue_credit_note(p_invoice_id, p_amount, p_reason);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_credit_note(uuid, numeric, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION update_billing_details(p_company_name text, p_tax_id text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE users
+  SET company_name = COALESCE(trim(p_company_name), ''),
+      tax_id = COALESCE(trim(p_tax_id), '')
+  WHERE id = auth.uid();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_billing_details(text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION invoice_confirmed_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The row may have moved on by commit time; only bookings still confirmed are invoiced
+  IF EXISTS (SELECT 1 FROM bookings WHERE id = NEW.id AND status = 'confirmed') THEN
+    PERFORM issue_booking_invoice(NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- Deferred so bookings created confirmed are invoiced after their add-ons are attached
+CREATE CONSTRAINT TRIGGER invoice_confirmed_booking
+  AFTER INSERT OR UPDATE OF status ON bookings
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  WHEN (NEW.status = 'confirmed')
+  EXECUTE FUNCTION invoice_confirmed_booking();
+
+CREATE OR REPLACE FUNCTION credit_refunded_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices;
+  v_amount numeric;
+BEGIN
+  IF NEW.refunded_amount > OLD.refunded_amount THEN
+    SELECT * INTO v_invoice FROM invoices WHERE booking_id = NEW.booking_id AND kind = 'invoice';
+
+    IF FOUND THEN
+      -- Never credit more than is left on the invoice, e.g. after a manual credit note
+      SELECT LEAST(NEW.refunded_amount - OLD.refunded_amount, v_invoice.total - COALESCE(sum(total), 0))
+      INTO v_amount
+      FROM invoices
+      WHERE invoice_id = v_invoice.id AND kind = 'credit_note';
+
+      IF v_amount > 0 THEN
+        PERFORM issue_credit_note(v_invoice.id, v_amount, 'Refund of payment ' || COALESCE(NEW.provider_ref, NEW.id::text));
+      END IF;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER credit_refunded_payment
+  AFTER UPDATE OF refunded_amount ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION credit_refunded_payment();
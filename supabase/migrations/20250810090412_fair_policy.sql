@@ -0,0 +1,331 @@
+/*
+  # Cancellation policies and refunds
+
+  1. New Tables
+    - `cancellation_policy_tiers` - how much of a booking is refunded when a
+      confirmed booking is cancelled, per workspace type
+      - `workspace_type` (text) - the workspace type name
+      - `hours_before` (numeric) - the tier applies when the booking is
+        cancelled at least this many hours before it starts
+      - `refund_percent` (numeric, 0-100)
+      The tier with the most `hours_before` that is still met applies. When no
+      tier is met nothing is refunded
+    - `refunds` - money owed to customers for cancelled bookings
+      - `booking_id`, `user_id`
+      - `amount`, `refund_percent`, `hours_before_start` - the refund worked out
+        when the booking was cancelled
+      - `status` - `pending` until an admin marks it `processed` or `rejected`
+      - `payment_id` - the provider payment the refund was paid back through
+      - `note`, `processed_by`, `processed_at`
+
+  2. Changes
+    - New `timezone` site setting, the time zone of the space. Booking times are
+      local to it
+    - Default tiers for existing workspace types: a full refund 24 hours or more
+      before the start, 50% after that
+
+  3. Functions
+    - `quote_cancellation_refund(booking_id)` - the refund a customer would get
+      by cancelling now
+    - `cancel_confirmed_booking(booking_id)` - customers cancel one of their
+      confirmed bookings before it starts; records the refund
+    - `refund_booking_credits()` - credits used on a cancelled confirmed
+      booking come back in the same percent as the refund
+    - `process_refund(refund_id, processed, note, payment_id)` - admins close a
+      refund. Refunds paid outside a payment provider get a credit note, as
+      provider refunds already do. A provider refund must be on a payment of
+      the refunded booking that already shows the refunded amount
+
+  4. Security
+    - Enable RLS on `cancellation_policy_tiers`, readable by anyone, managed by
+      admins
+    - Enable RLS on `refunds`, readable by the customer it belongs to, managed
+      by admins. Customers only create refunds through `cancel_confirmed_booking`
+*/
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public)
+VALUES ('timezone', 'Africa/Cairo', 'Time zone of the space; booking times are local to it', 'text', true)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS cancellation_policy_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_type text NOT NULL,
+  hours_before numeric NOT NULL CHECK (hours_before >= 0),
+  refund_percent numeric NOT NULL CHECK (refund_percent >= 0 AND refund_percent <= 100),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (workspace_type, hours_before)
+);
+
+INSERT INTO cancellation_policy_tiers (workspace_type, hours_before, refund_percent)
+SELECT wt.name, tier.hours_before, tier.refund_percent
+FROM workspace_types wt
+CROSS JOIN (VALUES (24, 100), (0, 50)) AS tier(hours_before, refund_percent)
+ON CONFLICT (workspace_type, hours_before) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  amount numeric NOT NULL CHECK (amount >= 0),
+  refund_percent numeric NOT NULL,
+  hours_before_start numeric NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processed', 'rejected')),
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  note text NOT NULL DEFAULT '',
+  processed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  processed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS refunds_booking_id_idx ON refunds(booking_id);
+CREATE INDEX IF NOT EXISTS refunds_status_idx ON refunds(status);
+
+CREATE TRIGGER update_refunds_updated_at
+  BEFORE UPDATE ON refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE cancellation_policy_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view cancellation policies"
+  ON cancellation_policy_tiers
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage cancellation policies"
+  ON cancellation_policy_tiers
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Users can view their refunds"
+  ON refunds
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage refunds"
+  ON refunds
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- The current time at the space, comparable with bookings.starts_at
+CREATE OR REPLACE FUNCTION space_local_now()
+RETURNS timestamp
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT now() AT TIME ZONE COALESCE(
+    (SELECT NULLIF(value, '') FROM site_settings WHERE key = 'timezone'),
+    'Africa/Cairo'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION cancellation_refund_percent(p_workspace_type text, p_hours_before numeric)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE((
+    SELECT refund_percent
+    FROM cancellation_policy_tiers
+    WHERE workspace_type = p_workspace_type
+      AND hours_before <= p_hours_before
+    ORDER BY hours_before DESC
+    LIMIT 1
+  ), 0);
+$$;
+
+CREATE OR REPLACE FUNCTION quote_cancellation_refund(p_booking_id uuid)
+RETURNS TABLE (refund_percent numeric, refund_amount numeric, hours_before_start numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND OR NOT (v_booking.user_id = auth.uid() OR is_admin()) THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = '22023', DETAIL = 'Booking not found.';
+  END IF;
+
+  hours_before_start := round((extract(epoch FROM v_booking.starts_at - space_local_now()) / 3600)::numeric, 2);
+  refund_percent := cancellation_refund_percent(v_booking.workspace_type, hours_before_start);
+  refund_amount := round(v_booking.total_price * refund_percent / 100, 2);
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION quote_cancellation_refund(uuid) TO authenticated;
+
+-- Credits come back in full when a booking is rejected or cancelled before it is confirmed, and in
+-- the refund percent of the cancellation policy when a confirmed booking is cancelled
+CREATE OR REPLACE FUNCTION refund_booking_credits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_percent numeric;
+  v_credits numeric;
+BEGIN
+  IF NEW.credits_used > 0
+    AND NEW.status IN ('cancelled', 'rejected')
+    AND OLD.status NOT IN ('cancelled', 'rejected') THEN
+    SELECT refund_percent INTO v_percent
+    FROM refunds
+    WHERE booking_id = NEW.id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    v_credits := round(NEW.credits_used * COALESCE(v_percent, 100) / 100, 2);
+
+    IF v_credits > 0 THEN
+      INSERT INTO credit_ledger (user_id, credit_unit, amount, entry_type, booking_id, note)
+      VALUES (NEW.user_id, NEW.credit_unit, v_credits, 'refund', NEW.id, 'Booking ' || NEW.status);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_confirmed_booking(p_booking_id uuid)
+RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_quote record;
+  v_refund refunds;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR v_booking.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = '22023', DETAIL = 'You can only cancel your own bookings.';
+  END IF;
+
+  IF v_booking.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Booking not confirmed'
+      USING ERRCODE = '22023', DETAIL = format('Cannot cancel booking with status: %s', v_booking.status);
+  END IF;
+
+  IF v_booking.starts_at <= space_local_now() THEN
+    RAISE EXCEPTION 'Booking already started'
+      USING ERRCODE = '22023', DETAIL = 'Bookings cannot be cancelled once they have started.';
+  END IF;
+
+  SELECT * INTO v_quote FROM quote_cancellation_refund(p_booking_id);
+
+  -- Nothing to pay back: the refund is recorded already settled. Recorded before the booking is
+  -- cancelled, so refund_booking_credits gives back the same share of any credits used
+  INSERT INTO refunds (
+    booking_id, user_id, amount, refund_percent, hours_before_start, status, processed_at
+  )
+  VALUES (
+    p_booking_id, v_booking.user_id, v_quote.refund_amount, v_quote.refund_percent, v_quote.hours_before_start,
+    CASE WHEN v_quote.refund_amount > 0 THEN 'pending' ELSE 'processed' END,
+    CASE WHEN v_quote.refund_amount > 0 THEN NULL ELSE now() END
+  )
+  RETURNING * INTO v_refund;
+
+  UPDATE bookings
+  SET status = 'cancelled',
+      updated_at = now()
+  WHERE id = p_booking_id;
+
+  RETURN v_refund;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_confirmed_booking(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION process_refund(
+  p_refund_id uuid,
+  p_processed boolean,
+  p_note text DEFAULT '',
+  p_payment_id uuid DEFAULT NULL
+)
+RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund refunds;
+  v_payment payments;
+  v_invoice invoices;
+  v_amount numeric;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can process refunds'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_refund FROM refunds WHERE id = p_refund_id FOR UPDATE;
+
+  IF NOT FOUND OR v_refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'Refund not pending'
+      USING ERRCODE = '22023', DETAIL = 'This refund has already been processed.';
+  END IF;
+
+  -- The provider refund is made first, so the payment shows it on top of the refunds already closed against it
+  IF p_processed AND p_payment_id IS NOT NULL THEN
+    SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+    IF NOT FOUND OR v_payment.booking_id <> v_refund.booking_id THEN
+      RAISE EXCEPTION 'Payment not for this booking'
+        USING ERRCODE = '22023', DETAIL = 'This payment does not belong to the cancelled booking.';
+    END IF;
+
+    IF v_payment.refunded_amount < v_refund.amount + (
+      SELECT COALESCE(sum(amount), 0) FROM refunds WHERE payment_id = p_payment_id AND status = 'processed'
+    ) THEN
+      RAISE EXCEPTION 'Payment not refunded'
+        USING ERRCODE = '22023', DETAIL = 'The payment has not been refunded by this amount yet.';
+    END IF;
+  END IF;
+
+  UPDATE refunds
+  SET status = CASE WHEN p_processed THEN 'processed' ELSE 'rejected' END,
+      payment_id = CASE WHEN p_processed THEN p_payment_id ELSE NULL END,
+      note = COALESCE(p_note, ''),
+      processed_by = auth.uid(),
+      processed_at = now()
+  WHERE id = p_refund_id
+  RETURNING * INTO v_refund;
+
+  -- Provider refunds are credited when the payment is refunded
+  IF p_processed AND p_payment_id IS NULL THEN
+    SELECT * INTO v_invoice FROM invoices WHERE booking_id = v_refund.booking_id AND kind = 'invoice';
+
+    IF FOUND THEN
+      SELECT LEAST(v_refund.amount, v_invoice.total - COALESCE(sum(total), 0))
+      INTO v_amount
+      FROM invoices
+      WHERE invoice_id = v_invoice.id AND kind = 'credit_note';
+
+      IF v_amount > 0 THEN
+        PERFORM issue_credit_note(v_invoice.id, v_amount, 'Cancellation refund');
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN v_refund;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION process_refund(uuid, boolean, text, uuid) TO authenticated;
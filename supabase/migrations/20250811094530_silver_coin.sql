@@ -0,0 +1,74 @@
+/*
+  # Currencies for bookings and prices
+
+  1. Changes
+    - New `currency` site setting, the ISO 4217 code prices are charged in
+    - New `secondary_currency` site setting, an optional second currency that
+      workspace prices are also shown in for international visitors
+    - Add `currency` to `bookings` and `payments`. Bookings take the `currency`
+      setting when they are created, existing bookings are `EGP`. Payments and
+      invoices take the currency of their booking
+    - Add `secondary_price` (numeric, optional) to `workspace_types`, the
+      listed price in the secondary currency. It is shown next to the price
+      only; bookings are always charged in `currency`
+
+  2. Functions
+    - `site_currency()` - the `currency` setting
+    - `set_booking_currency()` - trigger function copying a booking's currency
+      to its payments and invoices
+*/
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public)
+VALUES
+  ('currency', 'EGP', 'Currency prices are charged in (ISO code, e.g. EGP)', 'text', true),
+  ('secondary_currency', '', 'Optional second currency workspace prices are shown in (ISO code, e.g. USD)', 'text', true)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION site_currency()
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE((SELECT NULLIF(upper(trim(value)), '') FROM site_settings WHERE key = 'currency'), 'EGP');
+$$;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'EGP';
+ALTER TABLE bookings ALTER COLUMN currency SET DEFAULT site_currency();
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'EGP';
+
+ALTER TABLE workspace_types ADD COLUMN IF NOT EXISTS secondary_price numeric CHECK (secondary_price >= 0);
+
+CREATE OR REPLACE FUNCTION set_booking_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Credit notes already copy the currency of the invoice they credit
+  IF TG_TABLE_NAME = 'invoices' THEN
+    IF NEW.kind <> 'invoice' THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  SELECT currency INTO NEW.currency FROM bookings WHERE id = NEW.booking_id;
+  NEW.currency := COALESCE(NEW.currency, site_currency());
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_payment_currency ON payments;
+
+CREATE TRIGGER set_payment_currency
+  BEFORE INSERT ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_currency();
+
+DROP TRIGGER IF EXISTS set_invoice_currency ON invoices;
+
+CREATE TRIGGER set_invoice_currency
+  BEFORE INSERT ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_currency();
@@ -0,0 +1,321 @@
+/*
+  # Tax rates applied to booking totals
+
+  1. Changes
+    - New `tax_rates` site setting replacing `tax_rate`: a JSON array of
+      `{ "name", "rate", "inclusive", "workspace_types" }`. Inclusive rates are
+      contained in the listed prices, exclusive rates are added on top. A rate
+      with no `workspace_types` applies to every workspace type. It is seeded
+      from `tax_rate` as one inclusive VAT rate
+    - Add to `bookings`:
+      - `net_amount` (numeric) - the price without any tax
+      - `tax_amount` (numeric) - all tax on the booking
+      - `gross_amount` (numeric) - what the customer pays, always `total_price`
+      - `tax_lines` (jsonb) - the rates the booking was taxed with and the
+        amount of each
+    - Existing bookings are split as tax-inclusive at the old `tax_rate`
+    - Add `tax_lines` to `invoices`, copied from the booking
+
+  2. Functions
+    - `booking_taxes(workspace_type)` - the rates that apply to a workspace type
+    - `apply_booking_tax(amount, taxes, gross)` - splits a price into net, tax
+      and gross amounts. With `gross` the amount is taken as the final price
+    - `set_booking_total_price()` now adds exclusive taxes to `total_price`. A
+      booking keeps the rates it was booked with unless its workspace type
+      changes
+    - `split_booking_tax()` - when an admin sets `total_price` directly, the
+      new price is split with the booking's rates
+    - `issue_booking_invoice(booking_id)` invoices the booking's own tax split
+      instead of the current rate
+*/
+
+CREATE OR REPLACE FUNCTION booking_taxes(p_workspace_type text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'name', t.value->>'name',
+        'rate', (t.value->>'rate')::numeric,
+        'inclusive', COALESCE((t.value->>'inclusive')::boolean, true)
+      )
+      ORDER BY t.ordinality
+    ),
+    '[]'::jsonb
+  )
+  FROM jsonb_array_elements(
+    COALESCE((SELECT NULLIF(value, '')::jsonb FROM site_settings WHERE key = 'tax_rates'), '[]'::jsonb)
+  ) WITH ORDINALITY AS t(value, ordinality)
+  WHERE (t.value->>'rate')::numeric > 0
+    AND (
+      COALESCE(jsonb_array_length(t.value->'workspace_types'), 0) = 0
+      OR t.value->'workspace_types' ? p_workspace_type
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION apply_booking_tax(p_amount numeric, p_taxes jsonb, p_gross boolean DEFAULT false)
+RETURNS TABLE (net_amount numeric, tax_amount numeric, gross_amount numeric, tax_lines jsonb)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_tax jsonb;
+  v_included_rate numeric;
+  v_line_amount numeric;
+  v_included numeric := 0;
+  v_added numeric := 0;
+  v_last_included integer := -1;
+  v_index integer := 0;
+BEGIN
+  SELECT COALESCE(sum((t->>'rate')::numeric), 0) INTO v_included_rate
+  FROM jsonb_array_elements(COALESCE(p_taxes, '[]'::jsonb)) t
+  WHERE p_gross OR (t->>'inclusive')::boolean;
+
+  net_amount := round(p_amount * 100 / (100 + v_included_rate), 2);
+  tax_lines := '[]'::jsonb;
+
+  FOR v_tax IN SELECT value FROM jsonb_array_elements(COALESCE(p_taxes, '[]'::jsonb)) LOOP
+    v_line_amount := round(net_amount * (v_tax->>'rate')::numeric / 100, 2);
+    IF p_gross OR (v_tax->>'inclusive')::boolean THEN
+      v_included := v_included + v_line_amount;
+      v_last_included := v_index;
+    ELSE
+      v_added := v_added + v_line_amount;
+    END IF;
+    tax_lines := tax_lines || jsonb_build_array(v_tax || jsonb_build_object('amount', v_line_amount));
+    v_index := v_index + 1;
+  END LOOP;
+
+  -- Rounding cents go to the last included rate so the lines add up to the price
+  IF v_last_included >= 0 AND v_included <> p_amount - net_amount THEN
+    tax_lines := jsonb_set(
+      tax_lines,
+      ARRAY[v_last_included::text, 'amount'],
+      to_jsonb((tax_lines->v_last_included->>'amount')::numeric + p_amount - net_amount - v_included)
+    );
+  END IF;
+
+  gross_amount := p_amount + v_added;
+  tax_amount := gross_amount - net_amount;
+  RETURN NEXT;
+END;
+$$;
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public)
+SELECT
+  'tax_rates',
+  CASE
+    WHEN current_tax_rate() > 0 THEN jsonb_build_array(jsonb_build_object(
+      'name', 'VAT', 'rate', current_tax_rate(), 'inclusive', true, 'workspace_types', '[]'::jsonb
+    ))::text
+    ELSE '[]'
+  END,
+  'Tax rates applied to bookings, edited in the admin dashboard',
+  'json',
+  true
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS net_amount numeric NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS tax_amount numeric NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS tax_lines jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS gross_amount numeric GENERATED ALWAYS AS (total_price) STORED;
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS tax_lines jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Bookings so far were priced tax-inclusive at the single tax_rate
+WITH old_rate AS (
+  SELECT CASE
+    WHEN current_tax_rate() > 0 THEN jsonb_build_array(jsonb_build_object(
+      'name', 'VAT', 'rate', current_tax_rate(), 'inclusive', true
+    ))
+    ELSE '[]'::jsonb
+  END AS taxes
+)
+UPDATE bookings b
+SET (net_amount, tax_amount, tax_lines) = (
+  SELECT split.net_amount, split.tax_amount, split.tax_lines
+  FROM apply_booking_tax(b.total_price, old_rate.taxes, true) AS split
+)
+FROM old_rate;
+
+DELETE FROM site_settings WHERE key = 'tax_rate';
+
+CREATE OR REPLACE FUNCTION set_booking_total_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_price numeric;
+  v_promo promo_codes;
+  v_tax record;
+BEGIN
+  -- Bookings are only paid with credits through pay_booking_with_credits, once they exist
+  IF TG_OP = 'INSERT' THEN
+    NEW.credit_unit := NULL;
+    NEW.credits_used := 0;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR NEW.workspace_type IS DISTINCT FROM OLD.workspace_type
+    OR NEW.duration IS DISTINCT FROM OLD.duration
+    OR NEW.add_ons_total IS DISTINCT FROM OLD.add_ons_total
+    OR NEW.credit_unit IS DISTINCT FROM OLD.credit_unit THEN
+    v_price := booking_price(NEW.workspace_type, NEW.duration);
+
+    IF NEW.promo_code_id IS NULL THEN
+      NEW.discount_amount := 0;
+    ELSIF TG_OP = 'INSERT' THEN
+      v_promo := validate_promo_code(NEW.promo_code_id, NEW.workspace_type, NEW.user_id);
+      NEW.discount_amount := promo_code_discount(v_promo, v_price);
+    ELSE
+      -- A rescheduled booking keeps the code it was booked with
+      SELECT * INTO v_promo FROM promo_codes WHERE id = NEW.promo_code_id;
+      NEW.discount_amount := COALESCE(promo_code_discount(v_promo, v_price), 0);
+    END IF;
+
+    -- Credits pay for the workspace, so there is nothing to discount
+    IF NEW.credit_unit IS NOT NULL THEN
+      v_price := 0;
+      NEW.discount_amount := 0;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+      -- Lines are added by add_booking_add_ons once the booking exists
+      NEW.add_ons_total := 0;
+    ELSE
+      IF NEW.duration IS DISTINCT FROM OLD.duration THEN
+        UPDATE booking_add_ons
+        SET quantity = add_on_quantity(price_unit, NEW.duration),
+            line_total = unit_price * add_on_quantity(price_unit, NEW.duration)
+        WHERE booking_id = NEW.id;
+      END IF;
+
+      -- Always the sum of the lines, whatever the client sent
+      SELECT COALESCE(sum(line_total), 0) INTO NEW.add_ons_total
+      FROM booking_add_ons
+      WHERE booking_id = NEW.id;
+    END IF;
+
+    -- A booking keeps the rates it was booked with unless it moves to another workspace type
+    IF TG_OP = 'INSERT' OR NEW.workspace_type IS DISTINCT FROM OLD.workspace_type THEN
+      NEW.tax_lines := booking_taxes(NEW.workspace_type);
+    END IF;
+
+    SELECT * INTO v_tax FROM apply_booking_tax(v_price - NEW.discount_amount + NEW.add_ons_total, NEW.tax_lines);
+    NEW.net_amount := v_tax.net_amount;
+    NEW.tax_amount := v_tax.tax_amount;
+    NEW.tax_lines := v_tax.tax_lines;
+    NEW.total_price := v_tax.gross_amount;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION split_booking_tax()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tax record;
+BEGIN
+  -- Already split when the price was worked out in set_booking_total_price
+  IF NEW.total_price = NEW.net_amount + NEW.tax_amount THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_tax FROM apply_booking_tax(NEW.total_price, NEW.tax_lines, true);
+  NEW.net_amount := v_tax.net_amount;
+  NEW.tax_amount := v_tax.tax_amount;
+  NEW.tax_lines := v_tax.tax_lines;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS split_booking_tax ON bookings;
+
+-- Fires after set_booking_total_price, so only prices set by hand are split here
+CREATE TRIGGER split_booking_tax
+  BEFORE UPDATE OF total_price ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION split_booking_tax();
+
+CREATE OR REPLACE FUNCTION issue_booking_invoice(p_booking_id uuid)
+RETURNS invoices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking bookings;
+  v_invoice invoices;
+  v_company_name text := '';
+  v_tax_id text := '';
+  v_tax_rate numeric;
+  v_added_tax numeric;
+  v_position integer := 1;
+  v_description text;
+  v_line booking_add_ons;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE booking_id = p_booking_id AND kind = 'invoice';
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  SELECT company_name, tax_id INTO v_company_name, v_tax_id
+  FROM users
+  WHERE id = v_booking.user_id;
+
+  -- Credit notes take tax back at the combined rate
+  SELECT COALESCE(sum((t->>'rate')::numeric), 0) INTO v_tax_rate
+  FROM jsonb_array_elements(v_booking.tax_lines) t;
+
+  -- Lines are listed prices, so exclusive tax only shows in the totals
+  SELECT COALESCE(sum((t->>'amount')::numeric), 0) INTO v_added_tax
+  FROM jsonb_array_elements(v_booking.tax_lines) t
+  WHERE NOT (t->>'inclusive')::boolean;
+
+  INSERT INTO invoices (
+    number, booking_id, user_id, customer_name, customer_email, company_name, tax_id,
+    subtotal, tax_rate, tax_amount, tax_lines, total
+  )
+  VALUES (
+    next_document_number('invoice'), v_booking.id, v_booking.user_id, v_booking.customer_name,
+    v_booking.customer_email, COALESCE(v_company_name, ''), COALESCE(v_tax_id, ''),
+    v_booking.net_amount, v_tax_rate, v_booking.tax_amount, v_booking.tax_lines, v_booking.total_price
+  )
+  RETURNING * INTO v_invoice;
+
+  v_description := v_booking.workspace_type || ', ' || v_booking.duration || ' from '
+    || to_char(v_booking.starts_at, 'YYYY-MM-DD HH24:MI');
+  IF v_booking.credits_used > 0 THEN
+    v_description := v_description || format(' (paid with %s %s credits)', v_booking.credits_used, v_booking.credit_unit);
+  END IF;
+
+  INSERT INTO invoice_lines (invoice_id, position, description, quantity, unit_price, line_total)
+  VALUES (
+    v_invoice.id, v_position, v_description, 1,
+    v_booking.total_price - v_added_tax - v_booking.add_ons_total + v_booking.discount_amount,
+    v_booking.total_price - v_added_tax - v_booking.add_ons_total + v_booking.discount_amount
+  );
+
+  IF v_booking.discount_amount > 0 THEN
+    v_position := v_position + 1;
+    INSERT INTO invoice_lines (invoice_id, position, description, quantity, unit_price, line_total)
+    VALUES (v_invoice.id, v_position, 'Promo discount', 1, -v_booking.discount_amount, -v_booking.discount_amount);
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM booking_add_ons WHERE booking_id = p_booking_id ORDER BY created_at
+  LOOP
+    v_position := v_position + 1;
+    INSERT INTO invoice_lines (invoice_id, position, description, quantity, unit_price, line_total)
+    VALUES (v_invoice.id, v_position, v_line.name, v_line.quantity, v_line.unit_price, v_line.line_total);
+  END LOOP;
+
+  RETURN v_invoice;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS current_tax_rate();
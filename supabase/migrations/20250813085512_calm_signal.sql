@@ -0,0 +1,18 @@
+/*
+  # Configurable notification endpoint
+
+  1. Changes
+    - New `notification_webhook_url` site setting, the URL booking and client
+      notifications are posted to. It starts as the URL that used to be built
+      into the app; leaving it empty turns notifications off
+*/
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public)
+VALUES (
+  'notification_webhook_url',
+  'https://aibackend.cp-devcode.com/webhook/1ef572d1-3263-4784-bc19-c38b3fbc09d0',
+  'URL booking and client notifications are sent to (leave empty to turn them off)',
+  'url',
+  true
+)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,420 @@
+/*
+  # Notification outbox
+
+  1. New Tables
+    - `notification_outbox` - booking notifications waiting to be delivered to
+      the `notification_webhook_url` endpoint
+      - `event` (text) - `booking_created`, `code_sent`, `confirmed`,
+        `rejected`, `cancelled` or `waitlist_hold_offered`
+      - `booking_id` (uuid) - the booking it is about
+      - `payload` (jsonb) - the notification exactly as it is posted
+      - `status` - `pending` until it is `delivered`, or `dead` once every
+        attempt failed
+      - `attempts`, `next_attempt_at`, `last_error`, `delivered_at`
+
+  2. Changes
+    - Booking changes queue their notification in the same transaction, so a
+      booking can no longer change without its notification being recorded.
+      The app no longer posts booking notifications itself
+    - `offer_waitlist_hold(booking_id)` queues `waitlist_hold_offered`
+
+  3. Functions
+    - `enqueue_notification(event, booking_id, data)` - queue a notification
+    - `notify_booking_change()` - deferred trigger function queueing the
+      notification for a new booking or a status change
+    - `claim_notifications(limit)` - used by the `deliver-notifications`
+      function; takes due notifications and holds them for five minutes
+    - `record_notification_attempt(id, error)` - marks a notification delivered,
+      or schedules the next attempt with exponential backoff (one minute,
+      doubling up to six hours). After eight failed attempts it is `dead`
+    - `resend_notification(id)` - admins queue a failed notification again
+
+  4. Security
+    - Enable RLS on `notification_outbox`, readable by admins only. Rows are
+      written by the functions above
+    - `claim_notifications` and `record_notification_attempt` are for the
+      service role only
+*/
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event text NOT NULL,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'dead')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notification_outbox_due_idx ON notification_outbox(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS notification_outbox_booking_id_idx ON notification_outbox(booking_id);
+
+CREATE TRIGGER update_notification_outbox_updated_at
+  BEFORE UPDATE ON notification_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view notifications"
+  ON notification_outbox
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Payload version, NOTIFICATION_VERSION in the app
+CREATE OR REPLACE FUNCTION enqueue_notification(p_event text, p_booking_id uuid, p_data jsonb)
+RETURNS notification_outbox
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id uuid := gen_random_uuid();
+  v_notification notification_outbox;
+BEGIN
+  INSERT INTO notification_outbox (id, event, booking_id, payload)
+  VALUES (
+    v_id, p_event, p_booking_id,
+    jsonb_build_object('version', 1, 'id', v_id, 'event', p_event, 'occurred_at', now(), 'data', p_data)
+  )
+  RETURNING * INTO v_notification;
+
+  RETURN v_notification;
+END;
+$$;
+
+-- The booking and customer parts of a payload, as NotificationBooking and NotificationCustomer in the app
+CREATE OR REPLACE FUNCTION notification_booking(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', p_booking.id,
+    'workspace_type', p_booking.workspace_type,
+    'date', p_booking.date,
+    'time_slot', p_booking.time_slot,
+    'duration', p_booking.duration,
+    'desk_number', p_booking.desk_number,
+    'total_price', p_booking.total_price,
+    'net_amount', p_booking.net_amount,
+    'tax_amount', p_booking.tax_amount,
+    'currency', p_booking.currency,
+    'add_ons', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', l.name,
+        'quantity', l.quantity,
+        'unit_price', l.unit_price,
+        'price_unit', l.price_unit,
+        'line_total', l.line_total
+      ) ORDER BY l.created_at)
+      FROM booking_add_ons l
+      WHERE l.booking_id = p_booking.id
+    ), '[]'::jsonb)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION notification_customer(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'name', p_booking.customer_name,
+    'email', p_booking.customer_email,
+    'whatsapp', p_booking.customer_whatsapp,
+    'phone', p_booking.customer_phone
+  );
+$$;
+
+-- Whoever made the change: an admin by name, otherwise the booking's customer
+CREATE OR REPLACE FUNCTION notification_actor(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN is_admin() THEN jsonb_build_object(
+      'role', 'admin',
+      'name', COALESCE((SELECT name FROM users WHERE id = auth.uid()), 'Admin')
+    )
+    ELSE jsonb_build_object('role', 'customer', 'name', p_booking.customer_name)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_booking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_data jsonb;
+  v_payment payments;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  -- Payloads describe the booking as it is committed, with its add-ons and refunds
+  SELECT * INTO v_booking FROM bookings WHERE id = NEW.id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_data := jsonb_build_object(
+    'booking', notification_booking(v_booking),
+    'customer', notification_customer(v_booking)
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    -- Waitlist holds are announced by offer_waitlist_hold
+    IF NEW.hold_expires_at IS NOT NULL THEN
+      RETURN NULL;
+    END IF;
+
+    -- A series is announced once, with its first booking
+    IF NEW.series_id IS NOT NULL THEN
+      IF EXISTS (
+        SELECT 1 FROM bookings
+        WHERE series_id = NEW.series_id AND (starts_at, id) < (NEW.starts_at, NEW.id)
+      ) THEN
+        RETURN NULL;
+      END IF;
+
+      v_data := v_data || jsonb_build_object('series', (
+        SELECT jsonb_build_object(
+          'id', NEW.series_id,
+          'booking_ids', jsonb_agg(id ORDER BY starts_at),
+          'dates', jsonb_agg(date ORDER BY starts_at)
+        )
+        FROM bookings
+        WHERE series_id = NEW.series_id
+      ));
+    END IF;
+
+    PERFORM enqueue_notification(
+      'booking_created', NEW.id, v_data || jsonb_build_object('created_by', notification_actor(v_booking))
+    );
+  ELSIF NEW.status = 'code_sent' THEN
+    PERFORM enqueue_notification(
+      'code_sent', NEW.id, v_data || jsonb_build_object('confirmation_code', NEW.confirmation_code)
+    );
+  ELSIF NEW.status = 'confirmed' THEN
+    SELECT * INTO v_payment
+    FROM payments
+    WHERE booking_id = NEW.id AND status = 'succeeded'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      v_data := v_data || jsonb_build_object(
+        'confirmed_by', 'payment',
+        'payment', jsonb_build_object(
+          'provider', v_payment.provider,
+          'provider_ref', v_payment.provider_ref,
+          'amount', v_payment.amount
+        )
+      );
+    ELSE
+      v_data := v_data || jsonb_build_object('confirmed_by', 'code');
+    END IF;
+
+    PERFORM enqueue_notification('confirmed', NEW.id, v_data);
+  ELSIF NEW.status = 'rejected' THEN
+    PERFORM enqueue_notification(
+      'rejected', NEW.id, v_data || jsonb_build_object('rejected_by', notification_actor(v_booking))
+    );
+  ELSIF NEW.status = 'cancelled' THEN
+    PERFORM enqueue_notification(
+      'cancelled', NEW.id, v_data || jsonb_build_object(
+        'cancelled_by', notification_actor(v_booking),
+        'refund_amount', COALESCE((
+          SELECT sum(amount) FROM refunds WHERE booking_id = NEW.id AND status <> 'rejected'
+        ), 0)
+      )
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_booking_change ON bookings;
+
+-- Deferred so payloads include add-ons attached and refunds recorded later in the transaction
+CREATE CONSTRAINT TRIGGER notify_booking_change
+  AFTER INSERT OR UPDATE OF status ON bookings
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_booking_change();
+
+CREATE OR REPLACE FUNCTION claim_notifications(p_limit integer DEFAULT 20)
+RETURNS SETOF notification_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the notification worker can claim notifications'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Held for five minutes, so a worker that dies mid-delivery does not lose them
+  RETURN QUERY
+  UPDATE notification_outbox
+  SET attempts = attempts + 1,
+      next_attempt_at = now() + interval '5 minutes'
+  WHERE id IN (
+    SELECT id FROM notification_outbox
+    WHERE status = 'pending' AND next_attempt_at <= now()
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_notifications(integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION record_notification_attempt(p_notification_id uuid, p_error text DEFAULT NULL)
+RETURNS notification_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max_attempts integer := 8;
+  v_notification notification_outbox;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the notification worker can record deliveries'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE notification_outbox
+  SET status = CASE
+        WHEN p_error IS NULL THEN 'delivered'
+        WHEN attempts >= v_max_attempts THEN 'dead'
+        ELSE 'pending'
+      END,
+      delivered_at = CASE WHEN p_error IS NULL THEN now() END,
+      last_error = p_error,
+      next_attempt_at = now() + least(interval '1 minute' * power(2, attempts - 1), interval '6 hours')
+  WHERE id = p_notification_id
+  RETURNING * INTO v_notification;
+
+  RETURN v_notification;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_notification_attempt(uuid, text) TO service_role;
+
+CREATE OR REPLACE FUNCTION resend_notification(p_notification_id uuid)
+RETURNS notification_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_notification notification_outbox;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can resend notifications'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE notification_outbox
+  SET status = 'pending',
+      attempts = 0,
+      next_attempt_at = now(),
+      last_error = NULL,
+      delivered_at = NULL
+  WHERE id = p_notification_id
+  RETURNING * INTO v_notification;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Notification not found'
+      USING ERRCODE = '22023', DETAIL = 'This notification no longer exists.';
+  END IF;
+
+  RETURN v_notification;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resend_notification(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION offer_waitlist_hold(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- How long a waiting customer has to claim the desk
+  v_hold interval := interval '30 minutes';
+  v_freed bookings;
+  v_entry waitlist_entries;
+  v_desk integer;
+  v_hold_booking bookings;
+BEGIN
+  SELECT * INTO v_freed FROM bookings WHERE id = p_booking_id;
+  IF NOT FOUND OR v_freed.status IN ('pending', 'code_sent', 'confirmed') THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_freed.workspace_type));
+
+  FOR v_entry IN
+    SELECT * FROM waitlist_entries w
+    WHERE w.workspace_type = v_freed.workspace_type
+      AND w.status = 'waiting'
+      AND w.date >= current_date
+      AND tsrange(w.starts_at, w.ends_at) && tsrange(v_freed.starts_at, v_freed.ends_at)
+    ORDER BY w.created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    -- The freed desk when it suits the whole period, otherwise any desk now free
+    IF v_freed.desk_number IS NOT NULL
+      AND booking_desk_is_free(v_entry.workspace_type, v_freed.desk_number, v_entry.starts_at, v_entry.ends_at) THEN
+      v_desk := v_freed.desk_number;
+    ELSE
+      v_desk := booking_free_desk(v_entry.workspace_type, v_entry.starts_at, v_entry.ends_at);
+    END IF;
+
+    CONTINUE WHEN v_desk IS NULL;
+
+    INSERT INTO bookings (
+      workspace_type, starts_at, ends_at, duration,
+      customer_name, customer_email, customer_phone, customer_whatsapp,
+      total_price, status, user_id, desk_number, hold_expires_at
+    ) VALUES (
+      v_entry.workspace_type, v_entry.starts_at, v_entry.ends_at, v_entry.duration,
+      v_entry.customer_name, v_entry.customer_email, v_entry.customer_phone, v_entry.customer_whatsapp,
+      v_entry.total_price, 'pending', v_entry.user_id, v_desk, now() + v_hold
+    )
+    RETURNING * INTO v_hold_booking;
+
+    UPDATE waitlist_entries
+    SET status = 'offered', hold_booking_id = v_hold_booking.id, offered_at = now()
+    WHERE id = v_entry.id;
+
+    PERFORM enqueue_notification('waitlist_hold_offered', v_hold_booking.id, jsonb_build_object(
+      'booking', notification_booking(v_hold_booking),
+      'customer', notification_customer(v_hold_booking),
+      'freed_booking_id', p_booking_id,
+      'hold_expires_at', v_hold_booking.hold_expires_at
+    ));
+
+    RETURN v_hold_booking;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,386 @@
+/*
+  # Webhook endpoints with signed deliveries
+
+  1. New Tables
+    - `webhook_endpoints` - URLs notifications are posted to
+      - `url` (text), `description` (text)
+      - `secret` (text) - key the deliveries are signed with
+      - `events` (text[]) - events the endpoint subscribes to, empty for all
+      - `is_active` (boolean) - paused endpoints keep their deliveries queued
+    - `webhook_deliveries` - one notification posted to one endpoint
+      - `endpoint_id`, `notification_id`
+      - `status` - `pending` until it is `delivered`, or `dead` once every
+        attempt failed
+      - `attempts`, `next_attempt_at`, `last_error`, `delivered_at`
+      - `response_status`, `response_body`, `duration_ms` - what the endpoint
+        answered to the last attempt
+
+  2. Changes
+    - Every notification queued in `notification_outbox` gets a delivery for
+      each active endpoint subscribed to its event. Retries are tracked per
+      delivery, so one failing endpoint no longer holds up the others; the
+      delivery columns move off `notification_outbox`
+    - The `notification_webhook_url` setting becomes the first endpoint,
+      subscribed to every event, and takes over its queued notifications
+    - `client_created` is queued in the outbox too, so its delivery is signed
+      like every other
+
+  3. Functions
+    - `generate_webhook_secret()` - a random signing secret
+    - `fan_out_notification()` - trigger function creating the deliveries
+    - `claim_webhook_deliveries(limit)` - replaces `claim_notifications`; takes
+      due deliveries with their endpoint and payload
+    - `record_webhook_delivery(id, status, body, error, duration)` - replaces
+      `record_notification_attempt`, with the same backoff
+    - `resend_webhook_delivery(id)` - replaces `resend_notification`
+    - `rotate_webhook_secret(endpoint_id)` - admins replace an endpoint's secret
+    - `notify_client_created(client_id, temporary_password, phone)` - admins
+      queue the new client's credentials
+    - `scrub_delivered_notification(notification_id)` - removes the temporary
+      password from a `client_created` notification once every endpoint has
+      it
+
+  4. Security
+    - Enable RLS on `webhook_endpoints`, managed by admins only
+    - Enable RLS on `webhook_deliveries`, readable by admins only. Rows are
+      written by the functions above
+    - `claim_webhook_deliveries` and `record_webhook_delivery` are for the
+      service role only
+    - Temporary passwords are not kept in `notification_outbox` once every
+      delivery of their notification succeeded, or at once when no endpoint
+      subscribes to `client_created`
+*/
+
+-- 64 hex characters from two random UUIDs, no extension needed
+CREATE OR REPLACE FUNCTION generate_webhook_secret()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT 'whsec_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+$$;
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  url text NOT NULL CHECK (url ~ '^https?://'),
+  description text NOT NULL DEFAULT '',
+  secret text NOT NULL DEFAULT generate_webhook_secret(),
+  events text[] NOT NULL DEFAULT '{}' CHECK (events <@ ARRAY[
+    'booking_created', 'code_sent', 'confirmed', 'rejected', 'cancelled',
+    'client_created', 'waitlist_hold_offered'
+  ]::text[]),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id uuid NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  notification_id uuid NOT NULL REFERENCES notification_outbox(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'dead')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  response_status integer,
+  response_body text,
+  duration_ms integer,
+  delivered_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (endpoint_id, notification_id)
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS webhook_deliveries_notification_id_idx ON webhook_deliveries(notification_id);
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON webhook_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+  BEFORE UPDATE ON webhook_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage webhook endpoints"
+  ON webhook_endpoints
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can view webhook deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- The old endpoint keeps receiving everything, including what is still queued for it
+INSERT INTO webhook_endpoints (url, description)
+SELECT trim(value), 'Automation backend'
+FROM site_settings
+WHERE key = 'notification_webhook_url' AND trim(value) ~ '^https?://';
+
+INSERT INTO webhook_deliveries (
+  endpoint_id, notification_id, status, attempts, next_attempt_at, last_error, delivered_at, created_at
+)
+SELECT e.id, n.id, n.status, n.attempts, n.next_attempt_at, n.last_error, n.delivered_at, n.created_at
+FROM notification_outbox n
+CROSS JOIN webhook_endpoints e;
+
+DELETE FROM site_settings WHERE key = 'notification_webhook_url';
+
+DROP FUNCTION IF EXISTS claim_notifications(integer);
+DROP FUNCTION IF EXISTS record_notification_attempt(uuid, text);
+DROP FUNCTION IF EXISTS resend_notification(uuid);
+
+ALTER TABLE notification_outbox
+  DROP COLUMN IF EXISTS status,
+  DROP COLUMN IF EXISTS attempts,
+  DROP COLUMN IF EXISTS next_attempt_at,
+  DROP COLUMN IF EXISTS last_error,
+  DROP COLUMN IF EXISTS delivered_at;
+
+-- A client's temporary password is only kept until every endpoint has been sent it
+CREATE OR REPLACE FUNCTION scrub_delivered_notification(p_notification_id uuid)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE notification_outbox n
+  SET payload = n.payload #- '{data,temporary_password}'
+  WHERE n.id = p_notification_id
+    AND n.payload->'data' ? 'temporary_password'
+    AND NOT EXISTS (
+      SELECT 1 FROM webhook_deliveries d
+      WHERE d.notification_id = n.id AND d.status <> 'delivered'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION fan_out_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO webhook_deliveries (endpoint_id, notification_id)
+  SELECT e.id, NEW.id
+  FROM webhook_endpoints e
+  WHERE e.is_active
+    AND (cardinality(e.events) = 0 OR NEW.event = ANY(e.events));
+
+  -- Nothing to deliver it to
+  PERFORM scrub_delivered_notification(NEW.id);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER fan_out_notification
+  AFTER INSERT ON notification_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION fan_out_notification();
+
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  delivery_id uuid,
+  notification_id uuid,
+  event text,
+  endpoint_url text,
+  signing_secret text,
+  payload jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the notification worker can claim deliveries'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Held for five minutes, so a worker that dies mid-delivery does not lose them.
+  -- Deliveries to paused endpoints wait until the endpoint is active again
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE webhook_deliveries d
+    SET attempts = d.attempts + 1,
+        next_attempt_at = now() + interval '5 minutes'
+    WHERE d.id IN (
+      SELECT due.id
+      FROM webhook_deliveries due
+      JOIN webhook_endpoints e ON e.id = due.endpoint_id
+      WHERE due.status = 'pending' AND due.next_attempt_at <= now() AND e.is_active
+      ORDER BY due.created_at
+      LIMIT p_limit
+      FOR UPDATE OF due SKIP LOCKED
+    )
+    RETURNING d.id, d.endpoint_id, d.notification_id
+  )
+  SELECT c.id, n.id, n.event, e.url, e.secret, n.payload
+  FROM claimed c
+  JOIN webhook_endpoints e ON e.id = c.endpoint_id
+  JOIN notification_outbox n ON n.id = c.notification_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION record_webhook_delivery(
+  p_delivery_id uuid,
+  p_response_status integer DEFAULT NULL,
+  p_response_body text DEFAULT NULL,
+  p_error text DEFAULT NULL,
+  p_duration_ms integer DEFAULT NULL
+)
+RETURNS webhook_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max_attempts integer := 8;
+  v_delivery webhook_deliveries;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the notification worker can record deliveries'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE webhook_deliveries
+  SET status = CASE
+        WHEN p_error IS NULL THEN 'delivered'
+        WHEN attempts >= v_max_attempts THEN 'dead'
+        ELSE 'pending'
+      END,
+      delivered_at = CASE WHEN p_error IS NULL THEN now() END,
+      last_error = p_error,
+      response_status = p_response_status,
+      response_body = left(p_response_body, 1000),
+      duration_ms = p_duration_ms,
+      next_attempt_at = now() + least(interval '1 minute' * power(2, attempts - 1), interval '6 hours')
+  WHERE id = p_delivery_id
+  RETURNING * INTO v_delivery;
+
+  IF v_delivery.status = 'delivered' THEN
+    PERFORM scrub_delivered_notification(v_delivery.notification_id);
+  END IF;
+
+  RETURN v_delivery;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_webhook_delivery(uuid, integer, text, text, integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION resend_webhook_delivery(p_delivery_id uuid)
+RETURNS webhook_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_delivery webhook_deliveries;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can resend deliveries'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE webhook_deliveries
+  SET status = 'pending',
+      attempts = 0,
+      next_attempt_at = now(),
+      last_error = NULL,
+      delivered_at = NULL
+  WHERE id = p_delivery_id
+  RETURNING * INTO v_delivery;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery not found'
+      USING ERRCODE = '22023', DETAIL = 'This delivery no longer exists.';
+  END IF;
+
+  RETURN v_delivery;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resend_webhook_delivery(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION rotate_webhook_secret(p_endpoint_id uuid)
+RETURNS webhook_endpoints
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_endpoint webhook_endpoints;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can rotate webhook secrets'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE webhook_endpoints
+  SET secret = generate_webhook_secret()
+  WHERE id = p_endpoint_id
+  RETURNING * INTO v_endpoint;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Endpoint not found'
+      USING ERRCODE = '22023', DETAIL = 'This endpoint no longer exists.';
+  END IF;
+
+  RETURN v_endpoint;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rotate_webhook_secret(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION notify_client_created(
+  p_client_id uuid,
+  p_temporary_password text,
+  p_phone text DEFAULT ''
+)
+RETURNS notification_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client users;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create clients'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_client FROM users WHERE id = p_client_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client not found'
+      USING ERRCODE = '22023', DETAIL = 'This client no longer exists.';
+  END IF;
+
+  RETURN enqueue_notification('client_created', NULL, jsonb_build_object(
+    'client', jsonb_build_object(
+      'id', v_client.id,
+      'name', v_client.name,
+      'email', v_client.email,
+      'whatsapp', COALESCE(v_client.whatsapp, ''),
+      'phone', COALESCE(p_phone, '')
+    ),
+    'temporary_password', p_temporary_password,
+    'created_by', jsonb_build_object(
+      'role', 'admin',
+      'name', COALESCE((SELECT name FROM users WHERE id = auth.uid()), 'Admin')
+    )
+  ));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION notify_client_created(uuid, text, text) TO authenticated;
@@ -0,0 +1,324 @@
+/*
+  # Email notifications
+
+  1. New Tables
+    - `email_templates` - the email sent for a notification event
+      - `event` (text, unique) - `booking_created`, `code_sent`, `confirmed`,
+        `rejected`, `cancelled` or `reminder`
+      - `subject`, `body` (text) - plain text with `{{placeholder}}`s filled
+        in from the notification, e.g. `{{customer_name}}` or `{{date}}`
+      - `is_enabled` (boolean)
+    - `email_deliveries` - one rendered email waiting to be sent, or sent
+      - `notification_id`, `event`, `recipient`, `subject`, `body`
+      - `status` - `pending` until it is `sent`, or `dead` once every attempt
+        failed
+      - `attempts`, `next_attempt_at`, `last_error`, `sent_at`
+
+  2. Changes
+    - `users.notification_channels` (text[]) - how a customer wants to hear
+      from us: `whatsapp`, `email` or both. Everyone starts with both
+    - Notification payloads list the customer's channels under
+      `customer.channels`, so the WhatsApp automation can honour them too.
+      Guests get both
+    - Every notification with an enabled template is rendered into an email
+      for its customer, unless they turned email off. `reminder` has no
+      event yet; its template is ready for scheduled reminders
+
+  3. Functions
+    - `email_placeholders(payload)` - the values templates can use
+    - `render_email_template(text, values)` - fill in the placeholders;
+      unknown ones are left out
+    - `queue_notification_email()` - trigger function rendering the email
+    - `claim_email_deliveries(limit)` - used by the `send-emails` function;
+      takes due emails and holds them for five minutes
+    - `record_email_delivery(id, error)` - marks an email sent, or schedules
+      the next attempt with the same backoff as webhook deliveries
+    - `update_notification_channels(channels)` - customers choose their
+      channels; at least one is required
+
+  4. Security
+    - Enable RLS on `email_templates`, managed by admins only
+    - Enable RLS on `email_deliveries`, readable by admins only. Rows are
+      written by the functions above
+    - `claim_email_deliveries` and `record_email_delivery` are for the service
+      role only
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS notification_channels text[] NOT NULL DEFAULT '{whatsapp,email}'
+  CHECK (notification_channels <@ ARRAY['whatsapp', 'email']::text[]);
+
+CREATE TABLE IF NOT EXISTS email_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event text UNIQUE NOT NULL CHECK (event IN ('booking_created', 'code_sent', 'confirmed', 'rejected', 'cancelled', 'reminder')),
+  subject text NOT NULL,
+  body text NOT NULL,
+  is_enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS email_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id uuid REFERENCES notification_outbox(id) ON DELETE CASCADE,
+  event text NOT NULL,
+  recipient text NOT NULL,
+  subject text NOT NULL,
+  body text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'dead')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS email_deliveries_due_idx ON email_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS email_deliveries_notification_id_idx ON email_deliveries(notification_id);
+
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON email_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_email_deliveries_updated_at
+  BEFORE UPDATE ON email_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage email templates"
+  ON email_templates
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can view email deliveries"
+  ON email_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+INSERT INTO email_templates (event, subject, body) VALUES
+  (
+    'booking_created',
+    'We received your booking for {{date}}',
+    E'Hi {{customer_name}},\n\nThanks for booking a {{workspace_type}} at {{site_name}} on {{date}} ({{time_slot}}).\nTotal: {{total}}\n\nWe will confirm it shortly.\n\n{{site_name}}'
+  ),
+  (
+    'code_sent',
+    'Your confirmation code for {{date}}',
+    E'Hi {{customer_name}},\n\nYour confirmation code is {{confirmation_code}}. Enter it on your booking to confirm your {{workspace_type}} on {{date}} ({{time_slot}}).\n\n{{site_name}}'
+  ),
+  (
+    'confirmed',
+    'Your booking on {{date}} is confirmed',
+    E'Hi {{customer_name}},\n\nYour {{workspace_type}} on {{date}} ({{time_slot}}) is confirmed. See you then!\n\n{{site_name}}'
+  ),
+  (
+    'rejected',
+    'We could not accept your booking for {{date}}',
+    E'Hi {{customer_name}},\n\nUnfortunately we could not accept your {{workspace_type}} booking on {{date}} ({{time_slot}}). Please get in touch or choose another time.\n\n{{site_name}}'
+  ),
+  (
+    'cancelled',
+    'Your booking on {{date}} was cancelled',
+    E'Hi {{customer_name}},\n\nYour {{workspace_type}} booking on {{date}} ({{time_slot}}) was cancelled.\nRefund: {{refund_amount}}\n\n{{site_name}}'
+  ),
+  (
+    'reminder',
+    'See you on {{date}}',
+    E'Hi {{customer_name}},\n\nA reminder that your {{workspace_type}} is booked for {{date}} ({{time_slot}}).\n\n{{site_name}}'
+  )
+ON CONFLICT (event) DO NOTHING;
+
+-- Now with the customer's channels; guests have no account and get both
+CREATE OR REPLACE FUNCTION notification_customer(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'name', p_booking.customer_name,
+    'email', p_booking.customer_email,
+    'whatsapp', p_booking.customer_whatsapp,
+    'phone', p_booking.customer_phone,
+    'channels', to_jsonb(COALESCE(
+      (SELECT notification_channels FROM users WHERE id = p_booking.user_id),
+      ARRAY['whatsapp', 'email']
+    ))
+  );
+$$;
+
+-- EMAIL_PLACEHOLDERS in the app lists these for the template editor
+CREATE OR REPLACE FUNCTION email_placeholders(p_payload jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_strip_nulls(jsonb_build_object(
+    'site_name', (SELECT value FROM site_settings WHERE key = 'site_name'),
+    'customer_name', d->'customer'->>'name',
+    'customer_email', d->'customer'->>'email',
+    'booking_id', d->'booking'->>'id',
+    'workspace_type', d->'booking'->>'workspace_type',
+    'date', to_char((d->'booking'->>'date')::date, 'FMDay, FMDD FMMonth YYYY'),
+    'time_slot', d->'booking'->>'time_slot',
+    'duration', d->'booking'->>'duration',
+    'desk_number', d->'booking'->>'desk_number',
+    'total', (d->'booking'->>'currency') || ' ' || to_char((d->'booking'->>'total_price')::numeric, 'FM999G999G990D00'),
+    'confirmation_code', d->>'confirmation_code',
+    'refund_amount', (d->'booking'->>'currency') || ' ' || to_char((d->>'refund_amount')::numeric, 'FM999G999G990D00')
+  ))
+  FROM (SELECT p_payload->'data' AS d) payload;
+$$;
+
+CREATE OR REPLACE FUNCTION render_email_template(p_text text, p_values jsonb)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_key text;
+  v_value text;
+  v_text text := p_text;
+BEGIN
+  FOR v_key, v_value IN SELECT key, value FROM jsonb_each_text(p_values) LOOP
+    v_text := regexp_replace(v_text, '\{\{\s*' || v_key || '\s*\}\}', replace(v_value, '\', '\\'), 'g');
+  END LOOP;
+
+  RETURN regexp_replace(v_text, '\{\{\s*\w+\s*\}\}', '', 'g');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_notification_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_template email_templates;
+  v_customer jsonb := NEW.payload->'data'->'customer';
+  v_values jsonb;
+BEGIN
+  SELECT * INTO v_template FROM email_templates WHERE event = NEW.event AND is_enabled;
+  IF NOT FOUND
+    OR COALESCE(trim(v_customer->>'email'), '') = ''
+    OR NOT COALESCE(v_customer->'channels', '["email"]') ? 'email' THEN
+    RETURN NULL;
+  END IF;
+
+  v_values := email_placeholders(NEW.payload);
+
+  INSERT INTO email_deliveries (notification_id, event, recipient, subject, body)
+  VALUES (
+    NEW.id,
+    NEW.event,
+    trim(v_customer->>'email'),
+    render_email_template(v_template.subject, v_values),
+    render_email_template(v_template.body, v_values)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER queue_notification_email
+  AFTER INSERT ON notification_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_notification_email();
+
+CREATE OR REPLACE FUNCTION claim_email_deliveries(p_limit integer DEFAULT 20)
+RETURNS SETOF email_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the email worker can claim emails'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Held for five minutes, so a worker that dies mid-send does not lose them
+  RETURN QUERY
+  UPDATE email_deliveries
+  SET attempts = attempts + 1,
+      next_attempt_at = now() + interval '5 minutes'
+  WHERE id IN (
+    SELECT id FROM email_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= now()
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_email_deliveries(integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION record_email_delivery(p_delivery_id uuid, p_error text DEFAULT NULL)
+RETURNS email_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max_attempts integer := 8;
+  v_delivery email_deliveries;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the email worker can record emails'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE email_deliveries
+  SET status = CASE
+        WHEN p_error IS NULL THEN 'sent'
+        WHEN attempts >= v_max_attempts THEN 'dead'
+        ELSE 'pending'
+      END,
+      sent_at = CASE WHEN p_error IS NULL THEN now() END,
+      last_error = p_error,
+      next_attempt_at = now() + least(interval '1 minute' * power(2, attempts - 1), interval '6 hours')
+  WHERE id = p_delivery_id
+  RETURNING * INTO v_delivery;
+
+  RETURN v_delivery;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_email_delivery(uuid, text) TO service_role;
+
+CREATE OR REPLACE FUNCTION update_notification_channels(p_channels text[])
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_channels text[];
+BEGIN
+  SELECT COALESCE(array_agg(DISTINCT channel ORDER BY channel DESC), '{}') INTO v_channels
+  FROM unnest(p_channels) channel
+  WHERE channel IN ('whatsapp', 'email');
+
+  IF cardinality(v_channels) = 0 THEN
+    RAISE EXCEPTION 'No notification channel'
+      USING ERRCODE = '22023', DETAIL = 'Choose at least one way for us to reach you.';
+  END IF;
+
+  UPDATE users
+  SET notification_channels = v_channels
+  WHERE id = auth.uid();
+
+  RETURN v_channels;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_notification_channels(text[]) TO authenticated;
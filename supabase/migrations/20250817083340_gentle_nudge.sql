@@ -0,0 +1,266 @@
+/*
+  # Booking reminders and follow-ups
+
+  1. New Tables
+    - `booking_reminders` - reminders and follow-ups already queued, so none is
+      sent twice
+      - `booking_id` (uuid)
+      - `kind` - `reminder` or `follow_up`
+      - `lead_hours` (numeric) - the lead time a reminder was sent for; null
+        for follow-ups. A booking gets one reminder per lead time and one
+        follow-up
+      - `notification_id` (uuid) - the queued notification
+
+  2. Changes
+    - New `reminder_lead_hours` site setting: how many hours before a confirmed
+      booking starts to remind the customer, comma-separated (e.g. `24, 2`).
+      Lead times that had already passed when the booking was made are skipped,
+      and lead times that fall due together are sent as one reminder
+    - New `follow_up_delay_hours` site setting: how many hours after a
+      confirmed booking ends to follow up. Empty turns follow-ups off. Bookings
+      that ended more than two days before the follow-up was due are skipped
+    - Add `no_show_at` (timestamptz) to `bookings`, set by admins when the
+      customer did not come
+    - New notification events `reminder`, `feedback_requested` (the follow-up
+      when the customer came) and `no_show` (the follow-up when an admin marked
+      them as not coming), with email templates
+
+  3. Functions
+    - `reminder_lead_hours()` - the lead times from the setting
+    - `send_booking_reminders()` - queues due reminders and follow-ups; run by
+      the `send-reminders` function
+    - `mark_booking_no_show(booking_id, no_show)` - admins flag or clear a
+      no-show once a confirmed booking has started
+
+  4. Security
+    - Enable RLS on `booking_reminders`, readable by admins only. Rows are
+      written by `send_booking_reminders`, which is for the service role only
+*/
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public)
+VALUES
+  ('reminder_lead_hours', '24, 2', 'Hours before a confirmed booking starts to remind the customer, comma-separated (leave empty for none)', 'text', false),
+  ('follow_up_delay_hours', '2', 'Hours after a booking ends to ask for feedback or follow up a no-show (leave empty to turn off)', 'number', false)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS no_show_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS booking_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('reminder', 'follow_up')),
+  lead_hours numeric CHECK ((kind = 'reminder') = (lead_hours IS NOT NULL)),
+  notification_id uuid REFERENCES notification_outbox(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS booking_reminders_reminder_key
+  ON booking_reminders(booking_id, lead_hours) WHERE kind = 'reminder';
+CREATE UNIQUE INDEX IF NOT EXISTS booking_reminders_follow_up_key
+  ON booking_reminders(booking_id) WHERE kind = 'follow_up';
+
+ALTER TABLE booking_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view booking reminders"
+  ON booking_reminders
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+ALTER TABLE webhook_endpoints DROP CONSTRAINT IF EXISTS webhook_endpoints_events_check;
+ALTER TABLE webhook_endpoints ADD CONSTRAINT webhook_endpoints_events_check CHECK (events <@ ARRAY[
+  'booking_created', 'code_sent', 'confirmed', 'rejected', 'cancelled',
+  'client_created', 'waitlist_hold_offered', 'reminder', 'feedback_requested', 'no_show'
+]::text[]);
+
+ALTER TABLE email_templates DROP CONSTRAINT IF EXISTS email_templates_event_check;
+ALTER TABLE email_templates ADD CONSTRAINT email_templates_event_check CHECK (event IN (
+  'booking_created', 'code_sent', 'confirmed', 'rejected', 'cancelled', 'reminder', 'feedback_requested', 'no_show'
+));
+
+INSERT INTO email_templates (event, subject, body) VALUES
+  (
+    'feedback_requested',
+    'How was your day at {{site_name}}?',
+    E'Hi {{customer_name}},\n\nThanks for working from our {{workspace_type}} on {{date}}. We would love to hear how it went - just reply to this email.\n\n{{site_name}}'
+  ),
+  (
+    'no_show',
+    'We missed you on {{date}}',
+    E'Hi {{customer_name}},\n\nWe did not see you for your {{workspace_type}} booking on {{date}} ({{time_slot}}). If something came up, reply to this email and we will help you find another time.\n\n{{site_name}}'
+  )
+ON CONFLICT (event) DO NOTHING;
+
+-- Now with the hours left before a reminded booking starts
+CREATE OR REPLACE FUNCTION email_placeholders(p_payload jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_strip_nulls(jsonb_build_object(
+    'site_name', (SELECT value FROM site_settings WHERE key = 'site_name'),
+    'customer_name', d->'customer'->>'name',
+    'customer_email', d->'customer'->>'email',
+    'booking_id', d->'booking'->>'id',
+    'workspace_type', d->'booking'->>'workspace_type',
+    'date', to_char((d->'booking'->>'date')::date, 'FMDay, FMDD FMMonth YYYY'),
+    'time_slot', d->'booking'->>'time_slot',
+    'duration', d->'booking'->>'duration',
+    'desk_number', d->'booking'->>'desk_number',
+    'total', (d->'booking'->>'currency') || ' ' || to_char((d->'booking'->>'total_price')::numeric, 'FM999G999G990D00'),
+    'confirmation_code', d->>'confirmation_code',
+    'refund_amount', (d->'booking'->>'currency') || ' ' || to_char((d->>'refund_amount')::numeric, 'FM999G999G990D00'),
+    'hours_before', d->>'hours_before'
+  ))
+  FROM (SELECT p_payload->'data' AS d) payload;
+$$;
+
+-- Largest first; anything that is not a positive number is ignored
+CREATE OR REPLACE FUNCTION reminder_lead_hours()
+RETURNS numeric[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT hours ORDER BY hours DESC), '{}')
+  FROM (
+    SELECT trim(part)::numeric AS hours
+    FROM site_settings, regexp_split_to_table(value, ',') part
+    WHERE key = 'reminder_lead_hours' AND trim(part) ~ '^\d+(\.\d+)?$'
+  ) leads
+  WHERE hours > 0;
+$$;
+
+CREATE OR REPLACE FUNCTION send_booking_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now timestamp := space_local_now();
+  v_leads numeric[] := reminder_lead_hours();
+  v_delay interval := (
+    SELECT make_interval(secs => NULLIF(trim(value), '')::numeric * 3600)
+    FROM site_settings
+    WHERE key = 'follow_up_delay_hours' AND trim(value) ~ '^\d+(\.\d+)?$'
+  );
+  v_booking bookings;
+  v_due numeric[];
+  v_notification notification_outbox;
+  v_queued integer := 0;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the reminder scheduler can send reminders'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- One scheduler at a time, so overlapping runs cannot both send a reminder
+  PERFORM pg_advisory_xact_lock(hashtext('send_booking_reminders'));
+
+  IF cardinality(v_leads) > 0 THEN
+    FOR v_booking IN
+      SELECT * FROM bookings
+      WHERE status = 'confirmed'
+        AND starts_at > v_now
+        AND starts_at <= v_now + make_interval(secs => v_leads[1] * 3600)
+      ORDER BY starts_at
+    LOOP
+      -- Lead times reached since the booking was made that have no reminder yet
+      SELECT array_agg(lead_time) INTO v_due
+      FROM unnest(v_leads) lead_time
+      WHERE v_booking.starts_at - make_interval(secs => lead_time * 3600) <= v_now
+        AND v_booking.starts_at - make_interval(secs => lead_time * 3600) > v_now - (now() - v_booking.created_at)
+        AND NOT EXISTS (
+          SELECT 1 FROM booking_reminders r
+          WHERE r.booking_id = v_booking.id AND r.kind = 'reminder' AND r.lead_hours = lead_time
+        );
+
+      CONTINUE WHEN v_due IS NULL;
+
+      v_notification := enqueue_notification('reminder', v_booking.id, jsonb_build_object(
+        'booking', notification_booking(v_booking),
+        'customer', notification_customer(v_booking),
+        'hours_before', round((extract(epoch FROM v_booking.starts_at - v_now) / 3600)::numeric, 1)
+      ));
+
+      INSERT INTO booking_reminders (booking_id, kind, lead_hours, notification_id)
+      SELECT v_booking.id, 'reminder', lead_time, v_notification.id
+      FROM unnest(v_due) lead_time;
+
+      v_queued := v_queued + 1;
+    END LOOP;
+  END IF;
+
+  IF v_delay IS NOT NULL THEN
+    FOR v_booking IN
+      SELECT * FROM bookings b
+      WHERE b.status = 'confirmed'
+        AND b.ends_at + v_delay <= v_now
+        AND b.ends_at + v_delay > v_now - interval '2 days'
+        AND NOT EXISTS (
+          SELECT 1 FROM booking_reminders r
+          WHERE r.booking_id = b.id AND r.kind = 'follow_up'
+        )
+      ORDER BY b.ends_at
+    LOOP
+      IF v_booking.no_show_at IS NOT NULL THEN
+        v_notification := enqueue_notification('no_show', v_booking.id, jsonb_build_object(
+          'booking', notification_booking(v_booking),
+          'customer', notification_customer(v_booking),
+          'no_show_at', v_booking.no_show_at
+        ));
+      ELSE
+        v_notification := enqueue_notification('feedback_requested', v_booking.id, jsonb_build_object(
+          'booking', notification_booking(v_booking),
+          'customer', notification_customer(v_booking)
+        ));
+      END IF;
+
+      INSERT INTO booking_reminders (booking_id, kind, notification_id)
+      VALUES (v_booking.id, 'follow_up', v_notification.id);
+
+      v_queued := v_queued + 1;
+    END LOOP;
+  END IF;
+
+  RETURN v_queued;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION send_booking_reminders() TO service_role;
+
+CREATE OR REPLACE FUNCTION mark_booking_no_show(p_booking_id uuid, p_no_show boolean DEFAULT true)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can mark no-shows'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found'
+      USING ERRCODE = '22023', DETAIL = 'This booking no longer exists.';
+  END IF;
+
+  IF v_booking.status <> 'confirmed' OR v_booking.starts_at > space_local_now() THEN
+    RAISE EXCEPTION 'Booking cannot be a no-show'
+      USING ERRCODE = '22023', DETAIL = 'Only confirmed bookings that have started can be marked as a no-show.';
+  END IF;
+
+  UPDATE bookings
+  SET no_show_at = CASE WHEN p_no_show THEN COALESCE(no_show_at, now()) END
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_booking_no_show(uuid, boolean) TO authenticated;
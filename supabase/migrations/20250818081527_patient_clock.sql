@@ -0,0 +1,60 @@
+/*
+  # Release expired waitlist holds on the server
+
+  1. Changes
+    - Waitlist holds nobody claimed in time were only released while an admin
+      had the dashboard open. They are now released by the `release-holds`
+      function on a schedule, which also offers each freed desk to the next
+      waiting customer
+
+  2. Functions
+    - `release_expired_waitlist_holds()` - cancels holds that ran out, marks
+      their waitlist entries as expired and offers the desks again with
+      `offer_waitlist_hold`. Returns how many holds were released
+
+  3. Security
+    - `release_expired_waitlist_holds` is for the service role only
+*/
+
+DROP FUNCTION IF EXISTS release_expired_waitlist_holds();
+
+CREATE FUNCTION release_expired_waitlist_holds()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expired bookings;
+  v_released integer := 0;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the hold scheduler can release waitlist holds'
+      USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_expired IN
+    SELECT * FROM bookings
+    WHERE status = 'pending' AND hold_expires_at < now()
+    ORDER BY hold_expires_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE bookings
+    SET status = 'cancelled', hold_expires_at = NULL, updated_at = now()
+    WHERE id = v_expired.id;
+
+    UPDATE waitlist_entries
+    SET status = 'expired'
+    WHERE hold_booking_id = v_expired.id;
+
+    PERFORM offer_waitlist_hold(v_expired.id);
+
+    v_released := v_released + 1;
+  END LOOP;
+
+  RETURN v_released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION release_expired_waitlist_holds() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_expired_waitlist_holds() TO service_role;
@@ -0,0 +1,61 @@
+/*
+  # Cancel a whole booking series on the server
+
+  1. Changes
+    - Cancelling a series now cancels its confirmed occurrences as well as the
+      pending ones. Confirmed occurrences go through `cancel_confirmed_booking`,
+      so each gets the refund the cancellation policy sets
+    - Occurrences count as not started by the time at the space
+      (`space_local_now()`), not the customer's clock
+
+  2. Functions
+    - `cancel_booking_series(series_id)` - customers cancel the pending and
+      confirmed occurrences of one of their series that have not started, and
+      the freed desks are offered to the waitlist. Returns how many were
+      cancelled
+*/
+
+CREATE OR REPLACE FUNCTION cancel_booking_series(p_series_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings;
+  v_cancelled integer := 0;
+BEGIN
+  FOR v_booking IN
+    SELECT * FROM bookings
+    WHERE series_id = p_series_id
+      AND user_id = auth.uid()
+      AND status IN ('pending', 'confirmed')
+      AND starts_at > space_local_now()
+    ORDER BY starts_at
+    FOR UPDATE
+  LOOP
+    IF v_booking.status = 'confirmed' THEN
+      PERFORM cancel_confirmed_booking(v_booking.id);
+    ELSE
+      UPDATE bookings
+      SET status = 'cancelled',
+          updated_at = now()
+      WHERE id = v_booking.id;
+    END IF;
+
+    -- The freed desk goes to the first customer on the waitlist
+    PERFORM offer_waitlist_hold(v_booking.id);
+
+    v_cancelled := v_cancelled + 1;
+  END LOOP;
+
+  IF v_cancelled = 0 THEN
+    RAISE EXCEPTION 'Nothing to cancel'
+      USING ERRCODE = '22023', DETAIL = 'There are no upcoming bookings left to cancel in this series.';
+  END IF;
+
+  RETURN v_cancelled;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_booking_series(uuid) TO authenticated;
@@ -0,0 +1,155 @@
+/*
+  # Lock down the waitlist functions
+
+  1. Changes
+    - `join_waitlist` no longer takes a total price from the client. The entry
+      is priced on the server with `booking_price`, like a booking
+    - `offer_waitlist_hold` can only be called by admins, the service role or
+      the customer whose booking freed the desk
+
+  2. Functions
+    - `join_waitlist(workspace_type, date, start_time, duration, customer...)`
+      replaces the version with `p_total_price`
+    - `offer_waitlist_hold(booking_id)` checks the caller
+
+  3. Security
+    - `offer_waitlist_hold` is no longer granted to `anon`
+*/
+
+DROP FUNCTION IF EXISTS join_waitlist(text, date, time, text, text, text, text, text, numeric);
+
+CREATE FUNCTION join_waitlist(
+  p_workspace_type text,
+  p_date date,
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text
+)
+RETURNS waitlist_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period record;
+  v_entry waitlist_entries;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join the waitlist'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_period FROM booking_period(p_workspace_type, p_date, p_start_time, p_duration);
+
+  IF booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at) IS NOT NULL THEN
+    RAISE EXCEPTION 'desk_available'
+      USING ERRCODE = '22023', DETAIL = 'A desk is free for this time. Book it directly instead.';
+  END IF;
+
+  -- Priced like the booking the hold becomes; set_booking_total_price prices that one again
+  INSERT INTO waitlist_entries (
+    user_id, workspace_type, date, start_time, duration, starts_at, ends_at,
+    customer_name, customer_email, customer_phone, customer_whatsapp, total_price
+  ) VALUES (
+    auth.uid(), p_workspace_type, p_date, p_start_time, p_duration, v_period.starts_at, v_period.ends_at,
+    p_customer_name, p_customer_email, COALESCE(p_customer_phone, ''), p_customer_whatsapp,
+    booking_price(p_workspace_type, p_duration)
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'already_waiting'
+      USING ERRCODE = '22023', DETAIL = 'You are already on the waitlist for this time.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION join_waitlist(text, date, time, text, text, text, text, text) TO authenticated;
+
+-- Hold a desk freed by a cancelled or rejected booking for the first customer it suits
+CREATE OR REPLACE FUNCTION offer_waitlist_hold(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- How long a waiting customer has to claim the desk
+  v_hold interval := interval '30 minutes';
+  v_freed bookings;
+  v_entry waitlist_entries;
+  v_desk integer;
+  v_hold_booking bookings;
+BEGIN
+  SELECT * INTO v_freed FROM bookings WHERE id = p_booking_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT is_admin()
+    AND auth.role() IS DISTINCT FROM 'service_role'
+    AND (auth.uid() IS NULL OR v_freed.user_id IS DISTINCT FROM auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and the booking''s customer can offer its desk'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_freed.status IN ('pending', 'code_sent', 'confirmed') THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_freed.workspace_type));
+
+  FOR v_entry IN
+    SELECT * FROM waitlist_entries w
+    WHERE w.workspace_type = v_freed.workspace_type
+      AND w.status = 'waiting'
+      AND w.date >= current_date
+      AND tsrange(w.starts_at, w.ends_at) && tsrange(v_freed.starts_at, v_freed.ends_at)
+    ORDER BY w.created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    -- The freed desk when it suits the whole period, otherwise any desk now free
+    IF v_freed.desk_number IS NOT NULL
+      AND booking_desk_is_free(v_entry.workspace_type, v_freed.desk_number, v_entry.starts_at, v_entry.ends_at) THEN
+      v_desk := v_freed.desk_number;
+    ELSE
+      v_desk := booking_free_desk(v_entry.workspace_type, v_entry.starts_at, v_entry.ends_at);
+    END IF;
+
+    CONTINUE WHEN v_desk IS NULL;
+
+    INSERT INTO bookings (
+      workspace_type, starts_at, ends_at, duration,
+      customer_name, customer_email, customer_phone, customer_whatsapp,
+      total_price, status, user_id, desk_number, hold_expires_at
+    ) VALUES (
+      v_entry.workspace_type, v_entry.starts_at, v_entry.ends_at, v_entry.duration,
+      v_entry.customer_name, v_entry.customer_email, v_entry.customer_phone, v_entry.customer_whatsapp,
+      v_entry.total_price, 'pending', v_entry.user_id, v_desk, now() + v_hold
+    )
+    RETURNING * INTO v_hold_booking;
+
+    UPDATE waitlist_entries
+    SET status = 'offered', hold_booking_id = v_hold_booking.id, offered_at = now()
+    WHERE id = v_entry.id;
+
+    PERFORM enqueue_notification('waitlist_hold_offered', v_hold_booking.id, jsonb_build_object(
+      'booking', notification_booking(v_hold_booking),
+      'customer', notification_customer(v_hold_booking),
+      'freed_booking_id', p_booking_id,
+      'hold_expires_at', v_hold_booking.hold_expires_at
+    ));
+
+    RETURN v_hold_booking;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION offer_waitlist_hold(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION offer_waitlist_hold(uuid) TO authenticated, service_role;
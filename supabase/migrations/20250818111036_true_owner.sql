@@ -0,0 +1,251 @@
+/*
+  # Admin bookings belong to the customer they are made for
+
+  1. Changes
+    - Bookings and series admins create for a customer were stored under the
+      admin's own account, so they were invoiced to the admin, used the
+      admin's credits and did not show in the customer's bookings. They now
+      belong to the customer: the one the admin picked, or the customer with
+      the booking's email
+
+  2. Functions
+    - `booking_customer_id(user_id, customer_email)` - the account a new
+      booking is for
+    - `create_booking` and `create_booking_series` take `p_user_id`
+
+  3. Security
+    - Only admins can book for another customer. Customers passing someone
+      else's id get SQLSTATE `42501`
+*/
+
+-- The caller, or for admins the given customer or the one with the booking's email
+CREATE OR REPLACE FUNCTION booking_customer_id(p_user_id uuid, p_customer_email text)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF is_admin() THEN
+    RETURN COALESCE(
+      p_user_id,
+      (SELECT id FROM users WHERE lower(email) = lower(trim(p_customer_email)) LIMIT 1)
+    );
+  END IF;
+
+  IF p_user_id IS NOT NULL AND p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only admins can book for another customer'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN auth.uid();
+END;
+$$;
+
+DROP FUNCTION IF EXISTS create_booking(
+  text, date, time, text, text, text, text, text, numeric, text, integer, text, uuid[], boolean
+);
+
+CREATE FUNCTION create_booking(
+  p_workspace_type text,
+  p_date date,
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_status text DEFAULT 'pending',
+  p_desk_number integer DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_add_on_ids uuid[] DEFAULT NULL,
+  p_use_credits boolean DEFAULT false,
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_period record;
+  v_desk integer;
+  v_promo_code_id uuid;
+  v_booking bookings;
+  v_user_id uuid := booking_customer_id(p_user_id, p_customer_email);
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL AND NOT p_use_credits THEN
+    v_promo_code_id := find_promo_code_id(p_promo_code);
+  END IF;
+
+  SELECT * INTO v_period FROM booking_period(p_workspace_type, p_date, p_start_time, p_duration);
+
+  -- Serialise bookings for the same workspace; ranges can span many dates
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  -- Preferred desk when it is free, otherwise the first free desk
+  IF p_desk_number IS NOT NULL
+    AND booking_desk_is_free(p_workspace_type, p_desk_number, v_period.starts_at, v_period.ends_at) THEN
+    v_desk := p_desk_number;
+  ELSE
+    v_desk := booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at);
+  END IF;
+
+  IF v_desk IS NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'No desk is available for the selected dates and time.';
+  END IF;
+
+  -- total_price, discount_amount and add_ons_total are set by set_booking_total_price
+  INSERT INTO bookings (
+    workspace_type, starts_at, ends_at, duration,
+    customer_name, customer_email, customer_phone, customer_whatsapp,
+    total_price, status, user_id, desk_number, promo_code_id
+  ) VALUES (
+    p_workspace_type, v_period.starts_at, v_period.ends_at, p_duration,
+    p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+    p_total_price, p_status, v_user_id, v_desk, v_promo_code_id
+  )
+  RETURNING * INTO v_booking;
+
+  v_booking := add_booking_add_ons(v_booking.id, p_add_on_ids);
+
+  IF p_use_credits THEN
+    v_booking := pay_booking_with_credits(v_booking.id);
+  END IF;
+
+  RETURN v_booking;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'The selected desk was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_booking(
+  text, date, time, text, text, text, text, text, numeric, text, integer, text, uuid[], boolean, uuid
+) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS create_booking_series(
+  text, date[], time, text, text, text, text, text, numeric, text, smallint[], date, integer, text, integer, text, uuid[],
+  boolean
+);
+
+CREATE FUNCTION create_booking_series(
+  p_workspace_type text,
+  p_dates date[],
+  p_start_time time,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_total_price numeric,
+  p_frequency text,
+  p_weekdays smallint[],
+  p_until_date date,
+  p_occurrence_count integer,
+  p_status text DEFAULT 'pending',
+  p_desk_number integer DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_add_on_ids uuid[] DEFAULT NULL,
+  p_use_credits boolean DEFAULT false,
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conflicts text;
+  v_series_id uuid;
+  v_promo_code_id uuid;
+  v_date date;
+  v_period record;
+  v_desk integer := p_desk_number;
+  v_booking bookings;
+  v_user_id uuid := booking_customer_id(p_user_id, p_customer_email);
+BEGIN
+  IF p_status <> 'pending' AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings with status %', p_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(array_length(p_dates, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A series needs at least one date'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NULLIF(trim(p_promo_code), '') IS NOT NULL AND NOT p_use_credits THEN
+    v_promo_code_id := find_promo_code_id(p_promo_code);
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(p_workspace_type));
+
+  SELECT string_agg(to_char(c.conflict_date, 'FMMonth FMDD') || ' (' || c.reason || ')', ', ' ORDER BY c.conflict_date)
+  INTO v_conflicts
+  FROM booking_series_conflicts(p_workspace_type, p_dates, p_start_time, p_duration) c;
+
+  IF v_conflicts IS NOT NULL THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'These dates cannot be booked: ' || v_conflicts || '.';
+  END IF;
+
+  INSERT INTO booking_series (
+    user_id, workspace_type, start_time, duration, frequency, weekdays, until_date, occurrence_count
+  ) VALUES (
+    v_user_id, p_workspace_type, p_start_time, p_duration,
+    p_frequency, COALESCE(p_weekdays, '{}'), p_until_date, p_occurrence_count
+  )
+  RETURNING id INTO v_series_id;
+
+  FOREACH v_date IN ARRAY (SELECT array_agg(DISTINCT d ORDER BY d) FROM unnest(p_dates) AS d) LOOP
+    SELECT * INTO v_period FROM booking_period(p_workspace_type, v_date, p_start_time, p_duration);
+
+    -- Keep the desk of the previous occurrence while it is free
+    IF v_desk IS NULL
+      OR NOT booking_desk_is_free(p_workspace_type, v_desk, v_period.starts_at, v_period.ends_at) THEN
+      v_desk := booking_free_desk(p_workspace_type, v_period.starts_at, v_period.ends_at);
+    END IF;
+
+    -- Each occurrence redeems the promo code once, within its usage limits
+    INSERT INTO bookings (
+      workspace_type, starts_at, ends_at, duration,
+      customer_name, customer_email, customer_phone, customer_whatsapp,
+      total_price, status, user_id, desk_number, series_id, promo_code_id
+    ) VALUES (
+      p_workspace_type, v_period.starts_at, v_period.ends_at, p_duration,
+      p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+      p_total_price, p_status, v_user_id, v_desk, v_series_id, v_promo_code_id
+    )
+    RETURNING * INTO v_booking;
+
+    -- Every occurrence carries the same add-ons
+    v_booking := add_booking_add_ons(v_booking.id, p_add_on_ids);
+
+    -- and takes its own credits, so the whole series fails when the balance runs out
+    IF p_use_credits THEN
+      v_booking := pay_booking_with_credits(v_booking.id);
+    END IF;
+
+    RETURN NEXT v_booking;
+  END LOOP;
+EXCEPTION
+  WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'booking_conflict'
+      USING ERRCODE = 'BK409', DETAIL = 'A desk in this series was just booked by someone else.';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_booking_series(
+  text, date[], time, text, text, text, text, text, numeric, text, smallint[], date, integer, text, integer, text, uuid[],
+  boolean, uuid
+) TO anon, authenticated;